@@ -8,6 +8,15 @@ import type { HtmlTagType } from './types.js'
 // DOM traversal skip rules
 export const SKIP_TAGS = new Set(['script', 'style', 'noscript', 'textarea', 'code'])
 
+// Skipped tags that FORCE_TRANSLATE_ATTR can't opt back in (their content is code, not text)
+export const NEVER_TRANSLATE_TAGS = new Set(['script', 'style'])
+
+// Opt-out markup honoured without configuration: translate="no" (HTML standard) and class="notranslate"
+export const NOTRANSLATE_CLASS = 'notranslate'
+
+// data-pantolingo-translate="yes" forces translation inside skipped regions (e.g. comments in a <code> sample)
+export const FORCE_TRANSLATE_ATTR = 'data-pantolingo-translate'
+
 // HTML placeholder configuration for inline element grouping
 export const HTML_TAG_MAP: Record<string, HtmlTagType> = {
 	// Paired tags
@@ -91,16 +100,85 @@ export const BLOCK_TAGS = new Set([
 	'pre',
 ])
 
-// Attributes to translate
+// Attributes to translate (websites add their own, see getTranslateAttrRules in dom/utils.ts)
 export const TRANSLATE_ATTRS = ['title', 'placeholder', 'aria-label', 'alt']
 
+// Attributes websites can't add: they hold URLs, code, or markup identity (on* handlers too)
+export const RESERVED_TRANSLATE_ATTRS = new Set([
+	'href',
+	'src',
+	'srcset',
+	'action',
+	'formaction',
+	'style',
+	'class',
+	'id',
+	'name',
+	'type',
+	'rel',
+	'lang',
+])
+
+// Attributes websites can only add with a selector (e.g. input[type=submit]@value) - unscoped they'd
+// translate form values and every <meta> tag
+export const SELECTOR_REQUIRED_ATTRS = new Set(['value', 'content'])
+
+// Head <meta> tags whose content is translated (matched by name or property - sites use both)
+export const TRANSLATE_META = [
+	'description',
+	'keywords',
+	'og:title',
+	'og:description',
+	'og:image:alt',
+	'twitter:title',
+	'twitter:description',
+]
+
+// JSON-LD (schema.org) properties whose string values are translated
+// Nested nodes are walked, so FAQ acceptedAnswer/suggestedAnswer text and review bodies are covered
+export const TRANSLATE_STRUCTURED_DATA = [
+	'name',
+	'alternateName',
+	'description',
+	'disambiguatingDescription',
+	'headline',
+	'alternativeHeadline',
+	'abstract',
+	'text',
+	'caption',
+	'articleBody',
+	'reviewBody',
+	'slogan',
+]
+
+// JSON-LD node types whose name and alternateName are proper names (people, companies, brands - never translated)
+// e.g. a Product's brand.name and an Article's author.name keep their source value
+export const STRUCTURED_DATA_PROPER_NAME_TYPES = [
+	'Person',
+	'Organization',
+	'Corporation',
+	'LocalBusiness',
+	'NewsMediaOrganization',
+	'Brand',
+]
+
+// JSON-LD properties holding page URLs (rewritten to the translated host and pathname)
+export const STRUCTURED_DATA_URL_PROPS = ['url', '@id', 'item', 'mainEntityOfPage']
+
 // Google Translation API limits
 export const MAX_TRANSLATE_ITEMS = 128 // Max strings per request
 export const MAX_TRANSLATE_CHARS = 30000 // Max characters per request
 
+// Batched LLM request limits (many segments per prompt, bounded by output tokens)
+export const MAX_LLM_BATCH_ITEMS = 40 // Max strings per batched prompt
+export const MAX_LLM_BATCH_CHARS = 6000 // Max characters per batched prompt
+export const BATCH_RETRY_DELAY = 1_000 // 1s before retrying a failed batched LLM call
+
 // Timeout constants
 export const TIMEOUT_FETCHER = 5_000 // 5s for HTML fetches (fast failure)
 export const TIMEOUT_TRANSLATION = 10_000 // 10s for LLM calls (higher latency)
+export const TIMEOUT_TRANSLATION_BATCH = 30_000 // 30s for batched LLM calls (longer output)
+export const TIMEOUT_JSON_API_TRANSLATION = 3_000 // 3s wait for JSON API translations (then source text)
 
 // Development/debugging
 export const DEBUG_MODE = true // Set to false in production
@@ -3,12 +3,15 @@
  * Handles fire-and-forget translation of pathname cache misses.
  *
  * Key behavior for deferred mode:
- * - All path translations start in parallel
- * - Each translation writes to DB immediately on completion
+ * - Paths are packed into batched requests, all batches start in parallel
+ * - Each batch writes to DB immediately on completion
  * - On failure: cleans up in-flight store immediately (next page load retries)
  */
 
-import { translateSingle } from '../translation/translate.js'
+import { MAX_LLM_BATCH_CHARS, MAX_LLM_BATCH_ITEMS } from '../config.js'
+import { chunkStrings } from '../translation/deduplicator.js'
+import { translateItems } from '../translation/translate.js'
+import type { TranslationProvider } from '../translation/providers/index.js'
 import { replaceSkipWords, restoreSkipWords } from '../translation/skip-words.js'
 import { toAsciiPathname } from '../utils/ascii-pathname.js'
 import { batchUpsertPathnames, recordLlmUsage, type LlmUsageRecord, type TokenUsage } from '@pantolingo/db'
@@ -25,7 +28,7 @@ interface BackgroundPathTranslationParams {
 	sourceLang: string
 	uncachedPaths: UncachedPath[]
 	skipWords: string[]
-	apiKey: string
+	provider: TranslationProvider
 	context?: { host: string; pathname: string }
 }
 
@@ -33,59 +36,80 @@ interface BackgroundPathTranslationParams {
  * Start background translation of pathnames
  * This function is fire-and-forget - don't await it in the caller.
  *
- * Each path is translated in parallel and written to DB immediately on completion.
+ * Paths are translated in batches (in parallel) and each batch is written to DB immediately on completion.
  *
  * @param params - Translation parameters
  * @returns Promise that resolves when all translations complete (or fail)
  */
 export async function startBackgroundPathTranslation(params: BackgroundPathTranslationParams): Promise<void> {
-	const { websiteId, lang, sourceLang, uncachedPaths, skipWords, apiKey, context } = params
+	const { websiteId, lang, sourceLang, uncachedPaths, skipWords, provider, context } = params
 
 	// Aggregate usage stats for logging
 	const totalUsage: TokenUsage = { promptTokens: 0, completionTokens: 0, cost: 0 }
 	let successCount = 0
 	let failCount = 0
+	let apiCallCount = 0
+
+	// Apply skip words (preserve brand names like "eBay" in paths)
+	const prepared = uncachedPaths.map((path) => replaceSkipWords(path.normalized, skipWords))
+
+	// Chunk into batched requests, tracking each chunk's starting index
+	const chunks = chunkStrings(
+		prepared.map((p) => p.text),
+		MAX_LLM_BATCH_CHARS,
+		MAX_LLM_BATCH_ITEMS
+	)
+	let offset = 0
+	const chunkStarts = chunks.map((chunk) => {
+		const start = offset
+		offset += chunk.length
+		return start
+	})
 
-	// Process each path in parallel, writing to DB immediately on completion
-	const promises = uncachedPaths.map(async (path) => {
-		const inFlightKey = buildInFlightKey(websiteId, lang, path.normalized)
+	// Process each batch in parallel, writing to DB immediately on completion
+	const promises = chunks.map(async (chunk, c) => {
+		const start = chunkStarts[c]
 
 		try {
-			// Apply skip words (preserve brand names like "eBay" in paths)
-			const { text: textToTranslate, replacements: skipWordReplacements } = replaceSkipWords(
-				path.normalized,
-				skipWords
-			)
-
 			// Translate
-			const result = await translateSingle(textToTranslate, 'pathname', sourceLang, lang, apiKey)
-
-			if (result === null) {
-				// Translation failed - don't save to DB, next page load will retry
-				failCount++
-				return
+			const result = await translateItems(chunk, 'pathname', sourceLang, lang, provider)
+			apiCallCount += result.apiCallCount
+
+			// Failed items are not saved - next page load will retry
+			const rows: { original: string; translated: string }[] = []
+			for (let j = 0; j < chunk.length; j++) {
+				const translation = result.translations[j]
+				if (translation === null) {
+					failCount++
+					continue
+				}
+
+				// Restore skip words, then sanitize to ASCII-safe pathname
+				const withSkipWordsRestored = restoreSkipWords(translation, prepared[start + j].replacements)
+				rows.push({
+					original: uncachedPaths[start + j].normalized,
+					translated: toAsciiPathname(withSkipWordsRestored),
+				})
 			}
 
-			// Restore skip words in translation
-			const withSkipWordsRestored = restoreSkipWords(result.translation, skipWordReplacements)
-
-			// Sanitize to ASCII-safe pathname
-			const translated = toAsciiPathname(withSkipWordsRestored)
-
 			// Write to DB immediately
-			await batchUpsertPathnames(websiteId, lang, [{ original: path.normalized, translated }])
+			if (rows.length > 0) {
+				await batchUpsertPathnames(websiteId, lang, rows)
+			}
 
 			// Accumulate usage
 			totalUsage.promptTokens += result.usage.promptTokens
 			totalUsage.completionTokens += result.usage.completionTokens
 			totalUsage.cost += result.usage.cost
-			successCount++
+			successCount += rows.length
 		} catch (error) {
-			failCount++
-			console.error(`[Background Path] Path translation failed:`, error)
+			failCount += chunk.length
+			console.error(`[Background Path] Batch translation failed:`, error)
 		} finally {
 			// Always clean up in-flight store
-			deleteInFlight(inFlightKey)
+			for (let j = 0; j < chunk.length; j++) {
+				deleteInFlight(buildInFlightKey(websiteId, lang, uncachedPaths[start + j].normalized))
+			}
 		}
 	})
 
@@ -106,7 +130,7 @@ export async function startBackgroundPathTranslation(params: BackgroundPathTrans
 			promptTokens: totalUsage.promptTokens,
 			completionTokens: totalUsage.completionTokens,
 			cost: totalUsage.cost,
-			apiCalls: successCount,
+			apiCalls: apiCallCount,
 		}
 		recordLlmUsage([usageRecord])
 	}
@@ -3,16 +3,26 @@
  * Handles fire-and-forget translation of cache misses.
  *
  * Key behavior for deferred mode:
- * - All translations start in parallel
- * - Each translation writes to DB immediately on completion
+ * - Segments are packed into batched requests, all batches start in parallel
+ * - Each batch writes to DB immediately on completion
  * - Client can poll and receive partial results as they complete
  * - On failure: cleans up in-flight store immediately (next page load retries)
  */
 
 import type { Content } from '../types.js'
-import { translateSingle } from '../translation/translate.js'
-import { replaceSkipWords, restoreSkipWords } from '../translation/skip-words.js'
-import { batchUpsertTranslations, recordLlmUsage, type LlmUsageRecord, type TokenUsage } from '@pantolingo/db'
+import { MAX_LLM_BATCH_CHARS, MAX_LLM_BATCH_ITEMS } from '../config.js'
+import { chunkStrings } from '../translation/deduplicator.js'
+import { translateItems } from '../translation/translate.js'
+import type { TranslationProvider, TranslationTone } from '../translation/providers/index.js'
+import { replaceSkipWords, replaceSkipWordsInReferences, restoreSkipWords } from '../translation/skip-words.js'
+import {
+	batchUpsertTranslations,
+	batchGetFuzzyMatches,
+	recordLlmUsage,
+	type GlossaryTerm,
+	type LlmUsageRecord,
+	type TokenUsage,
+} from '@pantolingo/db'
 import { deleteInFlight, buildInFlightKey } from './in-flight-store.js'
 
 interface BackgroundTranslationParams {
@@ -22,7 +32,9 @@ interface BackgroundTranslationParams {
 	segments: Content[]
 	hashes: string[]
 	skipWords: string[]
-	apiKey: string
+	provider: TranslationProvider
+	tone: TranslationTone
+	glossary: GlossaryTerm[]
 	projectId: string
 	context?: { host: string; pathname: string }
 }
@@ -31,58 +43,96 @@ interface BackgroundTranslationParams {
  * Start background translation of segments
  * This function is fire-and-forget - don't await it in the caller.
  *
- * Each segment is translated in parallel and written to DB immediately on completion,
- * allowing the client to receive partial results via polling.
+ * Segments are translated in batches (in parallel) and each batch is written to DB
+ * immediately on completion, allowing the client to receive partial results via polling.
  *
  * @param params - Translation parameters
  * @returns Promise that resolves when all translations complete (or fail)
  */
 export async function startBackgroundSegmentTranslation(params: BackgroundTranslationParams): Promise<void> {
-	const { websiteId, lang, sourceLang, segments, hashes, skipWords, apiKey, context } = params
+	const { websiteId, lang, sourceLang, segments, hashes, skipWords, provider, tone, glossary, context } = params
 
 	// Aggregate usage stats for logging
 	const totalUsage: TokenUsage = { promptTokens: 0, completionTokens: 0, cost: 0 }
 	let successCount = 0
 	let failCount = 0
+	let apiCallCount = 0
 
-	// Process each segment in parallel, writing to DB immediately on completion
-	const promises = segments.map(async (segment, i) => {
-		const hash = hashes[i]
-		const inFlightKey = buildInFlightKey(websiteId, lang, hash)
+	// Apply skip words (patterns are already applied before caching)
+	const prepared = segments.map((segment) => replaceSkipWords(segment.value, skipWords))
 
-		try {
-			// Apply skip words (patterns are already applied before caching)
-			const { text: textToTranslate, replacements: skipWordReplacements } = replaceSkipWords(
-				segment.value,
-				skipWords
-			)
+	// Reviewed translations of similar segments, passed to the LLM as references
+	// Looked up by the text the LLM sees (skip words replaced), as on the in-request path
+	const fuzzyMatches = await batchGetFuzzyMatches(
+		websiteId,
+		lang,
+		prepared.map((p) => p.text)
+	)
+	const references = prepared.map((p) => replaceSkipWordsInReferences(fuzzyMatches.get(p.text) ?? [], skipWords))
+
+	// Chunk into batched requests, tracking each chunk's starting index
+	const chunks = chunkStrings(
+		prepared.map((p) => p.text),
+		MAX_LLM_BATCH_CHARS,
+		MAX_LLM_BATCH_ITEMS
+	)
+	let offset = 0
+	const chunkStarts = chunks.map((chunk) => {
+		const start = offset
+		offset += chunk.length
+		return start
+	})
+
+	// Process each batch in parallel, writing to DB immediately on completion
+	const promises = chunks.map(async (chunk, c) => {
+		const start = chunkStarts[c]
 
+		try {
 			// Translate
-			const result = await translateSingle(textToTranslate, 'segment', sourceLang, lang, apiKey, 'balanced')
+			const result = await translateItems(
+				chunk,
+				'segment',
+				sourceLang,
+				lang,
+				provider,
+				tone,
+				glossary,
+				references.slice(start, start + chunk.length)
+			)
+			apiCallCount += result.apiCallCount
 
-			if (result === null) {
-				// Translation failed - don't save to DB, next page load will retry
-				failCount++
-				return
+			// Restore skip words; failed items are not saved - next page load will retry
+			const rows: { original: string; translated: string }[] = []
+			for (let j = 0; j < chunk.length; j++) {
+				const translation = result.translations[j]
+				if (translation === null) {
+					failCount++
+					continue
+				}
+				rows.push({
+					original: segments[start + j].value,
+					translated: restoreSkipWords(translation, prepared[start + j].replacements),
+				})
 			}
 
-			// Restore skip words in translation
-			const translated = restoreSkipWords(result.translation, skipWordReplacements)
-
 			// Write to DB immediately
-			await batchUpsertTranslations(websiteId, lang, [{ original: segment.value, translated }])
+			if (rows.length > 0) {
+				await batchUpsertTranslations(websiteId, lang, rows)
+			}
 
 			// Accumulate usage
 			totalUsage.promptTokens += result.usage.promptTokens
 			totalUsage.completionTokens += result.usage.completionTokens
 			totalUsage.cost += result.usage.cost
-			successCount++
+			successCount += rows.length
 		} catch (error) {
-			failCount++
-			console.error(`[Background Segment] Segment translation failed:`, error)
+			failCount += chunk.length
+			console.error(`[Background Segment] Batch translation failed:`, error)
 		} finally {
 			// Always clean up in-flight store
-			deleteInFlight(inFlightKey)
+			for (let j = 0; j < chunk.length; j++) {
+				deleteInFlight(buildInFlightKey(websiteId, lang, hashes[start + j]))
+			}
 		}
 	})
 
@@ -103,7 +153,7 @@ export async function startBackgroundSegmentTranslation(params: BackgroundTransl
 			promptTokens: totalUsage.promptTokens,
 			completionTokens: totalUsage.completionTokens,
 			cost: totalUsage.cost,
-			apiCalls: successCount,
+			apiCalls: apiCallCount,
 		}
 		recordLlmUsage([usageRecord])
 	}
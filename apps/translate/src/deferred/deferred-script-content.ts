@@ -1,2 +1,2 @@
 // Auto-generated — do not edit. Source: deferred/deferred-script.ts
-export const DEFERRED_SCRIPT = "\"use strict\";(()=>{function L(t,a,i,s){let o=!1;if(i===\"html\"){let e=document.querySelectorAll(`[data-pantolingo-deferred=\"${t}\"]`);for(let n=0;n<e.length;n++)e[n].innerHTML=a,e[n].classList.remove(\"pantolingo-deferred-loading\"),e[n].removeAttribute(\"data-pantolingo-deferred\"),o=!0}else if(i===\"text\"){let e=document.createTreeWalker(document.body,NodeFilter.SHOW_COMMENT,{acceptNode:d=>d.data===`pantolingo-deferred:${t}`?NodeFilter.FILTER_ACCEPT:NodeFilter.FILTER_SKIP}),n=[],r;for(;r=e.nextNode();)n.push(r);for(let d of n){let m=d.nextSibling;if(m&&m.nodeType===Node.TEXT_NODE){let u=m.data,T=u.match(/^(\\s*)/)?.[1]||\"\",h=u.match(/(\\s*)$/)?.[1]||\"\";m.data=T+a+h;let f=m.parentElement;f?.classList.contains(\"pantolingo-deferred-loading\")&&(f.classList.remove(\"pantolingo-deferred-loading\"),f.removeAttribute(\"data-pantolingo-deferred\")),d.remove(),o=!0}}let c=document.querySelectorAll(`[data-pantolingo-deferred=\"${t}\"]:not(title)`);for(let d=0;d<c.length;d++)c[d].classList.remove(\"pantolingo-deferred-loading\"),c[d].removeAttribute(\"data-pantolingo-deferred\"),o=!0;let l=document.querySelector(`title[data-pantolingo-deferred=\"${t}\"]`);l&&(l.textContent=a,l.removeAttribute(\"data-pantolingo-deferred\"),o=!0)}else if(i===\"attr\"&&s){let e=document.querySelectorAll(`[data-pantolingo-deferred=\"${t}\"][data-pantolingo-deferred-attr=\"${s}\"]`);for(let n=0;n<e.length;n++)e[n].setAttribute(s,a),e[n].removeAttribute(\"data-pantolingo-deferred\"),e[n].removeAttribute(\"data-pantolingo-deferred-attr\"),o=!0}return o}function p(t){let{hash:a,kind:i,attr:s}=t;if(i===\"html\"){let o=document.querySelectorAll(`[data-pantolingo-deferred=\"${a}\"]`);for(let e=0;e<o.length;e++)o[e].classList.remove(\"pantolingo-deferred-loading\"),o[e].removeAttribute(\"data-pantolingo-deferred\")}else if(i===\"text\"){let o=document.createTreeWalker(document.body,NodeFilter.SHOW_COMMENT,{acceptNode:l=>l.data===`pantolingo-deferred:${a}`?NodeFilter.FILTER_ACCEPT:NodeFilter.FILTER_SKIP}),e=[],n;for(;n=o.nextNode();)e.push(n);for(let l of e){let d=l.parentElement;d?.classList.contains(\"pantolingo-deferred-loading\")&&(d.classList.remove(\"pantolingo-deferred-loading\"),d.removeAttribute(\"data-pantolingo-deferred\")),l.remove()}let r=document.querySelectorAll(`[data-pantolingo-deferred=\"${a}\"]:not(title)`);for(let l=0;l<r.length;l++)r[l].classList.remove(\"pantolingo-deferred-loading\"),r[l].removeAttribute(\"data-pantolingo-deferred\");let c=document.querySelector(`title[data-pantolingo-deferred=\"${a}\"]`);c&&c.removeAttribute(\"data-pantolingo-deferred\")}else if(i===\"attr\"&&s){let o=document.querySelectorAll(`[data-pantolingo-deferred=\"${a}\"][data-pantolingo-deferred-attr=\"${s}\"]`);for(let e=0;e<o.length;e++)o[e].removeAttribute(\"data-pantolingo-deferred\"),o[e].removeAttribute(\"data-pantolingo-deferred-attr\")}}function A(){let t=document.querySelectorAll(\".pantolingo-deferred-loading\");for(let a=0;a<t.length;a++)t[a].classList.remove(\"pantolingo-deferred-loading\"),t[a].removeAttribute(\"data-pantolingo-deferred\")}async function g(t,a,i){if(t.length===0||Date.now()-a>=12e3){for(let s of t)p(s);A();return}try{let s={segments:t.map(r=>({hash:r.hash,kind:r.kind,content:r.content,...r.attr?{attr:r.attr}:{}}))},o=await fetch(\"/__pantolingo/deferred\",{method:\"POST\",headers:{\"Content-Type\":\"application/json\"},body:JSON.stringify(s)});if(!o.ok)throw new Error(`HTTP ${o.status}`);let e=await o.json(),n=[];for(let r of t){let c=e[r.hash];c!==void 0?L(r.hash,c,r.kind,r.attr)||p(r):n.push(r)}if(n.length>0){let c=t.length-n.length===0?i+250:i;setTimeout(()=>{g(n,a,c)},c)}else A()}catch(s){console.error(\"[Pantolingo] Polling error:\",s),setTimeout(()=>{g(t,a,i)},i)}}function E(){let t=window.__PANTOLINGO_DEFERRED__;!t||t.length===0||setTimeout(()=>{g([...t],Date.now(),1500)},1e3)}document.readyState===\"loading\"?document.addEventListener(\"DOMContentLoaded\",E):E();})();"
+export const DEFERRED_SCRIPT = "\"use strict\";(()=>{function T(e,n){let i=(e.getAttribute(\"data-pantolingo-deferred-attrs\")||\"\").split(\" \").filter(a=>a&&a!==n);i.length>0?e.setAttribute(\"data-pantolingo-deferred-attrs\",i.join(\" \")):e.removeAttribute(\"data-pantolingo-deferred-attrs\")}function _(e,n,i,a){let l=!1;if(i===\"html\"){let t=document.querySelectorAll(`[data-pantolingo-deferred=\"${e}\"]`);for(let o=0;o<t.length;o++)t[o].innerHTML=n,t[o].classList.remove(\"pantolingo-deferred-loading\"),t[o].removeAttribute(\"data-pantolingo-deferred\"),l=!0}else if(i===\"text\"){let t=document.createTreeWalker(document.body,NodeFilter.SHOW_COMMENT,{acceptNode:s=>s.data===`pantolingo-deferred:${e}`?NodeFilter.FILTER_ACCEPT:NodeFilter.FILTER_SKIP}),o=[],r;for(;r=t.nextNode();)o.push(r);for(let s of o){let m=s.nextSibling;if(m&&m.nodeType===Node.TEXT_NODE){let u=m.data,h=u.match(/^(\\s*)/)?.[1]||\"\",L=u.match(/(\\s*)$/)?.[1]||\"\";m.data=h+n+L;let f=m.parentElement;f?.classList.contains(\"pantolingo-deferred-loading\")&&(f.classList.remove(\"pantolingo-deferred-loading\"),f.removeAttribute(\"data-pantolingo-deferred\")),s.remove(),l=!0}}let c=document.querySelectorAll(`[data-pantolingo-deferred=\"${e}\"]:not(title)`);for(let s=0;s<c.length;s++)c[s].classList.remove(\"pantolingo-deferred-loading\"),c[s].removeAttribute(\"data-pantolingo-deferred\"),l=!0;let d=document.querySelector(`title[data-pantolingo-deferred=\"${e}\"]`);d&&(d.textContent=n,d.removeAttribute(\"data-pantolingo-deferred\"),l=!0)}else if(i===\"attr\"&&a){let t=document.querySelectorAll(`[data-pantolingo-deferred-attrs~=\"${e}:${a}\"]`);for(let o=0;o<t.length;o++)t[o].setAttribute(a,n),T(t[o],`${e}:${a}`),l=!0}return l}function p(e){let{hash:n,kind:i,attr:a}=e;if(i===\"html\"){let l=document.querySelectorAll(`[data-pantolingo-deferred=\"${n}\"]`);for(let t=0;t<l.length;t++)l[t].classList.remove(\"pantolingo-deferred-loading\"),l[t].removeAttribute(\"data-pantolingo-deferred\")}else if(i===\"text\"){let l=document.createTreeWalker(document.body,NodeFilter.SHOW_COMMENT,{acceptNode:d=>d.data===`pantolingo-deferred:${n}`?NodeFilter.FILTER_ACCEPT:NodeFilter.FILTER_SKIP}),t=[],o;for(;o=l.nextNode();)t.push(o);for(let d of t){let s=d.parentElement;s?.classList.contains(\"pantolingo-deferred-loading\")&&(s.classList.remove(\"pantolingo-deferred-loading\"),s.removeAttribute(\"data-pantolingo-deferred\")),d.remove()}let r=document.querySelectorAll(`[data-pantolingo-deferred=\"${n}\"]:not(title)`);for(let d=0;d<r.length;d++)r[d].classList.remove(\"pantolingo-deferred-loading\"),r[d].removeAttribute(\"data-pantolingo-deferred\");let c=document.querySelector(`title[data-pantolingo-deferred=\"${n}\"]`);c&&c.removeAttribute(\"data-pantolingo-deferred\")}else if(i===\"attr\"&&a){let l=document.querySelectorAll(`[data-pantolingo-deferred-attrs~=\"${n}:${a}\"]`);for(let t=0;t<l.length;t++)T(l[t],`${n}:${a}`)}}function A(){let e=document.querySelectorAll(\".pantolingo-deferred-loading\");for(let n=0;n<e.length;n++)e[n].classList.remove(\"pantolingo-deferred-loading\"),e[n].removeAttribute(\"data-pantolingo-deferred\")}async function g(e,n,i){if(e.length===0||Date.now()-n>=12e3){for(let a of e)p(a);A();return}try{let a={segments:e.map(r=>({hash:r.hash,kind:r.kind,content:r.content,...r.attr?{attr:r.attr}:{}}))},l=await fetch(\"/__pantolingo/deferred\",{method:\"POST\",headers:{\"Content-Type\":\"application/json\"},body:JSON.stringify(a)});if(!l.ok)throw new Error(`HTTP ${l.status}`);let t=await l.json(),o=[];for(let r of e){let c=t[r.hash];c!==void 0?_(r.hash,c,r.kind,r.attr)||p(r):o.push(r)}if(o.length>0){let c=e.length-o.length===0?i+250:i;setTimeout(()=>{g(o,n,c)},c)}else A()}catch(a){console.error(\"[Pantolingo] Polling error:\",a),setTimeout(()=>{g(e,n,i)},i)}}function E(){let e=window.__PANTOLINGO_DEFERRED__;!e||e.length===0||setTimeout(()=>{g([...e],Date.now(),1500)},1e3)}document.readyState===\"loading\"?document.addEventListener(\"DOMContentLoaded\",E):E();})();"
@@ -23,6 +23,9 @@
  *   { hash: 'def456', kind: 'text', content: 'Hello' },
  *   { hash: 'ghi789', kind: 'attr', content: 'Search', attr: 'placeholder' },
  * ]
+ *
+ * Pending attributes are marked as a space-separated list of hash:attr pairs, since one element
+ * can have several (e.g. <input data-pantolingo-deferred-attrs="ghi789:placeholder jkl012:title">)
  */
 
 // Type definitions for the deferred script
@@ -44,6 +47,19 @@ const BASE_INTERVAL = 1500 // 1.5s between polls
 const BACKOFF_INCREMENT = 250 // +0.25s on zero results
 const MAX_POLL_TIME = 12000 // 12s max total polling time
 
+/**
+ * Remove a resolved hash:attr pair from an element's pending attribute list
+ * (elements can have several pending attributes)
+ */
+function unmarkAttr(elem: Element, pair: string): void {
+	const pairs = (elem.getAttribute('data-pantolingo-deferred-attrs') || '').split(' ').filter(p => p && p !== pair)
+	if (pairs.length > 0) {
+		elem.setAttribute('data-pantolingo-deferred-attrs', pairs.join(' '))
+	} else {
+		elem.removeAttribute('data-pantolingo-deferred-attrs')
+	}
+}
+
 /**
  * Find ALL elements by hash and apply translation
  * Returns true if at least one element was updated
@@ -121,12 +137,11 @@ function applyTranslation(hash: string, translation: string, kind: 'html' | 'tex
 			found = true
 		}
 	} else if (kind === 'attr' && attr) {
-		// Attribute segment: find ALL elements and update attribute
-		const elems = document.querySelectorAll(`[data-pantolingo-deferred="${hash}"][data-pantolingo-deferred-attr="${attr}"]`)
+		// Attribute segment: find ALL elements with the hash:attr pair and update attribute
+		const elems = document.querySelectorAll(`[data-pantolingo-deferred-attrs~="${hash}:${attr}"]`)
 		for (let i = 0; i < elems.length; i++) {
 			elems[i].setAttribute(attr, translation)
-			elems[i].removeAttribute('data-pantolingo-deferred')
-			elems[i].removeAttribute('data-pantolingo-deferred-attr')
+			unmarkAttr(elems[i], `${hash}:${attr}`)
 			found = true
 		}
 	}
@@ -192,10 +207,9 @@ function showOriginal(segment: PendingSegment): void {
 		}
 	} else if (kind === 'attr' && attr) {
 		// Clear ALL matching attr elements
-		const elems = document.querySelectorAll(`[data-pantolingo-deferred="${hash}"][data-pantolingo-deferred-attr="${attr}"]`)
+		const elems = document.querySelectorAll(`[data-pantolingo-deferred-attrs~="${hash}:${attr}"]`)
 		for (let i = 0; i < elems.length; i++) {
-			elems[i].removeAttribute('data-pantolingo-deferred')
-			elems[i].removeAttribute('data-pantolingo-deferred-attr')
+			unmarkAttr(elems[i], `${hash}:${attr}`)
 		}
 	}
 }
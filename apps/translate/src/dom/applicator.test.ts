@@ -116,6 +116,29 @@ describe('applyTranslations with skipSelectors', () => {
 			expect(images[0].getAttribute('alt')).toBe('Descripción de imagen')
 			expect(images[1].getAttribute('alt')).toBe('Skipped description') // Unchanged
 		})
+
+		it('applies translations to website-configured attributes in extraction order', () => {
+			const doc = createDocument(`
+				<button title="Save" data-tooltip="Saves your draft">Save</button>
+				<optgroup label="Fruits"></optgroup>
+			`)
+			const translateAttrs = ['data-tooltip', 'optgroup@label']
+			const segments = extractSegments(doc, [], translateAttrs)
+			expect(segments.filter((s) => s.kind === 'attr').map((s) => [s.attr, s.value])).toEqual([
+				['title', 'Save'],
+				['data-tooltip', 'Saves your draft'],
+				['label', 'Fruits'],
+			])
+
+			const translations = segments.map((s) =>
+				s.value === 'Saves your draft' ? 'Guarda tu borrador' : s.value === 'Fruits' ? 'Frutas' : 'Guardar'
+			)
+			applyTranslations(doc, translations, segments, [], undefined, translateAttrs)
+
+			expect(doc.querySelector('button')?.getAttribute('title')).toBe('Guardar')
+			expect(doc.querySelector('button')?.getAttribute('data-tooltip')).toBe('Guarda tu borrador')
+			expect(doc.querySelector('optgroup')?.getAttribute('label')).toBe('Frutas')
+		})
 	})
 
 	describe('head elements', () => {
@@ -157,6 +180,27 @@ describe('applyTranslations with skipSelectors', () => {
 			expect(doc.querySelector('title')?.textContent).toBe('Keep Title') // Unchanged
 			expect(doc.querySelector('p')?.textContent).toBe('Cuerpo')
 		})
+
+		it('applies translations to social meta tags and skips marked ones', () => {
+			const doc = createDocument(
+				'<p>Body</p>',
+				`<meta name="description" content="Desc" />
+				<meta property="og:title" content="OG Title" class="notranslate" />
+				<meta property="og:description" content="OG Desc" />
+				<meta name="twitter:title" content="Card Title" />`
+			)
+			const skipSelectors = ['.notranslate']
+			const segments = extractSegments(doc, skipSelectors)
+			expect(segments.map((s) => s.value)).toEqual(['Desc', 'OG Desc', 'Card Title', 'Body'])
+
+			applyTranslations(doc, ['Descripción', 'Descripción OG', 'Título de tarjeta', 'Cuerpo'], segments, skipSelectors)
+
+			expect(doc.querySelector('meta[name="description"]')?.getAttribute('content')).toBe('Descripción')
+			expect(doc.querySelector('meta[property="og:title"]')?.getAttribute('content')).toBe('OG Title') // Unchanged
+			expect(doc.querySelector('meta[property="og:description"]')?.getAttribute('content')).toBe('Descripción OG')
+			expect(doc.querySelector('meta[name="twitter:title"]')?.getAttribute('content')).toBe('Título de tarjeta')
+			expect(doc.querySelector('p')?.textContent).toBe('Cuerpo')
+		})
 	})
 
 	describe('custom selectors', () => {
@@ -180,7 +224,7 @@ describe('applyTranslations with skipSelectors', () => {
 
 	describe('empty selectors', () => {
 		it('applies all translations when no selectors provided', () => {
-			const doc = createDocument('<p class="notranslate">First</p><p>Second</p>')
+			const doc = createDocument('<p class="brand">First</p><p>Second</p>')
 			const skipSelectors: string[] = []
 			const segments = extractSegments(doc, skipSelectors)
 			// Both segments should be extracted
@@ -285,8 +329,22 @@ describe('applyTranslations deferred mode', () => {
 
 			// Check DOM was marked
 			const img = doc.querySelector('img')
-			expect(img?.getAttribute('data-pantolingo-deferred')).toBe('hash1')
-			expect(img?.getAttribute('data-pantolingo-deferred-attr')).toBe('alt')
+			expect(img?.getAttribute('data-pantolingo-deferred-attrs')).toBe('hash1:alt')
+		})
+
+		it('records every pending attribute of an element', () => {
+			const doc = createDocument('<input title="Search the site" placeholder="Search">')
+			const skipSelectors: string[] = []
+			const segments = extractSegments(doc, skipSelectors)
+			const translations: (string | null)[] = [null, null]
+			const hashes = ['hash1', 'hash2']
+
+			const result = applyTranslations(doc, translations, segments, skipSelectors, hashes) as ApplyTranslationsResult
+
+			expect(result.pending.map((segment) => segment.attr)).toEqual(['title', 'placeholder'])
+			const input = doc.querySelector('input')
+			expect(input?.getAttribute('data-pantolingo-deferred-attrs')).toBe('hash1:title hash2:placeholder')
+			expect(input?.hasAttribute('data-pantolingo-deferred')).toBe(false)
 		})
 
 		it('handles mixed cached and pending translations', () => {
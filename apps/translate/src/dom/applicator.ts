@@ -5,10 +5,26 @@
  * Supports deferred mode: marks cache misses (null translations) as pending
  */
 
-import { TRANSLATE_ATTRS } from '../config.js'
+import { TRANSLATE_STRUCTURED_DATA, STRUCTURED_DATA_PROPER_NAME_TYPES } from '../config.js'
 import type { Content } from '../types.js'
 import { placeholdersToHtml } from './placeholders.js'
-import { shouldSkipNode, isInsideGroupedElement } from './utils.js'
+import {
+	shouldSkipNode,
+	isInsideGroupedElement,
+	getTranslatableMetaElements,
+	getTranslateAttrRules,
+	getTranslatableAttrs,
+	hasOptInDescendants,
+	type TranslateAttrRule,
+} from './utils.js'
+import {
+	getStructuredDataScripts,
+	parseStructuredData,
+	serializeStructuredData,
+	collectStructuredDataStrings,
+	setStructuredDataString,
+} from './structured-data.js'
+import { getEmbeddedJson, collectEmbeddedJsonStrings, writeEmbeddedJson } from './embedded-json.js'
 
 /**
  * Information about a pending segment (cache miss) for client-side polling
@@ -59,6 +75,20 @@ function isSoleChild(node: Node): boolean {
 	return contentChildCount === 1
 }
 
+/**
+ * Mark a pending attribute for the deferred script
+ * Elements can have several pending attributes (e.g. title and aria-label), so each is recorded as a
+ * hash:attr pair in a space-separated list
+ */
+function markPendingAttr(elem: Element, hash: string, attr: string): void {
+	const pairs = (elem.getAttribute('data-pantolingo-deferred-attrs') ?? '').split(' ').filter(Boolean)
+	const pair = `${hash}:${attr}`
+	if (!pairs.includes(pair)) {
+		pairs.push(pair)
+	}
+	elem.setAttribute('data-pantolingo-deferred-attrs', pairs.join(' '))
+}
+
 /**
  * Apply translations to grouped HTML segments
  * Uses element references from htmlMeta to set innerHTML directly
@@ -145,7 +175,7 @@ function applyToTextNodes(
 	pending?: PendingSegment[],
 	document?: Document
 ): void {
-	if (shouldSkipNode(node, skipSelectors)) {
+	if (shouldSkipNode(node, skipSelectors) && !hasOptInDescendants(node)) {
 		return
 	}
 
@@ -211,6 +241,7 @@ function applyToTextNodes(
  * @param segments - Original extracted segments with whitespace metadata
  * @param indexRef - Object containing mutable index (passed by reference)
  * @param skipSelectors - CSS selectors for elements to skip
+ * @param attrRules - Translatable attribute rules (built-in and website-configured)
  * @param hashes - Hash array (only provided in deferred mode)
  * @param pending - Pending segments array to populate
  */
@@ -220,6 +251,7 @@ function applyToAttributes(
 	segments: Content[],
 	indexRef: { index: number },
 	skipSelectors: string[],
+	attrRules: TranslateAttrRule[],
 	hashes?: string[],
 	pending?: PendingSegment[]
 ): void {
@@ -232,35 +264,32 @@ function applyToAttributes(
 			continue
 		}
 
-		for (const attr of TRANSLATE_ATTRS) {
-			const value = elem.getAttribute(attr)
-			if (value && value.trim().length > 0) {
-				if (indexRef.index < translations.length) {
-					const translation = translations[indexRef.index]
-					const segment = segments[indexRef.index]
-					const hash = hashes?.[indexRef.index]
-
-					if (translation === null && hash && pending) {
-						// Deferred mode: cache miss - mark as pending
-						// Attributes can't show skeleton, so just mark with data attribute
-						elem.setAttribute('data-pantolingo-deferred', hash)
-						elem.setAttribute('data-pantolingo-deferred-attr', attr)
-
-						pending.push({
-							hash,
-							kind: 'attr',
-							content: value,
-							attr,
-							showSkeleton: false,
-						})
-					} else if (translation !== null) {
-						// Normal mode or cache hit: apply translation
-						const final = segment?.ws ? segment.ws.leading + translation + segment.ws.trailing : translation
-						elem.setAttribute(attr, final)
-					}
+		for (const attr of getTranslatableAttrs(elem, attrRules)) {
+			const value = elem.getAttribute(attr)!
+			if (indexRef.index < translations.length) {
+				const translation = translations[indexRef.index]
+				const segment = segments[indexRef.index]
+				const hash = hashes?.[indexRef.index]
+
+				if (translation === null && hash && pending) {
+					// Deferred mode: cache miss - mark as pending
+					// Attributes can't show skeleton, so just mark with data attribute
+					markPendingAttr(elem, hash, attr)
 
-					indexRef.index++
+					pending.push({
+						hash,
+						kind: 'attr',
+						content: value,
+						attr,
+						showSkeleton: false,
+					})
+				} else if (translation !== null) {
+					// Normal mode or cache hit: apply translation
+					const final = segment?.ws ? segment.ws.leading + translation + segment.ws.trailing : translation
+					elem.setAttribute(attr, final)
 				}
+
+				indexRef.index++
 			}
 		}
 	}
@@ -320,8 +349,8 @@ function applyHeadTitle(
 }
 
 /**
- * Apply translation to <meta name="description"> content attribute
- * MUST be second in application order, matching extraction order
+ * Apply translations to translatable <meta> content (description, keywords, Open Graph, Twitter card)
+ * MUST follow the title in application order, matching extraction order
  * @param document - linkedom Document object
  * @param translations - Translation strings array (null for cache miss)
  * @param segments - Original extracted segments with whitespace metadata
@@ -330,7 +359,7 @@ function applyHeadTitle(
  * @param hashes - Hash array (only provided in deferred mode)
  * @param pending - Pending segments array to populate
  */
-function applyHeadDescription(
+function applyHeadMeta(
 	document: Document,
 	translations: (string | null)[],
 	segments: Content[],
@@ -339,38 +368,125 @@ function applyHeadDescription(
 	hashes?: string[],
 	pending?: PendingSegment[]
 ): void {
-	const descElement = document.querySelector('meta[name="description"]')
-	// Skip if element should be skipped
-	if (!descElement || shouldSkipNode(descElement, skipSelectors)) {
-		return
+	for (const metaElement of getTranslatableMetaElements(document, skipSelectors)) {
+		if (indexRef.index >= translations.length) {
+			return
+		}
+
+		const content = metaElement.getAttribute('content')!
+		const translation = translations[indexRef.index]
+		const segment = segments[indexRef.index]
+		const hash = hashes?.[indexRef.index]
+
+		if (translation === null && hash && pending) {
+			// Deferred mode: cache miss - mark as pending
+			markPendingAttr(metaElement, hash, 'content')
+
+			pending.push({
+				hash,
+				kind: 'attr',
+				content,
+				attr: 'content',
+				showSkeleton: false,
+			})
+		} else if (translation !== null) {
+			// Normal mode or cache hit: apply translation
+			const final = segment?.ws ? segment.ws.leading + translation + segment.ws.trailing : translation
+			metaElement.setAttribute('content', final)
+		}
+
+		indexRef.index++
 	}
-	const content = descElement.getAttribute('content')
-	if (content && content.trim().length > 0) {
-		if (indexRef.index < translations.length) {
+}
+
+/**
+ * Apply translations to JSON-LD structured data and re-serialize changed scripts
+ * MUST be last in application order, matching extraction order
+ * Cache misses are not marked pending: the script is only read by crawlers, which
+ * get the translated values on a later request once background translation finishes
+ * @param document - linkedom Document object
+ * @param translations - Translation strings array (null for cache miss)
+ * @param segments - Original extracted segments with whitespace metadata
+ * @param indexRef - Object containing mutable index (passed by reference)
+ * @param skipSelectors - CSS selectors for elements to skip
+ */
+function applyStructuredData(
+	document: Document,
+	translations: (string | null)[],
+	segments: Content[],
+	indexRef: { index: number },
+	skipSelectors: string[]
+): void {
+	for (const script of getStructuredDataScripts(document, skipSelectors)) {
+		const data = parseStructuredData(script)
+		let changed = false
+		const refs = collectStructuredDataStrings(data, TRANSLATE_STRUCTURED_DATA, STRUCTURED_DATA_PROPER_NAME_TYPES)
+
+		for (const ref of refs) {
+			if (indexRef.index >= translations.length) {
+				return
+			}
+
 			const translation = translations[indexRef.index]
 			const segment = segments[indexRef.index]
-			const hash = hashes?.[indexRef.index]
 
-			if (translation === null && hash && pending) {
-				// Deferred mode: cache miss - mark as pending
-				descElement.setAttribute('data-pantolingo-deferred', hash)
-				descElement.setAttribute('data-pantolingo-deferred-attr', 'content')
+			if (translation !== null) {
+				const final = segment?.ws ? segment.ws.leading + translation + segment.ws.trailing : translation
+				setStructuredDataString(ref, final)
+				changed = true
+			}
 
-				pending.push({
-					hash,
-					kind: 'attr',
-					content,
-					attr: 'content',
-					showSkeleton: false,
-				})
-			} else if (translation !== null) {
-				// Normal mode or cache hit: apply translation
+			indexRef.index++
+		}
+
+		if (changed) {
+			script.textContent = serializeStructuredData(data)
+		}
+	}
+}
+
+/**
+ * Apply translations to embedded JSON state scripts and re-serialize them
+ * MUST use identical order as extractEmbeddedJson in dom-extractor
+ * Cache misses keep their source values (not marked pending, like JSON-LD)
+ * @param document - linkedom Document object
+ * @param translations - Translation strings array (null for cache miss)
+ * @param segments - Original extracted segments with whitespace metadata
+ * @param indexRef - Object containing mutable index (passed by reference)
+ * @param skipSelectors - CSS selectors for elements to skip
+ * @param translateJson - Website-configured JSON paths
+ */
+function applyEmbeddedJson(
+	document: Document,
+	translations: (string | null)[],
+	segments: Content[],
+	indexRef: { index: number },
+	skipSelectors: string[],
+	translateJson: string[]
+): void {
+	for (const embedded of getEmbeddedJson(document, skipSelectors, translateJson)) {
+		let changed = false
+
+		for (const ref of collectEmbeddedJsonStrings(embedded, translateJson)) {
+			if (indexRef.index >= translations.length) {
+				break
+			}
+
+			const translation = translations[indexRef.index]
+			const segment = segments[indexRef.index]
+
+			if (translation !== null) {
 				const final = segment?.ws ? segment.ws.leading + translation + segment.ws.trailing : translation
-				descElement.setAttribute('content', final)
+				setStructuredDataString(ref, final)
+				changed = true
 			}
 
 			indexRef.index++
 		}
+
+		if (changed) {
+			writeEmbeddedJson(embedded)
+		}
 	}
 }
 
@@ -389,6 +505,8 @@ function applyHeadDescription(
  * @param segments - Original extracted segments with whitespace metadata
  * @param skipSelectors - CSS selectors for elements to skip
  * @param hashes - Optional array of hashes for deferred mode
+ * @param translateAttrs - Website-configured attributes to translate (must match extraction)
+ * @param translateJson - Website-configured JSON paths into embedded JSON state (must match extraction)
  * @returns Number of translations applied (legacy), or ApplyTranslationsResult in deferred mode
  */
 export function applyTranslations(
@@ -396,7 +514,9 @@ export function applyTranslations(
 	translations: (string | null)[],
 	segments: Content[],
 	skipSelectors: string[],
-	hashes?: string[]
+	hashes?: string[],
+	translateAttrs: string[] = [],
+	translateJson: string[] = []
 ): number | ApplyTranslationsResult {
 	// Use object to maintain index reference across function calls
 	const indexRef = { index: 0 }
@@ -409,7 +529,7 @@ export function applyTranslations(
 
 	// Apply to head metadata first (must be identical order as extraction)
 	applyHeadTitle(document, translations, segments, indexRef, skipSelectors, hashes, pending)
-	applyHeadDescription(document, translations, segments, indexRef, skipSelectors, hashes, pending)
+	applyHeadMeta(document, translations, segments, indexRef, skipSelectors, hashes, pending)
 
 	// Apply to grouped HTML blocks (must be before text nodes, matching extraction order)
 	applyToGroupedBlocks(translations, segments, indexRef, groupedElements, hashes, pending)
@@ -420,7 +540,22 @@ export function applyTranslations(
 	}
 
 	// Apply to attributes (must be identical order as extraction)
-	applyToAttributes(document, translations, segments, indexRef, skipSelectors, hashes, pending)
+	applyToAttributes(
+		document,
+		translations,
+		segments,
+		indexRef,
+		skipSelectors,
+		getTranslateAttrRules(translateAttrs),
+		hashes,
+		pending
+	)
+
+	// Apply to JSON-LD structured data (extracted last)
+	applyStructuredData(document, translations, segments, indexRef, skipSelectors)
+
+	// Apply to embedded JSON state (extracted after JSON-LD)
+	applyEmbeddedJson(document, translations, segments, indexRef, skipSelectors, translateJson)
 
 	// Return full result in deferred mode, just count for legacy mode
 	if (hashes) {
@@ -0,0 +1,82 @@
+/**
+ * Tests for embedded JSON state translation
+ * Verifies path selection, extraction order after JSON-LD, and re-serialization of translated state
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseHTML } from 'linkedom'
+import { extractSegments } from './extractor.js'
+import { applyTranslations } from './applicator.js'
+import { getEmbeddedJson, collectEmbeddedJsonStrings } from './embedded-json.js'
+
+const nextData = {
+	props: {
+		pageProps: {
+			hero: { title: 'Fast checkout', href: '/pricing' },
+			features: [{ title: 'Secure' }, { title: 'Global', icon: 'globe' }],
+		},
+	},
+	page: '/',
+}
+
+// Helper to create a document with the given head scripts
+function createDocument(headHtml: string, bodyHtml = '<p>Hello</p>'): Document {
+	const { document } = parseHTML(`<!DOCTYPE html><html><head>${headHtml}</head><body>${bodyHtml}</body></html>`)
+	return document
+}
+
+function nextDataScript(data: unknown = nextData): string {
+	return `<script id="__NEXT_DATA__" type="application/json">${JSON.stringify(data)}</script>`
+}
+
+describe('embedded JSON selection', () => {
+	it('selects string values by path with * and ** wildcards', () => {
+		const document = createDocument(nextDataScript())
+		const [embedded] = getEmbeddedJson(document, [], ['__NEXT_DATA__.props.pageProps.**.title'])
+
+		const values = collectEmbeddedJsonStrings(embedded, ['__NEXT_DATA__.props.pageProps.**.title'])
+		expect(values.map((v) => v.value)).toEqual(['Fast checkout', 'Secure', 'Global'])
+
+		const heroOnly = collectEmbeddedJsonStrings(embedded, ['__NEXT_DATA__.props.*.hero.title'])
+		expect(heroOnly.map((v) => v.value)).toEqual(['Fast checkout'])
+	})
+
+	it('matches window assignments by variable name and skips scripts that are not JSON', () => {
+		const document = createDocument(
+			'<script>window.__INITIAL_STATE__ = {"banner":{"text":"Free shipping"}};</script>' +
+				'<script>window.__NUXT__=(function(a){return {title:a}}("Hi"))</script>' +
+				'<script type="application/json" class="notranslate">{"text":"Skipped"}</script>'
+		)
+
+		const embedded = getEmbeddedJson(document, [], ['*.**.text', '__NUXT__.title'])
+		expect(embedded.map((e) => e.name)).toEqual(['__INITIAL_STATE__'])
+	})
+
+	it('does nothing without configured paths', () => {
+		expect(getEmbeddedJson(createDocument(nextDataScript()), [], [])).toEqual([])
+	})
+})
+
+describe('embedded JSON translation', () => {
+	it('extracts values after DOM segments and writes translations back', () => {
+		const document = createDocument(
+			nextDataScript() + '<script>window.__INITIAL_STATE__={"banner":{"text":"Free shipping"}}</script>'
+		)
+		const translateJson = ['__NEXT_DATA__.props.pageProps.hero.title', '__INITIAL_STATE__.banner.text']
+		const segments = extractSegments(document, [], [], translateJson)
+
+		expect(segments.map((s) => [s.kind, s.value])).toEqual([
+			['html', 'Hello'],
+			['data', 'Fast checkout'],
+			['data', 'Free shipping'],
+		])
+
+		applyTranslations(document, ['Hola', 'Pago rápido', 'Envío </script> gratis'], segments, [], undefined, [], translateJson)
+
+		const [nextScript, stateScript] = Array.from(document.querySelectorAll('script'))
+		const data = JSON.parse(nextScript.textContent ?? '')
+		expect(data.props.pageProps.hero).toEqual({ title: 'Pago rápido', href: '/pricing' })
+		expect(data.page).toBe('/')
+		expect(stateScript.textContent).toBe('window.__INITIAL_STATE__={"banner":{"text":"Envío \\u003c/script> gratis"}};')
+	})
+})
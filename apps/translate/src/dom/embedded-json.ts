@@ -0,0 +1,186 @@
+/**
+ * Embedded JSON state translation
+ * SPA frameworks ship page copy as JSON in <script> tags (__NEXT_DATA__, <script type="application/json">)
+ * or window assignments (window.__INITIAL_STATE__ = {...}) and hydrate from it. Translating the values
+ * selected by the website's JSON paths lets the framework render translated content itself,
+ * instead of reverting the server-translated DOM during hydration
+ *
+ * Path syntax: <root>.<key>.<key>...
+ * - root: the script id (e.g. __NEXT_DATA__), the window variable name, or * for any embedded JSON
+ * - key: an object key or array index; * matches any one key, ** matches any number of keys
+ * Example: __NEXT_DATA__.props.pageProps.**.title
+ */
+
+import { shouldSkipScript } from './utils.js'
+import { serializeStructuredData, type StructuredDataString } from './structured-data.js'
+
+/**
+ * A parsed embedded JSON script
+ */
+export interface EmbeddedJson {
+	script: Element
+	/** Script id or window variable name ('' if the script has neither) */
+	name: string
+	data: unknown
+	/** Window variable for `window.NAME = {...}` scripts (re-serialized as an assignment) */
+	assignment: boolean
+}
+
+/**
+ * A parsed JSON path
+ */
+interface JsonPath {
+	root: string
+	keys: string[]
+}
+
+// Classic scripts consisting of a single `window.NAME = <JSON object or array>` assignment
+const WINDOW_ASSIGNMENT_PATTERN = /^\s*window\.([A-Za-z_$][\w$]*)\s*=\s*([[{][\s\S]*[\]}])\s*;?\s*$/
+
+/**
+ * Parse configured JSON paths (malformed entries are ignored)
+ * @param entries - Website-configured paths (from database config)
+ */
+function parseJsonPaths(entries: string[]): JsonPath[] {
+	const paths: JsonPath[] = []
+
+	for (const entry of entries) {
+		const [root, ...keys] = entry.trim().split('.')
+		if (!root || keys.length === 0 || keys.some((key) => key.length === 0)) continue
+		paths.push({ root, keys })
+	}
+
+	return paths
+}
+
+/**
+ * Check if a key path matches a pattern (* = one key, ** = any number of keys)
+ */
+function matchesKeys(pattern: string[], keys: string[], i = 0, j = 0): boolean {
+	if (i === pattern.length) {
+		return j === keys.length
+	}
+	if (pattern[i] === '**') {
+		for (let k = j; k <= keys.length; k++) {
+			if (matchesKeys(pattern, keys, i + 1, k)) return true
+		}
+		return false
+	}
+	return j < keys.length && (pattern[i] === '*' || pattern[i] === keys[j]) && matchesKeys(pattern, keys, i + 1, j + 1)
+}
+
+/**
+ * Parse the embedded JSON scripts that any configured path can select, in document order
+ * Scripts whose JSON doesn't parse (e.g. window.__NUXT__ = (function(){...})()) are left alone
+ * @param document - linkedom Document object
+ * @param skipSelectors - CSS selectors for elements to skip
+ * @param jsonPaths - Website-configured JSON paths
+ * @returns Parsed scripts (empty when no paths are configured)
+ */
+export function getEmbeddedJson(document: Document, skipSelectors: string[], jsonPaths: string[]): EmbeddedJson[] {
+	const roots = new Set(parseJsonPaths(jsonPaths).map((path) => path.root))
+	if (roots.size === 0) {
+		return []
+	}
+
+	const embedded: EmbeddedJson[] = []
+	const scripts = document.querySelectorAll('script')
+
+	for (let i = 0; i < scripts.length; i++) {
+		const script = scripts[i] as Element
+		const type = (script.getAttribute('type') ?? '').trim().toLowerCase()
+		const text = script.textContent?.trim()
+		if (!text) continue
+
+		let name: string
+		let json: string
+		let assignment = false
+
+		if (type === 'application/json') {
+			name = script.getAttribute('id') ?? ''
+			json = text
+		} else if (type === '' || type === 'text/javascript') {
+			const match = text.match(WINDOW_ASSIGNMENT_PATTERN)
+			if (!match) continue
+			name = match[1]
+			json = match[2]
+			assignment = true
+		} else {
+			continue // JSON-LD is handled by structured-data.ts, other types aren't state
+		}
+
+		if (!roots.has('*') && !roots.has(name)) continue
+		if (shouldSkipScript(script, skipSelectors)) continue
+
+		try {
+			embedded.push({ script, name, data: JSON.parse(json), assignment })
+		} catch {
+			// Not JSON - leave the script untouched
+		}
+	}
+
+	return embedded
+}
+
+/**
+ * Collect non-empty string values whose key path matches any of the patterns
+ * Walks objects and arrays depth-first in key order (stable between parses)
+ * Shared with JSON API translation (http/json-api.ts)
+ * @param data - Parsed JSON
+ * @param patterns - Key patterns (* = one key, ** = any number of keys)
+ * @returns String values with their holders, in traversal order
+ */
+export function collectJsonStrings(data: unknown, patterns: string[][]): StructuredDataString[] {
+	const strings: StructuredDataString[] = []
+	const keys: string[] = []
+
+	const walk = (node: unknown): void => {
+		if (!node || typeof node !== 'object') {
+			return
+		}
+
+		const holder = node as Record<string, unknown> | unknown[]
+		const entries: [string | number, unknown][] = Array.isArray(holder)
+			? holder.map((value, index) => [index, value])
+			: Object.entries(holder)
+
+		for (const [key, value] of entries) {
+			keys.push(String(key))
+			if (typeof value === 'string') {
+				if (value.trim().length > 0 && patterns.some((pattern) => matchesKeys(pattern, keys))) {
+					strings.push({ holder, key, value })
+				}
+			} else {
+				walk(value)
+			}
+			keys.pop()
+		}
+	}
+
+	if (patterns.length > 0) {
+		walk(data)
+	}
+	return strings
+}
+
+/**
+ * Collect non-empty string values selected by the configured paths
+ * @param embedded - Parsed embedded JSON
+ * @param jsonPaths - Website-configured JSON paths
+ * @returns String values with their holders, in traversal order
+ */
+export function collectEmbeddedJsonStrings(embedded: EmbeddedJson, jsonPaths: string[]): StructuredDataString[] {
+	const patterns = parseJsonPaths(jsonPaths)
+		.filter((path) => path.root === '*' || path.root === embedded.name)
+		.map((path) => path.keys)
+	return collectJsonStrings(embedded.data, patterns)
+}
+
+/**
+ * Write the (translated) data back to its script
+ * '<' is escaped so translated values can't close the script early
+ */
+export function writeEmbeddedJson(embedded: EmbeddedJson): void {
+	const json = serializeStructuredData(embedded.data)
+	embedded.script.textContent = embedded.assignment ? `window.${embedded.name}=${json};` : json
+}
@@ -6,6 +6,7 @@
 import { describe, it, expect } from 'vitest'
 import { parseHTML } from 'linkedom'
 import { extractSegments } from './extractor.js'
+import { applyTranslations } from './applicator.js'
 
 // Helper to create a document with the given HTML
 function createDocument(bodyHtml: string, headHtml = ''): Document {
@@ -163,12 +164,34 @@ describe('extractSegments with skipSelectors', () => {
 			expect(values).toContain('Body')
 			expect(values).not.toContain('Skip Desc')
 		})
+
+		it('extracts Open Graph, Twitter card, and keywords meta content after the title', () => {
+			const doc = createDocument(
+				'<p>Body</p>',
+				`<title>Title</title>
+				<meta property="og:title" content="OG Title" />
+				<meta property="og:image" content="https://example.com/a.png" />
+				<meta property="og:image:alt" content="A chart" />
+				<meta name="twitter:description" content="Card text" />
+				<meta name="keywords" content="pricing, plans" />
+				<meta property="og:locale" content="en_US" />`
+			)
+			const segments = extractSegments(doc, [])
+			expect(segments.slice(0, 5).map((s) => [s.kind, s.value])).toEqual([
+				['text', 'Title'],
+				['attr', 'OG Title'],
+				['attr', 'A chart'],
+				['attr', 'Card text'],
+				['attr', 'pricing, plans'],
+			])
+			expect(segments.map((s) => s.value)).not.toContain('en_US')
+		})
 	})
 
 	describe('empty selectors', () => {
 		it('extracts all content when no selectors provided', () => {
 			const doc = createDocument(`
-				<p class="notranslate">Would be skipped</p>
+				<p class="brand">Would be skipped</p>
 				<p>Normal text</p>
 			`)
 			const segments = extractSegments(doc, [])
@@ -195,3 +218,34 @@ describe('extractSegments with skipSelectors', () => {
 		})
 	})
 })
+
+describe('extractSegments with translation markup', () => {
+	it('does not group blocks containing inline opt-outs, so the brand keeps its text', () => {
+		const doc = createDocument('<p>Try <strong translate="no">Acme</strong> today</p>')
+		const segments = extractSegments(doc, [])
+		expect(segments.map((s) => [s.kind, s.value])).toEqual([
+			['text', 'Try'],
+			['text', 'today'],
+		])
+
+		applyTranslations(doc, ['Prueba', 'hoy'], segments, [])
+		expect(doc.querySelector('p')?.innerHTML).toBe('Prueba <strong translate="no">Acme</strong> hoy')
+	})
+
+	it('extracts forced content inside skipped regions in document order', () => {
+		const doc = createDocument(`
+			<div class="notranslate">
+				<p>Acme Inc.</p>
+				<code data-pantolingo-translate="yes">// Greets the user</code>
+				<p translate="yes">Welcome <em>back</em></p>
+			</div>
+			<p>Footer</p>
+		`)
+		const segments = extractSegments(doc, [])
+		expect(segments.map((s) => s.value)).toEqual(['Welcome [HE1]back[/HE1]', 'Footer', '// Greets the user'])
+
+		applyTranslations(doc, ['Bienvenido [HE1]de nuevo[/HE1]', 'Pie', '// Saluda al usuario'], segments, [])
+		expect(doc.querySelector('code')?.textContent).toBe('// Saluda al usuario')
+		expect(doc.querySelector('p')?.textContent).toBe('Acme Inc.')
+	})
+})
@@ -4,10 +4,28 @@
  * Supports grouped HTML extraction for inline elements
  */
 
-import { TRANSLATE_ATTRS, BLOCK_TAGS } from '../config.js'
+import {
+	BLOCK_TAGS,
+	TRANSLATE_STRUCTURED_DATA,
+	STRUCTURED_DATA_PROPER_NAME_TYPES,
+	STRUCTURED_DATA_URL_PROPS,
+} from '../config.js'
 import type { Content } from '../types.js'
 import { isGroupableElement, htmlToPlaceholders, containsText } from './placeholders.js'
-import { shouldSkipNode, isInsideGroupedElement } from './utils.js'
+import {
+	shouldSkipNode,
+	isInsideGroupedElement,
+	getTranslatableMetaElements,
+	isCanonicalLink,
+	getTranslateAttrRules,
+	getTranslatableAttrs,
+	hasOptInDescendants,
+	hasSkippedDescendants,
+	type TranslateAttrRule,
+} from './utils.js'
+import { getStructuredDataScripts, parseStructuredData, collectStructuredDataStrings } from './structured-data.js'
+import { getEmbeddedJson, collectEmbeddedJsonStrings } from './embedded-json.js'
+import { hasResourceExtension } from './rewriter.js'
 
 /**
  * Extract grouped block elements as single segments with HTML placeholders
@@ -17,16 +35,18 @@ import { shouldSkipNode, isInsideGroupedElement } from './utils.js'
  * @param skipSelectors - CSS selectors for elements to skip
  */
 function extractGroupedBlocks(node: Node, segments: Content[], groupedElements: Set<Element>, skipSelectors: string[]): void {
-	if (shouldSkipNode(node, skipSelectors)) {
+	// Skipped elements are only descended into for opted-in content (translate="yes" etc.)
+	const skipped = shouldSkipNode(node, skipSelectors)
+	if (skipped && !hasOptInDescendants(node)) {
 		return
 	}
 
-	if (node.nodeType === 1) {
+	if (!skipped && node.nodeType === 1) {
 		const elem = node as Element
 		const tagName = elem.tagName.toLowerCase()
 
 		// Check if this is a groupable block element
-		if (BLOCK_TAGS.has(tagName) && isGroupableElement(elem)) {
+		if (BLOCK_TAGS.has(tagName) && isGroupableElement(elem) && !hasSkippedDescendants(elem, skipSelectors)) {
 			const innerHTML = elem.innerHTML
 			const trimmed = innerHTML.trim()
 
@@ -75,8 +95,8 @@ function extractGroupedBlocks(node: Node, segments: Content[], groupedElements:
  * @param skipSelectors - CSS selectors for elements to skip
  */
 function extractTextNodes(node: Node, segments: Content[], groupedElements: Set<Element>, skipSelectors: string[]): void {
-	// Skip if node or ancestor should be skipped
-	if (shouldSkipNode(node, skipSelectors)) {
+	// Skip if node or ancestor should be skipped (unless opted-in content is nested inside)
+	if (shouldSkipNode(node, skipSelectors) && !hasOptInDescendants(node)) {
 		return
 	}
 
@@ -116,8 +136,14 @@ function extractTextNodes(node: Node, segments: Content[], groupedElements: Set<
  * @param document - linkedom Document object
  * @param segments - Accumulator array for segments
  * @param skipSelectors - CSS selectors for elements to skip
+ * @param attrRules - Translatable attribute rules (built-in and website-configured)
  */
-function extractAttributes(document: Document, segments: Content[], skipSelectors: string[]): void {
+function extractAttributes(
+	document: Document,
+	segments: Content[],
+	skipSelectors: string[],
+	attrRules: TranslateAttrRule[]
+): void {
 	const allElements = document.querySelectorAll('*')
 
 	for (let i = 0; i < allElements.length; i++) {
@@ -129,20 +155,18 @@ function extractAttributes(document: Document, segments: Content[], skipSelector
 		}
 
 		// Check translatable attributes
-		for (const attr of TRANSLATE_ATTRS) {
-			const value = elem.getAttribute(attr)
-			if (value && value.trim().length > 0) {
-				const trimmed = value.trim()
-				const leading = value.match(/^(\s*)/)?.[1] || ''
-				const trailing = value.match(/(\s*)$/)?.[1] || ''
-
-				segments.push({
-					kind: 'attr',
-					attr: attr,
-					value: trimmed,
-					ws: { leading, trailing },
-				})
-			}
+		for (const attr of getTranslatableAttrs(elem, attrRules)) {
+			const value = elem.getAttribute(attr)!
+			const trimmed = value.trim()
+			const leading = value.match(/^(\s*)/)?.[1] || ''
+			const trailing = value.match(/(\s*)$/)?.[1] || ''
+
+			segments.push({
+				kind: 'attr',
+				attr: attr,
+				value: trimmed,
+				ws: { leading, trailing },
+			})
 		}
 	}
 }
@@ -174,19 +198,14 @@ function extractHeadTitle(document: Document, segments: Content[], skipSelectors
 }
 
 /**
- * Extract description from <meta name="description"> element
+ * Extract content from translatable <meta> elements (description, keywords, Open Graph, Twitter card)
  * @param document - linkedom Document object
  * @param segments - Accumulator array for segments
  * @param skipSelectors - CSS selectors for elements to skip
  */
-function extractHeadDescription(document: Document, segments: Content[], skipSelectors: string[]): void {
-	const descElement = document.querySelector('meta[name="description"]')
-	// Skip if element should be skipped
-	if (!descElement || shouldSkipNode(descElement, skipSelectors)) {
-		return
-	}
-	const content = descElement.getAttribute('content')
-	if (content && content.trim().length > 0) {
+function extractHeadMeta(document: Document, segments: Content[], skipSelectors: string[]): void {
+	for (const metaElement of getTranslatableMetaElements(document, skipSelectors)) {
+		const content = metaElement.getAttribute('content')!
 		const trimmed = content.trim()
 		const leading = content.match(/^(\s*)/)?.[1] || ''
 		const trailing = content.match(/(\s*)$/)?.[1] || ''
@@ -200,15 +219,75 @@ function extractHeadDescription(document: Document, segments: Content[], skipSel
 	}
 }
 
+/**
+ * Extract human-readable values from JSON-LD structured data (name, description, FAQ answers, etc.)
+ * @param document - linkedom Document object
+ * @param segments - Accumulator array for segments
+ * @param skipSelectors - CSS selectors for elements to skip
+ */
+function extractStructuredData(document: Document, segments: Content[], skipSelectors: string[]): void {
+	for (const script of getStructuredDataScripts(document, skipSelectors)) {
+		const data = parseStructuredData(script)
+		const refs = collectStructuredDataStrings(data, TRANSLATE_STRUCTURED_DATA, STRUCTURED_DATA_PROPER_NAME_TYPES)
+		for (const { value } of refs) {
+			const trimmed = value.trim()
+			const leading = value.match(/^(\s*)/)?.[1] || ''
+			const trailing = value.match(/(\s*)$/)?.[1] || ''
+
+			segments.push({
+				kind: 'data',
+				value: trimmed,
+				ws: { leading, trailing },
+			})
+		}
+	}
+}
+
+/**
+ * Extract values selected by the website's JSON paths from embedded JSON state scripts
+ * Values become 'data' segments, like JSON-LD
+ * @param document - linkedom Document object
+ * @param segments - Accumulator array for segments
+ * @param skipSelectors - CSS selectors for elements to skip
+ * @param translateJson - Website-configured JSON paths
+ */
+function extractEmbeddedJson(
+	document: Document,
+	segments: Content[],
+	skipSelectors: string[],
+	translateJson: string[]
+): void {
+	for (const embedded of getEmbeddedJson(document, skipSelectors, translateJson)) {
+		for (const { value } of collectEmbeddedJsonStrings(embedded, translateJson)) {
+			const trimmed = value.trim()
+			const leading = value.match(/^(\s*)/)?.[1] || ''
+			const trailing = value.match(/(\s*)$/)?.[1] || ''
+
+			segments.push({
+				kind: 'data',
+				value: trimmed,
+				ws: { leading, trailing },
+			})
+		}
+	}
+}
+
 /**
  * Extract all translatable segments from linkedom DOM
  * Uses recursive traversal to replicate TreeWalker behavior
  * Supports grouped HTML extraction for block elements with inline content
  * @param document - linkedom Document object
  * @param skipSelectors - CSS selectors for elements to skip
+ * @param translateAttrs - Website-configured attributes to translate, on top of TRANSLATE_ATTRS
+ * @param translateJson - Website-configured JSON paths into embedded JSON state
  * @returns Array of Segment objects in stable traversal order
  */
-export function extractSegments(document: Document, skipSelectors: string[]): Content[] {
+export function extractSegments(
+	document: Document,
+	skipSelectors: string[],
+	translateAttrs: string[] = [],
+	translateJson: string[] = []
+): Content[] {
 	const segments: Content[] = []
 
 	// Guard against invalid HTML (no documentElement means parsing failed)
@@ -219,9 +298,9 @@ export function extractSegments(document: Document, skipSelectors: string[]): Co
 	// Track elements that were grouped (to skip during text node extraction)
 	const groupedElements = new Set<Element>()
 
-	// Extract head metadata first (title and description)
+	// Extract head metadata first (title, then meta tags)
 	extractHeadTitle(document, segments, skipSelectors)
-	extractHeadDescription(document, segments, skipSelectors)
+	extractHeadMeta(document, segments, skipSelectors)
 
 	// Extract grouped blocks first (p, h1-h6, li, etc. with inline content)
 	// This produces 'html' kind segments with placeholders
@@ -236,7 +315,13 @@ export function extractSegments(document: Document, skipSelectors: string[]): Co
 	}
 
 	// Extract attributes from all elements
-	extractAttributes(document, segments, skipSelectors)
+	extractAttributes(document, segments, skipSelectors, getTranslateAttrRules(translateAttrs))
+
+	// Extract JSON-LD structured data last (outside the DOM traversal order above)
+	extractStructuredData(document, segments, skipSelectors)
+
+	// Extract embedded JSON state after JSON-LD
+	extractEmbeddedJson(document, segments, skipSelectors, translateJson)
 
 	return segments
 }
@@ -256,8 +341,10 @@ export function extractLinkPathnames(document: Document, originHost: string): Se
 		return pathnames
 	}
 
-	// Extract pathnames from <a href> links
-	const links = document.querySelectorAll('a[href]')
+	// Extract pathnames from <a href> links and the canonical link
+	const links = Array.from(document.querySelectorAll('a[href], link[href]')).filter(
+		(link) => link.tagName.toLowerCase() === 'a' || isCanonicalLink(link)
+	)
 	for (let i = 0; i < links.length; i++) {
 		const href = links[i].getAttribute('href')
 		if (!href) continue
@@ -322,5 +409,20 @@ export function extractLinkPathnames(document: Document, originHost: string): Se
 		}
 	}
 
+	// Extract pathnames from JSON-LD page URLs (url, @id, breadcrumb items) - images/files keep their paths
+	for (const script of getStructuredDataScripts(document, [])) {
+		const data = parseStructuredData(script)
+		for (const { value } of collectStructuredDataStrings(data, STRUCTURED_DATA_URL_PROPS)) {
+			try {
+				const url = new URL(value)
+				if (url.hostname === originHost && url.pathname !== '/' && !hasResourceExtension(url.pathname)) {
+					pathnames.add(url.pathname)
+				}
+			} catch (e) {
+				// Relative or invalid URL, skip
+			}
+		}
+	}
+
 	return pathnames
 }
@@ -0,0 +1,54 @@
+/**
+ * Tests for localized image swaps
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseHTML } from 'linkedom'
+import type { ImageOverride } from '@pantolingo/db'
+import { applyImageOverrides } from './images.js'
+
+// Helper to create a document with the given head and body HTML
+function createDocument(bodyHtml: string, headHtml = ''): Document {
+	const { document } = parseHTML(`<!DOCTYPE html><html><head>${headHtml}</head><body>${bodyHtml}</body></html>`)
+	return document
+}
+
+const pageUrl = new URL('https://www.example.com/pricing')
+
+const overrides: ImageOverride[] = [
+	{ id: 1, originalUrl: '/img/hero.png', localizedUrl: '/img/hero-es.png' },
+	{ id: 2, originalUrl: 'https://www.example.com/img/banner.jpg', localizedUrl: 'https://cdn.example.com/es/banner.jpg' },
+]
+
+describe('applyImageOverrides', () => {
+	it('matches absolute, root-relative, and page-relative URLs', () => {
+		const document = createDocument(
+			'<img src="https://www.example.com/img/hero.png"><img src="img/banner.jpg"><img src="/img/other.png">'
+		)
+
+		expect(applyImageOverrides(document, overrides, pageUrl)).toBe(2)
+		const sources = Array.from(document.querySelectorAll('img')).map((img) => img.getAttribute('src'))
+		expect(sources).toEqual(['/img/hero-es.png', 'https://cdn.example.com/es/banner.jpg', '/img/other.png'])
+	})
+
+	it('swaps srcset candidates, lazy-loading attributes, and inline style urls', () => {
+		const document = createDocument(
+			'<picture><source srcset="/img/hero.png 1x, /img/hero@2x.png 2x"></picture>' +
+				'<img data-src="/img/banner.jpg" data-srcset="/img/banner.jpg 800w">' +
+				`<div style="background-image: url('/img/hero.png')"></div>`
+		)
+
+		expect(applyImageOverrides(document, overrides, pageUrl)).toBe(4)
+		expect(document.querySelector('source')?.getAttribute('srcset')).toBe('/img/hero-es.png 1x, /img/hero@2x.png 2x')
+		expect(document.querySelector('img')?.getAttribute('data-src')).toBe('https://cdn.example.com/es/banner.jpg')
+		expect(document.querySelector('img')?.getAttribute('data-srcset')).toBe('https://cdn.example.com/es/banner.jpg 800w')
+		expect(document.querySelector('div')?.getAttribute('style')).toBe(`background-image: url('/img/hero-es.png')`)
+	})
+
+	it('swaps social preview images', () => {
+		const document = createDocument('', '<meta property="og:image" content="https://www.example.com/img/hero.png">')
+
+		applyImageOverrides(document, overrides, pageUrl)
+		expect(document.querySelector('meta')?.getAttribute('content')).toBe('/img/hero-es.png')
+	})
+})
@@ -0,0 +1,104 @@
+/**
+ * Localized image swaps for linkedom
+ * Replaces origin images with per-language variants (e.g. marketing images with baked-in text)
+ * Runs before rewriteLinks, so root-relative or origin replacements are then moved to the language host
+ */
+
+import type { ImageOverride } from '@pantolingo/db'
+import { mapSrcsetUrls, mapStyleUrls } from './rewriter.js'
+
+// Attributes holding a single image URL
+const IMAGE_URL_ATTRIBUTES: [selector: string, attr: string][] = [
+	['img[src]', 'src'],
+	['source[src]', 'src'],
+	['[data-src]', 'data-src'],
+	['video[poster]', 'poster'],
+	['link[rel="preload"][as="image"][href]', 'href'],
+	['meta[property="og:image"], meta[property="og:image:url"], meta[property="og:image:secure_url"]', 'content'],
+	['meta[name="twitter:image"]', 'content'],
+]
+
+// Attributes holding srcset-format candidate lists
+const IMAGE_SRCSET_ATTRIBUTES: [selector: string, attr: string][] = [
+	['[srcset]', 'srcset'],
+	['[data-srcset]', 'data-srcset'],
+	['link[imagesrcset]', 'imagesrcset'],
+]
+
+/**
+ * Build a comparison key for an image URL (host + path + query, protocol ignored)
+ * @param url - Absolute, root-relative, or page-relative URL
+ * @param pageUrl - Origin URL of the current page (base for relative URLs)
+ * @returns Key, or null for data URIs and invalid URLs
+ */
+function getImageKey(url: string, pageUrl: URL): string | null {
+	try {
+		const resolved = new URL(url.trim(), pageUrl)
+		if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') {
+			return null
+		}
+		return `${resolved.host.toLowerCase()}${resolved.pathname}${resolved.search}`
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Replace origin images with their localized variants
+ * Covers img/source src, srcset (including lazy-loading data-src/data-srcset and preload imagesrcset),
+ * video posters, inline style url(), and social preview images
+ * @param document - linkedom Document object
+ * @param overrides - Image overrides for the current language
+ * @param pageUrl - Origin URL of the current page (used to resolve relative URLs)
+ * @returns Number of URLs replaced
+ */
+export function applyImageOverrides(document: any, overrides: ImageOverride[], pageUrl: URL): number {
+	if (overrides.length === 0) {
+		return 0
+	}
+
+	const localizedByKey = new Map<string, string>()
+	for (const override of overrides) {
+		const key = getImageKey(override.originalUrl, pageUrl)
+		if (key) localizedByKey.set(key, override.localizedUrl)
+	}
+
+	let replaced = 0
+	const lookup = (url: string): string | null => {
+		const key = url.trim() ? getImageKey(url, pageUrl) : null
+		const localized = key ? localizedByKey.get(key) : undefined
+		if (localized === undefined) return null
+		replaced++
+		return localized
+	}
+
+	for (const [selector, attr] of IMAGE_URL_ATTRIBUTES) {
+		const elements = document.querySelectorAll(selector)
+		for (let i = 0; i < elements.length; i++) {
+			const localized = lookup(elements[i].getAttribute(attr) ?? '')
+			if (localized !== null) {
+				elements[i].setAttribute(attr, localized)
+			}
+		}
+	}
+
+	for (const [selector, attr] of IMAGE_SRCSET_ATTRIBUTES) {
+		const elements = document.querySelectorAll(selector)
+		for (let i = 0; i < elements.length; i++) {
+			const srcset = mapSrcsetUrls(elements[i].getAttribute(attr) ?? '', lookup)
+			if (srcset !== null) {
+				elements[i].setAttribute(attr, srcset)
+			}
+		}
+	}
+
+	const styledElements = document.querySelectorAll('[style]')
+	for (let i = 0; i < styledElements.length; i++) {
+		const style = mapStyleUrls(styledElements[i].getAttribute('style') ?? '', lookup)
+		if (style !== null) {
+			styledElements[i].setAttribute('style', style)
+		}
+	}
+
+	return replaced
+}
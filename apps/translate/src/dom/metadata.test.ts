@@ -0,0 +1,145 @@
+/**
+ * Tests for lang metadata
+ * Verifies the html lang attribute, the hreflang cluster across enabled languages, canonical, and og:locale
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseHTML } from 'linkedom'
+import { addLangMetadata, toOgLocale, type HreflangAlternate } from './metadata.js'
+
+// Helper to create a document with the given head HTML
+function createDocument(headHtml = ''): Document {
+	const { document } = parseHTML(`<!DOCTYPE html><html lang="en"><head>${headHtml}</head><body></body></html>`)
+	return document
+}
+
+// Helper to read hreflang links as [hreflang, href] pairs, in document order
+function getHreflangLinks(document: Document): [string, string][] {
+	return Array.from(document.querySelectorAll('link[rel="alternate"][hreflang]')).map((link) => [
+		link.getAttribute('hreflang') ?? '',
+		link.getAttribute('href') ?? '',
+	])
+}
+
+const url = new URL('https://es.example.com/precios?plan=pro')
+
+describe('addLangMetadata', () => {
+	it('sets the html lang attribute to the target language', () => {
+		const document = createDocument()
+		const result = addLangMetadata(document, 'es-mx', 'en-us', 'es.example.com', 'example.com', '/pricing', url)
+
+		expect(document.documentElement.getAttribute('lang')).toBe('es')
+		expect(result.langUpdated).toBe(true)
+	})
+
+	it('emits every enabled language with its translated pathname', () => {
+		const document = createDocument()
+		const alternates: HreflangAlternate[] = [
+			{ lang: 'de-de', hostname: 'de.example.com', pathname: '/preise' },
+			{ lang: 'es-mx', hostname: 'es.example.com', pathname: '/precios' },
+			{ lang: 'fr-fr', hostname: 'fr.example.com', pathname: '/pricing' },
+		]
+
+		addLangMetadata(document, 'es-mx', 'en-us', 'es.example.com', 'example.com', '/pricing', url, alternates)
+
+		expect(getHreflangLinks(document)).toEqual([
+			['x-default', 'https://example.com/pricing?plan=pro'],
+			['en', 'https://example.com/pricing?plan=pro'],
+			['de', 'https://de.example.com/preise?plan=pro'],
+			['es', 'https://es.example.com/precios?plan=pro'],
+			['fr', 'https://fr.example.com/pricing?plan=pro'],
+		])
+	})
+
+	it('keeps the region when languages share a base code', () => {
+		const document = createDocument()
+		const alternates: HreflangAlternate[] = [
+			{ lang: 'es-es', hostname: 'es-es.example.com', pathname: '/precios' },
+			{ lang: 'es-mx', hostname: 'es.example.com', pathname: '/precios' },
+		]
+
+		addLangMetadata(document, 'es-mx', 'en-us', 'es.example.com', 'example.com', '/pricing', url, alternates)
+
+		expect(getHreflangLinks(document).map(([hreflang]) => hreflang)).toEqual(['x-default', 'en', 'es-es', 'es-mx'])
+	})
+
+	it('always includes the current language on the request host', () => {
+		const document = createDocument()
+		addLangMetadata(document, 'es-mx', 'en-us', 'localhost:8787', 'example.com', '/pricing', url, [])
+
+		expect(getHreflangLinks(document)).toEqual([
+			['x-default', 'https://example.com/pricing?plan=pro'],
+			['en', 'https://example.com/pricing?plan=pro'],
+			['es', 'http://localhost:8787/pricing?plan=pro'],
+		])
+	})
+
+	it('sets og:locale and lists the other languages as alternates', () => {
+		const document = createDocument(
+			'<meta property="og:title" content="Pricing"><meta property="og:locale" content="en_US"><meta property="og:locale:alternate" content="fr_FR">'
+		)
+		const alternates: HreflangAlternate[] = [
+			{ lang: 'de-de', hostname: 'de.example.com', pathname: '/preise' },
+			{ lang: 'es-mx', hostname: 'es.example.com', pathname: '/precios' },
+		]
+
+		const result = addLangMetadata(document, 'es-mx', 'en-us', 'es.example.com', 'example.com', '/pricing', url, alternates)
+
+		expect(result.ogLocaleUpdated).toBe(true)
+		expect(document.querySelector('meta[property="og:locale"]')?.getAttribute('content')).toBe('es_MX')
+		expect(
+			Array.from(document.querySelectorAll('meta[property="og:locale:alternate"]')).map((meta) =>
+				meta.getAttribute('content')
+			)
+		).toEqual(['en_US', 'de_DE'])
+	})
+
+	it('does not add og:locale to pages without Open Graph tags', () => {
+		const document = createDocument('<meta name="description" content="Pricing">')
+		const result = addLangMetadata(document, 'es-mx', 'en-us', 'es.example.com', 'example.com', '/pricing', url)
+
+		expect(result.ogLocaleUpdated).toBe(false)
+		expect(document.querySelector('meta[property="og:locale"]')).toBeNull()
+	})
+
+	it('converts language codes to Open Graph locales', () => {
+		expect(toOgLocale('es-mx')).toBe('es_MX')
+		expect(toOgLocale('zh-hant-tw')).toBe('zh_TW')
+		expect(toOgLocale('fr')).toBe('fr')
+	})
+
+	it('adds a self-referencing canonical with the translated pathname', () => {
+		const document = createDocument()
+		const alternates: HreflangAlternate[] = [{ lang: 'es-mx', hostname: 'es.example.com', pathname: '/precios' }]
+
+		const result = addLangMetadata(document, 'es-mx', 'en-us', 'es.example.com', 'example.com', '/pricing', url, alternates)
+
+		expect(result.canonicalAdded).toBe(true)
+		expect(document.querySelector('link[rel="canonical"]')?.getAttribute('href')).toBe(
+			'https://es.example.com/precios?plan=pro'
+		)
+	})
+
+	it('keeps an existing canonical link', () => {
+		const document = createDocument('<link rel="canonical" href="https://es.example.com/precios">')
+		const result = addLangMetadata(document, 'es-mx', 'en-us', 'es.example.com', 'example.com', '/pricing', url)
+
+		expect(result.canonicalAdded).toBe(false)
+		expect(document.querySelectorAll('link[rel="canonical"]')).toHaveLength(1)
+	})
+
+	it('replaces matching hreflang links and keeps others', () => {
+		const document = createDocument(
+			'<link rel="alternate" hreflang="es" href="https://old.example.com/"><link rel="alternate" hreflang="ja" href="https://ja.example.net/">'
+		)
+		const result = addLangMetadata(document, 'es-mx', 'en-us', 'es.example.com', 'example.com', '/pricing', url)
+
+		expect(result.hreflangReplaced).toBe(1)
+		expect(getHreflangLinks(document)).toEqual([
+			['x-default', 'https://example.com/pricing?plan=pro'],
+			['en', 'https://example.com/pricing?plan=pro'],
+			['es', 'https://es.example.com/pricing?plan=pro'],
+			['ja', 'https://ja.example.net/'],
+		])
+	})
+})
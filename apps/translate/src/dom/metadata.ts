@@ -1,13 +1,24 @@
 /**
  * Lang metadata module for linkedom
- * Adds HTML lang attribute and hreflang link tags for SEO
+ * Adds HTML lang attribute, hreflang link tags, canonical link, and og:locale for SEO and social previews
  */
 
-interface HreflangEntry {
+import { isCanonicalLink } from './utils.js'
+
+export interface HreflangEntry {
 	hreflang: string
 	href: string
 }
 
+/**
+ * Language variant of the current page (one per enabled translation of the website)
+ */
+export interface HreflangAlternate {
+	lang: string // BCP 47 target language
+	hostname: string // translation hostname
+	pathname: string // translated pathname, or the original when not translated yet
+}
+
 /**
  * Extract language code from BCP 47 regional code (e.g., "es-mx" → "es")
  * Preserves script subtag for Chinese (zh-hans, zh-hant)
@@ -19,6 +30,43 @@ function getLangCode(bcp47: string): string {
 	return bcp47.split('-')[0]
 }
 
+/**
+ * Get hreflang values for a set of languages
+ * Uses the bare language code unless two languages share it (e.g. es-mx and es-es),
+ * in which case those keep their region so every value stays unique
+ */
+function getHreflangCodes(langs: string[]): Map<string, string> {
+	const baseCounts = new Map<string, number>()
+	for (const lang of langs) {
+		const base = getLangCode(lang)
+		baseCounts.set(base, (baseCounts.get(base) ?? 0) + 1)
+	}
+
+	const codes = new Map<string, string>()
+	for (const lang of langs) {
+		const base = getLangCode(lang)
+		codes.set(lang, baseCounts.get(base)! > 1 ? lang.toLowerCase() : base)
+	}
+	return codes
+}
+
+/**
+ * Convert a BCP 47 code to an Open Graph locale (e.g., "es-mx" → "es_MX", "fr" → "fr")
+ * Open Graph uses language_TERRITORY; script subtags are dropped
+ */
+export function toOgLocale(bcp47: string): string {
+	const [language, ...subtags] = bcp47.split('-')
+	const region = subtags.find((subtag) => subtag.length === 2)
+	return region ? `${language.toLowerCase()}_${region.toUpperCase()}` : language.toLowerCase()
+}
+
+/**
+ * Protocol for a host (http for localhost, https otherwise)
+ */
+function getProtocol(host: string): string {
+	return host.startsWith('localhost') ? 'http:' : 'https:'
+}
+
 /**
  * Update HTML lang attribute to target language
  */
@@ -60,27 +108,34 @@ function getExistingHreflangLanguages(document: any): Set<string> {
 }
 
 /**
- * Build array of hreflang entries (translated, origin, x-default)
- * Note: All entries use originalPathname for consistency since we don't have
- * translated paths for other language variants
+ * Build array of hreflang entries (x-default, origin, every translated language)
+ * The current language always points at the current host, so the cluster stays
+ * reciprocal even if the alternates lookup failed (also used for sitemap alternates)
  */
-function buildHreflangEntries(
+export function buildHreflangEntries(
 	targetLang: string,
 	sourceLang: string,
 	currentHost: string,
 	originHostname: string,
 	originalPathname: string,
-	currentUrl: URL
+	currentUrl: URL,
+	alternates: HreflangAlternate[]
 ): HreflangEntry[] {
 	const entries: HreflangEntry[] = []
 
-	// Determine protocol (http for localhost, https otherwise)
-	const currentProtocol = currentHost.startsWith('localhost') ? 'http:' : 'https:'
 	const originProtocol = 'https:' // Origin is always HTTPS
 
 	// Build query string (preserve from current request)
 	const queryString = currentUrl.search
 
+	// Current language is served from the request host
+	const translated = alternates.filter((alt) => alt.lang !== sourceLang && alt.lang !== targetLang)
+	const current = alternates.find((alt) => alt.lang === targetLang)
+	translated.push({ lang: targetLang, hostname: currentHost, pathname: current?.pathname ?? originalPathname })
+	translated.sort((a, b) => a.lang.localeCompare(b.lang))
+
+	const codes = getHreflangCodes([sourceLang, ...translated.map((alt) => alt.lang)])
+
 	// Entry 1: Default fallback (always origin) - MUST BE FIRST
 	entries.push({
 		hreflang: 'x-default',
@@ -89,15 +144,17 @@ function buildHreflangEntries(
 
 	// Entry 2: Origin language
 	entries.push({
-		hreflang: getLangCode(sourceLang),
+		hreflang: codes.get(sourceLang)!,
 		href: `${originProtocol}//${originHostname}${originalPathname}${queryString}`,
 	})
 
-	// Entry 3: Current translated language (use original pathname for consistency)
-	entries.push({
-		hreflang: getLangCode(targetLang),
-		href: `${currentProtocol}//${currentHost}${originalPathname}${queryString}`,
-	})
+	// Entries 3+: Every translated language, with its translated pathname when known
+	for (const alt of translated) {
+		entries.push({
+			hreflang: codes.get(alt.lang)!,
+			href: `${getProtocol(alt.hostname)}//${alt.hostname}${alt.pathname}${queryString}`,
+		})
+	}
 
 	return entries
 }
@@ -239,7 +296,78 @@ function addHreflangLinks(
 }
 
 /**
- * Main exported function - Add or update HTML lang and hreflang links
+ * Set og:locale to the target language and list the other languages as og:locale:alternate
+ * Only for pages that already use Open Graph (no tags are added to pages without it)
+ */
+function updateOgLocale(
+	document: any,
+	targetLang: string,
+	sourceLang: string,
+	alternates: HreflangAlternate[]
+): boolean {
+	const headElement = document.querySelector('head')
+	if (!headElement || !document.querySelector('meta[property^="og:"]')) {
+		return false
+	}
+
+	const locale = toOgLocale(targetLang)
+	let localeElement = document.querySelector('meta[property="og:locale"]')
+	if (!localeElement) {
+		localeElement = document.createElement('meta')
+		localeElement.setAttribute('property', 'og:locale')
+		headElement.appendChild(localeElement)
+	}
+	localeElement.setAttribute('content', locale)
+
+	// Replace origin alternates with every other language of the site
+	const existingAlternates = document.querySelectorAll('meta[property="og:locale:alternate"]')
+	for (let i = 0; i < existingAlternates.length; i++) {
+		existingAlternates[i].parentNode?.removeChild(existingAlternates[i])
+	}
+
+	const otherLocales = new Set([sourceLang, ...alternates.map((alt) => alt.lang)].map(toOgLocale))
+	otherLocales.delete(locale)
+
+	let insertAfter = localeElement
+	for (const otherLocale of otherLocales) {
+		const alternateElement = document.createElement('meta')
+		alternateElement.setAttribute('property', 'og:locale:alternate')
+		alternateElement.setAttribute('content', otherLocale)
+		insertAfter.parentNode.insertBefore(alternateElement, insertAfter.nextSibling)
+		insertAfter = alternateElement
+	}
+
+	return true
+}
+
+/**
+ * Add a self-referencing canonical link when the page has none
+ * Existing canonicals are kept - rewriteLinks already moved them to the language host
+ * @returns true if a canonical link was added
+ */
+function addCanonicalLink(document: any, href: string): boolean {
+	const links = document.querySelectorAll('link[rel]')
+	for (let i = 0; i < links.length; i++) {
+		if (isCanonicalLink(links[i])) {
+			return false
+		}
+	}
+
+	const headElement = document.head || document.querySelector('head')
+	if (!headElement) {
+		return false
+	}
+
+	const canonicalElement = document.createElement('link')
+	canonicalElement.setAttribute('rel', 'canonical')
+	canonicalElement.setAttribute('href', href)
+	headElement.appendChild(canonicalElement)
+	return true
+}
+
+/**
+ * Main exported function - Add or update HTML lang, hreflang links, canonical link, and og:locale
+ * alternates: every enabled language variant of the page (see HreflangAlternate)
  */
 export function addLangMetadata(
 	document: any,
@@ -248,9 +376,12 @@ export function addLangMetadata(
 	currentHost: string,
 	originHostname: string,
 	originalPathname: string,
-	currentUrl: URL
+	currentUrl: URL,
+	alternates: HreflangAlternate[] = []
 ): {
 	langUpdated: boolean
+	ogLocaleUpdated: boolean
+	canonicalAdded: boolean
 	hreflangAdded: number
 	hreflangReplaced: number
 	hreflangReformatted: number
@@ -258,14 +389,15 @@ export function addLangMetadata(
 	// 1. Update HTML lang attribute
 	const langUpdated = updateHtmlLang(document, targetLang)
 
-	// 2. Build hreflang entries (x-default first, source lang, target lang)
+	// 2. Build hreflang entries (x-default first, source lang, translated langs)
 	const entries = buildHreflangEntries(
 		targetLang,
 		sourceLang,
 		currentHost,
 		originHostname,
 		originalPathname,
-		currentUrl
+		currentUrl,
+		alternates
 	)
 
 	// 3. Get new hreflang values we'll be adding
@@ -280,9 +412,21 @@ export function addLangMetadata(
 	// 6. Add new hreflang links (removes duplicates and inserts at correct position)
 	const hreflangAdded = addHreflangLinks(document, entries, toReplace)
 
-	// 7. Return detailed results
+	// 7. Set og:locale for social previews
+	const ogLocaleUpdated = updateOgLocale(document, targetLang, sourceLang, alternates)
+
+	// 8. Self-referencing canonical on the language host (translated pathname)
+	const currentPathname = alternates.find((alt) => alt.lang === targetLang)?.pathname ?? originalPathname
+	const canonicalAdded = addCanonicalLink(
+		document,
+		`${getProtocol(currentHost)}//${currentHost}${currentPathname}${currentUrl.search}`
+	)
+
+	// 9. Return detailed results
 	return {
 		langUpdated,
+		ogLocaleUpdated,
+		canonicalAdded,
 		hreflangAdded,
 		hreflangReplaced: toReplace.size,
 		hreflangReformatted,
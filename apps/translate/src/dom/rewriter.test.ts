@@ -0,0 +1,64 @@
+/**
+ * Tests for link and resource URL rewriting
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseHTML } from 'linkedom'
+import { rewriteLinks, mapSrcsetUrls } from './rewriter.js'
+
+// Helper to create a document with the given head and body HTML
+function createDocument(bodyHtml: string, headHtml = ''): Document {
+	const { document } = parseHTML(`<!DOCTYPE html><html><head>${headHtml}</head><body>${bodyHtml}</body></html>`)
+	return document
+}
+
+// Rewrite from the origin to the Spanish host on the /pricing page
+function rewrite(document: Document, pathnameMap?: Map<string, string>): number {
+	return rewriteLinks(document, 'www.example.com', 'es.example.com', '/pricing', '/precios', true, pathnameMap)
+}
+
+describe('rewriteLinks', () => {
+	it('translates the canonical pathname like a navigation link', () => {
+		const document = createDocument(
+			'',
+			'<link rel="canonical" href="https://www.example.com/pricing"><link rel="stylesheet" href="https://www.example.com/pricing.css">'
+		)
+
+		rewrite(document)
+		expect(document.querySelector('link[rel="canonical"]')?.getAttribute('href')).toBe('https://es.example.com/precios')
+		expect(document.querySelector('link[rel="stylesheet"]')?.getAttribute('href')).toBe(
+			'https://es.example.com/pricing.css'
+		)
+	})
+
+	it('rewrites srcset on sources and lazy-loading attributes', () => {
+		const document = createDocument(
+			'<picture><source srcset="https://www.example.com/a.webp 1x, /b.webp 2x"></picture>' +
+				'<img data-src="https://www.example.com/c.png" data-srcset="https://www.example.com/c.png 400w">'
+		)
+
+		expect(rewrite(document)).toBe(3)
+		expect(document.querySelector('source')?.getAttribute('srcset')).toBe('https://es.example.com/a.webp 1x, /b.webp 2x')
+		expect(document.querySelector('img')?.getAttribute('data-src')).toBe('https://es.example.com/c.png')
+		expect(document.querySelector('img')?.getAttribute('data-srcset')).toBe('https://es.example.com/c.png 400w')
+	})
+
+	it('rewrites preload imagesrcset and inline style urls', () => {
+		const document = createDocument(
+			`<div style='background: url("https://www.example.com/hero.png") no-repeat'></div>`,
+			'<link rel="preload" as="image" imagesrcset="https://www.example.com/hero.png 1x" imagesizes="100vw">'
+		)
+
+		expect(rewrite(document)).toBe(2)
+		expect(document.querySelector('link')?.getAttribute('imagesrcset')).toBe('https://es.example.com/hero.png 1x')
+		expect(document.querySelector('div')?.getAttribute('style')).toBe(
+			'background: url("https://es.example.com/hero.png") no-repeat'
+		)
+	})
+})
+
+describe('mapSrcsetUrls', () => {
+	it('returns null when no URL changes', () => {
+		expect(mapSrcsetUrls('/a.png 1x, /b.png 2x', () => null)).toBeNull()
+	})
+})
@@ -3,12 +3,22 @@
  * Rewrites all internal links and resource URLs to point to translated subdomain
  */
 
+import { STRUCTURED_DATA_URL_PROPS } from '../config.js'
+import { isCanonicalLink } from './utils.js'
+import {
+	getStructuredDataScripts,
+	parseStructuredData,
+	serializeStructuredData,
+	collectStructuredDataStrings,
+	setStructuredDataString,
+} from './structured-data.js'
+
 /**
  * Check if URL has a resource file extension (not an HTML page)
  * @param url - URL string to check
  * @returns true if URL appears to be a resource file
  */
-function hasResourceExtension(url: string): boolean {
+export function hasResourceExtension(url: string): boolean {
 	const resourceExtensions = [
 		'.css',
 		'.js',
@@ -121,49 +131,160 @@ function rewriteUrlAttribute(
 }
 
 /**
- * Rewrite srcset attribute which contains multiple URLs
+ * Map each URL of a srcset value, keeping descriptors
  * Format: "url1 1x, url2 2x" or "url1 100w, url2 200w"
- * @returns true if any URLs were rewritten
+ * @param srcset - srcset attribute value
+ * @param mapUrl - Returns the replacement URL, or null to keep the entry unchanged
+ * @returns New srcset value, or null if no URL changed
  */
-function rewriteSrcset(element: any, originHost: string, currentHost: string): boolean {
-	const srcset = element.getAttribute('srcset')
-	if (!srcset) return false
+export function mapSrcsetUrls(srcset: string, mapUrl: (url: string) => string | null): string | null {
+	let changed = false
 
-	let rewritten = false
-	const entries = srcset.split(',')
-
-	const newEntries = entries.map((entry: string) => {
+	const newEntries = srcset.split(',').map((entry: string) => {
 		const trimmed = entry.trim()
 		// Split URL from descriptor (e.g., "image.png 1x" -> ["image.png", "1x"])
 		const parts = trimmed.split(/\s+/)
 		const url = parts[0]
 		const descriptor = parts.slice(1).join(' ')
 
-		try {
-			// Only process absolute URLs, not relative URLs
-			if (!url.includes('://')) {
-				return trimmed
+		const newUrl = url ? mapUrl(url) : null
+		if (newUrl === null) {
+			return trimmed
+		}
+
+		changed = true
+		return descriptor ? `${newUrl} ${descriptor}` : newUrl
+	})
+
+	return changed ? newEntries.join(', ') : null
+}
+
+/**
+ * Map each url() of an inline style value (e.g. "background-image: url('/hero.png')")
+ * @param style - style attribute value
+ * @param mapUrl - Returns the replacement URL, or null to keep the url() unchanged
+ * @returns New style value, or null if no URL changed
+ */
+export function mapStyleUrls(style: string, mapUrl: (url: string) => string | null): string | null {
+	let changed = false
+
+	const newStyle = style.replace(/url\(\s*(['"]?)(.*?)\1\s*\)/gi, (match, quote: string, url: string) => {
+		const newUrl = url ? mapUrl(url) : null
+		if (newUrl === null) {
+			return match
+		}
+
+		changed = true
+		return `url(${quote}${newUrl}${quote})`
+	})
+
+	return changed ? newStyle : null
+}
+
+/**
+ * Move an absolute origin URL to the translated host (resources keep their pathname)
+ * @returns Rewritten URL, or null for relative URLs and other hosts
+ */
+function rewriteResourceUrl(url: string, originHost: string, currentHost: string): string | null {
+	// Only process absolute URLs, not relative URLs
+	if (!url.includes('://')) {
+		return null
+	}
+
+	try {
+		const parsedUrl = new URL(url)
+		if (parsedUrl.hostname === originHost) {
+			// Force http:// for localhost to avoid HTTPS/HTTP mismatch in local development
+			if (currentHost.startsWith('localhost')) {
+				parsedUrl.protocol = 'http:'
 			}
+			parsedUrl.hostname = currentHost
+			return parsedUrl.toString()
+		}
+	} catch (e) {
+		// Not a valid URL, skip
+	}
 
-			const parsedUrl = new URL(url)
-			if (parsedUrl.hostname === originHost) {
-				// Force http:// for localhost to avoid HTTPS/HTTP mismatch in local development
-				if (currentHost.startsWith('localhost')) {
-					parsedUrl.protocol = 'http:'
+	return null
+}
+
+/**
+ * Rewrite a srcset-format attribute (srcset, data-srcset, imagesrcset) which contains multiple URLs
+ * @returns true if any URLs were rewritten
+ */
+function rewriteSrcset(element: any, attr: string, originHost: string, currentHost: string): boolean {
+	const srcset = element.getAttribute(attr)
+	if (!srcset) return false
+
+	const newSrcset = mapSrcsetUrls(srcset, (url) => rewriteResourceUrl(url, originHost, currentHost))
+	if (newSrcset === null) return false
+
+	element.setAttribute(attr, newSrcset)
+	return true
+}
+
+/**
+ * Rewrite url() references in an inline style attribute
+ * @returns true if any URLs were rewritten
+ */
+function rewriteStyleUrls(element: any, originHost: string, currentHost: string): boolean {
+	const style = element.getAttribute('style')
+	if (!style || !style.includes('url(')) return false
+
+	const newStyle = mapStyleUrls(style, (url) => rewriteResourceUrl(url, originHost, currentHost))
+	if (newStyle === null) return false
+
+	element.setAttribute('style', newStyle)
+	return true
+}
+
+/**
+ * Rewrite page URLs in JSON-LD structured data (url, @id, breadcrumb items)
+ * Absolute origin URLs move to the translated host; page pathnames are translated like links
+ * @returns Number of URLs rewritten
+ */
+function rewriteStructuredDataUrls(
+	document: any,
+	originHost: string,
+	currentHost: string,
+	originalPathname: string,
+	translatedPathname: string,
+	translatePath: boolean,
+	pathnameMap?: Map<string, string>
+): number {
+	let rewritten = 0
+
+	for (const script of getStructuredDataScripts(document, [])) {
+		const data = parseStructuredData(script)
+		let changed = 0
+
+		for (const ref of collectStructuredDataStrings(data, STRUCTURED_DATA_URL_PROPS)) {
+			try {
+				const url = new URL(ref.value)
+				if (url.hostname !== originHost) continue
+
+				let newPathname = url.pathname
+				if (translatePath && !hasResourceExtension(url.pathname)) {
+					if (pathnameMap && pathnameMap.has(url.pathname)) {
+						newPathname = pathnameMap.get(url.pathname)!
+					} else if (url.pathname === originalPathname) {
+						newPathname = translatedPathname
+					}
 				}
-				parsedUrl.hostname = currentHost
-				rewritten = true
-				return descriptor ? `${parsedUrl.toString()} ${descriptor}` : parsedUrl.toString()
+
+				// Force http:// for localhost to avoid HTTPS/HTTP mismatch in local development
+				const protocol = currentHost.startsWith('localhost') ? 'http:' : url.protocol
+				setStructuredDataString(ref, `${protocol}//${currentHost}${newPathname}${url.search}${url.hash}`)
+				changed++
+			} catch (e) {
+				// Relative or invalid URL (e.g., "#organization"), skip
 			}
-		} catch (e) {
-			// Not a valid URL, skip
 		}
 
-		return trimmed
-	})
-
-	if (rewritten) {
-		element.setAttribute('srcset', newEntries.join(', '))
+		if (changed > 0) {
+			script.textContent = serializeStructuredData(data)
+			rewritten += changed
+		}
 	}
 
 	return rewritten
@@ -231,7 +352,8 @@ export function rewriteLinks(
 		}
 	}
 
-	// Rewrite stylesheets
+	// Rewrite stylesheets and other <link> resources
+	// Canonical links are page URLs, so they get pathname translation like navigation links
 	const links_css = document.querySelectorAll('link[href]')
 	for (let i = 0; i < links_css.length; i++) {
 		if (
@@ -243,7 +365,8 @@ export function rewriteLinks(
 				originalPathname,
 				translatedPathname,
 				translatePath,
-				false // isNavigationUrl (resource)
+				isCanonicalLink(links_css[i]), // isNavigationUrl (canonical only)
+				pathnameMap
 			)
 		) {
 			rewritten++
@@ -286,8 +409,42 @@ export function rewriteLinks(
 		) {
 			rewritten++
 		}
-		// Also rewrite srcset for responsive images
-		if (rewriteSrcset(images[i], originHost, currentHost)) {
+	}
+
+	// Rewrite responsive image candidates (img/source srcset, lazy-loading data-srcset,
+	// preload imagesrcset - imagesizes only holds media conditions, no URLs)
+	const srcsetElements = document.querySelectorAll('[srcset], [data-srcset], link[imagesrcset]')
+	for (let i = 0; i < srcsetElements.length; i++) {
+		for (const attr of ['srcset', 'data-srcset', 'imagesrcset']) {
+			if (rewriteSrcset(srcsetElements[i], attr, originHost, currentHost)) {
+				rewritten++
+			}
+		}
+	}
+
+	// Rewrite lazy-loading sources (data-src, swapped into src by client scripts)
+	const lazyElements = document.querySelectorAll('[data-src]')
+	for (let i = 0; i < lazyElements.length; i++) {
+		if (
+			rewriteUrlAttribute(
+				lazyElements[i],
+				'data-src',
+				originHost,
+				currentHost,
+				originalPathname,
+				translatedPathname,
+				translatePath,
+				false // isNavigationUrl (resource)
+			)
+		) {
+			rewritten++
+		}
+	}
+
+	// Rewrite url() in inline styles (e.g. background images)
+	const styledElements = document.querySelectorAll('[style]')
+	for (let i = 0; i < styledElements.length; i++) {
+		if (rewriteStyleUrls(styledElements[i], originHost, currentHost)) {
 			rewritten++
 		}
 	}
@@ -420,5 +577,16 @@ export function rewriteLinks(
 		}
 	}
 
+	// Rewrite JSON-LD structured data URLs
+	rewritten += rewriteStructuredDataUrls(
+		document,
+		originHost,
+		currentHost,
+		originalPathname,
+		translatedPathname,
+		translatePath,
+		pathnameMap
+	)
+
 	return rewritten
 }
@@ -0,0 +1,68 @@
+/**
+ * Tests for per-language robots policy
+ * Verifies robots directive rewriting for meta tags and the X-Robots-Tag header
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseHTML } from 'linkedom'
+import { rewriteRobotsDirectives, applyRobotsPolicy, applyRobotsHeader } from './robots.js'
+
+// Helper to create a document with the given head HTML
+function createDocument(headHtml = ''): Document {
+	const { document } = parseHTML(`<!DOCTYPE html><html><head>${headHtml}</head><body></body></html>`)
+	return document
+}
+
+describe('rewriteRobotsDirectives', () => {
+	it('leaves directives unchanged for the origin policy', () => {
+		expect(rewriteRobotsDirectives('noindex, nofollow', 'origin')).toBe('noindex, nofollow')
+	})
+
+	it('drops noindex and keeps other directives for the index policy', () => {
+		expect(rewriteRobotsDirectives('noindex, follow, max-snippet: 20', 'index')).toBe('follow, max-snippet: 20')
+		expect(rewriteRobotsDirectives('none', 'index')).toBe('nofollow')
+		expect(rewriteRobotsDirectives('googlebot: noindex', 'index')).toBe('')
+	})
+
+	it('adds noindex once for the noindex policy', () => {
+		expect(rewriteRobotsDirectives('index, follow', 'noindex')).toBe('noindex, follow')
+		expect(rewriteRobotsDirectives('NOINDEX', 'noindex')).toBe('NOINDEX')
+		expect(rewriteRobotsDirectives('none', 'noindex')).toBe('none')
+	})
+})
+
+describe('applyRobotsPolicy', () => {
+	it('removes robots meta tags left without directives', () => {
+		const document = createDocument('<meta name="robots" content="noindex"><meta name="googlebot" content="noindex, nofollow">')
+
+		expect(applyRobotsPolicy(document, 'index')).toBe(true)
+		expect(document.querySelector('meta[name="robots"]')).toBeNull()
+		expect(document.querySelector('meta[name="googlebot"]')?.getAttribute('content')).toBe('nofollow')
+	})
+
+	it('adds a robots meta tag for the noindex policy', () => {
+		const document = createDocument('<title>Pricing</title>')
+
+		expect(applyRobotsPolicy(document, 'noindex')).toBe(true)
+		expect(document.querySelector('meta[name="robots"]')?.getAttribute('content')).toBe('noindex')
+	})
+
+	it('does not touch the page for the origin policy', () => {
+		const document = createDocument('<meta name="robots" content="noindex">')
+
+		expect(applyRobotsPolicy(document, 'origin')).toBe(false)
+		expect(document.querySelector('meta[name="robots"]')?.getAttribute('content')).toBe('noindex')
+	})
+})
+
+describe('applyRobotsHeader', () => {
+	it('rewrites or removes the X-Robots-Tag header', () => {
+		const headers: Record<string, string | string[]> = { 'x-robots-tag': 'noindex' }
+		applyRobotsHeader(headers, 'index')
+		expect(headers).toEqual({})
+
+		const forced: Record<string, string | string[]> = { 'X-Robots-Tag': 'nosnippet' }
+		applyRobotsHeader(forced, 'noindex')
+		expect(forced).toEqual({ 'X-Robots-Tag': 'noindex, nosnippet' })
+	})
+})
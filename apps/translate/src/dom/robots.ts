@@ -0,0 +1,119 @@
+/**
+ * Robots directives for language hosts
+ * Applies the per-language robots policy to robots <meta> tags and the X-Robots-Tag header,
+ * so an origin noindex can be lifted (or a noindex forced) on the translated host
+ */
+
+import type { RobotsPolicy } from '@pantolingo/db'
+
+// Crawler-specific <meta name> values carry the same directives as name="robots"
+const ROBOTS_META_SELECTOR = 'meta[name="robots"], meta[name="googlebot"], meta[name="bingbot"]'
+
+/**
+ * Rewrite a robots directive list (e.g. "noindex, follow") for a policy
+ * Tokens may carry a user-agent prefix ("googlebot: noindex"), which is kept
+ * - origin: unchanged
+ * - index: drops noindex, turns none (noindex, nofollow) into nofollow
+ * - noindex: drops index/all and adds noindex unless already present
+ * @returns Rewritten directives ('' if none remain)
+ */
+export function rewriteRobotsDirectives(directives: string, policy: RobotsPolicy): string {
+	if (policy === 'origin') {
+		return directives
+	}
+
+	const tokens: string[] = []
+	let hasNoindex = false
+
+	for (const token of directives.split(',')) {
+		const trimmed = token.trim()
+		if (!trimmed) continue
+
+		const match = trimmed.match(/^(?:([a-z][\w-]*)\s*:\s*)?(.+)$/i)!
+		const prefix = match[1] ? `${match[1]}: ` : ''
+		const directive = match[2].toLowerCase()
+
+		if (policy === 'index') {
+			if (directive === 'noindex') continue
+			tokens.push(directive === 'none' ? `${prefix}nofollow` : trimmed)
+		} else {
+			if (directive === 'index' || directive === 'all') continue
+			if (directive === 'noindex' || directive === 'none') hasNoindex = true
+			tokens.push(trimmed)
+		}
+	}
+
+	if (policy === 'noindex' && !hasNoindex) {
+		tokens.unshift('noindex')
+	}
+
+	return tokens.join(', ')
+}
+
+/**
+ * Apply a robots policy to the robots <meta> tags of a page
+ * Tags left without directives are removed; noindex adds <meta name="robots"> if the page has none
+ * @param document - linkedom Document object
+ * @param policy - Robots policy of the language
+ * @returns true if the document was changed
+ */
+export function applyRobotsPolicy(document: any, policy: RobotsPolicy): boolean {
+	if (policy === 'origin') {
+		return false
+	}
+
+	let changed = false
+	let hasRobotsMeta = false
+
+	const metaElements = document.querySelectorAll(ROBOTS_META_SELECTOR)
+	for (let i = 0; i < metaElements.length; i++) {
+		const meta = metaElements[i]
+		const content = meta.getAttribute('content') ?? ''
+		const rewritten = rewriteRobotsDirectives(content, policy)
+
+		if (meta.getAttribute('name') === 'robots') {
+			hasRobotsMeta = true
+		}
+		if (rewritten === content) continue
+
+		if (rewritten) {
+			meta.setAttribute('content', rewritten)
+		} else {
+			meta.parentNode?.removeChild(meta)
+		}
+		changed = true
+	}
+
+	if (policy === 'noindex' && !hasRobotsMeta) {
+		const headElement = document.head || document.querySelector('head')
+		if (headElement) {
+			const robotsElement = document.createElement('meta')
+			robotsElement.setAttribute('name', 'robots')
+			robotsElement.setAttribute('content', 'noindex')
+			headElement.appendChild(robotsElement)
+			changed = true
+		}
+	}
+
+	return changed
+}
+
+/**
+ * Apply a robots policy to an X-Robots-Tag response header (if the origin sent one)
+ * @param headers - Prepared response headers (modified in place)
+ * @param policy - Robots policy of the language
+ */
+export function applyRobotsHeader(headers: Record<string, string | string[]>, policy: RobotsPolicy): void {
+	const key = Object.keys(headers).find((name) => name.toLowerCase() === 'x-robots-tag')
+	if (!key || policy === 'origin') {
+		return
+	}
+
+	const value = headers[key]
+	const rewritten = rewriteRobotsDirectives(Array.isArray(value) ? value.join(', ') : value, policy)
+	if (rewritten) {
+		headers[key] = rewritten
+	} else {
+		delete headers[key]
+	}
+}
@@ -0,0 +1,177 @@
+/**
+ * Tests for JSON-LD structured data translation
+ * Verifies extraction of whitelisted values, application with re-serialization, and URL rewriting
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseHTML } from 'linkedom'
+import { extractSegments, extractLinkPathnames } from './extractor.js'
+import { applyTranslations, type ApplyTranslationsResult } from './applicator.js'
+import { rewriteLinks } from './rewriter.js'
+import { serializeStructuredData } from './structured-data.js'
+
+// Helper to create a document with JSON-LD scripts in the head
+function createDocument(jsonLd: unknown[], bodyHtml = '<p>Hello</p>'): Document {
+	const scripts = jsonLd
+		.map((data) => `<script type="application/ld+json">${JSON.stringify(data)}</script>`)
+		.join('')
+	const { document } = parseHTML(`<!DOCTYPE html><html><head>${scripts}</head><body>${bodyHtml}</body></html>`)
+	return document
+}
+
+// Helper to read back the JSON of each JSON-LD script
+function readJsonLd(document: Document): unknown[] {
+	return Array.from(document.querySelectorAll('script[type="application/ld+json"]')).map((script) =>
+		JSON.parse(script.textContent ?? '')
+	)
+}
+
+const faq = {
+	'@context': 'https://schema.org',
+	'@type': 'FAQPage',
+	mainEntity: [
+		{
+			'@type': 'Question',
+			name: 'Do you ship abroad?',
+			acceptedAnswer: { '@type': 'Answer', text: 'Yes, worldwide.' },
+		},
+	],
+}
+
+const product = {
+	'@context': { name: 'https://schema.org/name' },
+	'@type': 'Product',
+	'@id': 'https://www.example.com/pricing#product',
+	name: 'Pro plan',
+	sku: 'PRO-1',
+	url: 'https://www.example.com/pricing',
+	image: { '@type': 'ImageObject', url: 'https://www.example.com/pro.png' },
+}
+
+describe('structured data extraction', () => {
+	it('extracts whitelisted values after DOM segments, including nested answers', () => {
+		const segments = extractSegments(createDocument([faq]), [])
+
+		expect(segments.map((s) => [s.kind, s.value])).toEqual([
+			['html', 'Hello'],
+			['data', 'Do you ship abroad?'],
+			['data', 'Yes, worldwide.'],
+		])
+	})
+
+	it('keeps the names of people, organizations, and brands', () => {
+		const review = {
+			'@context': 'https://schema.org',
+			'@type': 'Product',
+			name: 'Running shoes',
+			brand: { '@type': 'Brand', name: 'Fleetfoot' },
+			review: {
+				'@type': 'Review',
+				reviewBody: 'Very comfortable.',
+				author: { '@type': 'Person', name: 'Jane Miller', alternateName: ['Jane M.'] },
+				publisher: { '@type': ['Organization', 'Thing'], name: 'Shoe Weekly', description: 'A running magazine.' },
+			},
+		}
+		const document = createDocument([review])
+		const segments = extractSegments(document, [])
+
+		expect(segments.map((s) => s.value)).toEqual([
+			'Hello',
+			'Running shoes',
+			'Very comfortable.',
+			'A running magazine.',
+		])
+
+		applyTranslations(
+			document,
+			['Hola', 'Zapatillas para correr', 'Muy cómodas.', 'Una revista de running.'],
+			segments,
+			[]
+		)
+
+		const [data] = readJsonLd(document) as (typeof review)[]
+		expect(data.name).toBe('Zapatillas para correr')
+		expect(data.brand.name).toBe('Fleetfoot')
+		expect(data.review.author.name).toBe('Jane Miller')
+		expect(data.review.author.alternateName).toEqual(['Jane M.'])
+		expect(data.review.publisher.name).toBe('Shoe Weekly')
+		expect(data.review.publisher.description).toBe('Una revista de running.')
+	})
+
+	it('ignores identifiers, @context terms, and skipped or invalid scripts', () => {
+		const { document } = parseHTML(
+			`<html><head><script type="application/ld+json">${JSON.stringify(product)}</script>` +
+				`<script type="application/ld+json" class="notranslate">{"name":"Skipped"}</script>` +
+				`<script type="application/ld+json">{not json</script></head><body></body></html>`
+		)
+
+		expect(extractSegments(document, ['.notranslate']).map((s) => s.value)).toEqual(['Pro plan'])
+	})
+
+	it('extracts page URLs on the origin host as link pathnames', () => {
+		const pathnames = extractLinkPathnames(createDocument([product]), 'www.example.com')
+
+		expect([...pathnames]).toEqual(['/pricing'])
+	})
+})
+
+describe('structured data application', () => {
+	it('applies translations and re-serializes the script', () => {
+		const document = createDocument([faq])
+		const segments = extractSegments(document, [])
+
+		applyTranslations(document, ['Hola', '¿Envían al extranjero?', 'Sí, a todo el mundo.'], segments, [])
+
+		const [data] = readJsonLd(document) as (typeof faq)[]
+		expect(data.mainEntity[0].name).toBe('¿Envían al extranjero?')
+		expect(data.mainEntity[0].acceptedAnswer.text).toBe('Sí, a todo el mundo.')
+		expect(data['@type']).toBe('FAQPage')
+	})
+
+	it('keeps source values for cache misses without marking them pending', () => {
+		const document = createDocument([faq])
+		const segments = extractSegments(document, [])
+
+		const result = applyTranslations(
+			document,
+			['Hola', null, 'Sí, a todo el mundo.'],
+			segments,
+			[],
+			['h1', 'h2', 'h3']
+		) as ApplyTranslationsResult
+
+		expect(result.pending).toEqual([])
+		const [data] = readJsonLd(document) as (typeof faq)[]
+		expect(data.mainEntity[0].name).toBe('Do you ship abroad?')
+		expect(data.mainEntity[0].acceptedAnswer.text).toBe('Sí, a todo el mundo.')
+	})
+
+	it('escapes translations that would close the script element', () => {
+		expect(serializeStructuredData({ name: '</script><b>' })).toBe('{"name":"\\u003c/script>\\u003cb>"}')
+	})
+})
+
+describe('structured data URL rewriting', () => {
+	it('moves origin URLs to the translated host with translated pathnames', () => {
+		const document = createDocument([product])
+		const pathnameMap = new Map([['/pricing', '/precios']])
+
+		rewriteLinks(document, 'www.example.com', 'es.example.com', '/', '/', true, pathnameMap)
+
+		const [data] = readJsonLd(document) as (typeof product)[]
+		expect(data['@id']).toBe('https://es.example.com/precios#product')
+		expect(data.url).toBe('https://es.example.com/precios')
+		expect(data.image.url).toBe('https://es.example.com/pro.png')
+		expect(data['@context']).toEqual({ name: 'https://schema.org/name' })
+	})
+
+	it('leaves URLs on other hosts and relative identifiers untouched', () => {
+		const original = { '@id': '#organization', url: 'https://cdn.other.com/page' }
+		const document = createDocument([original])
+
+		const rewritten = rewriteLinks(document, 'www.example.com', 'es.example.com', '/', '/', true)
+
+		expect(rewritten).toBe(0)
+		expect(readJsonLd(document)).toEqual([original])
+	})
+})
@@ -0,0 +1,137 @@
+/**
+ * JSON-LD structured data helpers
+ * <script type="application/ld+json"> blocks are skipped by DOM traversal (script is in SKIP_TAGS),
+ * so their schema.org values are parsed, walked, and re-serialized here instead
+ * Shared by extraction, application, and link rewriting so all see the same values in the same order
+ */
+
+import { shouldSkipScript } from './utils.js'
+
+/**
+ * A string value inside parsed JSON-LD, with the object or array holding it
+ * Assigning holder[key] updates the parsed data in place
+ */
+export interface StructuredDataString {
+	holder: Record<string, unknown> | unknown[]
+	key: string | number
+	value: string
+}
+
+/**
+ * Get JSON-LD script elements, in document order
+ * @param document - linkedom Document object
+ * @param skipSelectors - CSS selectors for elements to skip
+ * @returns Script elements not matched (or nested in an element matched) by a skip selector
+ */
+export function getStructuredDataScripts(document: Document, skipSelectors: string[]): Element[] {
+	const elements: Element[] = []
+	const scripts = document.querySelectorAll('script[type="application/ld+json"]')
+
+	for (let i = 0; i < scripts.length; i++) {
+		const script = scripts[i] as Element
+		if (!shouldSkipScript(script, skipSelectors)) {
+			elements.push(script)
+		}
+	}
+
+	return elements
+}
+
+/**
+ * Parse the JSON of a JSON-LD script
+ * @returns Parsed data, or null if the script is empty or not valid JSON
+ */
+export function parseStructuredData(script: Element): unknown {
+	const text = script.textContent?.trim()
+	if (!text) return null
+
+	try {
+		return JSON.parse(text)
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Serialize JSON-LD for a script element
+ * Escapes '<' so translated values can't close the script early (e.g. "</script>")
+ */
+export function serializeStructuredData(data: unknown): string {
+	return JSON.stringify(data).replace(/</g, '\\u003c')
+}
+
+/**
+ * Replace a collected string value in the parsed data
+ */
+export function setStructuredDataString(ref: StructuredDataString, value: string): void {
+	;(ref.holder as Record<string | number, unknown>)[ref.key] = value
+}
+
+// Properties holding a node's own name (kept as-is in proper-name nodes)
+const NAME_PROPERTIES = new Set(['name', 'alternateName'])
+
+/**
+ * Check if a node's @type (a string or an array of strings) is one of the given types
+ */
+function hasNodeType(record: Record<string, unknown>, types: Set<string>): boolean {
+	const type = record['@type']
+	return Array.isArray(type) ? type.some((t) => types.has(t)) : typeof type === 'string' && types.has(type)
+}
+
+/**
+ * Collect non-empty string values stored under the given property names
+ * Walks nested nodes and arrays depth-first in key order (stable between parses);
+ * '@context' is not walked since its values are vocabulary IRIs, not content
+ * @param data - Parsed JSON-LD
+ * @param properties - Property names to collect (e.g. ['name', 'description'])
+ * @param properNameTypes - Node types whose name and alternateName are not collected (e.g. ['Person'])
+ * @returns String values with their holders, in traversal order
+ */
+export function collectStructuredDataStrings(
+	data: unknown,
+	properties: string[],
+	properNameTypes: string[] = []
+): StructuredDataString[] {
+	const strings: StructuredDataString[] = []
+	const propertySet = new Set(properties)
+	const properNameTypeSet = new Set(properNameTypes)
+
+	const walk = (node: unknown): void => {
+		if (Array.isArray(node)) {
+			for (const item of node) walk(item)
+			return
+		}
+		if (!node || typeof node !== 'object') {
+			return
+		}
+
+		const record = node as Record<string, unknown>
+		const properName = hasNodeType(record, properNameTypeSet)
+		for (const key of Object.keys(record)) {
+			if (key === '@context') continue
+
+			const value = record[key]
+			if (propertySet.has(key) && !(properName && NAME_PROPERTIES.has(key))) {
+				if (typeof value === 'string') {
+					if (value.trim().length > 0) strings.push({ holder: record, key, value })
+					continue
+				}
+				if (Array.isArray(value)) {
+					// e.g. "alternateName": ["A", "B"] - collect strings, walk nested nodes
+					value.forEach((item, index) => {
+						if (typeof item === 'string') {
+							if (item.trim().length > 0) strings.push({ holder: value, key: index, value: item })
+						} else {
+							walk(item)
+						}
+					})
+					continue
+				}
+			}
+			walk(value)
+		}
+	}
+
+	walk(data)
+	return strings
+}
@@ -1,11 +1,11 @@
 /**
  * Tests for DOM utility functions
- * Verifies skip selector logic for translation exclusion
+ * Verifies skip selector logic for translation exclusion and translatable attribute rules
  */
 
 import { describe, it, expect } from 'vitest'
 import { parseHTML } from 'linkedom'
-import { shouldSkipNode } from './utils.js'
+import { shouldSkipNode, getTranslateAttrRules, getTranslatableAttrs } from './utils.js'
 
 // Helper to create a document with the given HTML
 function createDocument(html: string): Document {
@@ -140,6 +140,41 @@ describe('shouldSkipNode', () => {
 		})
 	})
 
+	describe('translation markup', () => {
+		it('skips translate="no" and .notranslate without configured selectors', () => {
+			const doc = createDocument('<p translate="NO">Acme</p><div class="card notranslate"><span>Acme Pro</span></div>')
+			expect(shouldSkipNode(doc.querySelector('p')!, [])).toBe(true)
+			expect(shouldSkipNode(doc.querySelector('span')!, [])).toBe(true)
+		})
+
+		it('lets a nearer translate="yes" re-enable translation inside translate="no"', () => {
+			const doc = createDocument('<div translate="no"><p translate="yes">Welcome</p><p>Acme</p></div>')
+			const [welcome, acme] = Array.from(doc.querySelectorAll('p'))
+			expect(shouldSkipNode(welcome, [])).toBe(false)
+			expect(shouldSkipNode(acme, [])).toBe(true)
+		})
+
+		it('does not let translate="yes" override configured selectors', () => {
+			const doc = createDocument('<div class="brand"><p translate="yes">Acme</p></div>')
+			expect(shouldSkipNode(doc.querySelector('p')!, ['.brand'])).toBe(true)
+		})
+
+		it('forces translation with data-pantolingo-translate="yes" inside skipped regions', () => {
+			const doc = createDocument(
+				'<div class="brand"><pre data-pantolingo-translate="yes"><code>// Say hello</code></pre></div>'
+			)
+			expect(shouldSkipNode(doc.querySelector('code')!.firstChild!, ['.brand'])).toBe(false)
+		})
+
+		it('keeps nearer opt-outs inside forced regions, and never forces script or style', () => {
+			const doc = createDocument(
+				'<div data-pantolingo-translate="yes"><span class="notranslate">Acme</span><script>var a</script></div>'
+			)
+			expect(shouldSkipNode(doc.querySelector('span')!, [])).toBe(true)
+			expect(shouldSkipNode(doc.querySelector('script')!, [])).toBe(true)
+		})
+	})
+
 	describe('empty selectors array', () => {
 		it('does not skip normal elements when no selectors provided', () => {
 			const doc = createDocument('<p>Normal paragraph</p>')
@@ -154,3 +189,42 @@ describe('shouldSkipNode', () => {
 		})
 	})
 })
+
+describe('translatable attributes', () => {
+	it('adds website entries after the built-in attributes', () => {
+		const rules = getTranslateAttrRules(['data-tooltip', 'input[type="submit"]@value', 'a[href^="mailto:a@b.com"]@Data-Hint'])
+
+		expect(rules.slice(4)).toEqual([
+			{ attr: 'data-tooltip' },
+			{ attr: 'value', selector: 'input[type="submit"]' },
+			{ attr: 'data-hint', selector: 'a[href^="mailto:a@b.com"]' },
+		])
+	})
+
+	it('ignores malformed entries and duplicates of unscoped attributes', () => {
+		const rules = getTranslateAttrRules(['@value', 'bad attr', 'button@title', 'data-tooltip', 'data-tooltip'])
+
+		expect(rules.slice(4)).toEqual([{ attr: 'data-tooltip' }])
+	})
+
+	it('ignores reserved attributes and value or content without a selector', () => {
+		const rules = getTranslateAttrRules(['href', 'a@src', 'onclick', 'value', 'content', 'meta[name="author"]@content'])
+
+		expect(rules.slice(4)).toEqual([{ attr: 'content', selector: 'meta[name="author"]' }])
+	})
+
+	it('returns attributes with values, applying selectors and skipping translated meta tags', () => {
+		const { document } = parseHTML(
+			'<html><head><meta name="description" content="Desc"><meta name="application-name" content="App"></head>' +
+				'<body><input type="submit" value="Send" title="Send form"><input type="text" value="typed" data-tooltip=" "></body></html>'
+		)
+		const rules = getTranslateAttrRules(['input[type="submit"]@value', 'data-tooltip', 'meta@content'])
+		const [submit, text] = Array.from(document.querySelectorAll('input'))
+		const [description, appName] = Array.from(document.querySelectorAll('meta'))
+
+		expect(getTranslatableAttrs(submit, rules)).toEqual(['title', 'value'])
+		expect(getTranslatableAttrs(text, rules)).toEqual([])
+		expect(getTranslatableAttrs(description, rules)).toEqual([])
+		expect(getTranslatableAttrs(appName, rules)).toEqual(['content'])
+	})
+})
@@ -3,43 +3,228 @@
  * These functions must remain identical between extractor and applicator
  */
 
-import { SKIP_TAGS } from '../config.js'
+import {
+	SKIP_TAGS,
+	NEVER_TRANSLATE_TAGS,
+	NOTRANSLATE_CLASS,
+	FORCE_TRANSLATE_ATTR,
+	TRANSLATE_ATTRS,
+	RESERVED_TRANSLATE_ATTRS,
+	SELECTOR_REQUIRED_ATTRS,
+	TRANSLATE_META,
+} from '../config.js'
+
+/**
+ * Check if an element matches any of the given selectors
+ */
+function matchesAnySelector(elem: Element, selectors: string[]): boolean {
+	for (const selector of selectors) {
+		try {
+			if (elem.matches(selector)) {
+				return true
+			}
+		} catch (e) {
+			// Invalid selector, continue gracefully
+		}
+	}
+	return false
+}
 
 /**
  * Check if a node should be skipped during traversal
+ * The nearest element with a decision wins, walking up from the node:
+ * - <script>/<style>: always skipped
+ * - data-pantolingo-translate="yes": translated, even inside skip selectors or SKIP_TAGS
+ * - skip selectors (from database config): skipped
+ * - translate="no" or class="notranslate": skipped, unless a nearer element has translate="yes" (HTML semantics)
+ * - SKIP_TAGS (code, textarea, ...): skipped, unless an ancestor forces translation
  * @param node - DOM node to check
  * @param skipSelectors - CSS selectors for elements to skip (from database config)
  * @returns true if node or any ancestor should be skipped
  */
 export function shouldSkipNode(node: Node, skipSelectors: string[]): boolean {
 	let current: Node | null = node
+	let insideSkipTag = false
+	let translateYes = false
 
 	while (current) {
 		if (current.nodeType === 1) {
 			// Node.ELEMENT_NODE
 			const elem = current as Element
+			const tagName = elem.tagName.toLowerCase()
 
-			for (const selector of skipSelectors) {
-				try {
-					if (elem.matches(selector)) {
-						return true
-					}
-				} catch (e) {
-					// Invalid selector, continue gracefully
-				}
+			if (NEVER_TRANSLATE_TAGS.has(tagName)) {
+				return true
+			}
+			if (elem.getAttribute(FORCE_TRANSLATE_ATTR)?.trim().toLowerCase() === 'yes') {
+				return false
+			}
+			if (matchesAnySelector(elem, skipSelectors)) {
+				return true
 			}
 
-			if (SKIP_TAGS.has(elem.tagName.toLowerCase())) {
+			const translate = elem.getAttribute('translate')?.trim().toLowerCase()
+			if (!translateYes && (translate === 'no' || elem.classList.contains(NOTRANSLATE_CLASS))) {
 				return true
 			}
+			if (translate === 'yes' || translate === '') {
+				translateYes = true
+			}
+
+			if (SKIP_TAGS.has(tagName)) {
+				insideSkipTag = true
+			}
 		}
 
 		current = current.parentNode
 	}
 
+	return insideSkipTag
+}
+
+/**
+ * Check if a data <script> (JSON-LD, embedded JSON state) should be skipped
+ * shouldSkipNode always skips <script>, so the script's own selectors and markup are checked here,
+ * then its ancestors as usual
+ * @param script - Script element
+ * @param skipSelectors - CSS selectors for elements to skip
+ * @returns true if the script or an ancestor opts out of translation
+ */
+export function shouldSkipScript(script: Element, skipSelectors: string[]): boolean {
+	if (matchesAnySelector(script, skipSelectors)) {
+		return true
+	}
+	if (script.getAttribute('translate')?.trim().toLowerCase() === 'no' || script.classList.contains(NOTRANSLATE_CLASS)) {
+		return true
+	}
+	return !!script.parentNode && shouldSkipNode(script.parentNode, skipSelectors)
+}
+
+/**
+ * Check if a skipped node may contain elements that opt back in to translation
+ * (translate="yes" or data-pantolingo-translate="yes") - traversals descend into it only then
+ * @param node - Node that shouldSkipNode() returned true for
+ */
+export function hasOptInDescendants(node: Node): boolean {
+	if (node.nodeType !== 1 || NEVER_TRANSLATE_TAGS.has((node as Element).tagName.toLowerCase())) {
+		return false
+	}
+	return (node as Element).querySelector(`[${FORCE_TRANSLATE_ATTR}], [translate]`) !== null
+}
+
+/**
+ * Check if any element inside a translated element is skipped (e.g. an inline translate="no" brand name)
+ * Such blocks can't be grouped: their skipped content would be translated as part of the group
+ * @param elem - Element that is not itself skipped
+ * @param skipSelectors - CSS selectors for elements to skip
+ */
+export function hasSkippedDescendants(elem: Element, skipSelectors: string[]): boolean {
+	const descendants = elem.querySelectorAll('*')
+	for (let i = 0; i < descendants.length; i++) {
+		if (shouldSkipNode(descendants[i], skipSelectors)) {
+			return true
+		}
+	}
 	return false
 }
 
+const TRANSLATE_META_SELECTOR = TRANSLATE_META.map((key) => `meta[name="${key}"], meta[property="${key}"]`).join(', ')
+
+/**
+ * Get head <meta> tags with translatable content (description, Open Graph, Twitter card)
+ * Shared by extraction, application, and the recovery dictionary so all see the same order
+ * @param document - linkedom Document object
+ * @param skipSelectors - CSS selectors for elements to skip
+ * @returns Elements with non-empty content, in document order
+ */
+export function getTranslatableMetaElements(document: Document, skipSelectors: string[]): Element[] {
+	const elements: Element[] = []
+	const metaElements = document.querySelectorAll(TRANSLATE_META_SELECTOR)
+
+	for (let i = 0; i < metaElements.length; i++) {
+		const elem = metaElements[i] as Element
+		const content = elem.getAttribute('content')
+		if (content && content.trim().length > 0 && !shouldSkipNode(elem, skipSelectors)) {
+			elements.push(elem)
+		}
+	}
+
+	return elements
+}
+
+/**
+ * A translatable attribute, optionally limited to elements matching a selector
+ */
+export interface TranslateAttrRule {
+	attr: string
+	selector?: string
+}
+
+// Attribute names a website may add (letters, digits, '-', '_', ':', '.')
+const ATTR_NAME_PATTERN = /^[a-z_][\w.:-]*$/
+
+/**
+ * Build the translatable attribute rules for a website
+ * Built-in TRANSLATE_ATTRS come first, then the website's entries in configured order
+ * Entries are an attribute name ("data-tooltip") or selector@attribute ("input[type=submit]@value");
+ * malformed entries, reserved attributes (RESERVED_TRANSLATE_ATTRS, on*), and value/content without a
+ * selector are ignored - the dashboard rejects them too, but older configs may hold them
+ * @param translateAttrs - Website-configured entries (from database config)
+ * @returns Rules in evaluation order
+ */
+export function getTranslateAttrRules(translateAttrs: string[] = []): TranslateAttrRule[] {
+	const rules: TranslateAttrRule[] = TRANSLATE_ATTRS.map((attr) => ({ attr }))
+
+	for (const entry of translateAttrs) {
+		// Attribute names can't contain '@', selectors can (e.g. [href^="mailto:a@b"]) - split on the last one
+		const at = entry.lastIndexOf('@')
+		const attr = entry.slice(at + 1).trim().toLowerCase()
+		const selector = at > 0 ? entry.slice(0, at).trim() : undefined
+
+		// data-pantolingo-* attributes are the proxy's own markers
+		if (!ATTR_NAME_PATTERN.test(attr) || attr.startsWith('data-pantolingo') || at === 0) continue
+		if (RESERVED_TRANSLATE_ATTRS.has(attr) || attr.startsWith('on')) continue
+		if (SELECTOR_REQUIRED_ATTRS.has(attr) && !selector) continue
+		if (rules.some((rule) => rule.attr === attr && (!rule.selector || rule.selector === selector))) continue
+
+		rules.push(selector ? { attr, selector } : { attr })
+	}
+
+	return rules
+}
+
+/**
+ * Get the attributes of an element to translate, in rule order
+ * Shared by extraction, application, and the recovery dictionary so all see the same order
+ * Head meta tags already translated by content (TRANSLATE_META) are not matched again
+ * @param elem - Element to check
+ * @param rules - Rules from getTranslateAttrRules()
+ * @returns Attribute names with non-empty values (each at most once)
+ */
+export function getTranslatableAttrs(elem: Element, rules: TranslateAttrRule[]): string[] {
+	const attrs: string[] = []
+
+	for (const rule of rules) {
+		if (attrs.includes(rule.attr)) continue
+
+		const value = elem.getAttribute(rule.attr)
+		if (!value || value.trim().length === 0) continue
+
+		if (rule.selector) {
+			try {
+				if (!elem.matches(rule.selector)) continue
+			} catch (e) {
+				continue // Invalid selector, continue gracefully
+			}
+		}
+		if (rule.attr === 'content' && elem.matches(TRANSLATE_META_SELECTOR)) continue
+
+		attrs.push(rule.attr)
+	}
+
+	return attrs
+}
+
 /**
  * Check if a node or any of its ancestors is in the grouped elements set
  * @param node - Node to check
@@ -58,3 +243,17 @@ export function isInsideGroupedElement(node: Node, groupedElements: Set<Element>
 
 	return false
 }
+
+/**
+ * Check if an element is a <link rel="canonical"> (rel is a space-separated token list)
+ * @param element - Element to check
+ * @returns true for canonical links
+ */
+export function isCanonicalLink(element: Element): boolean {
+	const rel = element.getAttribute('rel')
+	return (
+		element.tagName.toLowerCase() === 'link' &&
+		!!rel &&
+		rel.toLowerCase().split(/\s+/).includes('canonical')
+	)
+}
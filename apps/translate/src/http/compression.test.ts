@@ -0,0 +1,214 @@
+/**
+ * Tests for response compression
+ * Covers encoding negotiation, compressible types, response headers, buffered bodies, and precompressed
+ * static assets
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import { brotliDecompressSync, gunzipSync } from 'node:zlib'
+import type { Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import express, { type Request, type Response } from 'express'
+import {
+	negotiateEncoding,
+	negotiateResponseEncoding,
+	isCompressibleType,
+	canPrecompress,
+	compressBody,
+	compressResponses,
+	getPrecompressedAsset,
+	_internal,
+} from './compression.js'
+
+// Helper to create a request and a response with the given status and headers
+function createExchange(acceptEncoding: string, statusCode: number, headers: Record<string, string>) {
+	const resHeaders = new Map(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]))
+	const req = { get: (name: string) => (name.toLowerCase() === 'accept-encoding' ? acceptEncoding : undefined) }
+	const res = {
+		statusCode,
+		get: (name: string) => resHeaders.get(name.toLowerCase()),
+		set(name: string, value: string) {
+			resHeaders.set(name.toLowerCase(), value)
+			return res
+		},
+		removeHeader: (name: string) => resHeaders.delete(name.toLowerCase()),
+		vary(field: string) {
+			const vary = resHeaders.get('vary')
+			resHeaders.set('vary', vary ? `${vary}, ${field}` : field)
+			return res
+		},
+	}
+	return { req: req as unknown as Request, res: res as unknown as Response, headers: resHeaders }
+}
+
+describe('negotiateEncoding', () => {
+	it('prefers brotli, then gzip', () => {
+		expect(negotiateEncoding('gzip, deflate, br, zstd')).toBe('br')
+		expect(negotiateEncoding('gzip, deflate')).toBe('gzip')
+		expect(negotiateEncoding('*')).toBe('br')
+	})
+
+	it('respects quality values and refusals', () => {
+		expect(negotiateEncoding('br;q=0.5, gzip')).toBe('gzip')
+		expect(negotiateEncoding('br;q=0, gzip;q=0.8')).toBe('gzip')
+		expect(negotiateEncoding('*;q=0.5, br;q=0')).toBe('gzip')
+		expect(negotiateEncoding('gzip;q=0, br;q=0')).toBeNull()
+	})
+
+	it('uses identity without an Accept-Encoding header', () => {
+		expect(negotiateEncoding(undefined)).toBeNull()
+		expect(negotiateEncoding('')).toBeNull()
+		expect(negotiateEncoding('identity')).toBeNull()
+	})
+})
+
+describe('isCompressibleType', () => {
+	it('compresses text, scripts, and structured data', () => {
+		expect(isCompressibleType('text/html; charset=utf-8')).toBe(true)
+		expect(isCompressibleType('text/css')).toBe(true)
+		expect(isCompressibleType('application/javascript')).toBe(true)
+		expect(isCompressibleType('application/json')).toBe(true)
+		expect(isCompressibleType('application/vnd.api+json')).toBe(true)
+		expect(isCompressibleType('image/svg+xml')).toBe(true)
+	})
+
+	it('skips already-compressed, unknown, and long-lived stream types', () => {
+		expect(isCompressibleType('text/event-stream; charset=utf-8')).toBe(false)
+		expect(isCompressibleType('image/png')).toBe(false)
+		expect(isCompressibleType('font/woff2')).toBe(false)
+		expect(isCompressibleType('application/octet-stream')).toBe(false)
+		expect(isCompressibleType(undefined)).toBe(false)
+	})
+})
+
+describe('negotiateResponseEncoding', () => {
+	it('sets the encoding, drops Content-Length, and weakens strong ETags', () => {
+		const { req, res, headers } = createExchange('gzip, br', 200, {
+			'Content-Type': 'text/css',
+			'Content-Length': '5000',
+			ETag: '"v1"',
+		})
+
+		expect(negotiateResponseEncoding(req, res, 5000)).toBe('br')
+		expect(headers.get('content-encoding')).toBe('br')
+		expect(headers.get('vary')).toBe('Accept-Encoding')
+		expect(headers.has('content-length')).toBe(false)
+		expect(headers.get('etag')).toBe('W/"v1"')
+	})
+
+	it('adds Vary but sends partial, not-modified, no-transform, and small responses as-is', () => {
+		const responses: [number, Record<string, string>, number | null][] = [
+			[206, { 'Content-Range': 'bytes 0-4999/20000' }, 5000],
+			[304, {}, null],
+			[200, { 'Cache-Control': 'public, no-transform' }, 5000],
+			[200, {}, 100],
+		]
+
+		for (const [status, extraHeaders, size] of responses) {
+			const { req, res, headers } = createExchange('br', status, { 'Content-Type': 'text/html', ETag: '"v1"', ...extraHeaders })
+
+			expect(negotiateResponseEncoding(req, res, size)).toBeNull()
+			expect(headers.get('vary')).toBe('Accept-Encoding')
+			expect(headers.has('content-encoding')).toBe(false)
+			expect(headers.get('etag')).toBe('"v1"')
+		}
+	})
+
+	it('leaves incompressible types untouched', () => {
+		const { req, res, headers } = createExchange('br', 200, { 'Content-Type': 'image/png' })
+
+		expect(negotiateResponseEncoding(req, res, 5000)).toBeNull()
+		expect(headers.has('vary')).toBe(false)
+	})
+})
+
+describe('compressResponses', () => {
+	const html = '<p>Hola mundo</p>'.repeat(200)
+	let server: Server
+	let base: string
+
+	beforeAll(async () => {
+		const app = express()
+		app.use(compressResponses)
+		app.get('/page', (_req, res) => {
+			res.type('html').send(html)
+		})
+		app.get('/small', (_req, res) => {
+			res.type('html').send('<p>Hola</p>')
+		})
+		server = app.listen(0, '127.0.0.1')
+		await new Promise((resolve) => server.once('listening', resolve))
+		base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+	})
+
+	afterAll(async () => {
+		await new Promise((resolve) => server.close(resolve))
+	})
+
+	it('compresses buffered bodies with the negotiated encoding', async () => {
+		const response = await fetch(`${base}/page`, { headers: { 'accept-encoding': 'gzip' } })
+
+		expect(response.headers.get('content-encoding')).toBe('gzip')
+		expect(response.headers.get('vary')).toBe('Accept-Encoding')
+		expect(response.headers.get('content-type')).toBe('text/html; charset=utf-8')
+		expect(await response.text()).toBe(html)
+	})
+
+	it('sends small bodies and identity requests uncompressed', async () => {
+		const small = await fetch(`${base}/small`, { headers: { 'accept-encoding': 'br' } })
+		const identity = await fetch(`${base}/page`, { headers: { 'accept-encoding': 'identity' } })
+
+		expect(small.headers.get('content-encoding')).toBeNull()
+		expect(identity.headers.get('content-encoding')).toBeNull()
+		expect(identity.headers.get('content-length')).toBe(String(html.length))
+		expect(await identity.text()).toBe(html)
+	})
+})
+
+describe('canPrecompress', () => {
+	it('requires a known size within the limit', () => {
+		expect(canPrecompress('20000')).toBe(true)
+		expect(canPrecompress('50000000')).toBe(false)
+		expect(canPrecompress(null)).toBe(false)
+	})
+})
+
+describe('getPrecompressedAsset', () => {
+	const css = Buffer.from('body { color: red; }\n'.repeat(200))
+
+	beforeEach(() => {
+		_internal.clear()
+	})
+
+	it('compresses once per origin validator and encoding', async () => {
+		const readBody = vi.fn(async () => css)
+
+		const first = await getPrecompressedAsset('https://www.example.com/app.css\n"v1"', 'br', readBody)
+		const second = await getPrecompressedAsset('https://www.example.com/app.css\n"v1"', 'br', readBody)
+		const gzipped = await getPrecompressedAsset('https://www.example.com/app.css\n"v1"', 'gzip', readBody)
+
+		expect(first.hit).toBe(false)
+		expect(second.hit).toBe(true)
+		expect(gzipped.hit).toBe(false)
+		expect(readBody).toHaveBeenCalledTimes(2)
+		expect(brotliDecompressSync(second.body).equals(css)).toBe(true)
+		expect(gunzipSync(gzipped.body).equals(css)).toBe(true)
+	})
+
+	it('compresses again when the origin validator changes', async () => {
+		await getPrecompressedAsset('https://www.example.com/app.css\n"v1"', 'br', async () => css)
+		const changed = await getPrecompressedAsset('https://www.example.com/app.css\n"v2"', 'br', async () => css)
+
+		expect(changed.hit).toBe(false)
+		expect(_internal.getPrecompressed().size).toBe(2)
+	})
+})
+
+describe('compressBody', () => {
+	it('round-trips both encodings', async () => {
+		const html = Buffer.from('<p>Hola mundo</p>'.repeat(100))
+
+		expect(brotliDecompressSync(await compressBody(html, 'br')).equals(html)).toBe(true)
+		expect(gunzipSync(await compressBody(html, 'gzip')).equals(html)).toBe(true)
+	})
+})
@@ -0,0 +1,271 @@
+/**
+ * Response compression for the translation proxy
+ * Node's fetch decodes origin bodies, so everything we send would otherwise go out uncompressed.
+ * Text responses (HTML, CSS, JS, JSON, SVG, XML) are compressed with the best encoding the client
+ * accepts (brotli, then gzip):
+ * - Buffered bodies (res.send/res.json): compressResponses middleware
+ * - Streamed origin bodies: compressed on the fly while streaming (see streamOriginResponse)
+ * - Static assets with an origin validator: compressed once at a higher level and kept in memory,
+ *   keyed by origin URL + validator, so repeat requests skip compression
+ */
+
+import {
+	brotliCompress,
+	constants,
+	createBrotliCompress,
+	createGzip,
+	gzip,
+	type BrotliOptions,
+	type ZlibOptions,
+} from 'node:zlib'
+import type { Transform } from 'node:stream'
+import { promisify } from 'node:util'
+import type { NextFunction, Request, Response } from 'express'
+
+export type ContentEncoding = 'br' | 'gzip'
+
+// Smaller bodies gain little and can grow once framed
+const MIN_SIZE = 1024
+
+// On-the-fly compression favors speed; precompressed assets are compressed once, so favor size
+const BROTLI_QUALITY = 4
+const BROTLI_PRECOMPRESS_QUALITY = 9
+const GZIP_LEVEL = 6
+const GZIP_PRECOMPRESS_LEVEL = 9
+
+const MAX_PRECOMPRESS_SIZE = 1024 * 1024 // Larger assets are compressed while streaming
+const MAX_PRECOMPRESSED_TOTAL = 32 * 1024 * 1024 // Bytes of compressed assets kept in memory
+
+/**
+ * Content types worth compressing (images, fonts, video are already compressed)
+ */
+const COMPRESSIBLE_TYPE_PATTERN =
+	/^(text\/|application\/(javascript|x-javascript|ecmascript|json|ld\+json|manifest\+json|xml|rss\+xml|atom\+xml|xhtml\+xml)|image\/svg\+xml)|\+(json|xml)$/
+
+/**
+ * Long-lived streams: the compressor buffers output, so events would be held back until it fills
+ */
+const STREAMING_TYPES = new Set(['text/event-stream'])
+
+const brotliCompressAsync = promisify(brotliCompress)
+const gzipAsync = promisify(gzip)
+
+// Key: origin URL + validator + encoding (Map order = least recently used first)
+const precompressed = new Map<string, Buffer>()
+let precompressedSize = 0
+
+/**
+ * Choose the response encoding from an Accept-Encoding header
+ * Brotli is preferred over gzip at equal quality values; q=0 refuses an encoding
+ * @param acceptEncoding - Request Accept-Encoding header
+ * @returns Encoding to use, or null for identity
+ */
+export function negotiateEncoding(acceptEncoding: string | undefined): ContentEncoding | null {
+	const qualities = new Map<string, number>()
+
+	for (const part of (acceptEncoding ?? '').split(',')) {
+		const [name, ...params] = part.trim().toLowerCase().split(';')
+		if (!name) continue
+		const qParam = params.map((param) => param.trim()).find((param) => param.startsWith('q='))
+		const quality = qParam ? parseFloat(qParam.slice(2)) : 1
+		qualities.set(name.trim(), Number.isNaN(quality) ? 0 : quality)
+	}
+
+	const wildcard = qualities.get('*') ?? 0
+	const br = qualities.get('br') ?? wildcard
+	const gzipQuality = qualities.get('gzip') ?? qualities.get('x-gzip') ?? wildcard
+
+	if (br > 0 && br >= gzipQuality) return 'br'
+	if (gzipQuality > 0) return 'gzip'
+	return null
+}
+
+/**
+ * Check if a content type is text worth compressing (long-lived streams never are)
+ * @param contentType - Response Content-Type header
+ */
+export function isCompressibleType(contentType: string | undefined): boolean {
+	const mimeType = (contentType ?? '').split(';')[0].trim().toLowerCase()
+	return COMPRESSIBLE_TYPE_PATTERN.test(mimeType) && !STREAMING_TYPES.has(mimeType)
+}
+
+/**
+ * Decide whether to compress a response and set its encoding headers
+ * Call once the status and headers are set. Compressible responses always get Vary: Accept-Encoding
+ * (shared caches must keep the variants apart); partial (206), bodiless, already-encoded, and
+ * no-transform responses are sent as-is. Strong ETags are weakened, as the bytes differ from the origin's
+ * @param req - Express request
+ * @param res - Express response
+ * @param size - Body size in bytes, or null if unknown (streamed)
+ * @returns Encoding to compress the body with, or null to send it as-is
+ */
+export function negotiateResponseEncoding(req: Request, res: Response, size: number | null): ContentEncoding | null {
+	if (!isCompressibleType(res.get('Content-Type'))) {
+		return null
+	}
+	res.vary('Accept-Encoding')
+
+	if (
+		res.statusCode === 204 ||
+		res.statusCode === 206 ||
+		res.statusCode === 304 ||
+		res.get('Content-Encoding') ||
+		res.get('Content-Range') ||
+		/\bno-transform\b/i.test(res.get('Cache-Control') ?? '') ||
+		(size !== null && size < MIN_SIZE)
+	) {
+		return null
+	}
+
+	const encoding = negotiateEncoding(req.get('accept-encoding'))
+	if (!encoding) {
+		return null
+	}
+
+	res.set('Content-Encoding', encoding)
+	res.removeHeader('Content-Length')
+	const etag = res.get('ETag')
+	if (etag && !etag.startsWith('W/')) {
+		res.set('ETag', `W/${etag}`)
+	}
+
+	return encoding
+}
+
+/**
+ * Compress a buffered body
+ * @param body - Body to compress
+ * @param encoding - Negotiated encoding
+ * @param precompress - Favor size over speed (result is kept for repeat requests)
+ */
+export function compressBody(body: Buffer, encoding: ContentEncoding, precompress = false): Promise<Buffer> {
+	return encoding === 'br'
+		? brotliCompressAsync(body, getBrotliOptions(body.length, precompress))
+		: gzipAsync(body, getGzipOptions(precompress))
+}
+
+/**
+ * Create a transform stream that compresses a streamed body
+ * @param encoding - Negotiated encoding
+ */
+export function createCompressStream(encoding: ContentEncoding): Transform {
+	return encoding === 'br' ? createBrotliCompress(getBrotliOptions(null, false)) : createGzip(getGzipOptions(false))
+}
+
+/**
+ * Brotli options (text mode; the size hint helps small bodies)
+ */
+function getBrotliOptions(size: number | null, precompress: boolean): BrotliOptions {
+	return {
+		params: {
+			[constants.BROTLI_PARAM_MODE]: constants.BROTLI_MODE_TEXT,
+			[constants.BROTLI_PARAM_QUALITY]: precompress ? BROTLI_PRECOMPRESS_QUALITY : BROTLI_QUALITY,
+			...(size !== null ? { [constants.BROTLI_PARAM_SIZE_HINT]: size } : {}),
+		},
+	}
+}
+
+/**
+ * Gzip options
+ */
+function getGzipOptions(precompress: boolean): ZlibOptions {
+	return { level: precompress ? GZIP_PRECOMPRESS_LEVEL : GZIP_LEVEL }
+}
+
+/**
+ * Check if a streamed body can be precompressed and kept (known size within the limit)
+ * @param contentLength - Origin Content-Length header
+ */
+export function canPrecompress(contentLength: string | null): boolean {
+	const size = contentLength ? parseInt(contentLength, 10) : NaN
+	return size >= 0 && size <= MAX_PRECOMPRESS_SIZE
+}
+
+/**
+ * Get a precompressed asset, compressing and keeping it on a miss
+ * @param key - Origin URL + validator (a changed asset gets a new validator, so entries never go stale)
+ * @param encoding - Negotiated encoding
+ * @param readBody - Reads the uncompressed body (only called on a miss)
+ * @returns Compressed body, and whether it was kept from an earlier request
+ */
+export async function getPrecompressedAsset(
+	key: string,
+	encoding: ContentEncoding,
+	readBody: () => Promise<Buffer>
+): Promise<{ body: Buffer; hit: boolean }> {
+	const cacheKey = `${key}\n${encoding}`
+	const cached = precompressed.get(cacheKey)
+	if (cached) {
+		// Most recently used
+		precompressed.delete(cacheKey)
+		precompressed.set(cacheKey, cached)
+		return { body: cached, hit: true }
+	}
+
+	const body = await compressBody(await readBody(), encoding, true)
+
+	// A concurrent miss may have stored the asset meanwhile
+	const previous = precompressed.get(cacheKey)
+	if (previous) {
+		precompressed.delete(cacheKey)
+		precompressedSize -= previous.length
+	}
+	precompressed.set(cacheKey, body)
+	precompressedSize += body.length
+
+	// Evict least recently used assets
+	for (const [oldestKey, oldest] of precompressed.entries()) {
+		if (precompressedSize <= MAX_PRECOMPRESSED_TOTAL) break
+		precompressed.delete(oldestKey)
+		precompressedSize -= oldest.length
+	}
+
+	return { body, hit: false }
+}
+
+/**
+ * Express middleware: compress buffered response bodies (res.send, res.json)
+ * Streamed responses negotiate their own compression (see streamOriginResponse)
+ */
+export function compressResponses(req: Request, res: Response, next: NextFunction): void {
+	const send = res.send
+
+	res.send = function (this: Response, body?: unknown) {
+		if (typeof body !== 'string' && !Buffer.isBuffer(body)) {
+			return send.call(this, body)
+		}
+
+		const buffer = typeof body === 'string' ? Buffer.from(body) : body
+		const encoding = negotiateResponseEncoding(req, this, buffer.length)
+		if (!encoding) {
+			return send.call(this, body)
+		}
+
+		// Sending a Buffer skips the charset Express adds to string bodies
+		const contentType = this.get('Content-Type')
+		if (typeof body === 'string' && contentType && !/charset=/i.test(contentType)) {
+			this.set('Content-Type', `${contentType}; charset=utf-8`)
+		}
+
+		compressBody(buffer, encoding).then(
+			(compressed) => send.call(this, compressed),
+			(error) => {
+				console.error('[Compression] Failed, sending uncompressed:', error)
+				this.removeHeader('Content-Encoding')
+				send.call(this, body)
+			}
+		)
+		return this
+	}
+
+	next()
+}
+
+// Export for testing only
+export const _internal = {
+	getPrecompressed: () => precompressed,
+	clear: () => {
+		precompressed.clear()
+		precompressedSize = 0
+	},
+}
@@ -0,0 +1,64 @@
+/**
+ * Tests for translated page ETags
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+	buildConditionalHeaders,
+	buildTranslatedETag,
+	getOriginValidator,
+	getTranslationVersion,
+	isRenderCurrent,
+	parseTranslatedETags,
+	setResponseETag,
+} from './etag.js'
+
+describe('translated ETags', () => {
+	it('round-trips the origin validator and translation version', () => {
+		const version = getTranslationVersion(new Date('2026-01-02T03:04:05Z'))
+		const etag = buildTranslatedETag('W/"abc-123"', version)
+
+		expect(etag).toMatch(/^W\/"pl\.[\w-]+\.[0-9a-z]+"$/)
+		expect(parseTranslatedETags(`"origin", ${etag}`)).toEqual([{ etag, originValidator: 'W/"abc-123"', version }])
+	})
+
+	it('ignores origin and malformed ETags', () => {
+		expect(parseTranslatedETags('"abc", W/"def", W/"pl.!!.1"')).toEqual([])
+		expect(parseTranslatedETags(undefined)).toEqual([])
+	})
+
+	it('uses Last-Modified when the origin sends no ETag', () => {
+		const lastModified = 'Wed, 21 Oct 2026 07:28:00 GMT'
+		const validator = getOriginValidator(new Headers({ 'last-modified': lastModified }))
+
+		expect(buildConditionalHeaders(validator!)).toEqual({ 'if-modified-since': lastModified })
+		expect(buildConditionalHeaders(getOriginValidator(new Headers({ etag: '"v1"', 'last-modified': lastModified }))!)).toEqual({
+			'if-none-match': '"v1"',
+		})
+		expect(getOriginValidator(new Headers())).toBeNull()
+		expect(getTranslationVersion(null)).toBe(0)
+	})
+})
+
+describe('isRenderCurrent', () => {
+	it('rejects renders whose cached config predates the latest purge', () => {
+		const purgedAt = new Date('2026-01-02T03:04:05Z')
+		const version = getTranslationVersion(purgedAt)
+
+		expect(isRenderCurrent(version, new Date(purgedAt.getTime() + 1000))).toBe(true)
+		expect(isRenderCurrent(version, new Date(purgedAt.getTime() - 1000))).toBe(false)
+		expect(isRenderCurrent(getTranslationVersion(null), new Date())).toBe(true)
+	})
+})
+
+describe('setResponseETag', () => {
+	it('replaces the origin ETag', () => {
+		const headers: Record<string, string | string[]> = { etag: '"origin"', 'content-type': 'text/html' }
+
+		setResponseETag(headers, 'W/"pl.abc.1"')
+		expect(headers).toEqual({ ETag: 'W/"pl.abc.1"', 'content-type': 'text/html' })
+
+		setResponseETag(headers, null)
+		expect(headers).toEqual({ 'content-type': 'text/html' })
+	})
+})
@@ -0,0 +1,112 @@
+/**
+ * ETags for translated pages
+ * A translated page changes when the origin page or its translations change, so its ETag combines the
+ * origin validator (ETag, or Last-Modified) with the translation state version (latest page purge, see
+ * getPageCachePurgedAt). The origin validator is embedded in the ETag, so a browser's If-None-Match can
+ * be turned into a conditional origin request without keeping any state
+ * Purges cover translation, path, settings, glossary, and image override edits; renders made with a
+ * translation config cached from before the latest purge are not tagged (see isRenderCurrent)
+ *
+ * Format: W/"pl.<base64url origin validator>.<version>" (weak - renders are equivalent, not byte-identical)
+ */
+
+const TRANSLATED_ETAG_PATTERN = /^W\/"pl\.([A-Za-z0-9_-]+)\.([0-9a-z]+)"$/
+
+// Origin validators taken from Last-Modified are prefixed so they revalidate with If-Modified-Since
+const LAST_MODIFIED_PREFIX = 'lm:'
+
+/**
+ * A translated ETag sent back by the browser
+ */
+export interface TranslatedETag {
+	etag: string
+	originValidator: string
+	version: number
+}
+
+/**
+ * Get the validator of an origin response (ETag preferred over Last-Modified)
+ * @returns Validator, or null if the origin sent neither
+ */
+export function getOriginValidator(originHeaders: Headers): string | null {
+	const etag = originHeaders.get('etag')
+	if (etag) {
+		return etag
+	}
+	const lastModified = originHeaders.get('last-modified')
+	return lastModified ? `${LAST_MODIFIED_PREFIX}${lastModified}` : null
+}
+
+/**
+ * Get the translation state version from a page's purge time
+ */
+export function getTranslationVersion(purgedAt: Date | null): number {
+	return purgedAt?.getTime() ?? 0
+}
+
+/**
+ * Check if a render reflects the current translation state version
+ * Settings, glossary terms, and image overrides come from the cached translation config, so a render
+ * whose config was loaded before the latest purge may be outdated and must not be tagged as current
+ * @param version - Current translation state version
+ * @param configLoadedAt - When the render's translation config was loaded
+ */
+export function isRenderCurrent(version: number, configLoadedAt: Date): boolean {
+	return version <= configLoadedAt.getTime()
+}
+
+/**
+ * Build the ETag of a translated page
+ * @param originValidator - Origin validator (see getOriginValidator)
+ * @param version - Translation state version the page was rendered with
+ */
+export function buildTranslatedETag(originValidator: string, version: number): string {
+	return `W/"pl.${Buffer.from(originValidator).toString('base64url')}.${version.toString(36)}"`
+}
+
+/**
+ * Parse the translated ETags in an If-None-Match header (other ETags are ignored)
+ * @param ifNoneMatch - Request If-None-Match header
+ */
+export function parseTranslatedETags(ifNoneMatch: string | undefined): TranslatedETag[] {
+	const etags: TranslatedETag[] = []
+
+	for (const value of (ifNoneMatch ?? '').split(',')) {
+		const etag = value.trim()
+		const match = etag.match(TRANSLATED_ETAG_PATTERN)
+		if (!match) continue
+		etags.push({
+			etag,
+			originValidator: Buffer.from(match[1], 'base64url').toString(),
+			version: parseInt(match[2], 36),
+		})
+	}
+
+	return etags
+}
+
+/**
+ * Build the conditional request headers that revalidate an origin validator
+ */
+export function buildConditionalHeaders(originValidator: string): Record<string, string> {
+	return originValidator.startsWith(LAST_MODIFIED_PREFIX)
+		? { 'if-modified-since': originValidator.slice(LAST_MODIFIED_PREFIX.length) }
+		: { 'if-none-match': originValidator }
+}
+
+/**
+ * Replace the origin ETag in prepared response headers
+ * Without an ETag, Express derives one from the sent body
+ * @param headers - Prepared response headers (modified in place)
+ * @param etag - Translated ETag, or null to only remove the origin's
+ */
+export function setResponseETag(headers: Record<string, string | string[]>, etag: string | null): void {
+	for (const key of Object.keys(headers)) {
+		if (key.toLowerCase() === 'etag') {
+			delete headers[key]
+		}
+	}
+	if (etag) {
+		headers['ETag'] = etag
+	}
+}
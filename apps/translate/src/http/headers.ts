@@ -7,7 +7,7 @@
  * These can cause issues with translated domains or expose origin infrastructure
  */
 const REMOVE_HEADERS = new Set([
-  // Encoding headers - Node's fetch auto-decompresses
+  // Encoding headers - Node's fetch auto-decompresses (responses are re-compressed, see compression.ts)
   'content-encoding',
   'transfer-encoding',
   'content-length',
@@ -0,0 +1,194 @@
+/**
+ * Tests for JSON API rule parsing, value selection, and proxying
+ * Proxying runs against a local origin server, with the segment cache kept in memory
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import express from 'express'
+import type { TranslationConfig } from '@pantolingo/db'
+import { parseJsonApiRules, getJsonApiPatterns, proxyJsonApi } from './json-api.js'
+import { collectJsonStrings } from '../dom/embedded-json.js'
+import { getTranslationProvider } from '../translation/providers/index.js'
+
+// Segment cache: normalized source text -> translation
+const segmentCache = vi.hoisted(() => new Map<string, string>())
+
+vi.mock('@pantolingo/db', async (importOriginal) => ({
+	...(await importOriginal<typeof import('@pantolingo/db')>()),
+	batchGetTranslations: vi.fn(async (_websiteId: number, _lang: string, texts: string[]) => {
+		return new Map(texts.flatMap((text) => (segmentCache.has(text) ? [[text, segmentCache.get(text)!]] : [])))
+	}),
+	batchUpsertTranslations: vi.fn(async (_websiteId: number, _lang: string, items: { original: string; translated: string }[]) => {
+		for (const item of items) segmentCache.set(item.original, item.translated)
+		return new Map()
+	}),
+	batchGetFuzzyMatches: vi.fn(async () => new Map()),
+	recordLlmUsage: vi.fn(async () => {}),
+	updateSegmentLastUsed: vi.fn(async () => {}),
+}))
+
+describe('parseJsonApiRules', () => {
+	it('matches request paths with * wildcards and ignores malformed entries', () => {
+		const rules = parseJsonApiRules([
+			'/api/products* items.*.name',
+			'/api/cart.json **.title',
+			'api/missing-slash name',
+			'/api/no-path',
+			'/api/empty-key items..name',
+		])
+
+		expect(rules).toHaveLength(2)
+		expect(getJsonApiPatterns('/api/products', rules)).toEqual([['items', '*', 'name']])
+		expect(getJsonApiPatterns('/api/products/42', rules)).toEqual([['items', '*', 'name']])
+		expect(getJsonApiPatterns('/api/cart.json', rules)).toEqual([['**', 'title']])
+		expect(getJsonApiPatterns('/api/cartxjson', rules)).toEqual([])
+		expect(getJsonApiPatterns('/shop/api/products', rules)).toEqual([])
+	})
+})
+
+describe('collectJsonStrings', () => {
+	it('selects string values by key pattern and keeps the response shape', () => {
+		const data = {
+			items: [
+				{ id: 'sku-1', name: 'Blue shirt', price: 20 },
+				{ id: 'sku-2', name: 'Red hat', tags: ['sale'] },
+			],
+			total: 2,
+		}
+
+		const strings = collectJsonStrings(data, [['items', '*', 'name']])
+		expect(strings.map((s) => s.value)).toEqual(['Blue shirt', 'Red hat'])
+
+		const [first] = strings
+		;(first.holder as Record<string | number, unknown>)[first.key] = 'Camisa azul'
+		expect(data.items[0]).toEqual({ id: 'sku-1', name: 'Camisa azul', price: 20 })
+	})
+
+	it('selects top-level arrays with a leading *', () => {
+		expect(collectJsonStrings(['One', 'Two'], [['*']]).map((s) => s.value)).toEqual(['One', 'Two'])
+	})
+})
+
+describe('proxyJsonApi', () => {
+	// Origin response for the next request
+	let originResponse: { contentType: string; body: string; etag?: string }
+	let origin: Server
+	let proxy: Server
+	let proxyBase: string
+
+	const translationConfig = {
+		websiteId: 1,
+		sourceLang: 'en',
+		targetLang: 'es',
+		translateApi: ['/api/products items.*.name'],
+		skipWords: [],
+		glossary: [],
+		provider: { name: 'mock' },
+	} as unknown as TranslationConfig
+	const provider = getTranslationProvider(translationConfig.provider)
+
+	beforeAll(async () => {
+		origin = createServer((_req, res) => {
+			const etag = originResponse.etag ? { etag: originResponse.etag } : {}
+			res.writeHead(200, { 'content-type': originResponse.contentType, ...etag }).end(originResponse.body)
+		})
+		await new Promise<void>((resolve) => origin.listen(0, '127.0.0.1', resolve))
+
+		const app = express()
+		app.use(async (req, res) => {
+			const url = new URL(req.originalUrl, 'http://es.example.com')
+			const config = {
+				originBase: `http://127.0.0.1:${(origin.address() as AddressInfo).port}`,
+				targetLang: 'es',
+				cacheDisabledUntil: null,
+			}
+			if (!(await proxyJsonApi(req, res, url, 'es.example.com', config, translationConfig))) {
+				res.status(404).send('not an API path')
+			}
+		})
+		proxy = app.listen(0, '127.0.0.1')
+		await new Promise((resolve) => proxy.once('listening', resolve))
+		proxyBase = `http://127.0.0.1:${(proxy.address() as AddressInfo).port}`
+	})
+
+	afterAll(async () => {
+		await new Promise((resolve) => proxy.close(resolve))
+		await new Promise((resolve) => origin.close(resolve))
+	})
+
+	beforeEach(() => {
+		segmentCache.clear()
+		vi.restoreAllMocks()
+		originResponse = {
+			contentType: 'application/json',
+			body: JSON.stringify({ items: [{ id: 'sku-1', name: 'Blue shirt' }], total: 1 }),
+		}
+	})
+
+	it('applies cached translations', async () => {
+		segmentCache.set('Blue shirt', 'Camisa azul')
+		const translateMany = vi.spyOn(provider, 'translateMany')
+		const translate = vi.spyOn(provider, 'translate')
+
+		const response = await fetch(`${proxyBase}/api/products`)
+
+		expect(await response.json()).toEqual({ items: [{ id: 'sku-1', name: 'Camisa azul' }], total: 1 })
+		expect(translateMany).not.toHaveBeenCalled()
+		expect(translate).not.toHaveBeenCalled()
+	})
+
+	it('translates and caches misses within the request', async () => {
+		const response = await fetch(`${proxyBase}/api/products`)
+
+		expect(await response.json()).toEqual({ items: [{ id: 'sku-1', name: '[es] Blue shirt' }], total: 1 })
+		expect(segmentCache.get('Blue shirt')).toBe('[es] Blue shirt')
+	})
+
+	it('keeps the source text when the provider fails', async () => {
+		vi.spyOn(provider, 'translate').mockRejectedValue(new Error('provider down'))
+		vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+		const response = await fetch(`${proxyBase}/api/products`)
+
+		expect(await response.json()).toEqual({ items: [{ id: 'sku-1', name: 'Blue shirt' }], total: 1 })
+		expect(segmentCache.size).toBe(0)
+	})
+
+	it('answers a conditional request after a partial translation with the translated body', async () => {
+		originResponse.etag = '"v1"'
+		const translate = vi.spyOn(provider, 'translate').mockRejectedValueOnce(new Error('provider down'))
+		vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+		const partial = await fetch(`${proxyBase}/api/products`)
+		const etag = partial.headers.get('etag')
+		expect(await partial.json()).toEqual({ items: [{ id: 'sku-1', name: 'Blue shirt' }], total: 1 })
+		expect(etag).not.toBe('"v1"')
+
+		translate.mockRestore()
+		const response = await fetch(`${proxyBase}/api/products`, { headers: { 'if-none-match': `${etag}, "v1"` } })
+
+		expect(response.status).toBe(200)
+		expect(await response.json()).toEqual({ items: [{ id: 'sku-1', name: '[es] Blue shirt' }], total: 1 })
+	})
+
+	it('only applies cached translations to credentialed requests', async () => {
+		const translate = vi.spyOn(provider, 'translate')
+
+		const response = await fetch(`${proxyBase}/api/products`, { headers: { cookie: 'session=abc' } })
+
+		expect(await response.json()).toEqual({ items: [{ id: 'sku-1', name: 'Blue shirt' }], total: 1 })
+		expect(translate).not.toHaveBeenCalled()
+		expect(segmentCache.size).toBe(0)
+	})
+
+	it('passes non-JSON responses through unchanged', async () => {
+		originResponse = { contentType: 'text/plain', body: 'Blue shirt' }
+
+		const response = await fetch(`${proxyBase}/api/products`)
+
+		expect(response.headers.get('content-type')).toMatch(/^text\/plain/)
+		expect(await response.text()).toBe('Blue shirt')
+	})
+})
@@ -0,0 +1,267 @@
+/**
+ * JSON API translation for the translation proxy
+ * Sites that load content client-side (XHR/fetch) would otherwise show source-language text after load.
+ * Responses matching the website's API rules have their selected string values translated through the
+ * same pattern normalization, segment cache, and provider as page segments, and keep their shape
+ *
+ * Rule syntax: "<path pattern> <json path>"
+ * - path pattern: request pathname (query string ignored); * matches any characters
+ * - json path: <key>.<key>...; * matches any one key or array index, ** matches any number of keys
+ * Example: /api/products* items.*.name
+ */
+
+import type { Request, Response } from 'express'
+import { batchGetTranslations, hashText, updateSegmentLastUsed, type TranslationConfig } from '@pantolingo/db'
+import { TIMEOUT_JSON_API_TRANSLATION } from '../config.js'
+import { buildFetchHeaders, proxyNonHtmlContent, type ProxyConfig } from './proxy.js'
+import { prepareResponseHeaders } from './headers.js'
+import { setResponseETag } from './etag.js'
+import { rewriteRedirectLocation } from './redirect.js'
+import { getCacheControl } from '../utils/cache-control.js'
+import { collectJsonStrings } from '../dom/embedded-json.js'
+import { applyPatterns, restorePatterns } from '../translation/skip-patterns.js'
+import { getTranslationProvider } from '../translation/providers/index.js'
+import { isInFlight, setInFlight, buildInFlightKey, startBackgroundSegmentTranslation } from '../deferred/index.js'
+
+/**
+ * Headers to forward from incoming request to origin
+ * API responses commonly depend on the session, so cookies and credentials are forwarded
+ */
+const JSON_API_HEADERS_TO_FORWARD = ['user-agent', 'accept', 'accept-language', 'cookie', 'authorization', 'referer']
+
+const GOOGLE_PROJECT_ID = () => process.env.GOOGLE_PROJECT_ID || ''
+
+// How often to check whether pending translations have finished
+const IN_FLIGHT_POLL_INTERVAL = 100
+
+/**
+ * A parsed JSON API rule
+ */
+export interface JsonApiRule {
+	path: RegExp
+	keys: string[]
+}
+
+/**
+ * Result of translating JSON string values
+ */
+interface JsonTranslationResult {
+	translations: string[]
+	cachedHashes: string[]
+}
+
+/**
+ * Parse configured API rules (malformed entries are ignored)
+ * @param entries - Website-configured rules (from database config)
+ */
+export function parseJsonApiRules(entries: string[]): JsonApiRule[] {
+	const rules: JsonApiRule[] = []
+
+	for (const entry of entries) {
+		const parts = entry.trim().split(/\s+/)
+		if (parts.length !== 2 || !parts[0].startsWith('/')) continue
+
+		const keys = parts[1].split('.')
+		if (keys.some((key) => key.length === 0)) continue
+
+		const pattern = parts[0].replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')
+		rules.push({ path: new RegExp(`^${pattern}$`), keys })
+	}
+
+	return rules
+}
+
+/**
+ * Get the JSON key patterns that apply to a request pathname
+ * @param pathname - Request pathname
+ * @param rules - Parsed API rules
+ * @returns Key patterns of every matching rule (empty if the path isn't translated)
+ */
+export function getJsonApiPatterns(pathname: string, rules: JsonApiRule[]): string[][] {
+	return rules.filter((rule) => rule.path.test(pathname)).map((rule) => rule.keys)
+}
+
+/**
+ * Wait until none of the given translations is in flight, or the timeout passes
+ * @param keys - In-flight keys (see buildInFlightKey)
+ * @param timeoutMs - Maximum wait
+ */
+async function waitForInFlight(keys: string[], timeoutMs: number): Promise<void> {
+	const deadline = Date.now() + timeoutMs
+	while (keys.some((key) => isInFlight(key)) && Date.now() < deadline) {
+		await new Promise((resolve) => setTimeout(resolve, IN_FLIGHT_POLL_INTERVAL))
+	}
+}
+
+/**
+ * Translate string values using the segment cache
+ * Misses are translated like deferred page segments (background translation, deduped with in-flight
+ * translations of other requests) and waited for up to TIMEOUT_JSON_API_TRANSLATION; values still
+ * untranslated then (slow or failed provider) keep their source text
+ * @param values - Source strings
+ * @param translationConfig - Website/language configuration
+ * @param host - Current host (for failure logging)
+ * @param pathname - Request pathname (for failure logging)
+ * @param translateMisses - Translate cache misses (false: cached translations only)
+ */
+async function translateJsonValues(
+	values: string[],
+	translationConfig: TranslationConfig,
+	host: string,
+	pathname: string,
+	translateMisses: boolean
+): Promise<JsonTranslationResult> {
+	const { websiteId, targetLang } = translationConfig
+
+	// Normalize for caching (PII redaction, numeric placeholders)
+	const patternData = values.map((value) => applyPatterns(value))
+	const normalized = patternData.map((data) => data.normalized)
+	const cachedTranslations = await batchGetTranslations(websiteId, targetLang, normalized)
+	const cachedHashes = Array.from(cachedTranslations.keys()).map((text) => hashText(text))
+
+	const misses = Array.from(new Set(normalized.filter((value) => !cachedTranslations.has(value))))
+
+	if (translateMisses && misses.length > 0) {
+		const hashes = misses.map((value) => hashText(value))
+		const keys = hashes.map((hash) => buildInFlightKey(websiteId, targetLang, hash))
+
+		// Misses another request is already translating are only waited for
+		const newIndices = misses.flatMap((_, i) => (isInFlight(keys[i]) ? [] : [i]))
+		for (const i of newIndices) {
+			setInFlight(keys[i])
+		}
+
+		if (newIndices.length > 0) {
+			startBackgroundSegmentTranslation({
+				websiteId,
+				lang: targetLang,
+				sourceLang: translationConfig.sourceLang,
+				segments: newIndices.map((i) => ({ kind: 'data', value: misses[i] })),
+				hashes: newIndices.map((i) => hashes[i]),
+				skipWords: translationConfig.skipWords,
+				provider: getTranslationProvider(translationConfig.provider),
+				tone: translationConfig.tone,
+				glossary: translationConfig.glossary,
+				projectId: GOOGLE_PROJECT_ID(),
+				context: { host, pathname },
+			}).catch((error) => console.error('[JSON API Translation] Failed:', error))
+		}
+
+		// Background translation writes each batch to the segment cache before leaving the in-flight store
+		await waitForInFlight(keys, TIMEOUT_JSON_API_TRANSLATION)
+		const translated = await batchGetTranslations(websiteId, targetLang, misses)
+		for (const [text, translation] of translated) {
+			cachedTranslations.set(text, translation)
+		}
+	}
+
+	// Untranslated values fall back to the source text
+	const translations = values.map((value, i) => {
+		const translation = cachedTranslations.get(normalized[i])
+		return translation === undefined
+			? value
+			: restorePatterns(translation, patternData[i].replacements, patternData[i].isUpperCase)
+	})
+
+	return { translations, cachedHashes }
+}
+
+/**
+ * Proxy a JSON API request, translating the values selected by the website's API rules
+ * Returns true if the request was handled, false if it should continue (no rule matches the path)
+ * HEAD, non-200, and non-JSON responses pass through unchanged
+ * @param req - Express request
+ * @param res - Express response
+ * @param url - Parsed URL object
+ * @param host - Current host
+ * @param config - Proxy configuration
+ * @param translationConfig - Website/language configuration
+ * @returns true if request was handled (response sent), false otherwise
+ */
+export async function proxyJsonApi(
+	req: Request,
+	res: Response,
+	url: URL,
+	host: string,
+	config: ProxyConfig,
+	translationConfig: TranslationConfig
+): Promise<boolean> {
+	if (req.method !== 'GET' && req.method !== 'HEAD') {
+		return false
+	}
+
+	const patterns = getJsonApiPatterns(url.pathname, parseJsonApiRules(translationConfig.translateApi))
+	if (patterns.length === 0) {
+		return false
+	}
+
+	const fetchUrl = config.originBase + url.pathname + url.search
+	const originResponse = await fetch(fetchUrl, {
+		method: req.method,
+		headers: buildFetchHeaders(req, JSON_API_HEADERS_TO_FORWARD, config.targetLang),
+		redirect: 'manual',
+	})
+
+	if (originResponse.status >= 300 && originResponse.status < 400) {
+		const location = originResponse.headers.get('location')
+		if (location) {
+			const redirectUrl = rewriteRedirectLocation(location, host, config.originBase, url)
+			res.status(originResponse.status).set('Location', redirectUrl).send()
+			return true
+		}
+	}
+
+	// HEAD has no body to translate
+	const contentType = (originResponse.headers.get('content-type') || '').toLowerCase()
+	if (req.method === 'HEAD' || originResponse.status !== 200 || !contentType.includes('json')) {
+		return proxyNonHtmlContent(res, originResponse, config)
+	}
+
+	let body = await originResponse.text()
+	let data: unknown
+	try {
+		data = JSON.parse(body)
+	} catch {
+		data = undefined // Invalid JSON - pass through as-is
+	}
+
+	const strings = data === undefined ? [] : collectJsonStrings(data, patterns)
+	let result: JsonTranslationResult | null = null
+
+	if (strings.length > 0) {
+		// Credentialed responses may hold personal data: only cached translations are applied, so it is
+		// never sent to the provider or stored in the segment cache
+		const credentialed = Boolean(req.get('cookie') || req.get('authorization'))
+		result = await translateJsonValues(
+			strings.map((s) => s.value),
+			translationConfig,
+			host,
+			url.pathname,
+			!credentialed
+		)
+		for (let i = 0; i < strings.length; i++) {
+			;(strings[i].holder as Record<string | number, unknown>)[strings[i].key] = result.translations[i]
+		}
+		body = JSON.stringify(data)
+	}
+
+	// API responses are data: respect origin cache, no minimum
+	const responseHeaders = prepareResponseHeaders(originResponse.headers)
+	responseHeaders['Cache-Control'] = getCacheControl({
+		originHeaders: originResponse.headers,
+		cacheDisabledUntil: config.cacheDisabledUntil,
+		applyMinimumCache: false,
+	})
+	// The body differs from the origin's and may still hold source text (pending translations) - Express hashes it
+	setResponseETag(responseHeaders, null)
+
+	// Mark cached segments as used after the response is sent (new translations are stored as they finish)
+	const cachedHashes = result?.cachedHashes ?? []
+	if (cachedHashes.length > 0) {
+		const { websiteId, targetLang } = translationConfig
+		res.on('finish', () => updateSegmentLastUsed(websiteId, targetLang, cachedHashes))
+	}
+
+	res.status(200).set(responseHeaders).send(body)
+	return true
+}
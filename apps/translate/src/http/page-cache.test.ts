@@ -0,0 +1,145 @@
+/**
+ * Tests for the rendered-page cache
+ * Covers cache keys, origin freshness rules, and storing rendered pages
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import type { Request } from 'express'
+import type { TranslationConfig } from '@pantolingo/db'
+import { buildPageCacheKey, getFreshUntil, cacheRenderedPage, _internal, type RenderedPage } from './page-cache.js'
+
+const url = new URL('https://es.example.com/pricing?plan=pro')
+
+// Helper to create a request with the given headers
+function createRequest(headers: Record<string, string> = {}, method = 'GET'): Request {
+	return { method, get: (name: string) => headers[name.toLowerCase()] } as unknown as Request
+}
+
+function createConfig(overrides: Partial<TranslationConfig> = {}): TranslationConfig {
+	return {
+		websiteId: 1,
+		translationId: 2,
+		pageCache: true,
+		pageCacheVary: [],
+		cacheDisabledUntil: null,
+		loadedAt: new Date(),
+		...overrides,
+	} as TranslationConfig
+}
+
+function createPage(originHeaders: Record<string, string>, status = 200): RenderedPage {
+	return {
+		path: '/pricing',
+		fetchUrl: 'https://www.example.com/pricing?plan=pro',
+		status,
+		headers: { 'Content-Type': 'text/html; charset=utf-8' },
+		html: '<html><body>Precios</body></html>',
+		originHeaders: new Headers(originHeaders),
+		renderedAt: Date.now(),
+	}
+}
+
+describe('buildPageCacheKey', () => {
+	it('keys by host, path, and query', () => {
+		expect(buildPageCacheKey('es.example.com', url, [], () => undefined)).toBe('es.example.com/pricing?plan=pro')
+	})
+
+	it('adds configured cookies and headers', () => {
+		const headers: Record<string, string> = { cookie: 'session=abc; currency=EUR', 'x-device': 'mobile' }
+		const key = buildPageCacheKey('es.example.com', url, ['cookie:currency', 'header:X-Device', 'query:plan'], (name) =>
+			headers[name.toLowerCase()]
+		)
+
+		expect(key).toBe('es.example.com/pricing?plan=pro\ncookie:currency=EUR\nheader:x-device=mobile')
+	})
+})
+
+describe('getFreshUntil', () => {
+	const now = 1_000_000
+
+	it('uses s-maxage, then max-age minus Age', () => {
+		expect(getFreshUntil(new Headers({ 'cache-control': 'public, max-age=60, s-maxage=300' }), now)).toBe(now + 300_000)
+		expect(getFreshUntil(new Headers({ 'cache-control': 'max-age=60', age: '20' }), now)).toBe(now + 40_000)
+	})
+
+	it('stores validated responses for revalidation only', () => {
+		expect(getFreshUntil(new Headers({ etag: '"v1"' }), now)).toBe(now)
+		expect(getFreshUntil(new Headers({ 'cache-control': 'no-cache, max-age=60', etag: '"v1"' }), now)).toBe(now)
+	})
+
+	it('never stores private, no-store, cookie-setting, or unvalidated responses', () => {
+		expect(getFreshUntil(new Headers({ 'cache-control': 'private, max-age=60' }), now)).toBeNull()
+		expect(getFreshUntil(new Headers({ 'cache-control': 'no-store' }), now)).toBeNull()
+		expect(getFreshUntil(new Headers({ 'cache-control': 'max-age=60', 'set-cookie': 'a=1' }), now)).toBeNull()
+		expect(getFreshUntil(new Headers({ 'cache-control': 'max-age=60', vary: '*' }), now)).toBeNull()
+		expect(getFreshUntil(new Headers(), now)).toBeNull()
+	})
+})
+
+describe('cacheRenderedPage', () => {
+	beforeEach(() => {
+		_internal.clear()
+	})
+
+	it('stores cacheable pages of websites with the page cache enabled', () => {
+		cacheRenderedPage(createRequest(), url, 'es.example.com', createConfig(), createPage({ 'cache-control': 'max-age=60' }))
+
+		const page = _internal.getStore().get('es.example.com/pricing?plan=pro')
+		expect(page?.html).toBe('<html><body>Precios</body></html>')
+		expect(page?.path).toBe('/pricing')
+	})
+
+	it('skips disabled websites, non-GET requests, errors, and the cacheDisabledUntil override', () => {
+		const cacheable = { 'cache-control': 'max-age=60' }
+		cacheRenderedPage(createRequest(), url, 'es.example.com', createConfig({ pageCache: false }), createPage(cacheable))
+		cacheRenderedPage(createRequest({}, 'POST'), url, 'es.example.com', createConfig(), createPage(cacheable))
+		cacheRenderedPage(createRequest(), url, 'es.example.com', createConfig(), createPage(cacheable, 404))
+		cacheRenderedPage(
+			createRequest(),
+			url,
+			'es.example.com',
+			createConfig({ cacheDisabledUntil: new Date(Date.now() + 60_000) }),
+			createPage(cacheable)
+		)
+
+		expect(_internal.getStore().size).toBe(0)
+	})
+
+	it('skips renders made with uncovered cookies or authorization unless the origin marks them public', () => {
+		const cacheable = { 'cache-control': 'max-age=60' }
+		cacheRenderedPage(createRequest({ cookie: 'session=abc' }), url, 'es.example.com', createConfig(), createPage(cacheable))
+		cacheRenderedPage(createRequest({ authorization: 'Basic x' }), url, 'es.example.com', createConfig(), createPage(cacheable))
+		expect(_internal.getStore().size).toBe(0)
+
+		const varyConfig = createConfig({ pageCacheVary: ['cookie:currency'] })
+		cacheRenderedPage(createRequest({ cookie: 'currency=EUR' }), url, 'es.example.com', varyConfig, createPage(cacheable))
+		cacheRenderedPage(
+			createRequest({ cookie: 'session=abc' }),
+			new URL('https://es.example.com/about'),
+			'es.example.com',
+			createConfig(),
+			createPage({ 'cache-control': 'public, max-age=60' })
+		)
+		expect(_internal.getStore().size).toBe(2)
+	})
+
+	it('dates renders by when their cached config was loaded', () => {
+		const loadedAt = new Date(Date.now() - 30_000)
+		cacheRenderedPage(createRequest(), url, 'es.example.com', createConfig({ loadedAt }), createPage({ 'cache-control': 'max-age=60' }))
+
+		expect(_internal.getStore().get('es.example.com/pricing?plan=pro')?.storedAt).toBe(loadedAt.getTime())
+	})
+
+	it('evicts the least recently used pages beyond the entry limit', () => {
+		const config = createConfig()
+		for (let i = 0; i <= _internal.MAX_ENTRIES; i++) {
+			const pageUrl = new URL(`https://es.example.com/page-${i}`)
+			cacheRenderedPage(createRequest(), pageUrl, 'es.example.com', config, createPage({ 'cache-control': 'max-age=60' }))
+		}
+
+		const store = _internal.getStore()
+		expect(store.size).toBe(_internal.MAX_ENTRIES)
+		expect(store.has('es.example.com/page-0')).toBe(false)
+		expect(store.has(`es.example.com/page-${_internal.MAX_ENTRIES}`)).toBe(true)
+	})
+})
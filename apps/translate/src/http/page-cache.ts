@@ -0,0 +1,389 @@
+/**
+ * Rendered-page cache for translated HTML
+ * Keeps translated pages in memory so repeat requests skip parsing, extraction, translation,
+ * and (while fresh) the origin fetch. Opt-in per website (website.page_cache)
+ *
+ * Key: language host + path + query + the website's vary set (cookie:<name> or header:<name>)
+ * Freshness follows the origin: s-maxage/max-age, then revalidation with the origin's ETag or
+ * Last-Modified (a 304 serves the cached render). Pages marked no-store/private, setting cookies,
+ * rendered for credentials the key doesn't cover (unless marked public), or with pending (deferred)
+ * translations are never stored
+ *
+ * Invalidation:
+ * - Dashboard edits record purge times (segment edits via website_path_segment), checked on every hit
+ * - Setting cacheDisabledUntil bypasses the cache and drops the website's pages
+ */
+
+import type { Request, Response } from 'express'
+import { getPageCachePurgedAt, recordPageView, type TranslationConfig } from '@pantolingo/db'
+import { buildFetchHeaders, type ProxyConfig } from './proxy.js'
+import { parseMaxAge } from '../utils/cache-control.js'
+import { createPageStore } from './page-store.js'
+
+/**
+ * Headers to forward when revalidating with the origin (same as the page fetch)
+ */
+const REVALIDATE_HEADERS_TO_FORWARD = ['user-agent', 'accept-language', 'referer', 'cookie']
+
+/**
+ * A cached render
+ */
+interface CachedPage {
+	websiteId: number
+	path: string // Normalized original path (purge lookup)
+	websitePathId?: number
+	fetchUrl: string // Origin URL (revalidation)
+	status: number
+	headers: Record<string, string | string[]>
+	html: string
+	storedAt: number
+	freshUntil: number
+	etag: string | null
+	lastModified: string | null
+	varyHeaders: Record<string, string> // Request header values the origin's Vary names
+	cacheDisabledUntil: number | null // Override value at render time (changes invalidate)
+	isPublic: boolean // Origin marked the page public (served to credentialed requests too)
+}
+
+/**
+ * Rendered page to store (from the pipeline)
+ */
+export interface RenderedPage {
+	path: string
+	websitePathId?: number
+	fetchUrl: string
+	status: number
+	headers: Record<string, string | string[]>
+	html: string
+	originHeaders: Headers
+	renderedAt: number // Render start (translations read after this are newer than purges before it)
+}
+
+// Key: see buildPageCacheKey
+const store = createPageStore<CachedPage>()
+
+/**
+ * Parse a vary set entry (cookie:<name> or header:<name>)
+ * @returns Entry type and name, or null if malformed
+ */
+function parseVaryEntry(entry: string): { type: 'cookie' | 'header'; name: string } | null {
+	const separator = entry.indexOf(':')
+	const type = entry.slice(0, separator).trim().toLowerCase()
+	const name = entry.slice(separator + 1).trim()
+	if (separator < 0 || !name) return null
+
+	if (type === 'cookie') return { type, name }
+	if (type === 'header') return { type, name: name.toLowerCase() }
+	return null
+}
+
+/**
+ * Build the cache key for a request
+ * @param host - Language host
+ * @param url - Request URL
+ * @param vary - Website vary set (cookie:<name> or header:<name>; other entries are ignored)
+ * @param getHeader - Request header lookup
+ */
+export function buildPageCacheKey(
+	host: string,
+	url: URL,
+	vary: string[],
+	getHeader: (name: string) => string | undefined
+): string {
+	let key = `${host}${url.pathname}${url.search}`
+
+	for (const entry of vary) {
+		const parsed = parseVaryEntry(entry)
+		if (parsed?.type === 'cookie') {
+			key += `\ncookie:${parsed.name}=${getCookie(getHeader('cookie'), parsed.name) ?? ''}`
+		} else if (parsed?.type === 'header') {
+			key += `\nheader:${parsed.name}=${getHeader(parsed.name) ?? ''}`
+		}
+	}
+
+	return key
+}
+
+/**
+ * Get a cookie value from a Cookie header
+ */
+function getCookie(cookieHeader: string | undefined, name: string): string | null {
+	for (const pair of (cookieHeader ?? '').split(';')) {
+		const separator = pair.indexOf('=')
+		if (separator > 0 && pair.slice(0, separator).trim() === name) {
+			return pair.slice(separator + 1).trim()
+		}
+	}
+	return null
+}
+
+/**
+ * Check if an origin response is explicitly marked public (shareable even for credentialed requests)
+ * @param originHeaders - Headers from origin response
+ */
+export function isPublicResponse(originHeaders: Headers): boolean {
+	return /\bpublic\b/i.test(originHeaders.get('cache-control') ?? '')
+}
+
+/**
+ * Check if a request carries credentials the page key doesn't cover
+ * Pages rendered for cookies or Authorization are only shared when the origin marks them public
+ * (see isPublicResponse), or the website's vary set covers every credential sent (header:cookie,
+ * header:authorization, or cookie:<name> for each cookie)
+ * @param getHeader - Request header lookup
+ * @param vary - Website vary set
+ */
+export function hasUncoveredCredentials(getHeader: (name: string) => string | undefined, vary: string[]): boolean {
+	const entries = vary.map(parseVaryEntry)
+	const coversHeader = (name: string) => entries.some((entry) => entry?.type === 'header' && entry.name === name)
+
+	if (getHeader('authorization') && !coversHeader('authorization')) {
+		return true
+	}
+
+	const cookieHeader = getHeader('cookie')
+	if (!cookieHeader || coversHeader('cookie')) {
+		return false
+	}
+
+	const varyCookies = new Set(entries.flatMap((entry) => (entry?.type === 'cookie' ? [entry.name] : [])))
+	return cookieHeader.split(';').some((pair) => {
+		const separator = pair.indexOf('=')
+		const name = (separator < 0 ? pair : pair.slice(0, separator)).trim()
+		return name.length > 0 && !varyCookies.has(name)
+	})
+}
+
+/**
+ * Check if an origin response may be shared between visitors
+ * no-store, private, Set-Cookie, or Vary: * → per-visitor content
+ * @param originHeaders - Headers from origin response
+ */
+export function isShareableResponse(originHeaders: Headers): boolean {
+	const cacheControl = (originHeaders.get('cache-control') ?? '').toLowerCase()
+	const vary = (originHeaders.get('vary') ?? '').trim()
+
+	return !/\b(no-store|private)\b/.test(cacheControl) && !originHeaders.has('set-cookie') && vary !== '*'
+}
+
+/**
+ * Determine how long an origin response may be served from the cache
+ * - Responses that aren't shareable (see isShareableResponse) → not stored
+ * - s-maxage, then max-age (minus Age) → fresh for that long; no-cache → always revalidate
+ * - Responses without a lifetime are stored only if they carry a validator (ETag/Last-Modified)
+ * @param originHeaders - Headers from origin response
+ * @param now - Current time (ms)
+ * @returns Fresh-until time (ms), or null if the response can't be stored
+ */
+export function getFreshUntil(originHeaders: Headers, now: number): number | null {
+	if (!isShareableResponse(originHeaders)) {
+		return null
+	}
+
+	const cacheControl = (originHeaders.get('cache-control') ?? '').toLowerCase()
+
+	const sharedMaxAge = cacheControl.match(/s-maxage=(\d+)/)
+	const maxAge = sharedMaxAge ? parseInt(sharedMaxAge[1], 10) : parseMaxAge(cacheControl)
+	const age = parseInt(originHeaders.get('age') ?? '0', 10) || 0
+	const lifetime = maxAge !== null && !/\bno-cache\b/.test(cacheControl) ? Math.max(0, maxAge - age) : 0
+
+	if (lifetime === 0 && !originHeaders.has('etag') && !originHeaders.has('last-modified')) {
+		return null
+	}
+
+	return now + lifetime * 1000
+}
+
+/**
+ * Get the request header values an origin response varies on (Accept-Encoding is decoded by fetch)
+ */
+export function getVaryHeaders(originHeaders: Headers, getHeader: (name: string) => string | undefined): Record<string, string> {
+	const values: Record<string, string> = {}
+
+	for (const name of (originHeaders.get('vary') ?? '').split(',')) {
+		const header = name.trim().toLowerCase()
+		if (header && header !== 'accept-encoding') {
+			values[header] = getHeader(header) ?? ''
+		}
+	}
+
+	return values
+}
+
+/**
+ * Check if the cacheDisabledUntil override is active
+ */
+function isCacheDisabled(config: TranslationConfig): boolean {
+	return config.cacheDisabledUntil !== null && config.cacheDisabledUntil > new Date()
+}
+
+/**
+ * Check if a request still matches the origin Vary values recorded with a page
+ */
+export function matchesVaryHeaders(
+	varyHeaders: Record<string, string>,
+	getHeader: (name: string) => string | undefined
+): boolean {
+	return Object.entries(varyHeaders).every(([name, value]) => (getHeader(name) ?? '') === value)
+}
+
+/**
+ * Store a rendered page for repeat requests
+ * Only complete renders should be passed (no pending deferred translations)
+ * @param req - Express request
+ * @param url - Request URL
+ * @param host - Language host
+ * @param config - Website/language configuration
+ * @param page - Rendered page
+ */
+export function cacheRenderedPage(
+	req: Request,
+	url: URL,
+	host: string,
+	config: TranslationConfig,
+	page: RenderedPage
+): void {
+	if (!config.pageCache || req.method !== 'GET' || page.status !== 200 || isCacheDisabled(config)) {
+		return
+	}
+
+	const freshUntil = getFreshUntil(page.originHeaders, page.renderedAt)
+	if (freshUntil === null || !store.fits(page.html)) {
+		return
+	}
+
+	// Personalized renders (session cookies, Authorization) must not be shared
+	const getHeader = (name: string) => req.get(name)
+	const isPublic = isPublicResponse(page.originHeaders)
+	if (!isPublic && hasUncoveredCredentials(getHeader, config.pageCacheVary)) {
+		return
+	}
+
+	const key = buildPageCacheKey(host, url, config.pageCacheVary, getHeader)
+	store.set(key, {
+		websiteId: config.websiteId,
+		path: page.path,
+		websitePathId: page.websitePathId,
+		fetchUrl: page.fetchUrl,
+		status: page.status,
+		headers: page.headers,
+		html: page.html,
+		// Settings, glossary, and image overrides come from the cached config: a render counts as made
+		// when its config was loaded, so purges after that invalidate it
+		storedAt: Math.min(page.renderedAt, config.loadedAt.getTime()),
+		freshUntil,
+		etag: page.originHeaders.get('etag'),
+		lastModified: page.originHeaders.get('last-modified'),
+		varyHeaders: getVaryHeaders(page.originHeaders, getHeader),
+		cacheDisabledUntil: config.cacheDisabledUntil?.getTime() ?? null,
+		isPublic,
+	})
+}
+
+/**
+ * Revalidate a stale page with the origin
+ * @returns New fresh-until time if the origin answered 304, null otherwise
+ */
+async function revalidatePage(req: Request, page: CachedPage, config: ProxyConfig): Promise<number | null> {
+	if (!page.etag && !page.lastModified) {
+		return null
+	}
+
+	const fetchHeaders = buildFetchHeaders(req, REVALIDATE_HEADERS_TO_FORWARD, config.targetLang)
+	if (page.etag) fetchHeaders['if-none-match'] = page.etag
+	if (page.lastModified) fetchHeaders['if-modified-since'] = page.lastModified
+
+	try {
+		const originResponse = await fetch(page.fetchUrl, { headers: fetchHeaders, redirect: 'manual' })
+		await originResponse.body?.cancel()
+		return originResponse.status === 304 ? getFreshUntil(originResponse.headers, Date.now()) : null
+	} catch (error) {
+		console.error('[Page Cache] Revalidation failed:', error)
+		return null // Render normally (the page fetch reports origin errors)
+	}
+}
+
+/**
+ * Serve a page from the rendered-page cache
+ * Returns true if the request was handled, false if the page should be rendered (miss, stale, or purged)
+ * @param req - Express request
+ * @param res - Express response
+ * @param url - Parsed URL object
+ * @param host - Current host
+ * @param config - Proxy configuration
+ * @param translationConfig - Website/language configuration
+ * @returns true if request was handled (response sent), false otherwise
+ */
+export async function servePageFromCache(
+	req: Request,
+	res: Response,
+	url: URL,
+	host: string,
+	config: ProxyConfig,
+	translationConfig: TranslationConfig
+): Promise<boolean> {
+	if (!translationConfig.pageCache || req.method !== 'GET') {
+		return false
+	}
+	if (isCacheDisabled(translationConfig)) {
+		store.deleteWhere((page) => page.websiteId === translationConfig.websiteId)
+		return false
+	}
+
+	const start = Date.now()
+	const getHeader = (name: string) => req.get(name)
+	const key = buildPageCacheKey(host, url, translationConfig.pageCacheVary, getHeader)
+	const page = store.get(key)
+	if (!page) {
+		return false
+	}
+
+	// Override set (and possibly expired) since the render
+	if (page.cacheDisabledUntil !== (translationConfig.cacheDisabledUntil?.getTime() ?? null)) {
+		store.delete(key)
+		return false
+	}
+	if (!matchesVaryHeaders(page.varyHeaders, getHeader)) {
+		return false
+	}
+	// A visitor with credentials may get a personalized page from the origin
+	if (!page.isPublic && hasUncoveredCredentials(getHeader, translationConfig.pageCacheVary)) {
+		return false
+	}
+
+	const purgedAt = await getPageCachePurgedAt(translationConfig.translationId, page.path)
+	if (purgedAt && purgedAt.getTime() >= page.storedAt) {
+		store.delete(key)
+		return false
+	}
+
+	if (start >= page.freshUntil) {
+		const freshUntil = await revalidatePage(req, page, config)
+		if (freshUntil === null) {
+			store.delete(key)
+			return false
+		}
+		page.freshUntil = freshUntil
+	}
+
+	store.touch(key)
+
+	if (page.websitePathId) {
+		recordPageView(page.websitePathId, translationConfig.translationId)
+	}
+
+	const urlObj = new URL(page.fetchUrl)
+	console.log(`▶ [${config.targetLang}] ${urlObj.host}${urlObj.pathname} (${Date.now() - start}ms) [CACHED]`)
+
+	res.status(page.status).set(page.headers).send(page.html)
+	return true
+}
+
+// Export for testing only
+export const _internal = {
+	getStore: () => store,
+	clear: () => {
+		store.clear()
+	},
+	MAX_ENTRIES: store.maxEntries,
+}
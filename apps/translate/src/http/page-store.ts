@@ -0,0 +1,91 @@
+/**
+ * Bounded in-memory store for rendered HTML pages
+ * Used by the rendered-page cache and the stale-if-error fallback: entries are evicted least recently
+ * used first once the store exceeds its entry count or total HTML size
+ */
+
+const DEFAULT_MAX_ENTRIES = 1000
+const DEFAULT_MAX_TOTAL_SIZE = 64 * 1024 * 1024 // 64M characters of HTML
+
+/**
+ * A stored page (only the HTML counts towards the size limit)
+ */
+interface StoredPage {
+	html: string
+}
+
+export interface PageStore<T extends StoredPage> {
+	readonly size: number
+	readonly maxEntries: number
+	get(key: string): T | undefined
+	has(key: string): boolean
+	/** Check if a page is small enough to store (at most a tenth of the store) */
+	fits(html: string): boolean
+	/** Store a page as most recently used, evicting the least recently used beyond the limits */
+	set(key: string, page: T): void
+	/** Mark a page as most recently used */
+	touch(key: string): void
+	delete(key: string): void
+	/** Remove every page matching a predicate */
+	deleteWhere(predicate: (page: T) => boolean): void
+	clear(): void
+}
+
+/**
+ * Create a bounded page store
+ * @param maxEntries - Maximum number of pages
+ * @param maxTotalSize - Maximum total HTML size (characters)
+ */
+export function createPageStore<T extends StoredPage>(
+	maxEntries: number = DEFAULT_MAX_ENTRIES,
+	maxTotalSize: number = DEFAULT_MAX_TOTAL_SIZE
+): PageStore<T> {
+	// Map order = least recently used first
+	const pages = new Map<string, T>()
+	let totalSize = 0
+
+	const deletePage = (key: string): void => {
+		const page = pages.get(key)
+		if (page) {
+			totalSize -= page.html.length
+			pages.delete(key)
+		}
+	}
+
+	return {
+		get size() {
+			return pages.size
+		},
+		maxEntries,
+		get: (key) => pages.get(key),
+		has: (key) => pages.has(key),
+		fits: (html) => html.length <= maxTotalSize / 10,
+		set: (key, page) => {
+			deletePage(key)
+			pages.set(key, page)
+			totalSize += page.html.length
+
+			for (const oldestKey of pages.keys()) {
+				if (pages.size <= maxEntries && totalSize <= maxTotalSize) break
+				deletePage(oldestKey)
+			}
+		},
+		touch: (key) => {
+			const page = pages.get(key)
+			if (page) {
+				pages.delete(key)
+				pages.set(key, page)
+			}
+		},
+		delete: deletePage,
+		deleteWhere: (predicate) => {
+			for (const [key, page] of pages.entries()) {
+				if (predicate(page)) deletePage(key)
+			}
+		},
+		clear: () => {
+			pages.clear()
+			totalSize = 0
+		},
+	}
+}
@@ -0,0 +1,122 @@
+/**
+ * Tests for streamed proxy responses
+ * Covers stream headers, and compression of streamed and precompressed origin bodies (against a local
+ * origin server)
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest'
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import express from 'express'
+import { prepareStreamHeaders, proxyStaticAsset, proxyNonHtmlContent } from './proxy.js'
+import { _internal as compressionInternal } from './compression.js'
+
+describe('prepareStreamHeaders', () => {
+	it('keeps Content-Length and range headers for undecoded bodies', () => {
+		const headers = prepareStreamHeaders(
+			new Headers({
+				'content-type': 'video/mp4',
+				'content-length': '10',
+				'content-range': 'bytes 0-9/100000',
+				'accept-ranges': 'bytes',
+			})
+		)
+
+		expect(headers['Content-Length']).toBe('10')
+		expect(headers['content-range']).toBe('bytes 0-9/100000')
+		expect(headers['accept-ranges']).toBe('bytes')
+	})
+
+	it('drops Content-Length when fetch decodes a compressed body', () => {
+		const headers = prepareStreamHeaders(
+			new Headers({ 'content-type': 'text/css', 'content-length': '120', 'content-encoding': 'gzip' })
+		)
+
+		expect(headers['Content-Length']).toBeUndefined()
+		expect(headers['content-length']).toBeUndefined()
+		expect(headers['content-encoding']).toBeUndefined()
+	})
+})
+
+describe('streamOriginResponse', () => {
+	const css = 'body { color: red; }\n'.repeat(200)
+	let origin: Server
+	let proxy: Server
+	let proxyBase: string
+
+	beforeAll(async () => {
+		origin = createServer((req, res) => {
+			if (req.url === '/app.css') {
+				res.writeHead(200, { 'content-type': 'text/css', 'content-length': String(css.length), etag: '"v1"' })
+				res.end(req.method === 'HEAD' ? undefined : css)
+			} else if (req.url === '/styles.css') {
+				res.writeHead(200, { 'content-type': 'text/css' }) // No validator: compressed while streaming
+				res.end(css)
+			} else {
+				res.writeHead(200, { 'content-type': 'text/event-stream' })
+				res.write('data: one\n\n')
+				setTimeout(() => res.end('data: two\n\n'), 50)
+			}
+		})
+		await new Promise<void>((resolve) => origin.listen(0, '127.0.0.1', resolve))
+
+		const originBase = `http://127.0.0.1:${(origin.address() as AddressInfo).port}`
+		const config = { originBase, targetLang: 'es', cacheDisabledUntil: null }
+		const app = express()
+		app.use(async (req, res) => {
+			const url = new URL(req.originalUrl, 'http://es.example.com')
+			if (!(await proxyStaticAsset(req, res, url, 'es.example.com', config))) {
+				await proxyNonHtmlContent(res, await fetch(originBase + url.pathname), config)
+			}
+		})
+		proxy = app.listen(0, '127.0.0.1')
+		await new Promise((resolve) => proxy.once('listening', resolve))
+		proxyBase = `http://127.0.0.1:${(proxy.address() as AddressInfo).port}`
+	})
+
+	afterAll(async () => {
+		await new Promise((resolve) => proxy.close(resolve))
+		await new Promise((resolve) => origin.close(resolve))
+	})
+
+	beforeEach(() => {
+		compressionInternal.clear()
+	})
+
+	it('precompresses validated static assets once', async () => {
+		const first = await fetch(`${proxyBase}/app.css`, { headers: { 'accept-encoding': 'br' } })
+		expect(await first.text()).toBe(css)
+		const second = await fetch(`${proxyBase}/app.css`, { headers: { 'accept-encoding': 'br' } })
+
+		expect(second.headers.get('content-encoding')).toBe('br')
+		expect(second.headers.get('etag')).toBe('W/"v1"')
+		expect(await second.text()).toBe(css)
+		expect(compressionInternal.getPrecompressed().size).toBe(1)
+	})
+
+	it('compresses bodies without a validator while streaming', async () => {
+		const response = await fetch(`${proxyBase}/styles.css`, { headers: { 'accept-encoding': 'gzip' } })
+
+		expect(response.headers.get('content-encoding')).toBe('gzip')
+		expect(response.headers.get('content-length')).toBeNull()
+		expect(await response.text()).toBe(css)
+		expect(compressionInternal.getPrecompressed().size).toBe(0)
+	})
+
+	it('sends the same encoding headers for HEAD as for GET', async () => {
+		const response = await fetch(`${proxyBase}/app.css`, { method: 'HEAD', headers: { 'accept-encoding': 'br' } })
+
+		expect(response.headers.get('content-encoding')).toBe('br')
+		expect(response.headers.get('vary')).toBe('Accept-Encoding')
+		expect(response.headers.get('content-length')).toBeNull()
+	})
+
+	it('streams event streams uncompressed as events arrive', async () => {
+		const response = await fetch(`${proxyBase}/events`, { headers: { 'accept-encoding': 'br' } })
+		const reader = response.body!.getReader()
+
+		expect(response.headers.get('content-encoding')).toBeNull()
+		expect(new TextDecoder().decode((await reader.read()).value)).toBe('data: one\n\n')
+		await reader.cancel()
+	})
+})
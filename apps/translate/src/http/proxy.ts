@@ -1,10 +1,18 @@
 /**
  * HTTP proxy utilities for the translation proxy
  * Handles proxying static assets and non-HTML content
+ * Origin bodies are streamed to the client as they arrive (never buffered), so large files
+ * (videos, PDFs) start immediately, use constant memory, and support Range requests for seeking
+ * Text bodies are compressed while streaming; small static assets are precompressed (see compression.ts)
  */
 
+import { Readable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web'
 import type { Request, Response } from 'express'
 import { prepareResponseHeaders } from './headers.js'
+import { getOriginValidator } from './etag.js'
+import { canPrecompress, createCompressStream, getPrecompressedAsset, negotiateResponseEncoding } from './compression.js'
 import { rewriteRedirectLocation } from './redirect.js'
 import { getCacheControl, isDataFileExtension, isDataContentType } from '../utils/cache-control.js'
 import { isStaticAsset } from '../utils.js'
@@ -12,7 +20,18 @@ import { isStaticAsset } from '../utils.js'
 /**
  * Headers to forward from incoming request to origin
  */
-const STATIC_HEADERS_TO_FORWARD = ['user-agent', 'accept-encoding', 'cookie', 'accept-language', 'referer']
+const STATIC_HEADERS_TO_FORWARD = [
+	'user-agent',
+	'accept-encoding',
+	'cookie',
+	'accept-language',
+	'referer',
+	// Range and conditional requests (206 Partial Content, 304 Not Modified)
+	'range',
+	'if-range',
+	'if-none-match',
+	'if-modified-since',
+]
 
 /**
  * Configuration for proxying requests
@@ -52,6 +71,91 @@ export function buildFetchHeaders(
 	return fetchHeaders
 }
 
+/**
+ * Prepare response headers for a streamed origin body
+ * Content-Length is kept when fetch passes the body through undecoded (no Content-Encoding),
+ * so clients can show download progress and media players can seek
+ * @param originHeaders - Headers from origin response
+ * @returns Prepared headers ready for response
+ */
+export function prepareStreamHeaders(originHeaders: Headers): Record<string, string | string[]> {
+	const headers = prepareResponseHeaders(originHeaders)
+	const contentLength = originHeaders.get('content-length')
+
+	if (contentLength && !originHeaders.has('content-encoding')) {
+		headers['Content-Length'] = contentLength
+	}
+
+	return headers
+}
+
+/**
+ * Stream an origin response to the client
+ * Responses without a body (HEAD, 204, 304) end immediately. A client disconnect
+ * (e.g. a video player seeking to a new range) cancels the origin download
+ * Compressible bodies are compressed with the client's preferred encoding
+ * @param res - Express response
+ * @param originResponse - Response from origin server
+ * @param headers - Prepared response headers
+ * @param precompress - Keep compressed copies of shareable, validated bodies (static assets)
+ */
+export async function streamOriginResponse(
+	res: Response,
+	originResponse: globalThis.Response,
+	headers: Record<string, string | string[]>,
+	precompress: boolean = false
+): Promise<void> {
+	res.status(originResponse.status).set(headers)
+
+	// Negotiate before the bodiless check: HEAD responses carry the same Vary and Content-Encoding as GET
+	const contentLength = res.get('Content-Length')
+	const encoding = negotiateResponseEncoding(res.req, res, contentLength ? parseInt(contentLength, 10) : null)
+
+	if (!originResponse.body) {
+		res.end()
+		return
+	}
+
+	const validator = getOriginValidator(originResponse.headers)
+
+	if (
+		encoding &&
+		precompress &&
+		validator &&
+		originResponse.status === 200 &&
+		!/\b(no-store|private)\b/i.test(originResponse.headers.get('cache-control') ?? '') &&
+		canPrecompress(originResponse.headers.get('content-length'))
+	) {
+		try {
+			const { body, hit } = await getPrecompressedAsset(`${originResponse.url}\n${validator}`, encoding, async () =>
+				Buffer.from(await originResponse.arrayBuffer())
+			)
+			if (hit) {
+				await originResponse.body.cancel()
+			}
+			res.set('Content-Length', String(body.length)).end(body)
+		} catch (error) {
+			console.error('[Proxy] Precompressing origin response failed:', error)
+			res.destroy()
+		}
+		return
+	}
+
+	const source = Readable.fromWeb(originResponse.body as NodeReadableStream<Uint8Array>)
+	try {
+		if (encoding) {
+			await pipeline(source, createCompressStream(encoding), res)
+		} else {
+			await pipeline(source, res)
+		}
+	} catch (error) {
+		// Premature close = client went away mid-download, not an origin failure
+		if ((error as NodeJS.ErrnoException).code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+			console.error('[Proxy] Streaming origin response failed:', error)
+		}
+	}
+}
+
 /**
  * Proxy a static asset (CSS, JS, images, etc.)
  * Returns true if the request was handled, false if it should continue to HTML processing
@@ -78,6 +182,12 @@ export async function proxyStaticAsset(
 	const fetchUrl = config.originBase + pathname + url.search
 	const fetchHeaders = buildFetchHeaders(req, STATIC_HEADERS_TO_FORWARD, config.targetLang)
 
+	// Byte ranges refer to the encoded body, but fetch decodes compressed responses
+	// Without a forwarded Accept-Encoding, fetch asks for identity on Range requests
+	if (fetchHeaders['range']) {
+		delete fetchHeaders['accept-encoding']
+	}
+
 	const originResponse = await fetch(fetchUrl, {
 		method: req.method,
 		headers: fetchHeaders,
@@ -96,15 +206,15 @@ export async function proxyStaticAsset(
 
 	// Proxy static asset with filtered headers and security headers
 	// Data files (.json, .xml) respect origin cache; other static assets get 5-min minimum
-	const responseHeaders = prepareResponseHeaders(originResponse.headers)
+	// Origin 206 (Content-Range) and 304 responses pass through with their status
+	const responseHeaders = prepareStreamHeaders(originResponse.headers)
 	responseHeaders['Cache-Control'] = getCacheControl({
 		originHeaders: originResponse.headers,
 		cacheDisabledUntil: config.cacheDisabledUntil,
 		applyMinimumCache: !isDataFileExtension(pathname),
 	})
 
-	const body = Buffer.from(await originResponse.arrayBuffer())
-	res.status(originResponse.status).set(responseHeaders).send(body)
+	await streamOriginResponse(res, originResponse, responseHeaders, true)
 	return true
 }
 
@@ -128,7 +238,7 @@ export function proxyNonHtmlContent(
 
 	// Proxy non-HTML resources with filtered headers and security headers
 	// Data content types (JSON, XML) respect origin cache; other types get 5-min minimum
-	const proxyHeaders = prepareResponseHeaders(originResponse.headers)
+	const proxyHeaders = prepareStreamHeaders(originResponse.headers)
 	proxyHeaders['Cache-Control'] = getCacheControl({
 		originHeaders: originResponse.headers,
 		cacheDisabledUntil: config.cacheDisabledUntil,
@@ -140,11 +250,7 @@ export function proxyNonHtmlContent(
 		console.log(`▶ [${config.targetLang}] ${truncatedUrl} - Proxying: ${contentType} (${proxyHeaders['Cache-Control']})`)
 	}
 
-	return originResponse.arrayBuffer().then(buffer => {
-		const body = Buffer.from(buffer)
-		res.status(originResponse.status).set(proxyHeaders).send(body)
-		return true
-	})
+	return streamOriginResponse(res, originResponse, proxyHeaders).then(() => true)
 }
 
 /**
@@ -0,0 +1,30 @@
+/**
+ * Tests for robots.txt rewriting
+ */
+
+import { describe, it, expect } from 'vitest'
+import { rewriteRobotsTxt, buildRobotsTxt } from './robots-txt.js'
+
+describe('rewriteRobotsTxt', () => {
+	it('moves origin sitemap URLs to the language host and keeps rules', () => {
+		const text = 'User-agent: *\nDisallow: /admin\n\nSitemap: https://www.example.com/sitemap_index.xml\nsitemap: https://cdn.other.com/sitemap.xml\n'
+
+		expect(rewriteRobotsTxt(text, 'www.example.com', 'es.example.com', 'https:')).toBe(
+			'User-agent: *\nDisallow: /admin\n\nSitemap: https://es.example.com/sitemap_index.xml\nsitemap: https://cdn.other.com/sitemap.xml\n'
+		)
+	})
+
+	it('adds the language sitemap when none is listed', () => {
+		expect(rewriteRobotsTxt('User-agent: *\nDisallow:', 'www.example.com', 'es.example.com', 'https:')).toBe(
+			'User-agent: *\nDisallow:\n\nSitemap: https://es.example.com/sitemap.xml\n'
+		)
+	})
+})
+
+describe('buildRobotsTxt', () => {
+	it('allows all crawlers and lists the language sitemap', () => {
+		expect(buildRobotsTxt('localhost:8787', 'http:')).toBe(
+			'User-agent: *\nAllow: /\n\nSitemap: http://localhost:8787/sitemap.xml\n'
+		)
+	})
+})
@@ -0,0 +1,120 @@
+/**
+ * robots.txt translation for the translation proxy
+ * Points Sitemap: lines at the language host (sitemaps are rewritten per language, see sitemap.ts)
+ *
+ * Allow/Disallow rules keep their origin paths: they are prefix patterns that can't be
+ * mapped to translated pathnames. Per-language noindex is applied to pages instead
+ * (see dom/robots.ts) - a Disallow would stop crawlers from ever seeing it
+ */
+
+import type { Request, Response } from 'express'
+import type { TranslationConfig } from '@pantolingo/db'
+import { buildFetchHeaders, type ProxyConfig } from './proxy.js'
+import { prepareResponseHeaders } from './headers.js'
+import { setResponseETag } from './etag.js'
+import { getCacheControl } from '../utils/cache-control.js'
+
+/**
+ * Headers to forward from incoming request to origin
+ */
+const ROBOTS_HEADERS_TO_FORWARD = ['user-agent']
+
+const SITEMAP_LINE_PATTERN = /^([ \t]*sitemap[ \t]*:[ \t]*)(\S+)(.*)$/gim
+
+/**
+ * Rewrite a robots.txt for the language host
+ * Sitemap URLs on the origin host move to the language host; other hosts are kept
+ * If no sitemap is listed, the language host's /sitemap.xml is added
+ *
+ * @param text - Origin robots.txt
+ * @param originHostname - Origin hostname (e.g., 'www.example.com')
+ * @param host - Language host (e.g., 'es.example.com')
+ * @param protocol - Protocol for rewritten URLs (e.g., 'https:')
+ * @returns Rewritten robots.txt
+ */
+export function rewriteRobotsTxt(text: string, originHostname: string, host: string, protocol: string): string {
+	let hasSitemap = false
+
+	const rewritten = text.replace(SITEMAP_LINE_PATTERN, (line, prefix: string, sitemapUrl: string, rest: string) => {
+		hasSitemap = true
+		try {
+			const parsed = new URL(sitemapUrl)
+			if (parsed.hostname.toLowerCase() !== originHostname.toLowerCase()) {
+				return line
+			}
+			return `${prefix}${protocol}//${host}${parsed.pathname}${parsed.search}${rest}`
+		} catch {
+			return line // Invalid URL - leave as-is
+		}
+	})
+
+	if (hasSitemap) {
+		return rewritten
+	}
+
+	const separator = rewritten.length === 0 || rewritten.endsWith('\n') ? '' : '\n'
+	return `${rewritten}${separator}\nSitemap: ${protocol}//${host}/sitemap.xml\n`
+}
+
+/**
+ * Build a robots.txt allowing all crawlers (used when the origin has none)
+ */
+export function buildRobotsTxt(host: string, protocol: string): string {
+	return `User-agent: *\nAllow: /\n\nSitemap: ${protocol}//${host}/sitemap.xml\n`
+}
+
+/**
+ * Proxy /robots.txt, rewriting it for the language host
+ * Returns true if the request was handled, false if it should continue (not a robots.txt request)
+ * If the origin has no robots.txt (4xx), one is generated; origin 5xx responses pass through
+ * so crawlers back off the same way they would on the origin
+ * @param req - Express request
+ * @param res - Express response
+ * @param url - Parsed URL object
+ * @param host - Current host
+ * @param config - Proxy configuration
+ * @param translationConfig - Website/language configuration
+ * @returns true if request was handled (response sent), false otherwise
+ */
+export async function proxyRobotsTxt(
+	req: Request,
+	res: Response,
+	url: URL,
+	host: string,
+	config: ProxyConfig,
+	translationConfig: TranslationConfig
+): Promise<boolean> {
+	if ((req.method !== 'GET' && req.method !== 'HEAD') || url.pathname !== '/robots.txt') {
+		return false
+	}
+
+	const originResponse = await fetch(config.originBase + url.pathname, {
+		headers: buildFetchHeaders(req, ROBOTS_HEADERS_TO_FORWARD, config.targetLang),
+	})
+
+	let text = await originResponse.text()
+	let status = originResponse.status
+	const generated = status >= 400 && status < 500
+
+	if (generated) {
+		text = buildRobotsTxt(host, url.protocol)
+		status = 200
+	} else if (status === 200) {
+		text = rewriteRobotsTxt(text, translationConfig.websiteHostname, host, url.protocol)
+	}
+
+	// Generated files get the 5-min minimum; origin files respect origin cache
+	const responseHeaders = generated
+		? prepareResponseHeaders(new Headers({ 'content-type': 'text/plain; charset=utf-8' }))
+		: prepareResponseHeaders(originResponse.headers)
+	responseHeaders['Cache-Control'] = getCacheControl({
+		originHeaders: generated ? new Headers() : originResponse.headers,
+		cacheDisabledUntil: config.cacheDisabledUntil,
+		applyMinimumCache: generated,
+	})
+	// Rewritten paths change with path translations, not with the origin file - Express hashes the body
+	setResponseETag(responseHeaders, null)
+
+	res.status(status).set(responseHeaders).send(req.method === 'HEAD' ? undefined : text)
+	return true
+}
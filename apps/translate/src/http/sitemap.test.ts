@@ -0,0 +1,122 @@
+/**
+ * Tests for XML sitemap rewriting
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+	isSitemapPath,
+	getSitemapType,
+	extractSitemapLocs,
+	rewriteSitemap,
+	buildSitemap,
+	type SitemapLocation,
+} from './sitemap.js'
+
+const urlset = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+	<url>
+		<loc>https://www.example.com/pricing?plan=pro&amp;ref=1</loc>
+		<lastmod>2026-01-01</lastmod>
+	</url>
+	<url>
+		<loc>https://cdn.other.com/page</loc>
+	</url>
+</urlset>`
+
+const pricing: SitemapLocation = {
+	href: 'https://es.example.com/precios?plan=pro&ref=1',
+	alternates: [
+		{ hreflang: 'x-default', href: 'https://www.example.com/pricing?plan=pro&ref=1' },
+		{ hreflang: 'es', href: 'https://es.example.com/precios?plan=pro&ref=1' },
+	],
+}
+
+describe('isSitemapPath', () => {
+	it('matches sitemap and sitemap index file names', () => {
+		expect(isSitemapPath('/sitemap.xml')).toBe(true)
+		expect(isSitemapPath('/sitemap_index.xml')).toBe(true)
+		expect(isSitemapPath('/blog/post-sitemap.xml')).toBe(true)
+		expect(isSitemapPath('/Sitemap-1.XML')).toBe(true)
+	})
+
+	it('ignores other XML and non-XML paths', () => {
+		expect(isSitemapPath('/feed.xml')).toBe(false)
+		expect(isSitemapPath('/sitemap')).toBe(false)
+		expect(isSitemapPath('/sitemap/page.html')).toBe(false)
+	})
+})
+
+describe('getSitemapType', () => {
+	it('detects urlset and sitemapindex roots', () => {
+		expect(getSitemapType(urlset)).toBe('urlset')
+		expect(getSitemapType('<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"></sitemapindex>')).toBe(
+			'sitemapindex'
+		)
+		expect(getSitemapType('<rss version="2.0"></rss>')).toBeNull()
+	})
+})
+
+describe('extractSitemapLocs', () => {
+	it('returns unescaped loc URLs', () => {
+		expect(extractSitemapLocs(urlset)).toEqual([
+			'https://www.example.com/pricing?plan=pro&ref=1',
+			'https://cdn.other.com/page',
+		])
+	})
+})
+
+describe('rewriteSitemap', () => {
+	it('rewrites loc, adds alternates, and declares the xhtml namespace', () => {
+		const xml = rewriteSitemap(urlset, new Map([['https://www.example.com/pricing?plan=pro&ref=1', pricing]]))
+
+		expect(xml).toContain('<urlset xmlns:xhtml="http://www.w3.org/1999/xhtml" xmlns=')
+		expect(xml).toContain(`<loc>https://es.example.com/precios?plan=pro&amp;ref=1</loc>
+		<lastmod>2026-01-01</lastmod>
+		<xhtml:link rel="alternate" hreflang="x-default" href="https://www.example.com/pricing?plan=pro&amp;ref=1"/>
+		<xhtml:link rel="alternate" hreflang="es" href="https://es.example.com/precios?plan=pro&amp;ref=1"/>
+	</url>`)
+	})
+
+	it('leaves entries without a location untouched', () => {
+		const xml = rewriteSitemap(urlset, new Map())
+		expect(xml).toBe(urlset)
+	})
+
+	it('replaces origin alternates with the same hreflang and keeps others', () => {
+		const withLinks = urlset.replace(
+			'<lastmod>',
+			'<xhtml:link rel="alternate" hreflang="es" href="https://old.example.com/"/><xhtml:link rel="alternate" hreflang="ja" href="https://ja.example.net/"/><lastmod>'
+		)
+		const xml = rewriteSitemap(
+			withLinks.replace('<urlset', '<urlset xmlns:xhtml="http://www.w3.org/1999/xhtml"'),
+			new Map([['https://www.example.com/pricing?plan=pro&ref=1', pricing]])
+		)
+
+		expect(xml).not.toContain('old.example.com')
+		expect(xml).toContain('hreflang="ja" href="https://ja.example.net/"')
+		expect(xml.match(/xmlns:xhtml=/g)).toHaveLength(1)
+	})
+
+	it('rewrites sitemap index entries without alternates', () => {
+		const index = `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"><sitemap><loc>https://www.example.com/post-sitemap.xml</loc></sitemap></sitemapindex>`
+		const xml = rewriteSitemap(
+			index,
+			new Map([['https://www.example.com/post-sitemap.xml', { href: 'https://es.example.com/post-sitemap.xml', alternates: [] }]])
+		)
+
+		expect(xml).toBe(
+			`<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"><sitemap><loc>https://es.example.com/post-sitemap.xml</loc></sitemap></sitemapindex>`
+		)
+	})
+})
+
+describe('buildSitemap', () => {
+	it('lists URLs in a urlset that round-trips through extractSitemapLocs', () => {
+		const urls = ['https://www.example.com/', 'https://www.example.com/search?q=a&b']
+		const xml = buildSitemap(urls)
+
+		expect(getSitemapType(xml)).toBe('urlset')
+		expect(xml).toContain('<loc>https://www.example.com/search?q=a&amp;b</loc>')
+		expect(extractSitemapLocs(xml)).toEqual(urls)
+	})
+})
@@ -0,0 +1,275 @@
+/**
+ * XML sitemap translation for the translation proxy
+ * Rewrites sitemap and sitemap-index URLs from the origin to the language host,
+ * with translated pathnames and xhtml:link alternates for every language
+ *
+ * Sitemaps are rewritten with targeted string replacement (not a DOM round-trip)
+ * so the origin's formatting, extensions (image:, news:), and comments are kept
+ */
+
+import type { Request, Response } from 'express'
+import { batchGetLangAlternates, getSitemapPaths, type TranslationConfig } from '@pantolingo/db'
+import { buildFetchHeaders, type ProxyConfig } from './proxy.js'
+import { prepareResponseHeaders } from './headers.js'
+import { setResponseETag } from './etag.js'
+import { rewriteRedirectLocation } from './redirect.js'
+import { getCacheControl } from '../utils/cache-control.js'
+import { escapeXml, unescapeXml } from '../utils/xml.js'
+import { buildHreflangEntries, type HreflangEntry } from '../dom/metadata.js'
+import { normalizePathname, resolveAlternatePathnames, shouldSkipPath } from '../translation/translate-pathnames.js'
+
+/**
+ * Headers to forward from incoming request to origin
+ */
+const SITEMAP_HEADERS_TO_FORWARD = ['user-agent', 'accept-language']
+
+const XHTML_NAMESPACE = 'http://www.w3.org/1999/xhtml'
+
+/**
+ * Rewritten sitemap location (keyed by the original <loc> URL)
+ */
+export interface SitemapLocation {
+	href: string // URL on the language host
+	alternates: HreflangEntry[] // xhtml:link alternates (empty for sitemap-index entries)
+}
+
+/**
+ * Check if a pathname is a sitemap or sitemap index (e.g. /sitemap.xml, /post-sitemap.xml, /sitemap_index.xml)
+ */
+export function isSitemapPath(pathname: string): boolean {
+	const fileName = pathname.slice(pathname.lastIndexOf('/') + 1).toLowerCase()
+	return fileName.endsWith('.xml') && fileName.includes('sitemap')
+}
+
+/**
+ * Detect the sitemap root element
+ * @returns 'urlset', 'sitemapindex', or null if the document is not a sitemap
+ */
+export function getSitemapType(xml: string): 'urlset' | 'sitemapindex' | null {
+	const root = xml.match(/<(urlset|sitemapindex)[\s>]/)
+	return root ? (root[1] as 'urlset' | 'sitemapindex') : null
+}
+
+const LOC_PATTERN = /<loc>\s*([\s\S]*?)\s*<\/loc>/
+const ENTRY_PATTERN = /<(url|sitemap)>([\s\S]*?)<\/\1>/g
+const XHTML_LINK_PATTERN = /\s*<xhtml:link\b[^>]*?\/?>/g
+
+/**
+ * Extract the <loc> URLs of a sitemap or sitemap index (unescaped)
+ */
+export function extractSitemapLocs(xml: string): string[] {
+	const locs: string[] = []
+	for (const entry of xml.matchAll(ENTRY_PATTERN)) {
+		const loc = entry[2].match(LOC_PATTERN)
+		if (loc) locs.push(unescapeXml(loc[1]))
+	}
+	return locs
+}
+
+/**
+ * Rewrite sitemap <loc> URLs and add xhtml:link alternates
+ * Entries without a location in the map are left untouched (e.g. URLs on other hosts)
+ * Existing alternates with the same hreflang as ours are replaced; others are kept
+ *
+ * @param xml - Sitemap or sitemap index XML
+ * @param locations - Map of original <loc> URL -> rewritten location
+ * @returns Rewritten XML
+ */
+export function rewriteSitemap(xml: string, locations: Map<string, SitemapLocation>): string {
+	let addedAlternates = false
+
+	const rewritten = xml.replace(ENTRY_PATTERN, (entry, tag: string, content: string) => {
+		const loc = content.match(LOC_PATTERN)
+		const location = loc ? locations.get(unescapeXml(loc[1])) : undefined
+		if (!loc || !location) {
+			return entry
+		}
+
+		let newContent = content.replace(LOC_PATTERN, `<loc>${escapeXml(location.href)}</loc>`)
+
+		if (location.alternates.length > 0) {
+			const hreflangs = new Set(location.alternates.map((alt) => alt.hreflang.toLowerCase()))
+			newContent = newContent.replace(XHTML_LINK_PATTERN, (link) => {
+				const hreflang = link.match(/hreflang\s*=\s*["']([^"']*)["']/)
+				return hreflang && hreflangs.has(hreflang[1].toLowerCase()) ? '' : link
+			})
+
+			const indent = content.match(/^\s*/)?.[0] ?? ''
+			const links = location.alternates
+				.map(
+					(alt) =>
+						`${indent}<xhtml:link rel="alternate" hreflang="${escapeXml(alt.hreflang, true)}" href="${escapeXml(alt.href, true)}"/>`
+				)
+				.join('')
+			newContent = newContent.replace(/\s*$/, (trailing) => `${links}${trailing}`)
+			addedAlternates = true
+		}
+
+		return `<${tag}>${newContent}</${tag}>`
+	})
+
+	// Declare the xhtml namespace on <urlset> if the origin didn't
+	if (addedAlternates && !/<urlset\b[^>]*\bxmlns:xhtml\s*=/.test(rewritten)) {
+		return rewritten.replace(/<urlset\b/, `<urlset xmlns:xhtml="${XHTML_NAMESPACE}"`)
+	}
+
+	return rewritten
+}
+
+/**
+ * Build a sitemap listing the given URLs (used when the origin has none)
+ */
+export function buildSitemap(urls: string[]): string {
+	const entries = urls.map((url) => `\t<url>\n\t\t<loc>${escapeXml(url)}</loc>\n\t</url>\n`).join('')
+	return (
+		'<?xml version="1.0" encoding="UTF-8"?>\n' +
+		'<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n' +
+		entries +
+		'</urlset>\n'
+	)
+}
+
+/**
+ * Map each origin URL in a sitemap to the language host
+ * Page URLs get translated pathnames and hreflang alternates; sitemap-index
+ * entries only change host (child sitemaps are served through the proxy too)
+ */
+async function buildSitemapLocations(
+	xml: string,
+	type: 'urlset' | 'sitemapindex',
+	host: string,
+	protocol: string,
+	translationConfig: TranslationConfig
+): Promise<Map<string, SitemapLocation>> {
+	const { websiteId, websiteHostname, sourceLang, targetLang, translatePath, skipPath } = translationConfig
+
+	// Only URLs on the origin host are rewritten
+	const originUrls = new Map<string, URL>()
+	for (const loc of extractSitemapLocs(xml)) {
+		try {
+			const locUrl = new URL(loc)
+			if (locUrl.hostname.toLowerCase() === websiteHostname.toLowerCase()) {
+				originUrls.set(loc, locUrl)
+			}
+		} catch {
+			// Invalid URL - leave as-is
+		}
+	}
+
+	const locations = new Map<string, SitemapLocation>()
+
+	if (type === 'sitemapindex') {
+		for (const [loc, locUrl] of originUrls) {
+			locations.set(loc, { href: `${protocol}//${host}${locUrl.pathname}${locUrl.search}`, alternates: [] })
+		}
+		return locations
+	}
+
+	const normalizedPaths = new Map<string, string>()
+	for (const locUrl of originUrls.values()) {
+		normalizedPaths.set(locUrl.pathname, normalizePathname(locUrl.pathname).normalized)
+	}
+	const alternatesByPath = await batchGetLangAlternates(websiteId, [...new Set(normalizedPaths.values())])
+
+	for (const [loc, locUrl] of originUrls) {
+		const originalPathname = locUrl.pathname
+		const translate = translatePath && !shouldSkipPath(originalPathname, skipPath)
+		const alternates = resolveAlternatePathnames(
+			alternatesByPath.get(normalizedPaths.get(originalPathname)!) ?? [],
+			originalPathname,
+			translate
+		)
+		const pathname = alternates.find((alt) => alt.lang === targetLang)?.pathname ?? originalPathname
+
+		locations.set(loc, {
+			href: `${protocol}//${host}${pathname}${locUrl.search}`,
+			alternates: buildHreflangEntries(
+				targetLang,
+				sourceLang,
+				host,
+				websiteHostname,
+				originalPathname,
+				locUrl,
+				alternates
+			),
+		})
+	}
+
+	return locations
+}
+
+/**
+ * Proxy a sitemap, rewriting it for the language host
+ * Returns true if the request was handled, false if it should continue (not a sitemap request)
+ * If the origin has no /sitemap.xml, one is generated from known page paths
+ * @param req - Express request
+ * @param res - Express response
+ * @param url - Parsed URL object
+ * @param host - Current host
+ * @param config - Proxy configuration
+ * @param translationConfig - Website/language configuration
+ * @returns true if request was handled (response sent), false otherwise
+ */
+export async function proxySitemap(
+	req: Request,
+	res: Response,
+	url: URL,
+	host: string,
+	config: ProxyConfig,
+	translationConfig: TranslationConfig
+): Promise<boolean> {
+	if ((req.method !== 'GET' && req.method !== 'HEAD') || !isSitemapPath(url.pathname)) {
+		return false
+	}
+
+	const fetchUrl = config.originBase + url.pathname + url.search
+	const originResponse = await fetch(fetchUrl, {
+		headers: buildFetchHeaders(req, SITEMAP_HEADERS_TO_FORWARD, config.targetLang),
+		redirect: 'manual',
+	})
+
+	// Handle redirects (e.g. /sitemap.xml -> /sitemap_index.xml)
+	if (originResponse.status >= 300 && originResponse.status < 400) {
+		const location = originResponse.headers.get('location')
+		if (location) {
+			const redirectUrl = rewriteRedirectLocation(location, host, config.originBase, url)
+			res.status(originResponse.status).set('Location', redirectUrl).send()
+			return true
+		}
+	}
+
+	let xml = await originResponse.text()
+	let status = originResponse.status
+	let generated = false
+
+	// No sitemap at the origin - generate one from pages seen through the proxy
+	if (status === 404 && url.pathname === '/sitemap.xml') {
+		const paths = await getSitemapPaths(translationConfig.websiteId)
+		if (paths.length > 0) {
+			xml = buildSitemap(paths.map((path) => `https://${translationConfig.websiteHostname}${path}`))
+			status = 200
+			generated = true
+		}
+	}
+
+	// Generated sitemaps get the 5-min minimum; origin sitemaps respect origin cache (data files)
+	const responseHeaders = generated
+		? prepareResponseHeaders(new Headers({ 'content-type': 'application/xml; charset=utf-8' }))
+		: prepareResponseHeaders(originResponse.headers)
+	responseHeaders['Cache-Control'] = getCacheControl({
+		originHeaders: generated ? new Headers() : originResponse.headers,
+		cacheDisabledUntil: config.cacheDisabledUntil,
+		applyMinimumCache: generated,
+	})
+	// Rewritten locations change with path translations, not with the origin file - Express hashes the body
+	setResponseETag(responseHeaders, null)
+
+	const type = status === 200 ? getSitemapType(xml) : null
+	if (type) {
+		const locations = await buildSitemapLocations(xml, type, host, url.protocol, translationConfig)
+		xml = rewriteSitemap(xml, locations)
+	}
+
+	res.status(status).set(responseHeaders).send(req.method === 'HEAD' ? undefined : xml)
+	return true
+}
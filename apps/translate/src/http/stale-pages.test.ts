@@ -0,0 +1,136 @@
+/**
+ * Tests for the stale-if-error fallback
+ * Covers which renders are kept, credentialed and origin-varied renders, and serving with a warning
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { Request, Response } from 'express'
+import type { TranslationConfig } from '@pantolingo/db'
+import { getStaleUntil, keepStalePage, serveStalePage, _internal, type GoodPage } from './stale-pages.js'
+
+const url = new URL('https://es.example.com/pricing')
+const key = 'es.example.com/pricing'
+
+// Helper to create a request with the given headers
+function createRequest(headers: Record<string, string> = {}, method = 'GET'): Request {
+	return { method, get: (name: string) => headers[name.toLowerCase()] } as unknown as Request
+}
+
+// Helper to create a response that records what was sent
+function createResponse() {
+	const sent: { status?: number; headers: Record<string, unknown>; body?: string } = { headers: {} }
+	const res = {
+		headersSent: false,
+		status(code: number) {
+			sent.status = code
+			return res
+		},
+		set(name: string | Record<string, unknown>, value?: unknown) {
+			Object.assign(sent.headers, typeof name === 'string' ? { [name]: value } : name)
+			return res
+		},
+		send(body: string) {
+			sent.body = body
+			return res
+		},
+	}
+	return { res: res as unknown as Response, sent }
+}
+
+function createConfig(overrides: Partial<TranslationConfig> = {}): TranslationConfig {
+	return {
+		targetLang: 'es',
+		staleIfError: true,
+		pageCacheVary: [],
+		...overrides,
+	} as TranslationConfig
+}
+
+function createPage(html: string, originHeaders: Record<string, string> = {}): GoodPage {
+	return {
+		headers: { 'Content-Type': 'text/html; charset=utf-8', ETag: 'W/"pl.abc.1"', 'Cache-Control': 'max-age=60' },
+		html,
+		originHeaders: new Headers(originHeaders),
+		renderedAt: Date.now(),
+	}
+}
+
+describe('getStaleUntil', () => {
+	it('uses the origin stale-if-error, then the default maximum age', () => {
+		const now = 1_000_000
+		expect(getStaleUntil(new Headers({ 'cache-control': 'max-age=60, stale-if-error=600' }), now)).toBe(now + 600_000)
+		expect(getStaleUntil(new Headers(), now)).toBe(now + _internal.STALE_MAX_AGE * 1000)
+	})
+})
+
+describe('keepStalePage', () => {
+	beforeEach(() => {
+		_internal.clear()
+	})
+
+	it('keeps shareable GET 200 renders of opted-in websites', () => {
+		keepStalePage(createRequest(), url, 'es.example.com', createConfig(), 200, createPage('<p>Precios</p>'))
+		keepStalePage(createRequest(), url, 'es.example.com', createConfig({ staleIfError: false }), 200, createPage('a'))
+		keepStalePage(createRequest({}, 'POST'), url, 'es.example.com', createConfig(), 200, createPage('b'))
+		keepStalePage(createRequest(), url, 'es.example.com', createConfig(), 404, createPage('c'))
+		keepStalePage(createRequest(), url, 'es.example.com', createConfig(), 200, createPage('d', { 'set-cookie': 'a=1' }))
+
+		expect(_internal.getStore().get(key)?.html).toBe('<p>Precios</p>')
+	})
+
+	it('skips renders made with cookies or authorization unless public or covered by the vary set', () => {
+		const page = createPage('<p>Hola, Ana</p>')
+		keepStalePage(createRequest({ cookie: 'session=abc' }), url, 'es.example.com', createConfig(), 200, page)
+		keepStalePage(createRequest({ authorization: 'Bearer x' }), url, 'es.example.com', createConfig(), 200, page)
+		expect(_internal.getStore().size).toBe(0)
+
+		const publicPage = createPage('<p>Precios</p>', { 'cache-control': 'public, max-age=60' })
+		keepStalePage(createRequest({ cookie: 'session=abc' }), url, 'es.example.com', createConfig(), 200, publicPage)
+		expect(_internal.getStore().get(key)?.html).toBe('<p>Precios</p>')
+
+		const config = createConfig({ pageCacheVary: ['cookie:currency'] })
+		keepStalePage(createRequest({ cookie: 'currency=EUR' }), url, 'es.example.com', config, 200, createPage('<p>€</p>'))
+		expect(_internal.getStore().get(`${key}\ncookie:currency=EUR`)?.html).toBe('<p>€</p>')
+	})
+})
+
+describe('serveStalePage', () => {
+	beforeEach(() => {
+		_internal.clear()
+		vi.spyOn(console, 'log').mockImplementation(() => {})
+	})
+
+	it('serves the kept render with a warning and without the translated ETag', () => {
+		const config = createConfig()
+		keepStalePage(createRequest(), url, 'es.example.com', config, 200, createPage('<p>Precios</p>'))
+
+		const { res, sent } = createResponse()
+		expect(serveStalePage(createRequest(), res, url, 'es.example.com', config, 'origin 503')).toBe(true)
+		expect(sent.status).toBe(200)
+		expect(sent.body).toBe('<p>Precios</p>')
+		expect(sent.headers).toMatchObject({ Warning: '111 - "Revalidation Failed"', 'Cache-Control': 'no-cache' })
+		expect(sent.headers).not.toHaveProperty('ETag')
+	})
+
+	it('only serves requests matching the origin Vary values of the render', () => {
+		const config = createConfig()
+		const page = createPage('<p>Precios</p>', { 'cache-control': 'public', vary: 'Accept-Language' })
+		keepStalePage(createRequest({ 'accept-language': 'es' }), url, 'es.example.com', config, 200, page)
+
+		const request = createRequest({ 'accept-language': 'en' })
+		expect(serveStalePage(request, createResponse().res, url, 'es.example.com', config, 'timeout')).toBe(false)
+		const matching = createRequest({ 'accept-language': 'es' })
+		expect(serveStalePage(matching, createResponse().res, url, 'es.example.com', config, 'timeout')).toBe(true)
+	})
+
+	it('reports the failure when nothing is kept or the render is too old', () => {
+		const config = createConfig()
+		expect(serveStalePage(createRequest(), createResponse().res, url, 'es.example.com', config, 'timeout')).toBe(false)
+
+		const page = createPage('<p>Precios</p>', { 'cache-control': 'stale-if-error=60' })
+		page.renderedAt = Date.now() - 120_000
+		keepStalePage(createRequest(), url, 'es.example.com', config, 200, page)
+		expect(serveStalePage(createRequest(), createResponse().res, url, 'es.example.com', config, 'timeout')).toBe(false)
+		expect(_internal.getStore().size).toBe(0)
+	})
+})
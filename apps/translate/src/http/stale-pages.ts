@@ -0,0 +1,153 @@
+/**
+ * Stale-if-error fallback for translated HTML
+ * Keeps the last good render of each page in memory and serves it when the origin fails, times out,
+ * or answers 5xx, so brief origin outages don't take translated sites down. Opt-in per website
+ * (website.stale_if_error)
+ *
+ * Key: same as the rendered-page cache (language host + path + query + the website's vary set), and the
+ * request must match the origin's Vary values recorded with the render
+ * Kept: complete GET 200 renders the origin allows sharing (see isShareableResponse); never renders made
+ * with credentials the key doesn't cover unless marked public (see hasUncoveredCredentials), and never
+ * deferred renders (pending translations)
+ * Served: with Warning: 111 and Cache-Control: no-cache, for up to the origin's stale-if-error
+ * (Cache-Control extension) or STALE_MAX_AGE after the render
+ */
+
+import type { Request, Response } from 'express'
+import type { TranslationConfig } from '@pantolingo/db'
+import {
+	buildPageCacheKey,
+	getVaryHeaders,
+	hasUncoveredCredentials,
+	isPublicResponse,
+	isShareableResponse,
+	matchesVaryHeaders,
+} from './page-cache.js'
+import { createPageStore } from './page-store.js'
+import { setResponseETag } from './etag.js'
+
+const STALE_MAX_AGE = 24 * 60 * 60 // seconds
+
+/**
+ * A kept render
+ */
+interface StalePage {
+	headers: Record<string, string | string[]>
+	html: string
+	varyHeaders: Record<string, string> // Request header values the origin's Vary names
+	staleUntil: number
+}
+
+/**
+ * Complete render to keep (from the pipeline)
+ */
+export interface GoodPage {
+	headers: Record<string, string | string[]>
+	html: string
+	originHeaders: Headers
+	renderedAt: number
+}
+
+// Key: see buildPageCacheKey
+const store = createPageStore<StalePage>()
+
+/**
+ * Determine how long a render may be served stale
+ * @param originHeaders - Headers from origin response
+ * @param renderedAt - Render time (ms)
+ * @returns Stale-until time (ms)
+ */
+export function getStaleUntil(originHeaders: Headers, renderedAt: number): number {
+	const match = (originHeaders.get('cache-control') ?? '').toLowerCase().match(/stale-if-error=(\d+)/)
+	return renderedAt + (match ? parseInt(match[1], 10) : STALE_MAX_AGE) * 1000
+}
+
+/**
+ * Keep a complete render for origin failures
+ * @param req - Express request
+ * @param url - Request URL
+ * @param host - Language host
+ * @param config - Website/language configuration
+ * @param status - Origin status code
+ * @param page - Rendered page
+ */
+export function keepStalePage(
+	req: Request,
+	url: URL,
+	host: string,
+	config: TranslationConfig,
+	status: number,
+	page: GoodPage
+): void {
+	if (!config.staleIfError || req.method !== 'GET' || status !== 200 || !isShareableResponse(page.originHeaders)) {
+		return
+	}
+
+	const getHeader = (name: string) => req.get(name)
+	if (!isPublicResponse(page.originHeaders) && hasUncoveredCredentials(getHeader, config.pageCacheVary)) {
+		return
+	}
+	if (!store.fits(page.html)) {
+		return
+	}
+
+	const headers = { ...page.headers }
+	setResponseETag(headers, null) // Translated ETags can't be revalidated while the origin is down
+	headers['Cache-Control'] = 'no-cache'
+
+	store.set(buildPageCacheKey(host, url, config.pageCacheVary, getHeader), {
+		headers,
+		html: page.html,
+		varyHeaders: getVaryHeaders(page.originHeaders, getHeader),
+		staleUntil: getStaleUntil(page.originHeaders, page.renderedAt),
+	})
+}
+
+/**
+ * Serve the last good render of a page after an origin failure
+ * Returns true if the request was handled, false if the failure should be reported (nothing kept)
+ * @param req - Express request
+ * @param res - Express response
+ * @param url - Parsed URL object
+ * @param host - Current host
+ * @param config - Website/language configuration
+ * @param reason - Origin failure (for logging)
+ * @returns true if request was handled (response sent), false otherwise
+ */
+export function serveStalePage(
+	req: Request,
+	res: Response,
+	url: URL,
+	host: string,
+	config: TranslationConfig,
+	reason: string
+): boolean {
+	if (!config.staleIfError || req.method !== 'GET' || res.headersSent) {
+		return false
+	}
+
+	const getHeader = (name: string) => req.get(name)
+	const key = buildPageCacheKey(host, url, config.pageCacheVary, getHeader)
+	const page = store.get(key)
+	if (!page || !matchesVaryHeaders(page.varyHeaders, getHeader)) {
+		return false
+	}
+	if (Date.now() >= page.staleUntil) {
+		store.delete(key)
+		return false
+	}
+
+	store.touch(key)
+
+	console.log(`▶ [${config.targetLang}] ${host}${url.pathname} [STALE] ${reason}`)
+
+	res.status(200).set(page.headers).set('Warning', '111 - "Revalidation Failed"').send(page.html)
+	return true
+}
+
+// Export for testing only
+export const _internal = {
+	getStore: () => store,
+	clear: () => store.clear(),
+	STALE_MAX_AGE,
+}
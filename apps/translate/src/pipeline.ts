@@ -20,19 +20,40 @@ import { parseHTMLDocument } from './dom/parser.js'
 import { extractSegments, extractLinkPathnames } from './dom/extractor.js'
 import { applyTranslations } from './dom/applicator.js'
 import { rewriteLinks } from './dom/rewriter.js'
-import { addLangMetadata } from './dom/metadata.js'
+import { applyImageOverrides } from './dom/images.js'
+import { addLangMetadata, type HreflangAlternate } from './dom/metadata.js'
+import { applyRobotsPolicy, applyRobotsHeader } from './dom/robots.js'
 import { translateSegments } from './translation/translate-segments.js'
+import { getTranslationProvider } from './translation/providers/index.js'
+import { DEFAULT_TONE } from './translation/translate.js'
 import { applyPatterns, restorePatterns } from './translation/skip-patterns.js'
 import {
 	shouldSkipPath,
 	normalizePathname,
 	denormalizePathname,
+	resolveAlternatePathnames,
 	translatePathnamesBatch,
 } from './translation/translate-pathnames.js'
 import { prepareResponseHeaders } from './http/headers.js'
 import { rewriteRedirectLocation } from './http/redirect.js'
 import { proxyStaticAsset, proxyNonHtmlContent, isHtmlContent, isRedirect, type ProxyConfig } from './http/proxy.js'
+import { proxySitemap } from './http/sitemap.js'
+import { proxyRobotsTxt } from './http/robots-txt.js'
+import { proxyJsonApi } from './http/json-api.js'
+import { servePageFromCache, cacheRenderedPage } from './http/page-cache.js'
+import { keepStalePage, serveStalePage } from './http/stale-pages.js'
+import {
+	buildConditionalHeaders,
+	buildTranslatedETag,
+	getOriginValidator,
+	getTranslationVersion,
+	isRenderCurrent,
+	parseTranslatedETags,
+	setResponseETag,
+	type TranslatedETag,
+} from './http/etag.js'
 import { renderMessagePage } from './utils/message-page.js'
+import { TIMEOUT_FETCHER } from './config.js'
 import { getCacheControl } from './utils/cache-control.js'
 import { detectSpaFramework, buildTranslationDictionary, injectRecoveryAssets, markSkippedElements } from './recovery/index.js'
 import { isInFlight, setInFlight, buildInFlightKey, startBackgroundSegmentTranslation, startBackgroundPathTranslation, injectDeferredAssets } from './deferred/index.js'
@@ -45,13 +66,16 @@ import {
 	batchGetTranslations,
 	batchUpsertTranslations,
 	batchUpsertPathnames,
+	getLangAlternates,
 	batchGetWebsiteSegmentIds,
-	linkPathSegments,
+	reconcilePathSegments,
 	hashText,
 	recordPageView,
 	updateSegmentLastUsed,
 	updatePathLastUsed,
 	recordLlmUsage,
+	getPageCachePurgedAt,
+	batchGetFuzzyMatches,
 	type TranslationItem,
 	type PathnameMapping,
 	type LlmUsageRecord,
@@ -118,7 +142,7 @@ async function executeDeferredWrites(writes: DeferredWrites): Promise<void> {
 		// 2. Upsert pathnames (always includes current path) and get IDs
 		const pathnameIdMap = await batchUpsertPathnames(websiteId, lang, pathnames)
 
-		// 3. Link new segments to current path
+		// 3. Reconcile current path's segments (link current, unlink removed)
 		let pathIds = pathnameIdMap.get(currentPath)
 
 		// Use lookup ID for existing paths (upsert returns nothing for ON CONFLICT DO NOTHING)
@@ -138,7 +162,7 @@ async function executeDeferredWrites(writes: DeferredWrites): Promise<void> {
 		if (pathIds?.websitePathId && allSegmentHashes.length > 0) {
 			const websiteSegmentIds = await batchGetWebsiteSegmentIds(websiteId, allSegmentHashes)
 			if (websiteSegmentIds.size > 0) {
-				await linkPathSegments(pathIds.websitePathId, Array.from(websiteSegmentIds.values()))
+				await reconcilePathSegments(pathIds.websitePathId, Array.from(websiteSegmentIds.values()))
 			}
 		}
 
@@ -163,6 +187,29 @@ async function executeDeferredWrites(writes: DeferredWrites): Promise<void> {
 const redirectLogging = false // redirects
 const proxyLogging = false // non-HTML resources (proxied)
 
+/**
+ * Build hreflang alternates for the current page from every enabled translation
+ * The current language uses this request's translated pathname (may not be stored yet)
+ */
+async function getHreflangAlternates(
+	websiteId: number,
+	targetLang: string,
+	originalPathname: string,
+	translatedPathname: string,
+	translatePath: boolean
+): Promise<HreflangAlternate[]> {
+	const { normalized } = normalizePathname(originalPathname)
+	const alternates = resolveAlternatePathnames(
+		await getLangAlternates(websiteId, normalized),
+		originalPathname,
+		translatePath
+	)
+
+	return alternates.map((alt) =>
+		alt.lang === targetLang && translatePath ? { ...alt, pathname: translatedPathname } : alt
+	)
+}
+
 /**
  * Result from matching segments with cache
  */
@@ -211,7 +258,6 @@ export function matchSegmentsWithMap(segments: Content[], cache: Map<string, str
 }
 
 // Environment variables - read lazily to ensure dotenv has loaded
-const OPENROUTER_API_KEY = () => process.env.OPENROUTER_API_KEY || ''
 const GOOGLE_PROJECT_ID = () => process.env.GOOGLE_PROJECT_ID || ''
 
 /**
@@ -247,6 +293,7 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 		const originBase = `https://${translationConfig.websiteHostname}`
 		const originHostname = translationConfig.websiteHostname
 		const sourceLang = translationConfig.sourceLang
+		const translationProvider = getTranslationProvider(translationConfig.provider)
 
 		// Resolve pathname (reverse lookup for translated URLs)
 		// Always attempt reverse lookup to support bookmarked/indexed translated URLs
@@ -267,10 +314,28 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 			cacheDisabledUntil: translationConfig.cacheDisabledUntil,
 		}
 
+		// robots.txt and sitemaps are static extensions but rewritten for the language host
+		if (await proxyRobotsTxt(req, res, url, host, proxyConfig, translationConfig)) {
+			return
+		}
+		if (await proxySitemap(req, res, url, host, proxyConfig, translationConfig)) {
+			return
+		}
+
+		// JSON API responses matching the website's API rules are translated (may be .json files)
+		if (await proxyJsonApi(req, res, url, host, proxyConfig, translationConfig)) {
+			return
+		}
+
 		if (await proxyStaticAsset(req, res, url, host, proxyConfig)) {
 			return
 		}
 
+		// Serve a cached render of this page (opt-in per website)
+		if (await servePageFromCache(req, res, url, host, proxyConfig, translationConfig)) {
+			return
+		}
+
 		// STAGE 1: Early pathname lookup for reverse URL resolution
 		// Normalize incoming pathname before lookup (DB stores normalized paths)
 		const { normalized: normalizedIncoming, replacements: incomingReplacements } = normalizePathname(incomingPathname)
@@ -289,6 +354,20 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 		// 4. Fetch HTML from origin
 		let html: string
 
+		// Page fetch timeout (opt-in: website origin timeout, or stale-if-error with the default timeout)
+		// covers the response headers and, for HTML, the body (non-HTML bodies stream unbounded)
+		// Only GET/HEAD: an aborted form submission may already have been processed by the origin
+		const { originTimeout, staleIfError } = translationConfig
+		const timeoutMs =
+			(req.method === 'GET' || req.method === 'HEAD') && (originTimeout !== null || staleIfError)
+				? (originTimeout ?? TIMEOUT_FETCHER)
+				: null
+		const originAbort = new AbortController()
+		const originTimer =
+			timeoutMs !== null
+				? setTimeout(() => originAbort.abort(new Error(`Origin timed out after ${timeoutMs}ms`)), timeoutMs)
+				: undefined
+
 		try {
 			// Fetch with header forwarding
 			const fetchStart = Date.now()
@@ -318,13 +397,57 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 				fetchBody = bodyBuffer.buffer.slice(bodyBuffer.byteOffset, bodyBuffer.byteOffset + bodyBuffer.byteLength)
 			}
 
+			// Browser holds a translated ETag (see http/etag.ts): if it matches the current translation state,
+			// revalidate the origin validator it embeds - an origin 304 means the translated page is unchanged
+			const { normalized: normalizedCurrentPath } = normalizePathname(originalPathname)
+			const browserETags = req.method === 'GET' ? parseTranslatedETags(req.get('if-none-match')) : []
+			let translationVersion: number | null = null
+			let conditionalETag: TranslatedETag | undefined
+			if (browserETags.length > 0) {
+				translationVersion = getTranslationVersion(
+					await getPageCachePurgedAt(translationConfig.translationId, normalizedCurrentPath)
+				)
+				conditionalETag = browserETags.find((etag) => etag.version === translationVersion)
+				if (conditionalETag) {
+					Object.assign(fetchHeaders, buildConditionalHeaders(conditionalETag.originValidator))
+				}
+			}
+
+			// Range and conditional requests are forwarded for non-HTML responses (media, downloads) as for
+			// static assets. A translated page differs from the origin's bytes, so requests accepting HTML
+			// (page loads) and translated ETags are not
+			const acceptsHtml = /text\/html|application\/xhtml\+xml/i.test(req.get('accept') ?? '')
+			if (!acceptsHtml && browserETags.length === 0) {
+				for (const headerName of ['range', 'if-range', 'if-none-match', 'if-modified-since']) {
+					const headerValue = req.get(headerName)
+					if (headerValue) fetchHeaders[headerName] = headerValue
+				}
+				// Byte ranges refer to the encoded body, but fetch decodes compressed responses
+				if (fetchHeaders['range']) {
+					delete fetchHeaders['accept-encoding']
+				}
+			}
+
 			const originResponse = await fetch(fetchUrl, {
 				method: req.method,
 				headers: fetchHeaders,
 				redirect: 'manual',
+				signal: originAbort.signal,
 				...(fetchBody ? { body: fetchBody } : {}),
 			})
 
+			if (conditionalETag && originResponse.status === 304) {
+				const notModifiedHeaders = prepareResponseHeaders(originResponse.headers)
+				setResponseETag(notModifiedHeaders, conditionalETag.etag)
+				notModifiedHeaders['Cache-Control'] = getCacheControl({
+					originHeaders: originResponse.headers,
+					cacheDisabledUntil: translationConfig.cacheDisabledUntil,
+					applyMinimumCache: false,
+				})
+				res.status(304).set(notModifiedHeaders).end()
+				return
+			}
+
 			// Handle redirects: detect and rewrite Location header to translated domain
 			if (isRedirect(originResponse.status)) {
 				const location = originResponse.headers.get('location')
@@ -355,14 +478,21 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 				}
 			}
 
-			// Handle non-HTML content (proxy)
-			if (!isHtmlContent(originResponse)) {
+			// Origin error: serve the last good render if the website opted in
+			const originFailure = `origin ${originResponse.status}`
+			if (originResponse.status >= 500 && serveStalePage(req, res, url, host, translationConfig, originFailure)) {
+				await originResponse.body?.cancel()
+				return
+			}
+
+			// Handle non-HTML content (proxy) - and partial HTML, which can't be translated
+			if (!isHtmlContent(originResponse) || originResponse.status === 206) {
+				clearTimeout(originTimer)
 				await proxyNonHtmlContent(res, originResponse, proxyConfig, proxyLogging, fetchUrl)
 				return
 			}
 
 			// Initialize deferred writes - will be executed after response is sent
-			const { normalized: normalizedCurrentPath } = normalizePathname(originalPathname)
 			const deferredWrites: DeferredWrites = {
 				websiteId: translationConfig.websiteId,
 				lang: translationConfig.targetLang,
@@ -385,6 +515,17 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 				statusCode: originResponse.status,
 				headers: originResponse.headers,
 			}
+			clearTimeout(originTimer)
+
+			// Translation state this render is based on (read before translations, so an edit during
+			// the render changes the version and the page isn't tagged as current)
+			const originValidator =
+				req.method === 'GET' && fetchResult.statusCode === 200 ? getOriginValidator(fetchResult.headers) : null
+			if (originValidator && translationVersion === null) {
+				translationVersion = getTranslationVersion(
+					await getPageCachePurgedAt(translationConfig.translationId, normalizedCurrentPath)
+				)
+			}
 
 			// Parse HTML with linkedom
 			const parseStart = Date.now()
@@ -392,7 +533,9 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 
 			// 5. Extract segments
 			const skipSelectors = translationConfig.skipSelectors
-			const extractedSegments = extractSegments(document, skipSelectors)
+			const translateAttrs = translationConfig.translateAttrs
+			const translateJson = translationConfig.translateJson
+			const extractedSegments = extractSegments(document, skipSelectors, translateAttrs, translateJson)
 			const fetchTime = parseStart - fetchStart
 
 			// Store original values for dictionary building (before any modifications)
@@ -478,7 +621,9 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 							segments: segmentsToTranslate,
 							hashes: hashesToTranslate,
 							skipWords: translationConfig.skipWords,
-							apiKey: OPENROUTER_API_KEY(),
+							provider: translationProvider,
+							tone: translationConfig.tone,
+							glossary: translationConfig.glossary,
 							projectId: GOOGLE_PROJECT_ID(),
 							context: { host, pathname: originalPathname },
 						}).catch((err) => console.error('[Background Translation] Error:', err))
@@ -502,7 +647,9 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 						restoredTranslations,
 						extractedSegments,
 						skipSelectors,
-						segmentHashes
+						segmentHashes,
+						translateAttrs,
+						translateJson
 					) as ApplyTranslationsResult
 
 					// Inject deferred assets if there are pending segments
@@ -597,7 +744,7 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 											sourceLang,
 											uncachedPaths: pathsToTranslate,
 											skipWords: translationConfig.skipWords,
-											apiKey: OPENROUTER_API_KEY(),
+											provider: translationProvider,
 											context: { host, pathname: originalPathname },
 										}).catch((err) => console.error('[Background Path] Error:', err))
 									}
@@ -608,7 +755,8 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 						}
 					}
 
-					// Rewrite links
+					// Swap in localized images, then rewrite links
+					applyImageOverrides(document, translationConfig.imageOverrides, new URL(fetchUrl))
 					rewriteLinks(
 						document,
 						originHostname,
@@ -621,7 +769,23 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 
 					// Add lang metadata
 					try {
-						addLangMetadata(document, targetLang, sourceLang, host, originHostname, originalPathname, url)
+						const hreflangAlternates = await getHreflangAlternates(
+							translationConfig.websiteId,
+							targetLang,
+							originalPathname,
+							translatedPathname,
+							translationConfig.translatePath
+						)
+						addLangMetadata(
+							document,
+							targetLang,
+							sourceLang,
+							host,
+							originHostname,
+							originalPathname,
+							url,
+							hreflangAlternates
+						)
 					} catch (langError) {
 						console.error('[Lang Metadata] Failed:', langError)
 					}
@@ -634,7 +798,8 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 							originalValues,
 							skipSelectors,
 							targetLang,
-							pathnameMap
+							pathnameMap,
+							translateAttrs
 						)
 
 						const hasEntries =
@@ -649,6 +814,9 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 						}
 					}
 
+					// Apply the language's robots policy (noindex override)
+					applyRobotsPolicy(document, translationConfig.robots)
+
 					// Serialize and send response immediately
 					html = document.toString()
 
@@ -666,11 +834,14 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 					// Send response
 					const htmlHeaders = prepareResponseHeaders(fetchResult.headers)
 					htmlHeaders['Content-Type'] = 'text/html; charset=utf-8'
+					applyRobotsHeader(htmlHeaders, translationConfig.robots)
 					htmlHeaders['Cache-Control'] = getCacheControl({
 						originHeaders: fetchResult.headers,
 						cacheDisabledUntil: translationConfig.cacheDisabledUntil,
 						applyMinimumCache: false,
 					})
+					// Pending translations change the page again - no translated ETag (Express hashes the body)
+					setResponseETag(htmlHeaders, null)
 					res.status(fetchResult.statusCode).set(htmlHeaders).send(html)
 					return
 				}
@@ -692,10 +863,12 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 								sourceLang,
 								targetLang,
 								GOOGLE_PROJECT_ID(),
-								OPENROUTER_API_KEY(),
+								translationProvider,
 								translationConfig.skipWords,
-								'balanced', // TODO: Use translationConfig.style after DB migration
-								translationContext
+								translationConfig.tone,
+								translationContext,
+								translationConfig.glossary,
+								(texts) => batchGetFuzzyMatches(translationConfig.websiteId, targetLang, texts)
 						  )
 						: Promise.resolve({
 								translations: [],
@@ -786,15 +959,15 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 							allPathnames,
 							pathnameMapping,
 							async (segments: Content[]) => {
-								// Style is ignored for pathnames (only applies to segments)
+								// Tone is ignored for pathnames (only applies to segments)
 								const result = await translateSegments(
 									segments,
 									sourceLang,
 									targetLang,
 									GOOGLE_PROJECT_ID(),
-									OPENROUTER_API_KEY(),
+									translationProvider,
 									translationConfig.skipWords,
-									'balanced',
+									DEFAULT_TONE,
 									translationContext
 								)
 								return {
@@ -893,7 +1066,15 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 					})
 
 					// 11. Apply translations to DOM
-					applyTranslations(document, restoredTranslations, extractedSegments, skipSelectors)
+					applyTranslations(
+						document,
+						restoredTranslations,
+						extractedSegments,
+						skipSelectors,
+						undefined,
+						translateAttrs,
+						translateJson
+					)
 
 					// 12. Collect translations for deferred write
 					if (newSegments.length > 0 && newTranslations.length > 0) {
@@ -916,7 +1097,8 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 						}
 					}
 
-					// 14. Rewrite links
+					// 14. Swap in localized images, then rewrite links
+					applyImageOverrides(document, translationConfig.imageOverrides, new URL(fetchUrl))
 					rewriteLinks(
 						document,
 						originHostname,
@@ -929,7 +1111,23 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 
 					// 15a. Add lang attribute and hreflang links for SEO
 					try {
-						addLangMetadata(document, targetLang, sourceLang, host, originHostname, originalPathname, url)
+						const hreflangAlternates = await getHreflangAlternates(
+							translationConfig.websiteId,
+							targetLang,
+							originalPathname,
+							translatedPathname,
+							translationConfig.translatePath
+						)
+						addLangMetadata(
+							document,
+							targetLang,
+							sourceLang,
+							host,
+							originHostname,
+							originalPathname,
+							url,
+							hreflangAlternates
+						)
 					} catch (langError) {
 						console.error('[Lang Metadata] Failed:', langError)
 						// Non-blocking - continue serving response
@@ -953,7 +1151,8 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 							originalValues,
 							skipSelectors,
 							targetLang,
-							pathnameMap
+							pathnameMap,
+							translateAttrs
 						)
 
 						// Only inject if dictionary has entries (avoid empty overhead)
@@ -980,6 +1179,9 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 				}
 			}
 
+			// Apply the language's robots policy (noindex override)
+			applyRobotsPolicy(document, translationConfig.robots)
+
 			// Serialize final HTML
 			html = document.toString()
 
@@ -999,18 +1201,49 @@ export async function handleRequest(req: Request, res: Response): Promise<void>
 			// Send response with cache control and security headers
 			const htmlHeaders = prepareResponseHeaders(fetchResult.headers)
 			htmlHeaders['Content-Type'] = 'text/html; charset=utf-8'
+			applyRobotsHeader(htmlHeaders, translationConfig.robots)
 			htmlHeaders['Cache-Control'] = getCacheControl({
 				originHeaders: fetchResult.headers,
 				cacheDisabledUntil: translationConfig.cacheDisabledUntil,
 				applyMinimumCache: false,
 			})
+			setResponseETag(
+				htmlHeaders,
+				originValidator && translationVersion !== null && isRenderCurrent(translationVersion, translationConfig.loadedAt)
+					? buildTranslatedETag(originValidator, translationVersion)
+					: null
+			)
+
+			// Keep the fully translated page for repeat requests and origin failures (deferred renders return earlier)
+			cacheRenderedPage(req, url, host, translationConfig, {
+				path: normalizedCurrentPath,
+				websitePathId: deferredWrites.websitePathId,
+				fetchUrl,
+				status: fetchResult.statusCode,
+				headers: htmlHeaders,
+				html,
+				originHeaders: fetchResult.headers,
+				renderedAt: fetchStart,
+			})
+			keepStalePage(req, url, host, translationConfig, fetchResult.statusCode, {
+				headers: htmlHeaders,
+				html,
+				originHeaders: fetchResult.headers,
+				renderedAt: fetchStart,
+			})
+
 			res.status(fetchResult.statusCode).set(htmlHeaders).send(html)
 		} catch (fetchError) {
 			console.error('Fetch/parse error:', fetchError)
+			if (serveStalePage(req, res, url, host, translationConfig, String(fetchError))) {
+				return
+			}
 			res.status(502)
 				.set('Content-Type', 'text/plain')
 				// .set('X-Error', 'Failed to fetch or parse page')
 				.send('Fetch/parse failed')
+		} finally {
+			clearTimeout(originTimer)
 		}
 	} catch (error) {
 		console.error('Unexpected error:', error)
@@ -123,6 +123,58 @@ describe('buildTranslationDictionary', () => {
 			expect(dictionary.attrs['A cat']).toBe('Un gato')
 			expect(dictionary.attrs['Click me']).toBe('Haz clic')
 		})
+
+		it('maps body attributes correctly after head meta tags', () => {
+			const { document } = parseHTMLDocument(`
+				<!DOCTYPE html>
+				<html>
+					<head>
+						<meta name="description" content="Desc" />
+						<meta property="og:title" content="OG Title" />
+					</head>
+					<body><img src="test.jpg" alt="A cat" /></body>
+				</html>
+			`)
+
+			const segments = extractSegments(document, [])
+			const originalValues = segments.map((s) => s.value)
+			const translations = segments.map((s) =>
+				s.value === 'A cat' ? 'Un gato' : s.value === 'OG Title' ? 'Título OG' : s.value
+			)
+
+			applyTranslations(document, translations, segments, [])
+
+			const dictionary = buildTranslationDictionary(document, segments, originalValues, [], 'es')
+
+			expect(dictionary.attrs).toEqual({ 'OG Title': 'Título OG', 'A cat': 'Un gato' })
+		})
+
+		it('includes website-configured attributes and passes their rules to the client', () => {
+			const { document } = parseHTMLDocument(`
+				<!DOCTYPE html>
+				<html>
+					<head><title>Test</title></head>
+					<body><input type="submit" value="Send" data-tooltip="Sends the form" /></body>
+				</html>
+			`)
+			const translateAttrs = ['data-tooltip', 'input[type="submit"]@value']
+
+			const segments = extractSegments(document, [], translateAttrs)
+			const originalValues = segments.map((s) => s.value)
+			const translations = segments.map((s) =>
+				s.value === 'Send' ? 'Enviar' : s.value === 'Sends the form' ? 'Envía el formulario' : s.value
+			)
+
+			applyTranslations(document, translations, segments, [], undefined, translateAttrs)
+
+			const dictionary = buildTranslationDictionary(document, segments, originalValues, [], 'es', undefined, translateAttrs)
+
+			expect(dictionary.attrs).toEqual({ Send: 'Enviar', 'Sends the form': 'Envía el formulario' })
+			expect(dictionary.attrRules).toEqual([
+				{ attr: 'data-tooltip' },
+				{ attr: 'value', selector: 'input[type="submit"]' },
+			])
+		})
 	})
 
 	describe('skip selectors', () => {
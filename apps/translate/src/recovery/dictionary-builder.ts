@@ -6,7 +6,15 @@
 
 import type { Content } from '../types.js'
 import { TRANSLATE_ATTRS } from '../config.js'
-import { shouldSkipNode, isInsideGroupedElement } from '../dom/utils.js'
+import {
+	shouldSkipNode,
+	isInsideGroupedElement,
+	getTranslatableMetaElements,
+	getTranslateAttrRules,
+	getTranslatableAttrs,
+	hasOptInDescendants,
+	type TranslateAttrRule,
+} from '../dom/utils.js'
 
 /**
  * Translation dictionary for client-side recovery
@@ -21,6 +29,8 @@ export interface TranslationDictionary {
 	attrs: Record<string, string>
 	/** Pathname mappings: original path → translated path */
 	paths: Record<string, string>
+	/** Website-configured attribute rules (the recovery script knows the built-in ones) */
+	attrRules: TranslateAttrRule[]
 	/** Target language code (e.g., 'es', 'fr') */
 	targetLang: string
 }
@@ -38,6 +48,8 @@ export interface TranslationDictionary {
  * @param originalValues - The original segment values before translation
  * @param skipSelectors - CSS selectors for elements to skip
  * @param targetLang - The target language code
+ * @param pathnameMap - Original → translated pathnames for link recovery
+ * @param translateAttrs - Website-configured attributes to translate (must match extraction)
  * @returns Translation dictionary for client-side use
  */
 export function buildTranslationDictionary(
@@ -46,13 +58,17 @@ export function buildTranslationDictionary(
 	originalValues: string[],
 	skipSelectors: string[],
 	targetLang: string,
-	pathnameMap?: Map<string, string>
+	pathnameMap?: Map<string, string>,
+	translateAttrs: string[] = []
 ): TranslationDictionary {
+	const attrRules = getTranslateAttrRules(translateAttrs)
 	const dictionary: TranslationDictionary = {
 		text: {},
 		html: {},
 		attrs: {},
 		paths: {},
+		// Built-in rules come first and are never repeated by website entries
+		attrRules: attrRules.slice(TRANSLATE_ATTRS.length),
 		targetLang,
 	}
 
@@ -69,7 +85,7 @@ export function buildTranslationDictionary(
 
 		// Skip if original and current are the same (no translation occurred)
 		// We need to get the current value from the DOM for comparison
-		const currentValue = getCurrentValue(document, segment, skipSelectors, i, segments)
+		const currentValue = getCurrentValue(document, segment, skipSelectors, attrRules, i, segments)
 		if (currentValue === null || originalValue.trim() === currentValue.trim()) {
 			continue
 		}
@@ -133,6 +149,7 @@ function getCurrentValue(
 	document: Document,
 	segment: Content,
 	skipSelectors: string[],
+	attrRules: TranslateAttrRule[],
 	targetIndex: number,
 	allSegments: Content[]
 ): string | null {
@@ -151,7 +168,7 @@ function getCurrentValue(
 
 		case 'attr':
 			// For attribute segments, traverse and count to find the right one
-			return getAttributeValue(document, segment.attr || '', skipSelectors, targetIndex, allSegments)
+			return getAttributeValue(document, segment.attr || '', skipSelectors, attrRules, targetIndex, allSegments)
 
 		default:
 			return null
@@ -212,7 +229,7 @@ function findTextNode(
 	groupedElements: Set<Element>,
 	state: { count: number; target: number }
 ): string | null {
-	if (shouldSkipNode(node, skipSelectors)) {
+	if (shouldSkipNode(node, skipSelectors) && !hasOptInDescendants(node)) {
 		return null
 	}
 
@@ -249,6 +266,7 @@ function getAttributeValue(
 	document: Document,
 	attrName: string,
 	skipSelectors: string[],
+	attrRules: TranslateAttrRule[],
 	targetIndex: number,
 	allSegments: Content[]
 ): string | null {
@@ -260,20 +278,12 @@ function getAttributeValue(
 		}
 	}
 
-	// Check description meta tag first (if it's an attr segment)
-	const descElement = document.querySelector('meta[name="description"]')
-	if (descElement && !shouldSkipNode(descElement, skipSelectors)) {
-		const content = descElement.getAttribute('content')
-		if (content && content.trim().length > 0) {
-			if (attrIndex === 0 && attrName === 'content') {
-				return content
-			}
-			// Account for description if it's an attr segment
-			if (allSegments.some((s, i) => i < targetIndex && s.kind === 'attr' && s.attr === 'content')) {
-				attrIndex--
-			}
-		}
+	// Head meta tags come first (description, Open Graph, etc.)
+	const metaElements = getTranslatableMetaElements(document, skipSelectors)
+	if (attrIndex < metaElements.length) {
+		return attrName === 'content' ? metaElements[attrIndex].getAttribute('content') : null
 	}
+	attrIndex -= metaElements.length
 
 	// Traverse all elements to find the attribute
 	const allElements = document.querySelectorAll('*')
@@ -286,14 +296,11 @@ function getAttributeValue(
 			continue
 		}
 
-		for (const attr of TRANSLATE_ATTRS) {
-			const value = elem.getAttribute(attr)
-			if (value && value.trim().length > 0) {
-				if (currentAttrIndex === attrIndex && attr === attrName) {
-					return value
-				}
-				currentAttrIndex++
+		for (const attr of getTranslatableAttrs(elem, attrRules)) {
+			if (currentAttrIndex === attrIndex && attr === attrName) {
+				return elem.getAttribute(attr)
 			}
+			currentAttrIndex++
 		}
 	}
 
@@ -73,6 +73,7 @@ describe('injectRecoveryAssets', () => {
 		html: { 'Hello world': '<em>Hola</em> mundo' },
 		attrs: { Search: 'Buscar' },
 		paths: { '/about': '/acerca-de' },
+		attrRules: [],
 		targetLang: 'es',
 	}
 
@@ -161,6 +162,7 @@ describe('injectRecoveryAssets', () => {
 			html: {},
 			attrs: {},
 			paths: {},
+			attrRules: [],
 			targetLang: 'es',
 		}
 
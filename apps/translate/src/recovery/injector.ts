@@ -5,6 +5,7 @@
 
 import type { TranslationDictionary } from './dictionary-builder.js'
 import { RECOVERY_SCRIPT } from './recovery-script-content.js'
+import { NOTRANSLATE_CLASS } from '../config.js'
 
 /**
  * CSS to prevent flash of untranslated content during hydration
@@ -12,19 +13,18 @@ import { RECOVERY_SCRIPT } from './recovery-script-content.js'
  */
 const FLICKER_GUARD_CSS = `body:not(.pantolingo-recovery-ready){opacity:0}`
 
+// Opt-out markup skipped without configuration (see shouldSkipNode)
+const SKIP_MARKUP_SELECTORS = ['[translate="no"]', `.${NOTRANSLATE_CLASS}`]
+
 /**
- * Mark elements matching skip selectors with data-pantolingo-recovery-skip attribute
+ * Mark elements matching skip selectors or opt-out markup with data-pantolingo-recovery-skip attribute
  * The recovery script will skip these elements during translation recovery
  *
  * @param document - The parsed HTML document
  * @param skipSelectors - CSS selectors for elements to skip
  */
 export function markSkippedElements(document: Document, skipSelectors: string[]): void {
-	if (!skipSelectors || skipSelectors.length === 0) {
-		return
-	}
-
-	for (const selector of skipSelectors) {
+	for (const selector of [...SKIP_MARKUP_SELECTORS, ...(skipSelectors || [])]) {
 		try {
 			const elements = document.querySelectorAll(selector)
 			for (let i = 0; i < elements.length; i++) {
@@ -84,6 +84,7 @@ export function injectRecoveryAssets(document: Document, dictionary: Translation
 		html: dictionary.html,
 		attrs: dictionary.attrs,
 		paths: dictionary.paths,
+		...(dictionary.attrRules.length > 0 && { attrRules: dictionary.attrRules }),
 		lang: dictionary.targetLang,
 	})
 	dictionaryScript.textContent = `window.__PANTOLINGO_RECOVERY__=${dictionaryJson}`
@@ -1,2 +1,2 @@
 // Auto-generated — do not edit. Source: recovery/recovery-script.ts
-export const RECOVERY_SCRIPT = "\"use strict\";(()=>{var d=[\"alt\",\"title\",\"placeholder\",\"aria-label\"],p=new Set([\"P\",\"H1\",\"H2\",\"H3\",\"H4\",\"H5\",\"H6\",\"LI\",\"TD\",\"TH\",\"DD\",\"DT\",\"FIGCAPTION\",\"CAPTION\",\"LABEL\",\"LEGEND\",\"SUMMARY\"]);function l(o){for(;o;){if(o.hasAttribute(\"data-pantolingo-recovery-skip\")||o.hasAttribute(\"data-pantolingo-deferred\"))return!0;o=o.parentElement}return!1}function m(o,i,c){let s=o.html;if(Object.keys(s).length===0)return;let a=document.createTreeWalker(i,NodeFilter.SHOW_ELEMENT,{acceptNode:n=>{let t=n;return l(t)?NodeFilter.FILTER_REJECT:p.has(t.tagName)?NodeFilter.FILTER_ACCEPT:NodeFilter.FILTER_SKIP}}),e;for(;e=a.nextNode();){let n=e.textContent?.trim();n&&s[n]&&(e.innerHTML=s[n],c.add(e))}}function E(o,i,c){let s=o.text;if(Object.keys(s).length===0)return;let a=document.createTreeWalker(i,NodeFilter.SHOW_TEXT,{acceptNode:n=>{let t=n.parentElement;for(;t;){if(c.has(t)||l(t))return NodeFilter.FILTER_REJECT;t=t.parentElement}return n.data.trim().length>0?NodeFilter.FILTER_ACCEPT:NodeFilter.FILTER_SKIP}}),e;for(;e=a.nextNode();){let n=e.data.trim();if(s[n]){let t=e.data.match(/^(\\s*)/)?.[1]||\"\",r=e.data.match(/(\\s*)$/)?.[1]||\"\";e.data=t+s[n]+r}}}function f(o,i){let c=o.attrs;if(Object.keys(c).length===0)return;let s=d.map(e=>`[${e}]`).join(\",\"),a=i.querySelectorAll(s);for(let e=0;e<a.length;e++){let n=a[e];if(!l(n))for(let t of d){let r=n.getAttribute(t);r&&c[r]&&n.setAttribute(t,c[r])}}}function T(o){let i=o.paths;if(!i||Object.keys(i).length===0)return;let c=document.querySelectorAll(\"a[href], form[action]\");for(let s=0;s<c.length;s++){let a=c[s];if(l(a))continue;let e=a.tagName===\"FORM\"?\"action\":\"href\",n=a.getAttribute(e);if(n)try{let t=new URL(n,location.origin);if(t.origin!==location.origin)continue;let r=i[t.pathname];r&&(t.pathname=r,a.setAttribute(e,t.href))}catch{let t=n.split(\"?\")[0].split(\"#\")[0],r=i[t];r&&a.setAttribute(e,n.replace(t,r))}}}function N(){let o=window.__PANTOLINGO_RECOVERY__;if(!o)return;let i=new Set;m(o,document.body,i),E(o,document.body,i),f(o,document.body),T(o),document.body.classList.add(\"pantolingo-recovery-ready\")}function y(o){let i=window.__PANTOLINGO_RECOVERY__;if(!i)return;let c=new Set,s=!1;for(let a of o)if(a.type===\"childList\")for(let e=0;e<a.addedNodes.length;e++){let n=a.addedNodes[e];if(n.nodeType===Node.ELEMENT_NODE){s=!0;let t=n;m(i,t,c),E(i,t,c),f(i,t)}else if(n.nodeType===Node.TEXT_NODE){let t=n,r=t.data.trim();if(r&&i.text[r]){let h=t.data.match(/^(\\s*)/)?.[1]||\"\",g=t.data.match(/(\\s*)$/)?.[1]||\"\";t.data=h+i.text[r]+g}}}else if(a.type===\"characterData\"){let e=a.target,n=e.data.trim();if(n&&i.text[n]){let t=e.data.match(/^(\\s*)/)?.[1]||\"\",r=e.data.match(/(\\s*)$/)?.[1]||\"\";e.data=t+i.text[n]+r}}s&&T(i)}function u(){N();let o=new MutationObserver(y);o.observe(document.body,{childList:!0,subtree:!0,characterData:!0}),setTimeout(()=>{o.disconnect()},2e3)}document.readyState===\"loading\"?document.addEventListener(\"DOMContentLoaded\",u):u();})();"
+export const RECOVERY_SCRIPT = "\"use strict\";(()=>{var h=[\"alt\",\"title\",\"placeholder\",\"aria-label\"],p=new Set([\"P\",\"H1\",\"H2\",\"H3\",\"H4\",\"H5\",\"H6\",\"LI\",\"TD\",\"TH\",\"DD\",\"DT\",\"FIGCAPTION\",\"CAPTION\",\"LABEL\",\"LEGEND\",\"SUMMARY\"]);function d(n){for(;n;){if(n.hasAttribute(\"data-pantolingo-deferred\"))return!0;if(n.getAttribute(\"data-pantolingo-translate\")===\"yes\")return!1;if(n.hasAttribute(\"data-pantolingo-recovery-skip\"))return!0;n=n.parentElement}return!1}function f(n,o,l){let i=n.html;if(Object.keys(i).length===0)return;let s=document.createTreeWalker(o,NodeFilter.SHOW_ELEMENT,{acceptNode:e=>{let t=e;return d(t)?NodeFilter.FILTER_REJECT:p.has(t.tagName)?NodeFilter.FILTER_ACCEPT:NodeFilter.FILTER_SKIP}}),r;for(;r=s.nextNode();){let e=r.textContent?.trim();e&&i[e]&&(r.innerHTML=i[e],l.add(r))}}function m(n,o,l){let i=n.text;if(Object.keys(i).length===0)return;let s=document.createTreeWalker(o,NodeFilter.SHOW_TEXT,{acceptNode:e=>{let t=e.parentElement;for(;t;){if(l.has(t)||d(t))return NodeFilter.FILTER_REJECT;t=t.parentElement}return e.data.trim().length>0?NodeFilter.FILTER_ACCEPT:NodeFilter.FILTER_SKIP}}),r;for(;r=s.nextNode();){let e=r.data.trim();if(i[e]){let t=r.data.match(/^(\\s*)/)?.[1]||\"\",a=r.data.match(/(\\s*)$/)?.[1]||\"\";r.data=t+i[e]+a}}}function N(n,o){if(!o)return!0;try{return n.matches(o)}catch{return!1}}function E(n,o){let l=n.attrs;if(Object.keys(l).length===0)return;let i=[...h.map(e=>({attr:e})),...n.attrRules||[]],s=i.map(e=>`[${CSS.escape(e.attr)}]`).join(\",\"),r=o.querySelectorAll(s);for(let e=0;e<r.length;e++){let t=r[e];if(!d(t))for(let a of i){let c=t.getAttribute(a.attr);c&&l[c]&&N(t,a.selector)&&t.setAttribute(a.attr,l[c])}}}function g(n){let o=n.paths;if(!o||Object.keys(o).length===0)return;let l=document.querySelectorAll(\"a[href], form[action]\");for(let i=0;i<l.length;i++){let s=l[i];if(d(s))continue;let r=s.tagName===\"FORM\"?\"action\":\"href\",e=s.getAttribute(r);if(e)try{let t=new URL(e,location.origin);if(t.origin!==location.origin)continue;let a=o[t.pathname];a&&(t.pathname=a,s.setAttribute(r,t.href))}catch{let t=e.split(\"?\")[0].split(\"#\")[0],a=o[t];a&&s.setAttribute(r,e.replace(t,a))}}}function y(){let n=window.__PANTOLINGO_RECOVERY__;if(!n)return;let o=new Set;f(n,document.body,o),m(n,document.body,o),E(n,document.body),g(n),document.body.classList.add(\"pantolingo-recovery-ready\")}function R(n){let o=window.__PANTOLINGO_RECOVERY__;if(!o)return;let l=new Set,i=!1;for(let s of n)if(s.type===\"childList\")for(let r=0;r<s.addedNodes.length;r++){let e=s.addedNodes[r];if(e.nodeType===Node.ELEMENT_NODE){i=!0;let t=e;f(o,t,l),m(o,t,l),E(o,t)}else if(e.nodeType===Node.TEXT_NODE){let t=e,a=t.data.trim();if(a&&o.text[a]){let c=t.data.match(/^(\\s*)/)?.[1]||\"\",T=t.data.match(/(\\s*)$/)?.[1]||\"\";t.data=c+o.text[a]+T}}}else if(s.type===\"characterData\"){let r=s.target,e=r.data.trim();if(e&&o.text[e]){let t=r.data.match(/^(\\s*)/)?.[1]||\"\",a=r.data.match(/(\\s*)$/)?.[1]||\"\";r.data=t+o.text[e]+a}}i&&g(o)}function u(){y();let n=new MutationObserver(R);n.observe(document.body,{childList:!0,subtree:!0,characterData:!0}),setTimeout(()=>{n.disconnect()},2e3)}document.readyState===\"loading\"?document.addEventListener(\"DOMContentLoaded\",u):u();})();"
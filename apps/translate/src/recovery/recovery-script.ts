@@ -17,16 +17,23 @@
  *   html: { "Hello world": "<em>Hola</em> mundo", ... },  // innerHTML translations
  *   attrs: { "Search": "Buscar", ... },   // attribute translations
  *   paths: { "/about": "/acerca-de", ... },  // pathname translations
+ *   attrRules: [{ attr: "data-tooltip" }, { attr: "value", selector: "input[type=submit]" }],  // optional
  *   lang: "es"
  * }
  */
 
 // Type definitions for the recovery script
+interface AttrRule {
+	attr: string
+	selector?: string
+}
+
 interface PantolingoDictionary {
 	text: Record<string, string>
 	html: Record<string, string>
 	attrs: Record<string, string>
 	paths: Record<string, string>
+	attrRules?: AttrRule[]
 	lang: string
 }
 
@@ -49,10 +56,17 @@ const BLOCK_ELEMENTS = new Set([
 /**
  * Check if an element or its ancestors should be skipped
  * Also skips elements with data-pantolingo-deferred (deferred translation in progress)
+ * data-pantolingo-translate="yes" opts an element back in, as on the server
  */
 function shouldSkip(element: Element | null): boolean {
 	while (element) {
-		if (element.hasAttribute('data-pantolingo-recovery-skip') || element.hasAttribute('data-pantolingo-deferred')) {
+		if (element.hasAttribute('data-pantolingo-deferred')) {
+			return true
+		}
+		if (element.getAttribute('data-pantolingo-translate') === 'yes') {
+			return false
+		}
+		if (element.hasAttribute('data-pantolingo-recovery-skip')) {
 			return true
 		}
 		element = element.parentElement
@@ -140,8 +154,21 @@ function applyTextTranslations(
 	}
 }
 
+/**
+ * Check if a website-configured attribute rule applies to an element
+ */
+function matchesRule(elem: Element, selector: string | undefined): boolean {
+	if (!selector) return true
+	try {
+		return elem.matches(selector)
+	} catch {
+		return false // Invalid selector
+	}
+}
+
 /**
  * Apply attribute translations
+ * Covers the built-in attributes plus the website's attribute rules from the dictionary
  */
 function applyAttrTranslations(
 	dictionary: PantolingoDictionary,
@@ -150,18 +177,20 @@ function applyAttrTranslations(
 	const attrsDict = dictionary.attrs
 	if (Object.keys(attrsDict).length === 0) return
 
+	const rules: AttrRule[] = [...TRANSLATABLE_ATTRS.map(attr => ({ attr })), ...(dictionary.attrRules || [])]
+
 	// Find all elements with translatable attributes
-	const selector = TRANSLATABLE_ATTRS.map(attr => `[${attr}]`).join(',')
+	const selector = rules.map(rule => `[${CSS.escape(rule.attr)}]`).join(',')
 	const elements = root.querySelectorAll(selector)
 
 	for (let i = 0; i < elements.length; i++) {
 		const elem = elements[i]
 		if (shouldSkip(elem)) continue
 
-		for (const attr of TRANSLATABLE_ATTRS) {
-			const value = elem.getAttribute(attr)
-			if (value && attrsDict[value]) {
-				elem.setAttribute(attr, attrsDict[value])
+		for (const rule of rules) {
+			const value = elem.getAttribute(rule.attr)
+			if (value && attrsDict[value] && matchesRule(elem, rule.selector)) {
+				elem.setAttribute(rule.attr, attrsDict[value])
 			}
 		}
 	}
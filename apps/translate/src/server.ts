@@ -16,10 +16,14 @@ import { testConnection, closePool } from '@pantolingo/db'
 import { renderMessagePage } from './utils/message-page.js'
 import { getRecoveryScript } from './recovery/index.js'
 import { getDeferredScript, handlePollingRequest } from './deferred/index.js'
+import { compressResponses } from './http/compression.js'
 
 const app = express()
 const PORT = process.env.PORT || 8787
 
+// Compress buffered text responses (streamed origin bodies are compressed by the proxy)
+app.use(compressResponses)
+
 // Health check endpoint
 app.get('/healthz', (_req, res) => {
 	res.json({ status: 'ok' })
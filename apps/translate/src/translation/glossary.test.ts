@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import type { GlossaryTerm } from '@pantolingo/db'
+import { findGlossaryTerms, findMissingGlossaryTerms } from './glossary.js'
+
+function term(sourceTerm: string, targetTerm: string, caseSensitive = false): GlossaryTerm {
+	return { id: 0, sourceTerm, targetTerm, caseSensitive }
+}
+
+describe('findGlossaryTerms', () => {
+	const watchlist = term('Watchlist', 'Lista de seguimiento')
+	const go = term('Go', 'Go', true)
+
+	it('matches whole words case-insensitively by default', () => {
+		expect(findGlossaryTerms('Add to your watchlist', [watchlist])).toEqual([watchlist])
+		expect(findGlossaryTerms('Open Watchlists', [watchlist])).toEqual([])
+	})
+
+	it('respects case-sensitive terms', () => {
+		expect(findGlossaryTerms('Built with Go', [go])).toEqual([go])
+		expect(findGlossaryTerms('Let us go', [go])).toEqual([])
+	})
+
+	it('matches terms next to placeholders and punctuation', () => {
+		expect(findGlossaryTerms('[HB1]Watchlist[/HB1]: [N1] items', [watchlist])).toEqual([watchlist])
+	})
+
+	it('handles non-ASCII terms and regex characters', () => {
+		const cafe = term('Café+', 'Café Plus')
+		expect(findGlossaryTerms('Try Café+ today', [cafe])).toEqual([cafe])
+		expect(findGlossaryTerms('Try Cafés', [cafe])).toEqual([])
+	})
+})
+
+describe('findMissingGlossaryTerms', () => {
+	const watchlist = term('Watchlist', 'Lista de seguimiento')
+
+	it('accepts translations containing the target term in any case', () => {
+		expect(findMissingGlossaryTerms('lista de seguimiento actualizada', [watchlist])).toEqual([])
+	})
+
+	it('reports missing target terms', () => {
+		expect(findMissingGlossaryTerms('Lista de favoritos', [watchlist])).toEqual([watchlist])
+	})
+})
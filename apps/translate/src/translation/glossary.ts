@@ -0,0 +1,51 @@
+/**
+ * Glossary term matching and verification
+ * Finds which glossary terms a source text uses, and checks translations use the required targets
+ */
+
+import type { GlossaryTerm } from '@pantolingo/db'
+
+// Compiled source-term matchers, keyed by term object (config is cached, so terms are reused)
+const matcherCache = new WeakMap<GlossaryTerm, RegExp>()
+
+function escapeRegex(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Build a whole-word matcher for a source term
+ * Uses letter/number lookarounds instead of \b so non-ASCII terms match correctly
+ */
+function getMatcher(term: GlossaryTerm): RegExp {
+	let matcher = matcherCache.get(term)
+	if (!matcher) {
+		const flags = term.caseSensitive ? 'u' : 'iu'
+		matcher = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegex(term.sourceTerm)}(?![\\p{L}\\p{N}])`, flags)
+		matcherCache.set(term, matcher)
+	}
+	return matcher
+}
+
+/**
+ * Find glossary terms that appear in a source text
+ * @param text - Source text (may contain placeholders)
+ * @param glossary - Glossary for the target language
+ * @returns Terms whose source term appears as a whole word
+ */
+export function findGlossaryTerms(text: string, glossary: GlossaryTerm[]): GlossaryTerm[] {
+	if (glossary.length === 0) return []
+	return glossary.filter((term) => term.sourceTerm && getMatcher(term).test(text))
+}
+
+/**
+ * Find required target terms missing from a translation
+ * Comparison is case-insensitive (translations may capitalize at sentence start)
+ * @param translated - Translated text
+ * @param terms - Terms found in the source text (from findGlossaryTerms)
+ * @returns Terms whose target term does not appear in the translation
+ */
+export function findMissingGlossaryTerms(translated: string, terms: GlossaryTerm[]): GlossaryTerm[] {
+	if (terms.length === 0) return []
+	const lower = translated.toLocaleLowerCase()
+	return terms.filter((term) => !lower.includes(term.targetTerm.toLocaleLowerCase()))
+}
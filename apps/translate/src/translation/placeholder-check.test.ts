@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest'
+import { placeholdersMatch } from './placeholder-check.js'
+
+describe('placeholdersMatch', () => {
+	it('accepts text without placeholders', () => {
+		expect(placeholdersMatch('Hello', 'Hola')).toBe(true)
+	})
+
+	it('accepts reordered placeholders', () => {
+		expect(placeholdersMatch('[HB1]Red[/HB1] car [N1]', '[N1] coche [HB1]rojo[/HB1]')).toBe(true)
+	})
+
+	it('rejects missing, extra, or duplicated placeholders', () => {
+		expect(placeholdersMatch('Price [N1]', 'Precio')).toBe(false)
+		expect(placeholdersMatch('Price', 'Precio [N1]')).toBe(false)
+		expect(placeholdersMatch('[S1] and [S2]', '[S1] y [S1]')).toBe(false)
+	})
+})
@@ -0,0 +1,22 @@
+/**
+ * Placeholder integrity check for translated text
+ * Used to decide whether a batched translation item can be trusted
+ */
+
+// Placeholders like [N1], [S1], [HB1], [/HB1]
+const PLACEHOLDER_REGEX = /\[\/?[A-Z]+\d+\]/g
+
+/**
+ * Check that translated text contains exactly the placeholders of the source
+ * Order may differ (word order changes), but every token must appear the same number of times
+ * @param source - Text sent for translation
+ * @param translated - Text returned by the provider
+ * @returns true if placeholder sets match
+ */
+export function placeholdersMatch(source: string, translated: string): boolean {
+	const expected = (source.match(PLACEHOLDER_REGEX) ?? []).sort()
+	const actual = (translated.match(PLACEHOLDER_REGEX) ?? []).sort()
+
+	if (expected.length !== actual.length) return false
+	return expected.every((token, i) => token === actual[i])
+}
@@ -0,0 +1,78 @@
+/**
+ * Anthropic Messages API provider
+ * Calls Claude directly without a router in between
+ */
+
+import type { TokenUsage } from '@pantolingo/db'
+import { createLlmProvider, responseError } from './llm.js'
+import type { TranslationProvider } from './types.js'
+
+export const ANTHROPIC_ENDPOINT = 'https://api.anthropic.com/v1/messages'
+export const ANTHROPIC_MODEL = 'claude-haiku-4-5'
+const ANTHROPIC_VERSION = '2023-06-01'
+const MAX_TOKENS = 8192 // room for batched output
+
+// USD per million tokens - Anthropic does not report cost, so estimate it
+const PRICE_PER_MTOK: Record<string, { input: number; output: number }> = {
+	'claude-haiku-4-5': { input: 1, output: 5 },
+}
+
+export interface AnthropicOptions {
+	apiKey: string
+	model?: string
+	endpoint?: string
+}
+
+/**
+ * Create an Anthropic provider
+ * @param options - API key and optional model/endpoint overrides
+ */
+export function createAnthropicProvider(options: AnthropicOptions): TranslationProvider {
+	const model = options.model ?? ANTHROPIC_MODEL
+	const endpoint = options.endpoint ?? ANTHROPIC_ENDPOINT
+	const price = PRICE_PER_MTOK[model]
+
+	return createLlmProvider('anthropic', model, async (system, user, timeoutMs) => {
+		const response = await fetch(endpoint, {
+			method: 'POST',
+			headers: {
+				'x-api-key': options.apiKey,
+				'anthropic-version': ANTHROPIC_VERSION,
+				'Content-Type': 'application/json',
+			},
+			signal: AbortSignal.timeout(timeoutMs),
+			body: JSON.stringify({
+				model,
+				max_tokens: MAX_TOKENS,
+				system,
+				messages: [{ role: 'user', content: user }],
+				temperature: 0,
+			}),
+		})
+
+		if (!response.ok) {
+			throw await responseError('Anthropic', response)
+		}
+
+		const data = (await response.json()) as any
+
+		if (!Array.isArray(data.content)) {
+			throw new Error(`Unexpected response format: ${JSON.stringify(data)}`)
+		}
+
+		const promptTokens = data.usage?.input_tokens ?? 0
+		const completionTokens = data.usage?.output_tokens ?? 0
+		const usage: TokenUsage = {
+			promptTokens,
+			completionTokens,
+			cost: price ? (promptTokens * price.input + completionTokens * price.output) / 1_000_000 : 0,
+		}
+
+		const content = data.content
+			.filter((block: any) => block.type === 'text')
+			.map((block: any) => block.text)
+			.join('')
+
+		return { content, usage }
+	})
+}
@@ -0,0 +1,164 @@
+/**
+ * DeepL machine translation provider
+ * No prompts - placeholders are protected with ignored XML tags instead
+ */
+
+import type { TranslationFormality } from '@pantolingo/db'
+import { TIMEOUT_TRANSLATION, TIMEOUT_TRANSLATION_BATCH } from '../../config.js'
+import { escapeXml, unescapeXml } from '../../utils/xml.js'
+import { responseError } from './llm.js'
+import type {
+	ProviderBatchRequest,
+	ProviderBatchResult,
+	ProviderRequest,
+	ProviderResult,
+	TranslationProvider,
+} from './types.js'
+
+const DEEPL_ENDPOINT = 'https://api.deepl.com/v2/translate'
+const DEEPL_FREE_ENDPOINT = 'https://api-free.deepl.com/v2/translate'
+
+// Placeholders like [N1], [S1], [HB1], [/HB1]
+const PLACEHOLDER_REGEX = /\[\/?[A-Z]+\d+\]/g
+const PROTECT_TAG = 'x'
+
+// Target languages where DeepL requires (and supports) a regional variant
+const REGIONAL_TARGETS = new Set(['EN-US', 'EN-GB', 'PT-BR', 'PT-PT'])
+
+// DeepL formality values - 'prefer_*' falls back silently for languages without formality support
+const FORMALITY: Record<TranslationFormality, string> = {
+	default: 'default',
+	formal: 'prefer_more',
+	informal: 'prefer_less',
+}
+
+/**
+ * Map tone to DeepL formality (segments only)
+ * Explicit formality wins; otherwise literal → formal, natural → informal (as in SEGMENT_PROMPT)
+ */
+export function toDeepLFormality(request: Pick<ProviderRequest, 'type' | 'tone'>): string {
+	if (request.type !== 'segment') return FORMALITY.default
+	const { style, formality } = request.tone
+	if (formality !== 'default') return FORMALITY[formality]
+	if (style === 'literal') return FORMALITY.formal
+	if (style === 'natural') return FORMALITY.informal
+	return FORMALITY.default
+}
+
+export interface DeepLOptions {
+	apiKey: string // keys ending in ':fx' use the free API endpoint
+	endpoint?: string
+}
+
+/**
+ * Map a BCP 47 source code to a DeepL source language (base language only)
+ * @example 'en-us' → 'EN'
+ */
+export function toDeepLSource(code: string): string {
+	return code.split('-')[0].toUpperCase()
+}
+
+/**
+ * Map a BCP 47 target code to a DeepL target language
+ * Keeps the region for EN/PT, maps Chinese scripts, otherwise base language
+ * @example 'en-gb' → 'EN-GB', 'pt' → 'PT-PT', 'zh-tw' → 'ZH-HANT', 'es-mx' → 'ES'
+ */
+export function toDeepLTarget(code: string): string {
+	const upper = code.toUpperCase()
+	const base = upper.split('-')[0]
+
+	if (REGIONAL_TARGETS.has(upper)) return upper
+	if (base === 'EN') return 'EN-US'
+	if (base === 'PT') return upper === 'PT-BR' ? 'PT-BR' : 'PT-PT'
+	if (base === 'ZH') {
+		return upper === 'ZH-TW' || upper === 'ZH-HK' || upper === 'ZH-HANT' ? 'ZH-HANT' : 'ZH-HANS'
+	}
+	return base
+}
+
+/**
+ * Escape text for DeepL XML handling and wrap placeholders in ignored tags
+ * @example 'Save [N1]% & more' → 'Save <x>[N1]</x>% &amp; more'
+ */
+export function protectPlaceholders(text: string): string {
+	return escapeXml(text).replace(PLACEHOLDER_REGEX, (match) => `<${PROTECT_TAG}>${match}</${PROTECT_TAG}>`)
+}
+
+/**
+ * Reverse protectPlaceholders on DeepL output
+ */
+export function restorePlaceholders(text: string): string {
+	return unescapeXml(text.replace(new RegExp(`</?${PROTECT_TAG}>`, 'g'), ''))
+}
+
+/**
+ * Create a DeepL provider
+ * Pathnames are sent as-is - callers normalize the output with toAsciiPathname()
+ * @param options - API key and optional endpoint override
+ */
+export function createDeepLProvider(options: DeepLOptions): TranslationProvider {
+	const endpoint = options.endpoint ?? (options.apiKey.endsWith(':fx') ? DEEPL_FREE_ENDPOINT : DEEPL_ENDPOINT)
+
+	/**
+	 * Translate texts in one request (DeepL accepts up to 50 texts per call)
+	 */
+	async function translateTexts(
+		request: ProviderBatchRequest,
+		timeoutMs: number
+	): Promise<{ texts: string[]; billedCharacters: number }> {
+		const response = await fetch(endpoint, {
+			method: 'POST',
+			headers: {
+				Authorization: `DeepL-Auth-Key ${options.apiKey}`,
+				'Content-Type': 'application/json',
+			},
+			signal: AbortSignal.timeout(timeoutMs),
+			body: JSON.stringify({
+				text: request.texts.map(protectPlaceholders),
+				source_lang: toDeepLSource(request.sourceLanguageCode),
+				target_lang: toDeepLTarget(request.targetLanguageCode),
+				formality: toDeepLFormality(request),
+				tag_handling: 'xml',
+				ignore_tags: [PROTECT_TAG],
+				show_billed_characters: true,
+			}),
+		})
+
+		if (!response.ok) {
+			throw await responseError('DeepL', response)
+		}
+
+		const data = (await response.json()) as any
+		const results = data.translations
+
+		if (!Array.isArray(results) || results.length !== request.texts.length) {
+			throw new Error(`Unexpected response format: ${JSON.stringify(data)}`)
+		}
+
+		let billedCharacters = 0
+		const texts = results.map((result: any, i: number) => {
+			billedCharacters += result.billed_characters ?? request.texts[i].length
+			return typeof result.text === 'string' ? restorePlaceholders(result.text).trim() : ''
+		})
+
+		return { texts, billedCharacters }
+	}
+
+	// DeepL bills by character - track characters as prompt tokens, cost is per plan
+	const usageFor = (billedCharacters: number) => ({ promptTokens: billedCharacters, completionTokens: 0, cost: 0 })
+
+	return {
+		name: 'deepl',
+		model: 'deepl',
+		supportsGlossary: false, // DeepL glossaries are API-managed resources, not per-request terms
+		async translate(request: ProviderRequest): Promise<ProviderResult> {
+			const { text, ...rest } = request
+			const result = await translateTexts({ ...rest, texts: [text] }, TIMEOUT_TRANSLATION)
+			return { translation: result.texts[0], usage: usageFor(result.billedCharacters) }
+		},
+		async translateMany(request: ProviderBatchRequest): Promise<ProviderBatchResult> {
+			const result = await translateTexts(request, TIMEOUT_TRANSLATION_BATCH)
+			return { translations: result.texts.map((text) => text || null), usage: usageFor(result.billedCharacters) }
+		},
+	}
+}
@@ -0,0 +1,88 @@
+/**
+ * Translation provider registry
+ * Resolves a website's provider settings to a provider instance
+ */
+
+import type { TranslationProviderName, TranslationProviderSettings } from '@pantolingo/db'
+import { createAnthropicProvider } from './anthropic.js'
+import { createDeepLProvider } from './deepl.js'
+import { createMockProvider } from './mock.js'
+import { createOpenAICompatibleProvider } from './openai-compatible.js'
+import { createOpenRouterProvider } from './openrouter.js'
+import type { TranslationProvider } from './types.js'
+
+export type {
+	ProviderBatchRequest,
+	ProviderBatchResult,
+	ProviderRequest,
+	ProviderResult,
+	TranslationProvider,
+	TranslationStyle,
+	TranslationReference,
+	TranslationTone,
+} from './types.js'
+export { createAnthropicProvider } from './anthropic.js'
+export { createDeepLProvider } from './deepl.js'
+export { createMockProvider } from './mock.js'
+export { createOpenAICompatibleProvider } from './openai-compatible.js'
+export { createOpenRouterProvider } from './openrouter.js'
+
+const PROVIDER_NAMES: TranslationProviderName[] = ['openrouter', 'anthropic', 'openai', 'deepl', 'mock']
+
+// Instances are stateless - cache one per distinct settings combination
+const providerCache = new Map<string, TranslationProvider>()
+
+/**
+ * Read the TRANSLATION_PROVIDER env override (e.g., 'mock' for offline development)
+ */
+function getProviderOverride(): TranslationProviderName | null {
+	const value = process.env.TRANSLATION_PROVIDER
+	if (!value) return null
+	if (!PROVIDER_NAMES.includes(value as TranslationProviderName)) {
+		console.warn(`[Translation] Ignoring unknown TRANSLATION_PROVIDER "${value}"`)
+		return null
+	}
+	return value as TranslationProviderName
+}
+
+function createProvider(
+	name: TranslationProviderName,
+	model: string | undefined,
+	endpoint: string | undefined
+): TranslationProvider {
+	switch (name) {
+		case 'anthropic':
+			return createAnthropicProvider({ apiKey: process.env.ANTHROPIC_API_KEY || '', model, endpoint })
+		case 'openai':
+			return createOpenAICompatibleProvider({ apiKey: process.env.OPENAI_API_KEY || '', model, endpoint })
+		case 'deepl':
+			return createDeepLProvider({ apiKey: process.env.DEEPL_API_KEY || '', endpoint })
+		case 'mock':
+			return createMockProvider()
+		case 'openrouter':
+		default:
+			return createOpenRouterProvider({ apiKey: process.env.OPENROUTER_API_KEY || '', model, endpoint })
+	}
+}
+
+/**
+ * Get the translation provider for a website
+ * TRANSLATION_PROVIDER env var overrides the database selection for every website,
+ * with TRANSLATION_MODEL / TRANSLATION_ENDPOINT replacing the per-website model/endpoint
+ * @param settings - Provider settings from TranslationConfig
+ * @returns Provider instance (cached)
+ */
+export function getTranslationProvider(settings: TranslationProviderSettings): TranslationProvider {
+	const override = getProviderOverride()
+	const name = override ?? settings.name
+	const model = (override ? process.env.TRANSLATION_MODEL : settings.model) || undefined
+	const endpoint = (override ? process.env.TRANSLATION_ENDPOINT : settings.endpoint) || undefined
+
+	const key = `${name}|${model ?? ''}|${endpoint ?? ''}`
+	let provider = providerCache.get(key)
+	if (!provider) {
+		provider = createProvider(name, model, endpoint)
+		providerCache.set(key, provider)
+	}
+	return provider
+}
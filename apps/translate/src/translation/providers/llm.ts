@@ -0,0 +1,161 @@
+/**
+ * Shared helpers for LLM-backed providers
+ * Builds the same system/user messages regardless of API shape
+ */
+
+import type { TokenUsage } from '@pantolingo/db'
+import { TIMEOUT_TRANSLATION, TIMEOUT_TRANSLATION_BATCH } from '../../config.js'
+import { BATCH_PROMPT_SUFFIX, PATHNAME_PROMPT, SEGMENT_PROMPT } from '../prompts.js'
+import { escapeXml } from '../../utils/xml.js'
+import type {
+	ProviderBatchRequest,
+	ProviderBatchResult,
+	ProviderRequest,
+	ProviderResult,
+	TranslationProvider,
+} from './types.js'
+
+/** Raw chat completion output */
+export interface LlmCompletion {
+	content: string
+	usage: TokenUsage
+}
+
+/** Send one system + user message pair to an LLM API */
+export type CompleteFn = (system: string, user: string, timeoutMs: number) => Promise<LlmCompletion>
+
+/**
+ * Get the system prompt for a translation type
+ */
+export function buildSystemPrompt(request: Pick<ProviderRequest, 'type'>): string {
+	return request.type === 'segment' ? SEGMENT_PROMPT : PATHNAME_PROMPT
+}
+
+/**
+ * Build tone, glossary, and reference tags for segment requests
+ * <style> is always sent; <formality>, <brandVoice>, <glossary>, and <references> only when set
+ */
+function buildToneTags(request: Pick<ProviderRequest, 'type' | 'tone' | 'glossary' | 'references'>): string {
+	if (request.type !== 'segment') return ''
+
+	const { style, formality, brandVoice } = request.tone
+	let tags = `<style>${style}</style>`
+	if (formality !== 'default') {
+		tags += `<formality>${formality}</formality>`
+	}
+	if (brandVoice) {
+		tags += `<brandVoice>${escapeXml(brandVoice)}</brandVoice>`
+	}
+	if (request.glossary && request.glossary.length > 0) {
+		const terms = request.glossary
+			.map(
+				(t) => `<term><source>${escapeXml(t.sourceTerm)}</source><target>${escapeXml(t.targetTerm)}</target></term>`
+			)
+			.join('')
+		tags += `<glossary>${terms}</glossary>`
+	}
+	if (request.references && request.references.length > 0) {
+		const references = request.references
+			.map(
+				(r) =>
+					`<reference><source>${escapeXml(r.source)}</source><target>${escapeXml(r.translation)}</target></reference>`
+			)
+			.join('')
+		tags += `<references>${references}</references>`
+	}
+	return tags
+}
+
+/**
+ * Build the XML user message for a translation request
+ * Tone tags are only included for segments, not pathnames
+ */
+export function buildUserMessage(request: ProviderRequest): string {
+	const styleTag = buildToneTags(request)
+
+	return `
+                        <translate>
+                            <sourceLanguageCode>${request.sourceLanguageCode}</sourceLanguageCode>
+                            <targetLanguageCode>${request.targetLanguageCode}</targetLanguageCode>
+                            ${styleTag}
+                            <text>${request.text}</text>
+                        </translate>`
+}
+
+/**
+ * Build the XML user message for a multi-item request
+ * Items are numbered from 1 so the response can be matched back by id
+ */
+export function buildBatchUserMessage(request: ProviderBatchRequest): string {
+	const styleTag = buildToneTags(request)
+	const items = request.texts.map((text, i) => `<item id="${i + 1}">${text}</item>`).join('\n')
+
+	return `<translate>
+<sourceLanguageCode>${request.sourceLanguageCode}</sourceLanguageCode>
+<targetLanguageCode>${request.targetLanguageCode}</targetLanguageCode>
+${styleTag}
+<items>
+${items}
+</items>
+</translate>`
+}
+
+/**
+ * Parse <item id="N">...</item> elements back into a parallel array
+ * Missing, empty, or out-of-range ids become null (caller retries those items)
+ * @param content - Raw LLM output
+ * @param count - Number of items sent
+ */
+export function parseBatchResponse(content: string, count: number): (string | null)[] {
+	const translations: (string | null)[] = new Array(count).fill(null)
+	const itemRegex = /<item id="(\d+)">([\s\S]*?)<\/item>/g
+	let match: RegExpExecArray | null
+
+	while ((match = itemRegex.exec(content)) !== null) {
+		const index = Number(match[1]) - 1
+		const text = match[2].trim()
+		if (index >= 0 && index < count && translations[index] === null && text) {
+			translations[index] = text
+		}
+	}
+
+	return translations
+}
+
+/**
+ * Build a provider from a completion function
+ * Handles prompt construction for single and batched requests
+ * @param name - Provider name for logs
+ * @param model - Model identifier
+ * @param complete - API-specific completion call
+ */
+export function createLlmProvider(name: string, model: string, complete: CompleteFn): TranslationProvider {
+	return {
+		name,
+		model,
+		supportsGlossary: true,
+		async translate(request: ProviderRequest): Promise<ProviderResult> {
+			const result = await complete(buildSystemPrompt(request), buildUserMessage(request), TIMEOUT_TRANSLATION)
+			return { translation: result.content.trim(), usage: result.usage }
+		},
+		async translateMany(request: ProviderBatchRequest): Promise<ProviderBatchResult> {
+			const result = await complete(
+				buildSystemPrompt(request) + BATCH_PROMPT_SUFFIX,
+				buildBatchUserMessage(request),
+				TIMEOUT_TRANSLATION_BATCH
+			)
+			return { translations: parseBatchResponse(result.content, request.texts.length), usage: result.usage }
+		},
+	}
+}
+
+/**
+ * Build an error from a non-OK response
+ * Truncates the body - it may be a full HTML error page from Cloudflare
+ */
+export async function responseError(label: string, response: Response): Promise<Error> {
+	const errorText = await response.text()
+	const isHtml = errorText.trimStart().startsWith('<')
+	const truncatedError = isHtml ? '(HTML error page)' : errorText.slice(0, 200) + (errorText.length > 200 ? '...' : '')
+	return new Error(`${label} API error: ${response.status} ${response.statusText} - ${truncatedError}`)
+}
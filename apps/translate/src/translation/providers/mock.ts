@@ -0,0 +1,43 @@
+/**
+ * Deterministic local mock provider
+ * Runs fully offline - for development, tests, and load testing without API spend
+ */
+
+import type {
+	ProviderBatchRequest,
+	ProviderBatchResult,
+	ProviderRequest,
+	ProviderResult,
+	TranslationProvider,
+} from './types.js'
+
+const ZERO_USAGE = { promptTokens: 0, completionTokens: 0, cost: 0 }
+
+function mockTranslate(text: string, type: 'segment' | 'pathname', targetLanguageCode: string): string {
+	return type === 'segment' ? `[${targetLanguageCode}] ${text}` : text
+}
+
+/**
+ * Create a mock provider
+ * Segments become "[target] text" so translated output is visible on the page;
+ * pathnames are returned unchanged so links keep working
+ */
+export function createMockProvider(): TranslationProvider {
+	return {
+		name: 'mock',
+		model: 'mock',
+		supportsGlossary: false,
+		async translate(request: ProviderRequest): Promise<ProviderResult> {
+			return {
+				translation: mockTranslate(request.text, request.type, request.targetLanguageCode),
+				usage: { ...ZERO_USAGE },
+			}
+		},
+		async translateMany(request: ProviderBatchRequest): Promise<ProviderBatchResult> {
+			return {
+				translations: request.texts.map((text) => mockTranslate(text, request.type, request.targetLanguageCode)),
+				usage: { ...ZERO_USAGE },
+			}
+		},
+	}
+}
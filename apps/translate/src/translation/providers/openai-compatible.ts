@@ -0,0 +1,77 @@
+/**
+ * OpenAI-compatible chat completions provider
+ * Works with OpenAI, OpenRouter, and self-hosted/local servers that speak the same API
+ */
+
+import type { TokenUsage } from '@pantolingo/db'
+import { createLlmProvider, responseError } from './llm.js'
+import type { TranslationProvider } from './types.js'
+
+export const OPENAI_ENDPOINT = 'https://api.openai.com/v1/chat/completions'
+export const OPENAI_MODEL = 'gpt-4.1-mini'
+
+export interface OpenAICompatibleOptions {
+	name?: string // label used in logs/errors (default: 'openai')
+	apiKey: string // empty = no Authorization header (local servers)
+	model?: string
+	endpoint?: string // full chat completions URL
+	headers?: Record<string, string> // extra request headers
+	body?: Record<string, unknown> // extra request body fields
+	onUsage?: (data: any) => void // hook for provider-specific usage checks
+}
+
+/**
+ * Create a provider that calls a chat completions endpoint
+ * @param options - API key, model, endpoint, and optional extra headers/body fields
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): TranslationProvider {
+	const name = options.name ?? 'openai'
+	const model = options.model ?? OPENAI_MODEL
+	const endpoint = options.endpoint ?? OPENAI_ENDPOINT
+
+	return createLlmProvider(name, model, async (system, user, timeoutMs) => {
+		const headers: Record<string, string> = {
+			...options.headers,
+			'Content-Type': 'application/json',
+		}
+		if (options.apiKey) {
+			headers.Authorization = `Bearer ${options.apiKey}`
+		}
+
+		const response = await fetch(endpoint, {
+			method: 'POST',
+			headers,
+			signal: AbortSignal.timeout(timeoutMs),
+			body: JSON.stringify({
+				model,
+				messages: [
+					{ role: 'system', content: system },
+					{ role: 'user', content: user },
+				],
+				temperature: 0,
+				...options.body,
+				stream: false,
+			}),
+		})
+
+		if (!response.ok) {
+			throw await responseError(name, response)
+		}
+
+		const data = (await response.json()) as any
+
+		if (!data.choices || !data.choices[0] || !data.choices[0].message) {
+			throw new Error(`Unexpected response format: ${JSON.stringify(data)}`)
+		}
+
+		options.onUsage?.(data)
+
+		const usage: TokenUsage = {
+			promptTokens: data.usage?.prompt_tokens ?? 0,
+			completionTokens: data.usage?.completion_tokens ?? 0,
+			cost: data.usage?.cost ?? 0,
+		}
+
+		return { content: data.choices[0].message.content ?? '', usage }
+	})
+}
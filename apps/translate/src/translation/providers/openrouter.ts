@@ -0,0 +1,47 @@
+/**
+ * OpenRouter provider (default)
+ * OpenAI-compatible API with routing preferences and per-request cost reporting
+ */
+
+import { createOpenAICompatibleProvider } from './openai-compatible.js'
+import type { TranslationProvider } from './types.js'
+
+export const OPENROUTER_ENDPOINT = 'https://openrouter.ai/api/v1/chat/completions'
+export const OPENROUTER_MODEL = 'anthropic/claude-haiku-4.5'
+
+export interface OpenRouterOptions {
+	apiKey: string
+	model?: string
+	endpoint?: string
+}
+
+/**
+ * Create an OpenRouter provider
+ * @param options - API key and optional model/endpoint overrides
+ */
+export function createOpenRouterProvider(options: OpenRouterOptions): TranslationProvider {
+	return createOpenAICompatibleProvider({
+		name: 'openrouter',
+		apiKey: options.apiKey,
+		model: options.model ?? OPENROUTER_MODEL,
+		endpoint: options.endpoint ?? OPENROUTER_ENDPOINT,
+		headers: {
+			// 'HTTP-Referer': 'https://find-your-item.com',
+			'X-Title': 'Translation Proxy',
+		},
+		body: {
+			provider: {
+				sort: 'throughput',
+			},
+			reasoning: {
+				enabled: false,
+			},
+		},
+		onUsage: (data) => {
+			// Warn if cost is missing (detect silent data loss)
+			if (data.usage?.cost === undefined) {
+				console.warn('[LLM Usage] Missing cost in OpenRouter response')
+			}
+		},
+	})
+}
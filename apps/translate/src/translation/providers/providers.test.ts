@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import {
+	createMockProvider,
+	createOpenAICompatibleProvider,
+	getTranslationProvider,
+	type ProviderRequest,
+} from './index.js'
+import { buildUserMessage, parseBatchResponse } from './llm.js'
+import {
+	protectPlaceholders,
+	restorePlaceholders,
+	toDeepLFormality,
+	toDeepLSource,
+	toDeepLTarget,
+} from './deepl.js'
+import { translateBatch, DEFAULT_TONE } from '../translate.js'
+
+function request(text: string, type: 'segment' | 'pathname' = 'segment'): ProviderRequest {
+	return { text, type, sourceLanguageCode: 'en-us', targetLanguageCode: 'es-mx', tone: DEFAULT_TONE }
+}
+
+describe('createMockProvider', () => {
+	const provider = createMockProvider()
+
+	it('prefixes segments with the target language', async () => {
+		const result = await provider.translate(request('Hello [N1]'))
+		expect(result.translation).toBe('[es-mx] Hello [N1]')
+		expect(result.usage).toEqual({ promptTokens: 0, completionTokens: 0, cost: 0 })
+	})
+
+	it('returns pathnames unchanged', async () => {
+		const result = await provider.translate(request('/products/item-[N1]', 'pathname'))
+		expect(result.translation).toBe('/products/item-[N1]')
+	})
+})
+
+describe('getTranslationProvider', () => {
+	it('resolves provider by name and caches instances', () => {
+		const a = getTranslationProvider({ name: 'mock', model: null, endpoint: null })
+		const b = getTranslationProvider({ name: 'mock', model: null, endpoint: null })
+		expect(a.name).toBe('mock')
+		expect(a).toBe(b)
+	})
+
+	it('uses per-website model override', () => {
+		const provider = getTranslationProvider({ name: 'openrouter', model: 'openai/gpt-4.1-mini', endpoint: null })
+		expect(provider.name).toBe('openrouter')
+		expect(provider.model).toBe('openai/gpt-4.1-mini')
+	})
+})
+
+describe('DeepL helpers', () => {
+	it('maps language codes', () => {
+		expect(toDeepLSource('en-us')).toBe('EN')
+		expect(toDeepLTarget('es-mx')).toBe('ES')
+		expect(toDeepLTarget('en-gb')).toBe('EN-GB')
+		expect(toDeepLTarget('en')).toBe('EN-US')
+		expect(toDeepLTarget('pt-br')).toBe('PT-BR')
+		expect(toDeepLTarget('pt')).toBe('PT-PT')
+		expect(toDeepLTarget('zh-tw')).toBe('ZH-HANT')
+		expect(toDeepLTarget('zh-cn')).toBe('ZH-HANS')
+	})
+
+	it('maps tone to formality', () => {
+		const tone = { ...DEFAULT_TONE }
+		expect(toDeepLFormality({ type: 'segment', tone })).toBe('default')
+		expect(toDeepLFormality({ type: 'segment', tone: { ...tone, style: 'natural' } })).toBe('prefer_less')
+		expect(toDeepLFormality({ type: 'segment', tone: { ...tone, style: 'natural', formality: 'formal' } })).toBe(
+			'prefer_more'
+		)
+		expect(toDeepLFormality({ type: 'pathname', tone: { ...tone, formality: 'formal' } })).toBe('default')
+	})
+
+	it('protects placeholders and round-trips escaped text', () => {
+		const protectedText = protectPlaceholders('Save [N1]% on [HB1]R&D[/HB1]')
+		expect(protectedText).toBe('Save <x>[N1]</x>% on <x>[HB1]</x>R&amp;D<x>[/HB1]</x>')
+		expect(restorePlaceholders(protectedText)).toBe('Save [N1]% on [HB1]R&D[/HB1]')
+	})
+})
+
+describe('OpenAI-compatible provider against a local server', () => {
+	let server: Server
+	let endpoint: string
+	const received: any[] = []
+
+	beforeAll(async () => {
+		server = createServer((req, res) => {
+			let body = ''
+			req.on('data', (chunk) => (body += chunk))
+			req.on('end', () => {
+				const parsed = JSON.parse(body)
+				received.push({ headers: req.headers, body: parsed })
+				const text = /<text>([\s\S]*)<\/text>/.exec(parsed.messages[1].content)?.[1] ?? ''
+				if (text === 'fail') {
+					res.writeHead(500, { 'Content-Type': 'text/plain' })
+					res.end('boom')
+					return
+				}
+				res.writeHead(200, { 'Content-Type': 'application/json' })
+				res.end(
+					JSON.stringify({
+						choices: [{ message: { content: `ES:${text}` } }],
+						usage: { prompt_tokens: 3, completion_tokens: 2 },
+					})
+				)
+			})
+		})
+		await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+		endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/chat/completions`
+	})
+
+	afterAll(async () => {
+		await new Promise<void>((resolve) => server.close(() => resolve()))
+	})
+
+	it('sends model and prompts, parses content and usage', async () => {
+		const provider = createOpenAICompatibleProvider({ apiKey: '', model: 'local-model', endpoint })
+		const result = await provider.translate(request('Hello'))
+
+		expect(result.translation).toBe('ES:Hello')
+		expect(result.usage).toEqual({ promptTokens: 3, completionTokens: 2, cost: 0 })
+
+		const last = received[received.length - 1]
+		expect(last.body.model).toBe('local-model')
+		expect(last.body.messages[0].role).toBe('system')
+		expect(last.headers.authorization).toBeUndefined()
+	})
+
+	it('falls back to original text through translateBatch on server errors', async () => {
+		const provider = createOpenAICompatibleProvider({ apiKey: 'key', endpoint })
+		const result = await translateBatch(
+			[
+				{ text: 'Hello', type: 'segment' },
+				{ text: 'fail', type: 'segment' },
+			],
+			'en-us',
+			'es-mx',
+			provider
+		)
+
+		expect(result.translations).toEqual(['ES:Hello', 'fail'])
+		expect(received[received.length - 1].headers.authorization).toBe('Bearer key')
+	})
+})
+
+describe('parseBatchResponse', () => {
+	it('maps items back by id and leaves missing items null', () => {
+		const content = '<item id="2">Dos</item>\n<item id="1">Uno</item>\n<item id="9">Extra</item>\n<item id="3"> </item>'
+		expect(parseBatchResponse(content, 4)).toEqual(['Uno', 'Dos', null, null])
+	})
+})
+
+describe('buildUserMessage', () => {
+	it('sends only style for default tone', () => {
+		const message = buildUserMessage(request('Hello'))
+		expect(message).toContain('<style>balanced</style>')
+		expect(message).not.toContain('<formality>')
+		expect(message).not.toContain('<brandVoice>')
+	})
+
+	it('adds formality and escaped brand voice for segments', () => {
+		const message = buildUserMessage({
+			...request('Hello'),
+			tone: { style: 'natural', formality: 'formal', brandVoice: 'Warm </brandVoice> & short' },
+		})
+		expect(message).toContain('<style>natural</style><formality>formal</formality>')
+		expect(message).toContain('<brandVoice>Warm &lt;/brandVoice&gt; &amp; short</brandVoice>')
+	})
+
+	it('omits tone for pathnames', () => {
+		const message = buildUserMessage({ ...request('/about', 'pathname'), tone: { ...DEFAULT_TONE, formality: 'formal' } })
+		expect(message).not.toContain('<style>')
+		expect(message).not.toContain('<formality>')
+	})
+})
@@ -0,0 +1,51 @@
+/**
+ * Translation provider interface
+ * Each provider turns one source string into one translated string
+ */
+
+import type { GlossaryTerm, TokenUsage, TranslationTone } from '@pantolingo/db'
+
+export type { TranslationStyle, TranslationTone } from '@pantolingo/db'
+
+/** Reviewed translation of similar text (from translation memory) */
+export interface TranslationReference {
+	source: string
+	translation: string
+}
+
+export interface ProviderRequest {
+	text: string
+	type: 'segment' | 'pathname'
+	sourceLanguageCode: string // BCP 47 (e.g., 'en-us')
+	targetLanguageCode: string // BCP 47 (e.g., 'es-mx')
+	tone: TranslationTone // style/formality/brand voice - only applies to segments
+	glossary?: GlossaryTerm[] // required term translations found in the text(s) - only applies to segments
+	references?: TranslationReference[] // reviewed translations of similar text - only applies to segments
+}
+
+export interface ProviderResult {
+	translation: string // raw provider output (trimmed); may be empty
+	usage: TokenUsage
+}
+
+/** Multi-item request - all texts share type, languages, and tone */
+export interface ProviderBatchRequest extends Omit<ProviderRequest, 'text'> {
+	texts: string[]
+}
+
+export interface ProviderBatchResult {
+	translations: (string | null)[] // parallel to texts; null = missing from provider output
+	usage: TokenUsage // usage for the whole request
+}
+
+/**
+ * A translation backend (LLM API, machine translation API, or local mock)
+ * translate() / translateMany() throw on transport/API errors - callers handle fallback
+ */
+export interface TranslationProvider {
+	name: string
+	model: string
+	supportsGlossary: boolean // false: glossary terms are neither sent nor checked in the output
+	translate(request: ProviderRequest): Promise<ProviderResult>
+	translateMany?(request: ProviderBatchRequest): Promise<ProviderBatchResult> // optional - one request for many texts
+}
@@ -5,6 +5,7 @@
  */
 
 import type { SkipWordReplacement } from '../types.js'
+import type { TranslationReference } from './providers/index.js'
 export type { SkipWordReplacement }
 
 /**
@@ -79,6 +80,23 @@ export function replaceSkipWords(
 	return { text: modifiedText, replacements }
 }
 
+/**
+ * Replace skip words in translation memory references
+ * References then show placeholders like the text sent to the provider, which must keep them
+ * @param references - Reviewed translations of similar text
+ * @param skipWords - Array of words to skip
+ * @returns References with skip words replaced in source and translation
+ */
+export function replaceSkipWordsInReferences(
+	references: TranslationReference[],
+	skipWords: string[]
+): TranslationReference[] {
+	return references.map((reference) => ({
+		source: replaceSkipWords(reference.source, skipWords).text,
+		translation: replaceSkipWords(reference.translation, skipWords).text,
+	}))
+}
+
 /**
  * Restore skip words from placeholders in translated text
  * Replaces [S1], [S2], etc. with their original words
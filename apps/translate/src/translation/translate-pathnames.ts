@@ -5,7 +5,7 @@
  * Example: /products/item-123 → /products/item-[N1] → translate → /productos/articulo-[N1] → /productos/articulo-123
  */
 
-import type { TokenUsage } from '@pantolingo/db'
+import type { LangAlternate, TokenUsage } from '@pantolingo/db'
 import type { PatternReplacement, Content, PathnameMapping } from '../types.js'
 import { applyPatterns, restorePatterns } from './skip-patterns.js'
 import { toAsciiPathname } from '../utils/ascii-pathname.js'
@@ -47,6 +47,30 @@ export function denormalizePathname(normalizedPathname: string, replacements: Pa
 	return restorePatterns(normalizedPathname, replacements)
 }
 
+/**
+ * Resolve the pathname of each language variant of a page (hreflang, sitemaps)
+ * Uses the translated path when path translation is on and one is known, otherwise the original
+ *
+ * @param alternates - Language variants from getLangAlternates() (normalized translated paths)
+ * @param originalPathname - The original pathname (e.g., "/products/item-123")
+ * @param translatePath - Whether path translation is enabled for the website
+ * @returns Variants with denormalized pathnames
+ */
+export function resolveAlternatePathnames(
+	alternates: LangAlternate[],
+	originalPathname: string,
+	translatePath: boolean
+): { lang: string; hostname: string; pathname: string }[] {
+	const { replacements } = normalizePathname(originalPathname)
+
+	return alternates.map((alt) => ({
+		lang: alt.lang,
+		hostname: alt.hostname,
+		pathname:
+			translatePath && alt.translatedPath ? denormalizePathname(alt.translatedPath, replacements) : originalPathname,
+	}))
+}
+
 /**
  * Look up cached pathname translation
  * Helper function to avoid code duplication in translatePathname() and translatePathnamesBatch()
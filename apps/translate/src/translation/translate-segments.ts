@@ -4,10 +4,19 @@
  */
 
 import type { TokenUsage } from '@pantolingo/db'
-import { Content, SkipWordReplacement, TranslateStats, TranslationItem } from '../types.js'
+import { Content, SkipWordReplacement, TranslateStats } from '../types.js'
 import { reconstructTranslations, preprocessForTranslation } from './deduplicator.js'
-import { replaceSkipWords, restoreSkipWords } from './skip-words.js'
-import { translateBatch, TranslationStyle, TranslationContext } from './translate.js'
+import { replaceSkipWords, replaceSkipWordsInReferences, restoreSkipWords } from './skip-words.js'
+import {
+	translateBatch,
+	DEFAULT_TONE,
+	TranslationTone,
+	TranslationContext,
+	TranslationItem,
+	ReferenceLookup,
+} from './translate.js'
+import type { TranslationProvider } from './providers/index.js'
+import type { GlossaryTerm } from '@pantolingo/db'
 
 /** TranslateStats extended with LLM usage tracking */
 export interface TranslateStatsWithUsage extends TranslateStats {
@@ -16,14 +25,18 @@ export interface TranslateStatsWithUsage extends TranslateStats {
 }
 
 /**
- * Translate content items using OpenRouter API
+ * Translate content items using the website's translation provider
  * @param segments - Array of Content objects to translate
  * @param sourceLanguageCode - Source language BCP 47 code (e.g., 'en-us')
  * @param targetLanguageCode - Target language BCP 47 code (e.g., 'es-mx', 'fr-fr')
  * @param projectId - Unused (kept for backward compatibility)
- * @param serviceAccountJson - OpenRouter API key
+ * @param provider - Translation provider (see getTranslationProvider)
  * @param skipWords - Optional array of words to skip during translation
- * @param style - Translation style (only applies to segments, not pathnames)
+ * @param tone - Style, formality, and brand voice (only applies to segments, not pathnames)
+ * @param context - Request context for failure logging
+ * @param glossary - Glossary for the target language (only applies to segments, not pathnames)
+ * @param lookupReferences - Translation memory lookup (only applies to segments, not pathnames);
+ *   called with the texts as sent to the provider (skip words replaced)
  * @returns TranslateStats with translations aligned to original content
  */
 export async function translateSegments(
@@ -31,10 +44,12 @@ export async function translateSegments(
 	sourceLanguageCode: string,
 	targetLanguageCode: string,
 	projectId: string,
-	serviceAccountJson: string,
+	provider: TranslationProvider,
 	skipWords?: string[],
-	style: TranslationStyle = 'balanced',
-	context?: TranslationContext
+	tone: TranslationTone = DEFAULT_TONE,
+	context?: TranslationContext,
+	glossary: GlossaryTerm[] = [],
+	lookupReferences?: ReferenceLookup
 ): Promise<TranslateStatsWithUsage> {
 	if (segments.length === 0) {
 		return {
@@ -71,9 +86,14 @@ export async function translateSegments(
 		const isPathname = segments.length > 0 && segments[0].kind === 'path'
 		const translationType: 'segment' | 'pathname' = isPathname ? 'pathname' : 'segment'
 
+		// Reviewed translations of similar segments, passed to the provider as references
+		const referenceMap =
+			lookupReferences && translationType === 'segment' ? await lookupReferences(stringsToTranslate) : new Map()
+
 		const translationItems: TranslationItem[] = stringsToTranslate.map((text) => ({
 			text,
 			type: translationType,
+			references: replaceSkipWordsInReferences(referenceMap.get(text) ?? [], skipWords ?? []),
 		}))
 
 		// Translate all items in parallel with type-specific prompts
@@ -81,9 +101,10 @@ export async function translateSegments(
 			translationItems,
 			sourceLanguageCode,
 			targetLanguageCode,
-			serviceAccountJson,
-			style,
-			context
+			provider,
+			tone,
+			context,
+			glossary
 		)
 
 		const translatedUnique = batchResult.translations
@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { replaceSkipWords, restoreSkipWords, SkipWordReplacement } from './skip-words.js'
-import { translateBatch } from './translate.js'
+import { translateBatch, translateItems, DEFAULT_TONE } from './translate.js'
+import { translateSegments } from './translate-segments.js'
+import { createDeepLProvider, createOpenRouterProvider } from './providers/index.js'
 
 describe('Fallback + Skip Word Interaction', () => {
 	it('restores skip words correctly when translation falls back to original', () => {
@@ -85,6 +87,7 @@ describe('Fallback + Skip Word Interaction', () => {
 
 describe('translateBatch with partial failures', () => {
 	const originalFetch = globalThis.fetch
+	const provider = createOpenRouterProvider({ apiKey: 'test-api-key' })
 
 	beforeEach(() => {
 		vi.stubGlobal('fetch', vi.fn())
@@ -112,6 +115,8 @@ describe('translateBatch with partial failures', () => {
 		}
 	}
 
+	const ZERO_TOKENS = { prompt: 0, completion: 0, cost: 0 }
+
 	/**
 	 * Helper to create a failed API response
 	 */
@@ -127,8 +132,9 @@ describe('translateBatch with partial failures', () => {
 	it('falls back to original text when some translations fail', async () => {
 		const mockFetch = vi.mocked(globalThis.fetch)
 
-		// First call succeeds, second fails, third succeeds
+		// Batched call returns no usable items, then single calls: first succeeds, second fails, third succeeds
 		mockFetch
+			.mockResolvedValueOnce(mockSuccessResponse('Lo siento', ZERO_TOKENS) as Response)
 			.mockResolvedValueOnce(mockSuccessResponse('Hola') as Response)
 			.mockResolvedValueOnce(mockFailResponse() as Response)
 			.mockResolvedValueOnce(mockSuccessResponse('Adiós') as Response)
@@ -139,11 +145,11 @@ describe('translateBatch with partial failures', () => {
 			{ text: 'Goodbye', type: 'segment' as const },
 		]
 
-		const result = await translateBatch(items, 'en-us', 'es-mx', 'test-api-key')
+		const result = await translateBatch(items, 'en-us', 'es-mx', provider)
 
 		// Verify: successful translations used, failed one falls back to original
 		expect(result.translations).toEqual(['Hola', 'World', 'Adiós'])
-		expect(result.apiCallCount).toBe(3)
+		expect(result.apiCallCount).toBe(4) // 1 batch + 3 single retries
 	})
 
 	it('falls back to original when API returns empty response', async () => {
@@ -161,7 +167,7 @@ describe('translateBatch with partial failures', () => {
 
 		const items = [{ text: 'Hello', type: 'segment' as const }]
 
-		const result = await translateBatch(items, 'en-us', 'es-mx', 'test-api-key')
+		const result = await translateBatch(items, 'en-us', 'es-mx', provider)
 
 		// Falls back to original
 		expect(result.translations).toEqual(['Hello'])
@@ -170,8 +176,9 @@ describe('translateBatch with partial failures', () => {
 	it('accumulates usage only for successful translations', async () => {
 		const mockFetch = vi.mocked(globalThis.fetch)
 
-		// First succeeds with usage, second fails
+		// Batched call returns no usable items, then single calls: first succeeds with usage, second fails
 		mockFetch
+			.mockResolvedValueOnce(mockSuccessResponse('Lo siento', ZERO_TOKENS) as Response)
 			.mockResolvedValueOnce(mockSuccessResponse('Hola', { prompt: 100, completion: 50, cost: 0.01 }) as Response)
 			.mockResolvedValueOnce(mockFailResponse() as Response)
 
@@ -180,7 +187,7 @@ describe('translateBatch with partial failures', () => {
 			{ text: 'World', type: 'segment' as const },
 		]
 
-		const result = await translateBatch(items, 'en-us', 'es-mx', 'test-api-key')
+		const result = await translateBatch(items, 'en-us', 'es-mx', provider)
 
 		// Usage only from successful translation
 		expect(result.totalUsage).toEqual({
@@ -192,8 +199,9 @@ describe('translateBatch with partial failures', () => {
 
 	it('handles all translations failing gracefully', async () => {
 		const mockFetch = vi.mocked(globalThis.fetch)
+		vi.useFakeTimers()
 
-		// All fail
+		// Batched call and its retry fail - items are not retried singly
 		mockFetch
 			.mockResolvedValueOnce(mockFailResponse() as Response)
 			.mockResolvedValueOnce(mockFailResponse() as Response)
@@ -203,7 +211,10 @@ describe('translateBatch with partial failures', () => {
 			{ text: 'World', type: 'segment' as const },
 		]
 
-		const result = await translateBatch(items, 'en-us', 'es-mx', 'test-api-key')
+		const promise = translateBatch(items, 'en-us', 'es-mx', provider)
+		await vi.runAllTimersAsync()
+		const result = await promise
+		vi.useRealTimers()
 
 		// All fall back to originals
 		expect(result.translations).toEqual(['Hello', 'World'])
@@ -211,6 +222,31 @@ describe('translateBatch with partial failures', () => {
 		expect(result.apiCallCount).toBe(2)
 	})
 
+	it('retries a failed batched call whole after a delay', async () => {
+		const mockFetch = vi.mocked(globalThis.fetch)
+		vi.useFakeTimers()
+
+		mockFetch
+			.mockResolvedValueOnce(mockFailResponse(429, 'Too Many Requests') as Response)
+			.mockResolvedValueOnce(mockSuccessResponse('<item id="1">Hola</item>\n<item id="2">Mundo</item>') as Response)
+
+		const items = [
+			{ text: 'Hello', type: 'segment' as const },
+			{ text: 'World', type: 'segment' as const },
+		]
+
+		const promise = translateBatch(items, 'en-us', 'es-mx', provider)
+		await vi.advanceTimersByTimeAsync(0)
+		expect(mockFetch).toHaveBeenCalledTimes(1) // Waiting before the retry
+
+		await vi.runAllTimersAsync()
+		const result = await promise
+		vi.useRealTimers()
+
+		expect(result.translations).toEqual(['Hola', 'Mundo'])
+		expect(result.apiCallCount).toBe(2)
+	})
+
 	it('includes context in warning when failures occur', async () => {
 		const mockFetch = vi.mocked(globalThis.fetch)
 		const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
@@ -220,7 +256,7 @@ describe('translateBatch with partial failures', () => {
 		const items = [{ text: 'Hello', type: 'segment' as const }]
 		const context = { host: 'es.example.com', pathname: '/products' }
 
-		await translateBatch(items, 'en-us', 'es-mx', 'test-api-key', 'balanced', context)
+		await translateBatch(items, 'en-us', 'es-mx', provider, DEFAULT_TONE, context)
 
 		// Verify context appears in warning
 		expect(warnSpy).toHaveBeenCalledWith(
@@ -229,4 +265,165 @@ describe('translateBatch with partial failures', () => {
 
 		warnSpy.mockRestore()
 	})
+
+	it('translates many items in one batched call', async () => {
+		const mockFetch = vi.mocked(globalThis.fetch)
+
+		mockFetch.mockResolvedValueOnce(
+			mockSuccessResponse('<item id="1">Hola</item>\n<item id="2">Precio [N1]</item>\n<item id="3">Adiós</item>') as Response
+		)
+
+		const items = [
+			{ text: 'Hello', type: 'segment' as const },
+			{ text: 'Price [N1]', type: 'segment' as const },
+			{ text: 'Goodbye', type: 'segment' as const },
+		]
+
+		const result = await translateBatch(items, 'en-us', 'es-mx', provider)
+
+		expect(result.translations).toEqual(['Hola', 'Precio [N1]', 'Adiós'])
+		expect(result.apiCallCount).toBe(1)
+		expect(mockFetch).toHaveBeenCalledTimes(1)
+
+		// All items are numbered in a single user message
+		const body = JSON.parse(mockFetch.mock.calls[0][1]!.body as string)
+		expect(body.messages[1].content).toContain('<item id="3">Goodbye</item>')
+	})
+
+	it('retries singly only items that fail placeholder validation or are missing', async () => {
+		const mockFetch = vi.mocked(globalThis.fetch)
+		vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+		// Item 2 drops its placeholder, item 3 is missing
+		mockFetch
+			.mockResolvedValueOnce(mockSuccessResponse('<item id="1">Hola</item>\n<item id="2">Precio</item>') as Response)
+			.mockResolvedValueOnce(mockSuccessResponse('Precio [N1]') as Response)
+			.mockResolvedValueOnce(mockSuccessResponse('Adiós') as Response)
+
+		const items = [
+			{ text: 'Hello', type: 'segment' as const },
+			{ text: 'Price [N1]', type: 'segment' as const },
+			{ text: 'Goodbye', type: 'segment' as const },
+		]
+
+		const result = await translateBatch(items, 'en-us', 'es-mx', provider)
+
+		expect(result.translations).toEqual(['Hola', 'Precio [N1]', 'Adiós'])
+		expect(result.apiCallCount).toBe(3) // 1 batch + 2 single retries
+
+		vi.mocked(console.warn).mockRestore()
+	})
+
+	it('sends matching glossary terms and retries items missing a required term', async () => {
+		const mockFetch = vi.mocked(globalThis.fetch)
+		vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+		const glossary = [
+			{ id: 1, sourceTerm: 'Watchlist', targetTerm: 'Lista de seguimiento', caseSensitive: false },
+			{ id: 2, sourceTerm: 'Cart', targetTerm: 'Carrito', caseSensitive: false },
+		]
+
+		// Item 2 ignores the glossary, single retry uses it
+		mockFetch
+			.mockResolvedValueOnce(
+				mockSuccessResponse('<item id="1">Hola</item>\n<item id="2">Ver favoritos</item>') as Response
+			)
+			.mockResolvedValueOnce(mockSuccessResponse('Ver lista de seguimiento') as Response)
+
+		const items = [
+			{ text: 'Hello', type: 'segment' as const },
+			{ text: 'View watchlist', type: 'segment' as const },
+		]
+
+		const result = await translateBatch(items, 'en-us', 'es-mx', provider, DEFAULT_TONE, undefined, glossary)
+
+		expect(result.translations).toEqual(['Hola', 'Ver lista de seguimiento'])
+		expect(result.apiCallCount).toBe(2)
+
+		// Only terms present in the text are sent
+		const batchBody = JSON.parse(mockFetch.mock.calls[0][1]!.body as string)
+		expect(batchBody.messages[1].content).toContain('<source>Watchlist</source>')
+		expect(batchBody.messages[1].content).not.toContain('<source>Cart</source>')
+
+		vi.mocked(console.warn).mockRestore()
+	})
+
+	it('skips glossary checks for providers without glossary support', async () => {
+		const mockFetch = vi.mocked(globalThis.fetch)
+		const deepl = createDeepLProvider({ apiKey: 'test-api-key' })
+		const glossary = [{ id: 1, sourceTerm: 'Watchlist', targetTerm: 'Lista de seguimiento', caseSensitive: false }]
+
+		mockFetch.mockResolvedValueOnce({
+			ok: true,
+			json: () => Promise.resolve({ translations: [{ text: 'Hola' }, { text: 'Ver favoritos' }] }),
+		} as Response)
+
+		const result = await translateItems(['Hello', 'View watchlist'], 'segment', 'en-us', 'es-mx', deepl, DEFAULT_TONE, glossary)
+
+		expect(result.translations).toEqual(['Hola', 'Ver favoritos'])
+		expect(result.apiCallCount).toBe(1)
+	})
+
+	it('sends translation memory references for the items in each request', async () => {
+		const mockFetch = vi.mocked(globalThis.fetch)
+
+		mockFetch.mockResolvedValueOnce(
+			mockSuccessResponse('<item id="1">Hola</item>\n<item id="2">Añadir 2 al carrito</item>') as Response
+		)
+
+		const references = [
+			undefined,
+			[{ source: 'Add 1 to cart', translation: 'Añadir 1 al carrito & guardar' }],
+		]
+
+		const result = await translateItems(
+			['Hello', 'Add 2 to cart'],
+			'segment',
+			'en-us',
+			'es-mx',
+			provider,
+			DEFAULT_TONE,
+			[],
+			references
+		)
+
+		expect(result.translations).toEqual(['Hola', 'Añadir 2 al carrito'])
+
+		const body = JSON.parse(mockFetch.mock.calls[0][1]!.body as string)
+		expect(body.messages[1].content).toContain(
+			'<references><reference><source>Add 1 to cart</source><target>Añadir 1 al carrito &amp; guardar</target></reference></references>'
+		)
+	})
+	it('looks up references on the in-request path by the text sent to the provider', async () => {
+		const mockFetch = vi.mocked(globalThis.fetch)
+
+		mockFetch.mockResolvedValueOnce(mockSuccessResponse('<item id="1">Hola</item>\n<item id="2">Precios de [S1]</item>') as Response)
+
+		const lookupReferences = vi.fn(async () => {
+			return new Map([['[S1] pricing', [{ source: 'Acme plans', translation: 'Planes de Acme' }]]])
+		})
+
+		const result = await translateSegments(
+			[
+				{ kind: 'text', value: 'Hello' },
+				{ kind: 'text', value: 'Acme pricing' },
+			],
+			'en-us',
+			'es-mx',
+			'',
+			provider,
+			['Acme'],
+			DEFAULT_TONE,
+			undefined,
+			[],
+			lookupReferences
+		)
+
+		expect(result.translations).toEqual(['Hola', 'Precios de Acme'])
+		expect(lookupReferences).toHaveBeenCalledWith(['Hello', '[S1] pricing'])
+
+		// References show the same placeholders as the text
+		const body = JSON.parse(mockFetch.mock.calls[0][1]!.body as string)
+		expect(body.messages[1].content).toContain('<source>[S1] plans</source><target>Planes de [S1]</target>')
+	})
 })
@@ -1,18 +1,29 @@
 /**
- * OpenRouter Translation API integration
- * Handles translation with type-specific prompts for segments vs pathnames
+ * Translation entry points
+ * Delegates to the website's TranslationProvider (see ./providers) and handles failure fallback
  */
 
-import { PATHNAME_PROMPT, SEGMENT_PROMPT } from './prompts.js'
 import type { TokenUsage } from '@pantolingo/db'
-import { TIMEOUT_TRANSLATION } from '../config.js'
+import { MAX_LLM_BATCH_CHARS, MAX_LLM_BATCH_ITEMS, BATCH_RETRY_DELAY } from '../config.js'
+import { chunkStrings } from './deduplicator.js'
+import { placeholdersMatch } from './placeholder-check.js'
+import { findGlossaryTerms, findMissingGlossaryTerms } from './glossary.js'
+import type { GlossaryTerm } from '@pantolingo/db'
+import type { TranslationProvider, TranslationReference, TranslationTone } from './providers/index.js'
+
+export type { TranslationStyle, TranslationTone } from './providers/index.js'
+
+/** Tone used when a translation has no settings (and always for pathnames) */
+export const DEFAULT_TONE: TranslationTone = { style: 'balanced', formality: 'default', brandVoice: null }
 
 export interface TranslationItem {
 	text: string
 	type: 'segment' | 'pathname'
+	references?: TranslationReference[] // Translation memory matches (segments only)
 }
 
-export type TranslationStyle = 'literal' | 'balanced' | 'natural'
+/** Looks up translation memory references by the texts sent to the provider */
+export type ReferenceLookup = (texts: string[]) => Promise<Map<string, TranslationReference[]>>
 
 export interface TranslateSingleResult {
 	translation: string
@@ -25,23 +36,29 @@ export interface TranslateBatchResult {
 	apiCallCount: number
 }
 
+/** Per-item results from translateItems (null = failed, caller decides fallback) */
+export interface TranslateItemsResult {
+	translations: (string | null)[]
+	usage: TokenUsage
+	apiCallCount: number
+}
+
 /** Context for logging translation failures */
 export interface TranslationContext {
 	host: string // e.g., "es.example.com"
 	pathname: string // e.g., "/products"
 }
 
-const OPENROUTER_ENDPOINT = 'https://openrouter.ai/api/v1/chat/completions'
-const MODEL = 'anthropic/claude-haiku-4.5'
-
 /**
- * Translate a single item using OpenRouter API
+ * Translate a single item using the given provider
  * @param text - Text to translate
  * @param type - Translation type ('segment' or 'pathname')
  * @param sourceLanguageCode - Source language BCP 47 code (e.g., 'en-us')
  * @param targetLanguageCode - Target language BCP 47 code (e.g., 'es-mx', 'fr-fr')
- * @param apiKey - OpenRouter API key
- * @param style - Translation style (only applies to segments, not pathnames)
+ * @param provider - Translation provider (see getTranslationProvider)
+ * @param tone - Style, formality, and brand voice (only applies to segments, not pathnames)
+ * @param glossary - Glossary terms that appear in this text (segments only)
+ * @param references - Reviewed translations of similar text (segments only)
  * @returns Translated text and usage, or null on failure
  */
 export async function translateSingle(
@@ -49,84 +66,24 @@ export async function translateSingle(
 	type: 'segment' | 'pathname',
 	sourceLanguageCode: string,
 	targetLanguageCode: string,
-	apiKey: string,
-	style: TranslationStyle = 'balanced'
+	provider: TranslationProvider,
+	tone: TranslationTone = DEFAULT_TONE,
+	glossary: GlossaryTerm[] = [],
+	references: TranslationReference[] = []
 ): Promise<TranslateSingleResult | null> {
-	const prompt = type === 'segment' ? SEGMENT_PROMPT : PATHNAME_PROMPT
-
-	// Include <style> tag only for segments, not pathnames
-	const styleTag = type === 'segment' ? `<style>${style}</style>` : ''
-
 	// console.log(`[Translation Single] Type: ${type}, Input: "${text.substring(0, 100)}${text.length > 100 ? '...' : ''}"`)
 
 	try {
-		const response = await fetch(OPENROUTER_ENDPOINT, {
-			method: 'POST',
-			headers: {
-				Authorization: `Bearer ${apiKey}`,
-				// 'HTTP-Referer': 'https://find-your-item.com',
-				'X-Title': 'Translation Proxy',
-				'Content-Type': 'application/json',
-			},
-			signal: AbortSignal.timeout(TIMEOUT_TRANSLATION),
-			body: JSON.stringify({
-				model: MODEL,
-				messages: [
-					{
-						role: 'system',
-						content: prompt,
-					},
-					{
-						role: 'user',
-						content: `
-                        <translate>
-                            <sourceLanguageCode>${sourceLanguageCode}</sourceLanguageCode>
-                            <targetLanguageCode>${targetLanguageCode}</targetLanguageCode>
-                            ${styleTag}
-                            <text>${text}</text>
-                        </translate>`,
-					},
-				],
-				temperature: 0,
-				provider: {
-					sort: 'throughput',
-				},
-				reasoning: {
-					enabled: false,
-				},
-				stream: false,
-			}),
+		const result = await provider.translate({
+			text,
+			type,
+			sourceLanguageCode,
+			targetLanguageCode,
+			tone,
+			glossary,
+			references,
 		})
-
-		if (!response.ok) {
-			const errorText = await response.text()
-			// Truncate error body - it may be a full HTML error page from Cloudflare
-			const isHtml = errorText.trimStart().startsWith('<')
-			const truncatedError = isHtml
-				? '(HTML error page)'
-				: errorText.slice(0, 200) + (errorText.length > 200 ? '...' : '')
-			throw new Error(`OpenRouter API error: ${response.status} ${response.statusText} - ${truncatedError}`)
-		}
-
-		const data = (await response.json()) as any
-
-		if (!data.choices || !data.choices[0] || !data.choices[0].message) {
-			throw new Error(`Unexpected response format: ${JSON.stringify(data)}`)
-		}
-
-		// Warn if cost is missing (detect silent data loss)
-		if (data.usage?.cost === undefined) {
-			console.warn('[LLM Usage] Missing cost in OpenRouter response')
-		}
-
-		const usage: TokenUsage = {
-			promptTokens: data.usage?.prompt_tokens ?? 0,
-			completionTokens: data.usage?.completion_tokens ?? 0,
-			cost: data.usage?.cost ?? 0,
-		}
-
-		const rawContent = data.choices[0].message.content
-		const translatedText = rawContent?.trim() ?? ''
+		const translatedText = result.translation.trim()
 
 		// Return null if translation is empty (API returned nothing useful)
 		if (!translatedText) {
@@ -134,11 +91,11 @@ export async function translateSingle(
 			return null
 		}
 
-		return { translation: translatedText, usage }
+		return { translation: translatedText, usage: result.usage }
 	} catch (error) {
 		const errorType = error instanceof Error && error.name === 'TimeoutError' ? 'timeout' : 'error'
 		console.warn(
-			`[Translation] ${errorType} for "${text.slice(0, 50)}...":`,
+			`[Translation] ${errorType} (${provider.name}) for "${text.slice(0, 50)}...":`,
 			error instanceof Error ? error.message : String(error)
 		)
 		return null
@@ -146,22 +103,198 @@ export async function translateSingle(
 }
 
 /**
- * Translate a batch of items in parallel
- * All items are processed simultaneously
- * @param items - Array of translation items with type discrimination
+ * Dedupe references by source text (near-duplicate items often share matches)
+ */
+function uniqueReferences(references: TranslationReference[]): TranslationReference[] {
+	const seen = new Set<string>()
+	return references.filter((r) => {
+		if (seen.has(r.source)) return false
+		seen.add(r.source)
+		return true
+	})
+}
+
+/**
+ * Translate texts of one type, batching many texts per request when the provider supports it
+ * Each batched item is validated (non-empty, same placeholders as source, required glossary
+ * terms present); only items that fail validation are retried with single-item calls.
+ * A batched call that throws is retried once after BATCH_RETRY_DELAY; if it throws again, its items fail.
+ * Single-item results missing glossary terms are kept but logged for review.
+ * @param texts - Texts to translate (all the same type)
+ * @param type - Translation type ('segment' or 'pathname')
  * @param sourceLanguageCode - Source language BCP 47 code (e.g., 'en-us')
  * @param targetLanguageCode - Target language BCP 47 code (e.g., 'es-mx', 'fr-fr')
- * @param apiKey - OpenRouter API key
- * @param style - Translation style (only applies to segments, not pathnames)
+ * @param provider - Translation provider
+ * @param tone - Style, formality, and brand voice (only applies to segments, not pathnames)
+ * @param glossary - Glossary for the target language (segments only)
+ * @param references - Translation memory matches, parallel to texts (segments only)
+ * @returns Translations parallel to texts (null for items that failed), usage, and API call count
+ */
+export async function translateItems(
+	texts: string[],
+	type: 'segment' | 'pathname',
+	sourceLanguageCode: string,
+	targetLanguageCode: string,
+	provider: TranslationProvider,
+	tone: TranslationTone = DEFAULT_TONE,
+	glossary: GlossaryTerm[] = [],
+	references: (TranslationReference[] | undefined)[] = []
+): Promise<TranslateItemsResult> {
+	const totalUsage: TokenUsage = { promptTokens: 0, completionTokens: 0, cost: 0 }
+	const translations: (string | null)[] = new Array(texts.length).fill(null)
+	let apiCallCount = 0
+
+	const addUsage = (usage: TokenUsage) => {
+		totalUsage.promptTokens += usage.promptTokens
+		totalUsage.completionTokens += usage.completionTokens
+		totalUsage.cost += usage.cost
+	}
+
+	// Glossary terms and memory references for each text (pathnames use neither; providers without
+	// glossary support would fail every term check, so their output isn't checked)
+	const itemTerms = texts.map((text) =>
+		type === 'segment' && provider.supportsGlossary ? findGlossaryTerms(text, glossary) : []
+	)
+	const itemReferences = texts.map((_, i) => (type === 'segment' ? (references[i] ?? []) : []))
+
+	// Indices that still need a single-item call
+	let retryIndices: number[] = texts.map((_, i) => i)
+
+	if (provider.translateMany && texts.length > 1) {
+		const translateMany = provider.translateMany.bind(provider)
+		retryIndices = []
+
+		// Chunks preserve order, so track each chunk's starting offset
+		const chunks = chunkStrings(texts, MAX_LLM_BATCH_CHARS, MAX_LLM_BATCH_ITEMS)
+		const offsets: number[] = []
+		let offset = 0
+		for (const chunk of chunks) {
+			offsets.push(offset)
+			offset += chunk.length
+		}
+
+		await Promise.all(
+			chunks.map(async (chunk, c) => {
+				const start = offsets[c]
+				let batchTranslations: (string | null)[] = new Array(chunk.length).fill(null)
+
+				// Single-text chunks (e.g., one oversized string) go straight to the single-item path
+				if (chunk.length > 1) {
+					const request = {
+						texts: chunk,
+						type,
+						sourceLanguageCode,
+						targetLanguageCode,
+						tone,
+						glossary: [...new Set(chunk.flatMap((_, i) => itemTerms[start + i]))],
+						references: uniqueReferences(chunk.flatMap((_, i) => itemReferences[start + i])),
+					}
+
+					// A thrown batch (rate limit, transport error) is retried whole once after a delay - splitting
+					// it into parallel single calls would only add load to a struggling provider
+					let failed = true
+					for (let attempt = 0; attempt < 2 && failed; attempt++) {
+						if (attempt > 0) {
+							await new Promise((resolve) => setTimeout(resolve, BATCH_RETRY_DELAY))
+						}
+						apiCallCount++
+						try {
+							const result = await translateMany(request)
+							addUsage(result.usage)
+							batchTranslations = result.translations
+							failed = false
+						} catch (error) {
+							console.warn(
+								`[Translation] batch of ${chunk.length} failed (${provider.name}):`,
+								error instanceof Error ? error.message : String(error)
+							)
+						}
+					}
+
+					// Items of a failed batch stay null (caller falls back or retries later)
+					if (failed) {
+						return
+					}
+				}
+
+				for (let i = 0; i < chunk.length; i++) {
+					const translated = batchTranslations[i]?.trim()
+					if (
+						translated &&
+						placeholdersMatch(chunk[i], translated) &&
+						findMissingGlossaryTerms(translated, itemTerms[start + i]).length === 0
+					) {
+						translations[start + i] = translated
+					} else {
+						retryIndices.push(start + i)
+					}
+				}
+			})
+		)
+
+		if (retryIndices.length > 0) {
+			console.warn(`[Translation] ${retryIndices.length}/${texts.length} batched items invalid, retrying singly`)
+		}
+	}
+
+	// Single-item calls for unbatched providers and items that failed validation
+	const singleResults = await Promise.allSettled(
+		retryIndices.map((i) =>
+			translateSingle(
+				texts[i],
+				type,
+				sourceLanguageCode,
+				targetLanguageCode,
+				provider,
+				tone,
+				itemTerms[i],
+				itemReferences[i]
+			)
+		)
+	)
+	apiCallCount += retryIndices.length
+
+	for (let r = 0; r < singleResults.length; r++) {
+		const result = singleResults[r]
+		const index = retryIndices[r]
+		if (result.status === 'fulfilled' && result.value !== null) {
+			translations[index] = result.value.translation
+			addUsage(result.value.usage)
+
+			// Flag glossary misses - keep the translation (saved unreviewed) rather than fall back to source
+			const missing = findMissingGlossaryTerms(result.value.translation, itemTerms[index])
+			if (missing.length > 0) {
+				console.warn(
+					`[Translation] Glossary terms missing for "${texts[index].slice(0, 50)}...":`,
+					missing.map((t) => `${t.sourceTerm} → ${t.targetTerm}`).join(', ')
+				)
+			}
+		}
+	}
+
+	return { translations, usage: totalUsage, apiCallCount }
+}
+
+/**
+ * Translate a batch of items
+ * Items are grouped by type and sent as multi-item requests where the provider supports it
+ * @param items - Array of translation items with type discrimination (and optional references)
+ * @param sourceLanguageCode - Source language BCP 47 code (e.g., 'en-us')
+ * @param targetLanguageCode - Target language BCP 47 code (e.g., 'es-mx', 'fr-fr')
+ * @param provider - Translation provider
+ * @param tone - Style, formality, and brand voice (only applies to segments, not pathnames)
+ * @param context - Request context for failure logging
+ * @param glossary - Glossary for the target language (segments only)
  * @returns Array of translated strings in same order as input
  */
 export async function translateBatch(
 	items: TranslationItem[],
 	sourceLanguageCode: string,
 	targetLanguageCode: string,
-	apiKey: string,
-	style: TranslationStyle = 'balanced',
-	context?: TranslationContext
+	provider: TranslationProvider,
+	tone: TranslationTone = DEFAULT_TONE,
+	context?: TranslationContext,
+	glossary: GlossaryTerm[] = []
 ): Promise<TranslateBatchResult> {
 	if (items.length === 0) {
 		return {
@@ -171,34 +304,49 @@ export async function translateBatch(
 		}
 	}
 
-	// console.log(`[translateBatch] Starting ${items.length} parallel API calls`)
+	// Group item indices by type - prompts differ for segments and pathnames
+	const indicesByType = new Map<'segment' | 'pathname', number[]>()
+	items.forEach((item, i) => {
+		const indices = indicesByType.get(item.type) ?? []
+		indices.push(i)
+		indicesByType.set(item.type, indices)
+	})
 
-	// Translate all items in parallel (1 API call per item)
-	const translationPromises = items.map((item) =>
-		translateSingle(item.text, item.type, sourceLanguageCode, targetLanguageCode, apiKey, style)
+	const groupResults = await Promise.all(
+		Array.from(indicesByType.entries()).map(async ([type, indices]) => ({
+			indices,
+			result: await translateItems(
+				indices.map((i) => items[i].text),
+				type,
+				sourceLanguageCode,
+				targetLanguageCode,
+				provider,
+				tone,
+				glossary,
+				indices.map((i) => items[i].references)
+			),
+		}))
 	)
 
-	const settledResults = await Promise.allSettled(translationPromises)
-
-	// Process results: use translation if successful, fallback to original text if failed/null
-	const translations: string[] = []
+	// Process results: use translation if successful, fallback to original text if failed
+	const translations: string[] = items.map((item) => item.text)
 	const totalUsage: TokenUsage = { promptTokens: 0, completionTokens: 0, cost: 0 }
+	let apiCallCount = 0
 	let failCount = 0
 
-	for (let i = 0; i < settledResults.length; i++) {
-		const result = settledResults[i]
-		const originalText = items[i].text
+	for (const { indices, result } of groupResults) {
+		totalUsage.promptTokens += result.usage.promptTokens
+		totalUsage.completionTokens += result.usage.completionTokens
+		totalUsage.cost += result.usage.cost
+		apiCallCount += result.apiCallCount
 
-		if (result.status === 'fulfilled' && result.value !== null) {
-			// Success: use translation and accumulate usage
-			translations.push(result.value.translation)
-			totalUsage.promptTokens += result.value.usage.promptTokens
-			totalUsage.completionTokens += result.value.usage.completionTokens
-			totalUsage.cost += result.value.usage.cost
-		} else {
-			// Failure (rejected or null): fallback to original text
-			translations.push(originalText)
-			failCount++
+		for (let j = 0; j < indices.length; j++) {
+			const translated = result.translations[j]
+			if (translated !== null) {
+				translations[indices[j]] = translated
+			} else {
+				failCount++
+			}
 		}
 	}
 
@@ -211,7 +359,6 @@ export async function translateBatch(
 	return {
 		translations,
 		totalUsage,
-		apiCallCount: items.length, // Attempts, not successes
+		apiCallCount, // Attempts, not successes
 	}
 }
-
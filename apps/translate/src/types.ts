@@ -64,10 +64,10 @@ export interface HtmlPlaceholderMeta {
 
 /**
  * A content item to be translated
- * Can be a text node, an attribute value, a path name, or grouped HTML
+ * Can be a text node, an attribute value, a path name, grouped HTML, or a JSON-LD string value
  */
 export interface Content {
-	kind: 'text' | 'attr' | 'path' | 'html'
+	kind: 'text' | 'attr' | 'path' | 'html' | 'data'
 	attr?: string // Attribute name (e.g., 'title', 'alt'), only present if kind === 'attr'
 	value: string // The text content or pathname to translate
 	ws?: { leading: string; trailing: string } // Whitespace metadata (optional, for backward compatibility)
@@ -87,7 +87,13 @@ export interface TranslationItem {
  * Environment variables available to the server
  */
 export interface Env {
-	OPENROUTER_API_KEY: string // OpenRouter API key for translation
+	OPENROUTER_API_KEY: string // OpenRouter API key for translation (default provider)
+	ANTHROPIC_API_KEY?: string // Anthropic API key (websites using the 'anthropic' provider)
+	OPENAI_API_KEY?: string // OpenAI-compatible API key (websites using the 'openai' provider)
+	DEEPL_API_KEY?: string // DeepL API key (websites using the 'deepl' provider)
+	TRANSLATION_PROVIDER?: string // Override provider for all websites (e.g., 'mock' for offline dev)
+	TRANSLATION_MODEL?: string // Model for TRANSLATION_PROVIDER override
+	TRANSLATION_ENDPOINT?: string // Endpoint for TRANSLATION_PROVIDER override (e.g., local stand-in server)
 	GOOGLE_PROJECT_ID: string // Google Cloud project ID (legacy, may be removed)
 }
 
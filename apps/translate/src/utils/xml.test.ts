@@ -0,0 +1,19 @@
+/**
+ * Tests for XML escaping
+ */
+
+import { describe, it, expect } from 'vitest'
+import { escapeXml, unescapeXml } from './xml.js'
+
+describe('escapeXml', () => {
+	it('escapes markup characters, and quotes only in attribute values', () => {
+		expect(escapeXml(`Tom & Jerry <"best">'s`)).toBe(`Tom &amp; Jerry &lt;"best"&gt;'s`)
+		expect(escapeXml(`a "b" 'c'`, true)).toBe('a &quot;b&quot; &apos;c&apos;')
+	})
+})
+
+describe('unescapeXml', () => {
+	it('reverses escapeXml without decoding twice', () => {
+		expect(unescapeXml(escapeXml(`&lt; "x" & 'y'`, true))).toBe(`&lt; "x" & 'y'`)
+	})
+})
@@ -0,0 +1,27 @@
+/**
+ * XML escaping
+ * Used for sitemaps and for XML-shaped provider requests (DeepL tag handling, LLM user messages)
+ */
+
+/**
+ * Escape text for XML element content, or for a quoted attribute value
+ * @param text - Raw text
+ * @param attribute - Also escape quotes (the value goes in an attribute)
+ */
+export function escapeXml(text: string, attribute = false): string {
+	const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+	return attribute ? escaped.replace(/"/g, '&quot;').replace(/'/g, '&apos;') : escaped
+}
+
+/**
+ * Decode the predefined XML entities (&amp; last, so "&amp;lt;" stays "&lt;")
+ * @param text - Escaped text
+ */
+export function unescapeXml(text: string): string {
+	return text
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&amp;/g, '&')
+}
@@ -7,6 +7,10 @@ dotenv.config({ path: path.resolve(__dirname, '../../.env') })
 
 const nextConfig: NextConfig = {
   transpilePackages: ['@pantolingo/db', '@pantolingo/lang'],
+  experimental: {
+    // Translation file imports (see actions/translations.ts MAX_IMPORT_SIZE)
+    serverActions: { bodySizeLimit: '5mb' },
+  },
 }
 
 export default nextConfig
@@ -0,0 +1,21 @@
+'use server'
+
+import { requireAccountId } from '@/lib/auth'
+import { canAccessWebsite, revertChangelogEntry } from '@pantolingo/db'
+
+export async function revertChange(
+	websiteId: number,
+	changelogId: number
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const accountId = await requireAccountId()
+
+		if (!(await canAccessWebsite(accountId, websiteId))) {
+			return { success: true } // Silent success - don't leak existence
+		}
+
+		return revertChangelogEntry(websiteId, changelogId, accountId)
+	} catch {
+		return { success: false, error: 'An error occurred' }
+	}
+}
@@ -0,0 +1,55 @@
+'use server'
+
+import { requireAccountId } from '@/lib/auth'
+import { canAccessWebsite, isValidLangForWebsite, upsertGlossaryTerm, deleteGlossaryTerm } from '@pantolingo/db'
+
+export async function saveGlossaryTerm(
+	websiteId: number,
+	lang: string,
+	sourceTerm: string,
+	targetTerm: string,
+	caseSensitive: boolean
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const source = sourceTerm.trim()
+		const target = targetTerm.trim()
+
+		if (!source || !target) {
+			return { success: false, error: 'Source and target terms are required' }
+		}
+		if (source.length > 100 || target.length > 100) {
+			return { success: false, error: 'Term too long (max 100 characters)' }
+		}
+
+		const accountId = await requireAccountId()
+
+		if (!(await canAccessWebsite(accountId, websiteId))) {
+			return { success: true } // Silent success - don't leak existence
+		}
+
+		if (!(await isValidLangForWebsite(websiteId, lang))) {
+			return { success: false, error: 'Invalid language' }
+		}
+
+		return upsertGlossaryTerm(websiteId, lang, source, target, caseSensitive, accountId)
+	} catch {
+		return { success: false, error: 'An error occurred' }
+	}
+}
+
+export async function removeGlossaryTerm(
+	websiteId: number,
+	termId: number
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const accountId = await requireAccountId()
+
+		if (!(await canAccessWebsite(accountId, websiteId))) {
+			return { success: true } // Silent success - don't leak existence
+		}
+
+		return deleteGlossaryTerm(websiteId, termId, accountId)
+	} catch {
+		return { success: false, error: 'An error occurred' }
+	}
+}
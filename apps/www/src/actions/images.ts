@@ -0,0 +1,73 @@
+'use server'
+
+import { requireAccountId } from '@/lib/auth'
+import { MAX_URL_LENGTH } from '@/lib/validation'
+import { canAccessWebsite, isValidLangForWebsite, upsertImageOverride, deleteImageOverride } from '@pantolingo/db'
+
+/**
+ * Check an image URL is absolute http(s) or root-relative
+ */
+function isValidImageUrl(url: string): boolean {
+	if (url.startsWith('/') && !url.startsWith('//')) {
+		return true
+	}
+	try {
+		const parsed = new URL(url)
+		return parsed.protocol === 'http:' || parsed.protocol === 'https:'
+	} catch {
+		return false
+	}
+}
+
+export async function saveImageOverride(
+	websiteId: number,
+	lang: string,
+	originalUrl: string,
+	localizedUrl: string
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const original = originalUrl.trim()
+		const localized = localizedUrl.trim()
+
+		if (!original || !localized) {
+			return { success: false, error: 'Original and localized image URLs are required' }
+		}
+		if (original.length > MAX_URL_LENGTH || localized.length > MAX_URL_LENGTH) {
+			return { success: false, error: `URL too long (max ${MAX_URL_LENGTH} characters)` }
+		}
+		if (!isValidImageUrl(original) || !isValidImageUrl(localized)) {
+			return { success: false, error: 'URLs must start with / or http(s)://' }
+		}
+
+		const accountId = await requireAccountId()
+
+		if (!(await canAccessWebsite(accountId, websiteId))) {
+			return { success: true } // Silent success - don't leak existence
+		}
+
+		if (!(await isValidLangForWebsite(websiteId, lang))) {
+			return { success: false, error: 'Invalid language' }
+		}
+
+		return upsertImageOverride(websiteId, lang, original, localized, accountId)
+	} catch {
+		return { success: false, error: 'An error occurred' }
+	}
+}
+
+export async function removeImageOverride(
+	websiteId: number,
+	overrideId: number
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const accountId = await requireAccountId()
+
+		if (!(await canAccessWebsite(accountId, websiteId))) {
+			return { success: true } // Silent success - don't leak existence
+		}
+
+		return deleteImageOverride(websiteId, overrideId, accountId)
+	} catch {
+		return { success: false, error: 'An error occurred' }
+	}
+}
@@ -0,0 +1,101 @@
+'use server'
+
+import { requireAccountId } from '@/lib/auth'
+import { MAX_COMMENT_LENGTH } from '@/lib/validation'
+import {
+	canAccessWebsite,
+	isSegmentStatus,
+	updateSegmentReview,
+	requestSegmentRetranslation,
+	getSegmentComments,
+	addSegmentComment,
+	type SegmentComment,
+	type SegmentStatus,
+} from '@pantolingo/db'
+
+export async function saveSegmentReview(
+	websiteId: number,
+	websiteSegmentId: number,
+	lang: string,
+	changes: { status?: SegmentStatus; assigneeAccountId?: number | null }
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		if (changes.status !== undefined && !isSegmentStatus(changes.status)) {
+			return { success: false, error: 'Invalid status' }
+		}
+
+		const accountId = await requireAccountId()
+
+		if (!(await canAccessWebsite(accountId, websiteId))) {
+			return { success: true } // Silent success - don't leak existence
+		}
+
+		return updateSegmentReview(websiteId, websiteSegmentId, lang, changes, accountId)
+	} catch {
+		return { success: false, error: 'An error occurred' }
+	}
+}
+
+export async function retranslateSegment(
+	websiteId: number,
+	websiteSegmentId: number,
+	lang: string
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const accountId = await requireAccountId()
+
+		if (!(await canAccessWebsite(accountId, websiteId))) {
+			return { success: true } // Silent success - don't leak existence
+		}
+
+		return requestSegmentRetranslation(websiteId, websiteSegmentId, lang, accountId)
+	} catch {
+		return { success: false, error: 'An error occurred' }
+	}
+}
+
+export async function loadSegmentComments(
+	websiteId: number,
+	websiteSegmentId: number,
+	lang: string
+): Promise<{ success: boolean; error?: string; comments?: SegmentComment[] }> {
+	try {
+		const accountId = await requireAccountId()
+
+		if (!(await canAccessWebsite(accountId, websiteId))) {
+			return { success: true, comments: [] } // Silent success - don't leak existence
+		}
+
+		return { success: true, comments: await getSegmentComments(websiteId, websiteSegmentId, lang) }
+	} catch {
+		return { success: false, error: 'An error occurred' }
+	}
+}
+
+export async function postSegmentComment(
+	websiteId: number,
+	websiteSegmentId: number,
+	lang: string,
+	body: string
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const text = body.trim()
+
+		if (!text) {
+			return { success: false, error: 'Comment is required' }
+		}
+		if (text.length > MAX_COMMENT_LENGTH) {
+			return { success: false, error: `Comment too long (max ${MAX_COMMENT_LENGTH} characters)` }
+		}
+
+		const accountId = await requireAccountId()
+
+		if (!(await canAccessWebsite(accountId, websiteId))) {
+			return { success: true } // Silent success - don't leak existence
+		}
+
+		return addSegmentComment(websiteId, websiteSegmentId, lang, text, accountId)
+	} catch {
+		return { success: false, error: 'An error occurred' }
+	}
+}
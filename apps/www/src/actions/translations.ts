@@ -1,7 +1,28 @@
 'use server'
 
 import { requireAccountId } from '@/lib/auth'
-import { canAccessWebsite, updateSegmentTranslation, updatePathTranslation } from '@pantolingo/db'
+import { getTranslationFileFormat, parseTranslationFile } from '@/lib/translation-files'
+import { validatePlaceholders } from '@/components/ui/placeholder-utils'
+import {
+	canAccessWebsite,
+	updateSegmentTranslation,
+	updatePathTranslation,
+	importTranslationUpdates,
+	getTranslationsForExport,
+	type TranslationImportItem,
+} from '@pantolingo/db'
+
+// Upload limit for imported files (must fit within serverActions.bodySizeLimit)
+const MAX_IMPORT_SIZE = 4 * 1024 * 1024
+
+export interface ImportTranslationsResult {
+	success: boolean
+	error?: string
+	updated?: number // translations changed (each with a changelog entry)
+	unchanged?: number // same text and review state as current
+	skipped?: number // not found for this website/language (removed, untranslated, or another site)
+	invalid?: string[] // rejected by placeholder validation or update failure
+}
 
 export async function saveSegmentTranslation(
 	websiteId: number,
@@ -43,3 +64,92 @@ export async function savePathTranslation(
 	}
 }
 
+
+/**
+ * Import an XLIFF 2.0 or CSV file edited in a CAT tool
+ * Each changed item is validated against its source placeholders, then all are saved in one transaction
+ * through the same update path as the edit modal (so each gets a changelog entry)
+ * @param markReviewed - Apply the file's reviewed states (otherwise review status is left unchanged)
+ */
+export async function importTranslations(
+	websiteId: number,
+	lang: string,
+	fileName: string,
+	content: string,
+	markReviewed: boolean
+): Promise<ImportTranslationsResult> {
+	try {
+		const accountId = await requireAccountId()
+
+		if (!(await canAccessWebsite(accountId, websiteId))) {
+			return { success: true } // Silent success - don't leak existence
+		}
+
+		const format = getTranslationFileFormat(fileName)
+		if (!format) {
+			return { success: false, error: 'File must be .xlf, .xliff, or .csv' }
+		}
+		if (Buffer.byteLength(content, 'utf8') > MAX_IMPORT_SIZE) {
+			return { success: false, error: 'File is too large (max 4 MB)' }
+		}
+
+		const parsed = parseTranslationFile(format, content)
+		if (parsed.error) {
+			return { success: false, error: parsed.error }
+		}
+		if (parsed.targetLang && parsed.targetLang.toLowerCase() !== lang.toLowerCase()) {
+			return { success: false, error: `File is for ${parsed.targetLang}, not ${lang}` }
+		}
+
+		// Current translations scope the import to this website/language
+		const current = new Map(
+			(await getTranslationsForExport(websiteId, lang)).map((item) => [`${item.type}:${item.id}`, item])
+		)
+
+		const result = { success: true, updated: 0, unchanged: 0, skipped: 0, invalid: [] as string[] }
+		const updates: TranslationImportItem[] = []
+		const labels: string[] = []
+
+		for (const entry of parsed.entries) {
+			const item = current.get(`${entry.type}:${entry.id}`)
+			if (!item) {
+				result.skipped++
+				continue
+			}
+
+			const label = `${entry.type === 'segment' ? 'Segment' : 'Path'} ${entry.id}`
+			const validation = validatePlaceholders(item.source, entry.target)
+			if (!validation.valid) {
+				result.invalid.push(`${label}: ${validation.errors.join('; ')}`)
+				continue
+			}
+
+			// Imports only mark reviewed (when asked to); they never unmark
+			const reviewed = markReviewed && entry.reviewed && !item.reviewed ? true : null
+			if (entry.target === item.target && reviewed === null) {
+				result.unchanged++
+				continue
+			}
+
+			updates.push({ type: entry.type, id: entry.id, target: entry.target, reviewed })
+			labels.push(label)
+		}
+
+		const applied = await importTranslationUpdates(websiteId, lang, updates, accountId)
+		if (!applied.success || !applied.results) {
+			return { success: false, error: applied.error || 'Failed to import translations' }
+		}
+
+		applied.results.forEach((update, i) => {
+			if (update.success) {
+				result.updated++
+			} else {
+				result.invalid.push(`${labels[i]}: ${update.error ?? 'Failed to update'}`)
+			}
+		})
+
+		return result
+	} catch {
+		return { success: false, error: 'An error occurred' }
+	}
+}
@@ -1,7 +1,17 @@
 'use server'
 
 import { requireAccountId } from '@/lib/auth'
-import { canAccessWebsite, updateWebsiteSettings as dbUpdateWebsiteSettings } from '@pantolingo/db'
+import { getApiRuleError, getJsonPathError, getPageCacheVaryError, getTranslateAttrError } from '@/lib/validation'
+import {
+	canAccessWebsite,
+	updateWebsiteSettings as dbUpdateWebsiteSettings,
+	type LangRobots,
+	type LangTone,
+} from '@pantolingo/db'
+
+const STYLES = ['literal', 'balanced', 'natural']
+const FORMALITIES = ['default', 'formal', 'informal']
+const ROBOTS_POLICIES = ['origin', 'index', 'noindex']
 
 export async function saveWebsiteSettings(
 	websiteId: number,
@@ -9,7 +19,16 @@ export async function saveWebsiteSettings(
 		skipWords: string[]
 		skipPath: string[]
 		skipSelectors: string[]
+		translateAttrs: string[]
+		translateJson: string[]
+		translateApi: string[]
 		translatePath: boolean
+		pageCache: boolean
+		pageCacheVary: string[]
+		staleIfError: boolean
+		originTimeout: number | null
+		langTones: LangTone[]
+		langRobots: LangRobots[]
 	}
 ): Promise<{ success: boolean; error?: string }> {
 	try {
@@ -25,6 +44,49 @@ export async function saveWebsiteSettings(
 		if (settings.skipSelectors.some(s => s.length > 200)) {
 			return { success: false, error: 'Skip selector too long (max 200 characters)' }
 		}
+		if (settings.translateAttrs.length > 25) {
+			return { success: false, error: 'Too many translated attributes (max 25)' }
+		}
+		const translateAttrError = settings.translateAttrs.map(getTranslateAttrError).find(Boolean)
+		if (translateAttrError) {
+			return { success: false, error: translateAttrError }
+		}
+		if (settings.translateJson.length > 25) {
+			return { success: false, error: 'Too many JSON paths (max 25)' }
+		}
+		const jsonPathError = settings.translateJson.map(getJsonPathError).find(Boolean)
+		if (jsonPathError) {
+			return { success: false, error: jsonPathError }
+		}
+		if (settings.translateApi.length > 25) {
+			return { success: false, error: 'Too many API rules (max 25)' }
+		}
+		const apiRuleError = settings.translateApi.map(getApiRuleError).find(Boolean)
+		if (apiRuleError) {
+			return { success: false, error: apiRuleError }
+		}
+		if (settings.pageCacheVary.length > 10) {
+			return { success: false, error: 'Too many cache vary entries (max 10)' }
+		}
+		const varyError = settings.pageCacheVary.map(getPageCacheVaryError).find(Boolean)
+		if (varyError) {
+			return { success: false, error: varyError }
+		}
+		if (
+			settings.originTimeout !== null &&
+			(!Number.isInteger(settings.originTimeout) || settings.originTimeout < 1000 || settings.originTimeout > 30000)
+		) {
+			return { success: false, error: 'Origin timeout must be between 1000 and 30000 ms' }
+		}
+		if (settings.langTones.some(t => !STYLES.includes(t.style) || !FORMALITIES.includes(t.formality))) {
+			return { success: false, error: 'Invalid style or formality' }
+		}
+		if (settings.langTones.some(t => (t.brandVoice?.length ?? 0) > 500)) {
+			return { success: false, error: 'Brand voice too long (max 500 characters)' }
+		}
+		if (settings.langRobots.some(r => !ROBOTS_POLICIES.includes(r.robots))) {
+			return { success: false, error: 'Invalid search indexing option' }
+		}
 
 		const accountId = await requireAccountId()
 
@@ -32,7 +94,10 @@ export async function saveWebsiteSettings(
 			return { success: true } // Silent success - don't leak existence
 		}
 
-		return dbUpdateWebsiteSettings(websiteId, settings)
+		return dbUpdateWebsiteSettings(websiteId, {
+			...settings,
+			langTones: settings.langTones.map(t => ({ ...t, brandVoice: t.brandVoice?.trim() || null })),
+		}, accountId)
 	} catch {
 		return { success: false, error: 'An error occurred' }
 	}
@@ -0,0 +1,94 @@
+import { redirect } from 'next/navigation'
+import { auth } from '@/lib/auth'
+import { canAccessWebsiteByPublicCode, getWebsiteByPublicCode, getChangelog, type ChangelogType } from '@pantolingo/db'
+import { getFlag } from '@pantolingo/lang'
+import { BreadcrumbNav } from '@/components/account/BreadcrumbNav'
+import { ChangelogTable } from '@/components/account/ChangelogTable'
+import { Toggle } from '@/components/ui/Toggle'
+import { Pagination } from '@/components/ui/Pagination'
+
+export const dynamic = 'force-dynamic'
+
+const TYPE_OPTIONS = [
+	{ value: 'all', label: 'All' },
+	{ value: 'segment', label: 'Segments' },
+	{ value: 'path', label: 'Paths' },
+	{ value: 'setting', label: 'Settings' },
+]
+
+interface HistoryPageProps {
+	params: Promise<{ publicCode: string }>
+	searchParams: Promise<{ type?: string; page?: string }>
+}
+
+export default async function HistoryPage({ params, searchParams }: HistoryPageProps) {
+	const session = await auth()
+
+	if (!session) {
+		redirect('/login')
+	}
+
+	const { publicCode } = await params
+	const { type = 'all', page = '1' } = await searchParams
+	const pageNum = parseInt(page, 10) || 1
+	const limit = 50
+
+	// Validate publicCode format (16-char hex)
+	if (!/^[0-9a-f]{16}$/i.test(publicCode)) {
+		redirect('/account')
+	}
+
+	// Check authorization and get websiteId
+	const websiteId = await canAccessWebsiteByPublicCode(session.user.accountId, publicCode)
+	if (!websiteId) {
+		redirect('/account')
+	}
+
+	const website = await getWebsiteByPublicCode(publicCode)
+
+	if (!website) {
+		redirect('/account')
+	}
+
+	const validType = TYPE_OPTIONS.some((o) => o.value === type) ? type : 'all'
+	const data = await getChangelog(
+		websiteId,
+		validType === 'all' ? undefined : (validType as ChangelogType),
+		pageNum,
+		limit
+	)
+
+	return (
+		<div>
+			<BreadcrumbNav
+				breadcrumbs={[
+					{ label: 'Account', href: '/account' },
+					{
+						label: `${website.hostname} ${getFlag(website.sourceLang)}`,
+						href: `/account/website/${publicCode}`,
+					},
+					{ label: 'History' },
+				]}
+			/>
+
+			<div className="mb-6">
+				<Toggle
+					options={TYPE_OPTIONS}
+					value={validType}
+					baseUrl={`/account/website/${publicCode}/history`}
+					paramName="type"
+				/>
+			</div>
+
+			<ChangelogTable entries={data.items} websiteId={websiteId} />
+
+			<div className="mt-6">
+				<Pagination
+					currentPage={data.page}
+					totalPages={data.totalPages}
+					baseUrl={`/account/website/${publicCode}/history?type=${validType}`}
+				/>
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import {
+	canAccessWebsiteByPublicCode,
+	getWebsiteByPublicCode,
+	isValidLangForWebsite,
+	getTranslationsForExport,
+	getSegmentPaths,
+} from '@pantolingo/db'
+import {
+	buildXliff,
+	buildCsv,
+	buildPo,
+	buildJson,
+	buildNestedJson,
+	type TranslationExportFormat,
+} from '@/lib/translation-files'
+
+const CONTENT_TYPES: Record<TranslationExportFormat, string> = {
+	xliff: 'application/xliff+xml; charset=utf-8',
+	csv: 'text/csv; charset=utf-8',
+	po: 'text/x-gettext-translation; charset=utf-8',
+	json: 'application/json; charset=utf-8',
+	'json-nested': 'application/json; charset=utf-8',
+}
+
+const EXTENSIONS: Record<TranslationExportFormat, string> = {
+	xliff: 'xlf',
+	csv: 'csv',
+	po: 'po',
+	json: 'json',
+	'json-nested': 'pages.json',
+}
+
+function isExportFormat(value: string | null): value is TranslationExportFormat {
+	return value !== null && Object.hasOwn(EXTENSIONS, value)
+}
+
+/**
+ * Download a language's translations for CAT tools (XLIFF, CSV) or app i18n (PO, JSON)
+ * /account/website/{publicCode}/lang/{langCd}/export?format=xliff|csv|po|json|json-nested
+ */
+export async function GET(
+	request: NextRequest,
+	{ params }: { params: Promise<{ publicCode: string; langCd: string }> }
+) {
+	const session = await auth()
+	if (!session) {
+		return new NextResponse('Unauthorized', { status: 401 })
+	}
+
+	const { publicCode, langCd } = await params
+
+	// Validate publicCode format (16-char hex)
+	if (!/^[0-9a-f]{16}$/i.test(publicCode)) {
+		return new NextResponse('Not found', { status: 404 })
+	}
+
+	const websiteId = await canAccessWebsiteByPublicCode(session.user.accountId, publicCode)
+	const website = websiteId ? await getWebsiteByPublicCode(publicCode) : null
+	if (!websiteId || !website || !(await isValidLangForWebsite(websiteId, langCd))) {
+		return new NextResponse('Not found', { status: 404 })
+	}
+
+	const formatParam = request.nextUrl.searchParams.get('format')
+	const format: TranslationExportFormat = isExportFormat(formatParam) ? formatParam : 'xliff'
+	const items = await getTranslationsForExport(websiteId, langCd)
+
+	// Page references are only needed by formats that group or annotate by path
+	const segmentPaths = format === 'po' || format === 'json-nested' ? await getSegmentPaths(websiteId) : new Map()
+
+	let body: string
+	switch (format) {
+		case 'csv':
+			body = buildCsv(items)
+			break
+		case 'po':
+			body = buildPo(items, segmentPaths, langCd, website.hostname)
+			break
+		case 'json':
+			body = buildJson(items)
+			break
+		case 'json-nested':
+			body = buildNestedJson(items, segmentPaths)
+			break
+		default:
+			body = buildXliff(items, website.sourceLang, langCd)
+	}
+	const fileName = `${website.hostname}-${langCd}.${EXTENSIONS[format]}`
+
+	return new NextResponse(body, {
+		headers: {
+			'Content-Type': CONTENT_TYPES[format],
+			'Content-Disposition': `attachment; filename="${fileName}"`,
+			'Cache-Control': 'no-store',
+		},
+	})
+}
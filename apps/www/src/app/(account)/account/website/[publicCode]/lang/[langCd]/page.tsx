@@ -7,10 +7,19 @@ import {
 	getPathsForWebsite,
 	getSegmentsForLang,
 	getPathsForLang,
+	getGlossaryTerms,
+	getImageOverrides,
+	getWebsiteAccounts,
+	getSegmentReviewCounts,
+	isSegmentStatus,
+	type SegmentFilter,
 } from '@pantolingo/db'
 import { BreadcrumbNav } from '@/components/account/BreadcrumbNav'
 import { SegmentTable } from '@/components/account/SegmentTable'
 import { PathTable } from '@/components/account/PathTable'
+import { GlossaryTable } from '@/components/account/GlossaryTable'
+import { ImageOverrideTable } from '@/components/account/ImageOverrideTable'
+import { TranslationFileActions } from '@/components/account/TranslationFileActions'
 import { Toggle } from '@/components/ui/Toggle'
 import { PathSelect } from '@/components/ui/PathSelect'
 import { Pagination } from '@/components/ui/Pagination'
@@ -19,9 +28,26 @@ import { getFlag, getLanguageLabel } from '@pantolingo/lang'
 
 export const dynamic = 'force-dynamic'
 
+const VIEW_OPTIONS = [
+	{ value: 'segments', label: 'Segments' },
+	{ value: 'paths', label: 'Paths' },
+	{ value: 'glossary', label: 'Glossary' },
+	{ value: 'images', label: 'Images' },
+]
+
+const FILTER_OPTIONS = [
+	{ value: 'unreviewed', label: 'Unreviewed' },
+	{ value: 'all', label: 'All' },
+]
+
+const ASSIGNEE_OPTIONS = [
+	{ value: 'all', label: 'Everyone' },
+	{ value: 'me', label: 'Assigned to me' },
+]
+
 interface LangDetailPageProps {
 	params: Promise<{ publicCode: string; langCd: string }>
-	searchParams: Promise<{ view?: string; filter?: string; page?: string; path?: string }>
+	searchParams: Promise<{ view?: string; filter?: string; page?: string; path?: string; assignee?: string }>
 }
 
 export default async function LangDetailPage({ params, searchParams }: LangDetailPageProps) {
@@ -32,7 +58,7 @@ export default async function LangDetailPage({ params, searchParams }: LangDetai
 	}
 
 	const { publicCode, langCd } = await params
-	const { view = 'segments', filter = 'unreviewed', page = '1', path } = await searchParams
+	const { view = 'segments', filter = 'unreviewed', page = '1', path, assignee } = await searchParams
 	const pageNum = parseInt(page, 10) || 1
 	const limit = 50
 
@@ -64,25 +90,100 @@ export default async function LangDetailPage({ params, searchParams }: LangDetai
 		redirect(`/account/website/${publicCode}`)
 	}
 
-	const validView = view === 'paths' ? 'paths' : 'segments'
-	const validFilter = filter === 'all' ? 'all' : 'unreviewed'
+	const validView =
+		view === 'paths' || view === 'glossary' || view === 'images' ? view : 'segments'
+	// Segments also filter by review status and removed-from-site; paths only by unreviewed/all
+	const validFilter: SegmentFilter =
+		filter === 'all'
+			? 'all'
+			: validView === 'segments' && (filter === 'removed' || isSegmentStatus(filter))
+				? filter
+				: 'unreviewed'
+	const assignedToMe = validView === 'segments' && assignee === 'me'
+
+	// Glossary and image views have their own layout (no filter, pagination, or counts)
+	if (validView === 'glossary' || validView === 'images') {
+		const [glossaryTerms, imageOverrides] = await Promise.all([
+			validView === 'glossary' ? getGlossaryTerms(websiteId, langCd) : [],
+			validView === 'images' ? getImageOverrides(websiteId, langCd) : [],
+		])
+		const count = validView === 'glossary' ? glossaryTerms.length : imageOverrides.length
+
+		return (
+			<div>
+				<BreadcrumbNav
+					breadcrumbs={[
+						{ label: 'Account', href: '/account' },
+						{
+							label: `${website.hostname} ${getFlag(website.sourceLang)}`,
+							href: `/account/website/${publicCode}`,
+						},
+						{ label: `${getLanguageLabel(langCd)} (${formatNumber(count)})` },
+					]}
+				/>
+
+				<div className="mb-6 flex flex-wrap items-center gap-4">
+					<Toggle
+						options={VIEW_OPTIONS}
+						value={validView}
+						baseUrl={`/account/website/${publicCode}/lang/${langCd}?filter=${validFilter}`}
+						paramName="view"
+					/>
+				</div>
+
+				{validView === 'glossary' ? (
+					<GlossaryTable terms={glossaryTerms} targetLang={langCd} websiteId={websiteId} />
+				) : (
+					<ImageOverrideTable overrides={imageOverrides} targetLang={langCd} websiteId={websiteId} />
+				)}
+			</div>
+		)
+	}
 
-	// Fetch paths for the dropdown (only when viewing segments)
+	// Fetch paths for the dropdown, reviewer accounts, and status counts (only when viewing segments)
 	const pathOptions = validView === 'segments' ? await getPathsForWebsite(websiteId) : []
+	const accounts = validView === 'segments' ? await getWebsiteAccounts(websiteId) : []
+	const reviewCounts =
+		validView === 'segments' ? await getSegmentReviewCounts(websiteId, langCd, session.user.accountId) : null
 
 	const segmentData =
 		validView === 'segments'
-			? await getSegmentsForLang(websiteId, langCd, validFilter, pageNum, limit, pathId)
+			? await getSegmentsForLang(
+					websiteId,
+					langCd,
+					validFilter,
+					pageNum,
+					limit,
+					pathId,
+					assignedToMe ? session.user.accountId : undefined
+				)
 			: null
 	const pathData =
 		validView === 'paths'
-			? await getPathsForLang(websiteId, langCd, validFilter, pageNum, limit)
+			? await getPathsForLang(websiteId, langCd, validFilter === 'all' ? 'all' : 'unreviewed', pageNum, limit)
 			: null
 	const data = segmentData ?? pathData!
 
-	// Build path param string for URLs
+	// Segment filters add review statuses (with counts) and segments removed from the site
+	const segmentFilterOptions = reviewCounts && [
+		{ value: 'unreviewed', label: 'Unreviewed' },
+		{ value: 'machine', label: 'Machine', count: reviewCounts.machine },
+		{ value: 'needs_review', label: 'Needs Review', count: reviewCounts.needsReview },
+		{ value: 'rejected', label: 'Rejected', count: reviewCounts.rejected },
+		{ value: 'approved', label: 'Approved', count: reviewCounts.approved },
+		{ value: 'all', label: 'All' },
+		{ value: 'removed', label: 'Removed' },
+	]
+	const assigneeOptions =
+		reviewCounts &&
+		ASSIGNEE_OPTIONS.map((option) =>
+			option.value === 'me' ? { ...option, count: reviewCounts.assignedToAccount } : option
+		)
+
+	// Build path and assignee param strings for URLs
 	const pathParam = pathId !== undefined ? `&path=${pathId}` : ''
-	const baseUrl = `/account/website/${publicCode}/lang/${langCd}?view=${validView}&filter=${validFilter}${pathParam}`
+	const assigneeParam = assignedToMe ? '&assignee=me' : ''
+	const baseUrl = `/account/website/${publicCode}/lang/${langCd}?view=${validView}&filter=${validFilter}${pathParam}${assigneeParam}`
 
 	return (
 		<div>
@@ -100,42 +201,60 @@ export default async function LangDetailPage({ params, searchParams }: LangDetai
 			{/* View and Filter toggles */}
 			<div className="mb-6 flex flex-wrap items-center gap-4">
 				<Toggle
-					options={[
-						{ value: 'segments', label: 'Segments' },
-						{ value: 'paths', label: 'Paths' },
-					]}
+					options={VIEW_OPTIONS}
 					value={validView}
 					baseUrl={`/account/website/${publicCode}/lang/${langCd}?filter=${validFilter}`}
 					paramName="view"
 				/>
 				<Toggle
-					options={[
-						{ value: 'unreviewed', label: 'Unreviewed' },
-						{ value: 'all', label: 'All' },
-					]}
+					options={segmentFilterOptions ?? FILTER_OPTIONS}
 					value={validFilter}
-					baseUrl={`/account/website/${publicCode}/lang/${langCd}?view=${validView}${pathParam}`}
+					baseUrl={`/account/website/${publicCode}/lang/${langCd}?view=${validView}${pathParam}${assigneeParam}`}
 					paramName="filter"
 				/>
+				{assigneeOptions && (
+					<Toggle
+						options={assigneeOptions}
+						value={assignedToMe ? 'me' : 'all'}
+						baseUrl={`/account/website/${publicCode}/lang/${langCd}?view=${validView}&filter=${validFilter}${pathParam}`}
+						paramName="assignee"
+					/>
+				)}
 				{validView === 'segments' && (
 					<PathSelect
 						paths={pathOptions}
 						selectedPathId={pathId ?? null}
-						baseUrl={`/account/website/${publicCode}/lang/${langCd}?view=${validView}&filter=${validFilter}`}
+						baseUrl={`/account/website/${publicCode}/lang/${langCd}?view=${validView}&filter=${validFilter}${assigneeParam}`}
 						className="ml-auto"
 					/>
 				)}
 			</div>
 
+			{/* File export/import for CAT tools */}
+			<div className="mb-6">
+				<TranslationFileActions
+					websiteId={websiteId}
+					targetLang={langCd}
+					exportUrl={`/account/website/${publicCode}/lang/${langCd}/export`}
+				/>
+			</div>
+
 			{/* Empty state message */}
-			{data.total === 0 && validFilter === 'unreviewed' && (
+			{data.total === 0 && validFilter === 'unreviewed' && !assignedToMe && (
 				<div className="mb-6 rounded-lg bg-[var(--success-bg)] p-4 text-[var(--success-text)]">
 					All translations have been reviewed. Switch to &quot;All&quot; to see all translations.
 				</div>
 			)}
+			{data.total === 0 && validFilter === 'removed' && (
+				<div className="mb-6 rounded-lg bg-[var(--success-bg)] p-4 text-[var(--success-text)]">
+					No segments have been removed from the site.
+				</div>
+			)}
 
 			{/* Data table */}
-			{segmentData && <SegmentTable segments={segmentData.items} targetLang={langCd} websiteId={websiteId} />}
+			{segmentData && (
+				<SegmentTable segments={segmentData.items} targetLang={langCd} websiteId={websiteId} accounts={accounts} />
+			)}
 			{pathData && <PathTable paths={pathData.items} targetLang={langCd} websiteId={websiteId} />}
 
 			{/* Pagination */}
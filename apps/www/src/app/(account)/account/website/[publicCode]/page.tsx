@@ -1,3 +1,4 @@
+import Link from 'next/link'
 import { redirect } from 'next/navigation'
 import { auth } from '@/lib/auth'
 import { canAccessWebsiteByPublicCode, getWebsiteByPublicCode, getLangsForWebsite } from '@pantolingo/db'
@@ -48,7 +49,15 @@ export default async function WebsiteDetailPage({ params }: WebsiteDetailPagePro
 				]}
 			/>
 
-			<h2 className="mb-4 text-2xl font-semibold text-[var(--text-heading)]">Languages</h2>
+			<div className="mb-4 flex items-center justify-between">
+				<h2 className="text-2xl font-semibold text-[var(--text-heading)]">Languages</h2>
+				<Link
+					href={`/account/website/${publicCode}/history`}
+					className="text-sm text-[var(--text-muted)] hover:text-[var(--text-heading)] transition-colors"
+				>
+					History
+				</Link>
+			</div>
 
 			<LangTable langs={langs} publicCode={publicCode} />
 		</div>
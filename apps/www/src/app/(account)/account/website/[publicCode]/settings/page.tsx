@@ -1,6 +1,6 @@
 import { redirect } from 'next/navigation'
 import { auth } from '@/lib/auth'
-import { canAccessWebsiteByPublicCode, getWebsiteByPublicCode } from '@pantolingo/db'
+import { canAccessWebsiteByPublicCode, getWebsiteByPublicCode, getLangTones, getLangRobots } from '@pantolingo/db'
 import { BreadcrumbNav } from '@/components/account/BreadcrumbNav'
 import { WebsiteSettingsForm } from '@/components/account/WebsiteSettingsForm'
 
@@ -30,7 +30,11 @@ export default async function SettingsPage({ params }: SettingsPageProps) {
 		redirect('/account')
 	}
 
-	const website = await getWebsiteByPublicCode(publicCode)
+	const [website, langTones, langRobots] = await Promise.all([
+		getWebsiteByPublicCode(publicCode),
+		getLangTones(websiteId),
+		getLangRobots(websiteId),
+	])
 
 	if (!website) {
 		redirect('/account')
@@ -53,7 +57,16 @@ export default async function SettingsPage({ params }: SettingsPageProps) {
 				initialSkipWords={website.skipWords}
 				initialSkipPath={website.skipPath}
 				initialSkipSelectors={website.skipSelectors}
+				initialTranslateAttrs={website.translateAttrs}
+				initialTranslateJson={website.translateJson}
+				initialTranslateApi={website.translateApi}
 				initialTranslatePath={website.translatePath}
+				initialPageCache={website.pageCache}
+				initialPageCacheVary={website.pageCacheVary}
+				initialStaleIfError={website.staleIfError}
+				initialOriginTimeout={website.originTimeout}
+				initialLangTones={langTones}
+				initialLangRobots={langRobots}
 			/>
 		</div>
 	)
@@ -0,0 +1,165 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptyState } from '@/components/ui/Table'
+import { Badge } from '@/components/ui/Badge'
+import { Button } from '@/components/ui/Modal'
+import { PlaceholderText } from '@/components/ui/PlaceholderText'
+import { revertChange } from '@/actions/changelog'
+import { formatDate } from '@/lib/utils'
+import { getFlag, getLanguageName } from '@pantolingo/lang'
+import type { ChangelogEntry, ChangelogItem } from '@pantolingo/db'
+
+interface ChangelogTableProps {
+	entries: ChangelogEntry[]
+	websiteId: number
+}
+
+const TYPE_LABELS: Record<ChangelogEntry['type'], string> = {
+	segment: 'Segment',
+	path: 'Path',
+	setting: 'Settings',
+}
+
+const COLUMN_LABELS: Record<string, string> = {
+	translated_text: 'Translation',
+	translated_path: 'Translated path',
+	reviewed: 'Reviewed',
+	status: 'Status',
+	assignee_account_id: 'Assignee',
+	retranslate: 'Retranslation requested',
+	target_term: 'Glossary translation',
+	case_sensitive: 'Case sensitive',
+	localized_url: 'Localized image',
+	skip_words: 'Skip words',
+	skip_path: 'Skip paths',
+	skip_selectors: 'Skip selectors',
+	translate_attrs: 'Translated attributes',
+	translate_json: 'Embedded JSON paths',
+	translate_api: 'API translation rules',
+	translate_path: 'Translate paths',
+	page_cache: 'Page cache',
+	page_cache_vary: 'Page cache vary',
+	stale_if_error: 'Stale if error',
+	origin_timeout: 'Origin timeout',
+	style: 'Style',
+	formality: 'Formality',
+	brand_voice: 'Brand voice',
+	robots: 'Search indexing',
+}
+
+function formatValue(value: unknown): string {
+	if (value === null || value === undefined || value === '') return '(empty)'
+	if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+	if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '(none)'
+	return String(value)
+}
+
+function ChangeItem({ item }: { item: ChangelogItem }) {
+	// Tone settings are per language (target_lang is logged alongside the row id)
+	const lang = typeof item.pk.target_lang === 'string' ? item.pk.target_lang : null
+
+	return (
+		<ul className="space-y-1">
+			{Object.entries(item.columns).map(([column, { old: oldValue, new: newValue }]) => {
+				const isText = column === 'translated_text' || column === 'translated_path'
+				return (
+					<li key={column} className="text-sm">
+						<span className="text-[var(--text-muted)]">
+							{lang && `${getLanguageName(lang)} `}
+							{COLUMN_LABELS[column] ?? column}:
+						</span>{' '}
+						<span className="line-through text-[var(--text-subtle)]">
+							{isText && typeof oldValue === 'string' ? <PlaceholderText text={oldValue} /> : formatValue(oldValue)}
+						</span>{' '}
+						→ {isText && typeof newValue === 'string' ? <PlaceholderText text={newValue} /> : formatValue(newValue)}
+					</li>
+				)
+			})}
+		</ul>
+	)
+}
+
+export function ChangelogTable({ entries, websiteId }: ChangelogTableProps) {
+	const router = useRouter()
+	const [isPending, startTransition] = useTransition()
+	const [error, setError] = useState<string | null>(null)
+
+	const handleRevert = (changelogId: number) => {
+		setError(null)
+
+		startTransition(async () => {
+			const result = await revertChange(websiteId, changelogId)
+
+			if (result.success) {
+				router.refresh()
+			} else {
+				setError(result.error || 'Failed to revert change')
+			}
+		})
+	}
+
+	if (entries.length === 0) {
+		return <EmptyState message="No changes yet" />
+	}
+
+	return (
+		<div className="space-y-4">
+			{error && (
+				<div className="p-3 rounded-lg bg-[var(--error)]/10 text-[var(--error)] text-sm">
+					{error}
+				</div>
+			)}
+
+			<Table>
+				<TableHeader>
+					<TableRow>
+						<TableHead className="w-[15%]">When</TableHead>
+						<TableHead className="w-[15%]">Who</TableHead>
+						<TableHead className="w-[60%]">Change</TableHead>
+						<TableHead className="w-[10%]">
+							<span className="sr-only">Actions</span>
+						</TableHead>
+					</TableRow>
+				</TableHeader>
+				<TableBody>
+					{entries.map((entry) => (
+						<TableRow key={entry.id}>
+							<TableCell className="whitespace-nowrap text-sm text-[var(--text-muted)]">
+								{formatDate(entry.createdAt)}
+							</TableCell>
+							<TableCell className="text-sm">{entry.accountName || entry.accountEmail || 'Unknown'}</TableCell>
+							<TableCell>
+								<div className="mb-1 flex flex-wrap items-center gap-2">
+									<Badge variant="neutral">{TYPE_LABELS[entry.type]}</Badge>
+									{entry.lang && <span title={getLanguageName(entry.lang)}>{getFlag(entry.lang)}</span>}
+									{entry.subject && (
+										<span
+											className="max-w-[400px] overflow-hidden text-ellipsis whitespace-nowrap text-sm text-[var(--text-muted)]"
+											title={entry.subject}
+										>
+											<PlaceholderText text={entry.subject} />
+										</span>
+									)}
+									{entry.revertsId && <Badge variant="warning">Revert</Badge>}
+									{entry.reverted && <Badge variant="neutral">Reverted</Badge>}
+								</div>
+								{entry.change.map((item, i) => (
+									<ChangeItem key={i} item={item} />
+								))}
+							</TableCell>
+							<TableCell className="text-right">
+								{entry.revertible && !entry.reverted && (
+									<Button onClick={() => handleRevert(entry.id)} disabled={isPending}>
+										Revert
+									</Button>
+								)}
+							</TableCell>
+						</TableRow>
+					))}
+				</TableBody>
+			</Table>
+		</div>
+	)
+}
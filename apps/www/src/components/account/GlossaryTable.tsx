@@ -0,0 +1,147 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptyState } from '@/components/ui/Table'
+import { Badge } from '@/components/ui/Badge'
+import { Switch } from '@/components/ui/Switch'
+import { Button } from '@/components/ui/Modal'
+import { fieldClassName } from '@/components/ui/field-styles'
+import { saveGlossaryTerm, removeGlossaryTerm } from '@/actions/glossary'
+import { getLanguageName } from '@pantolingo/lang'
+import type { GlossaryTerm } from '@pantolingo/db'
+
+interface GlossaryTableProps {
+	terms: GlossaryTerm[]
+	targetLang: string
+	websiteId: number
+}
+
+export function GlossaryTable({ terms, targetLang, websiteId }: GlossaryTableProps) {
+	const router = useRouter()
+	const [isPending, startTransition] = useTransition()
+	const [error, setError] = useState<string | null>(null)
+	const [sourceTerm, setSourceTerm] = useState('')
+	const [targetTerm, setTargetTerm] = useState('')
+	const [caseSensitive, setCaseSensitive] = useState(false)
+
+	const handleAdd = () => {
+		setError(null)
+
+		startTransition(async () => {
+			const result = await saveGlossaryTerm(websiteId, targetLang, sourceTerm, targetTerm, caseSensitive)
+
+			if (result.success) {
+				setSourceTerm('')
+				setTargetTerm('')
+				setCaseSensitive(false)
+				router.refresh()
+			} else {
+				setError(result.error || 'Failed to save term')
+			}
+		})
+	}
+
+	const handleDelete = (termId: number) => {
+		setError(null)
+
+		startTransition(async () => {
+			const result = await removeGlossaryTerm(websiteId, termId)
+
+			if (result.success) {
+				router.refresh()
+			} else {
+				setError(result.error || 'Failed to delete term')
+			}
+		})
+	}
+
+	return (
+		<div className="space-y-6">
+			<p className="text-sm text-[var(--text-muted)]">
+				Terms here are always translated to the given {getLanguageName(targetLang)} term. Adding an existing
+				source term updates it. Changes apply to new translations. DeepL does not support glossary terms.
+			</p>
+
+			{error && (
+				<div className="p-3 rounded-lg bg-[var(--error)]/10 text-[var(--error)] text-sm">
+					{error}
+				</div>
+			)}
+
+			{/* Add term */}
+			<div className="flex flex-wrap items-end gap-3">
+				<div className="flex-1 min-w-[180px]">
+					<label className="block mb-1 text-xs text-[var(--text-muted)]">Source term</label>
+					<input
+						value={sourceTerm}
+						onChange={(e) => setSourceTerm(e.target.value)}
+						placeholder="e.g., Watchlist"
+						maxLength={100}
+						disabled={isPending}
+						className={fieldClassName}
+					/>
+				</div>
+				<div className="flex-1 min-w-[180px]">
+					<label className="block mb-1 text-xs text-[var(--text-muted)]">
+						{getLanguageName(targetLang)} term
+					</label>
+					<input
+						value={targetTerm}
+						onChange={(e) => setTargetTerm(e.target.value)}
+						placeholder="Required translation"
+						maxLength={100}
+						disabled={isPending}
+						className={fieldClassName}
+					/>
+				</div>
+				<Switch checked={caseSensitive} onChange={setCaseSensitive} label="Match case" disabled={isPending} />
+				<Button
+					variant="primary"
+					onClick={handleAdd}
+					disabled={!sourceTerm.trim() || !targetTerm.trim()}
+					loading={isPending}
+				>
+					Add Term
+				</Button>
+			</div>
+
+			{terms.length === 0 ? (
+				<EmptyState message="No glossary terms" />
+			) : (
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead className="w-[40%]">Source Term</TableHead>
+							<TableHead className="w-[40%]">Translation</TableHead>
+							<TableHead className="w-[10%]">Case</TableHead>
+							<TableHead className="w-[10%]">
+								<span className="sr-only">Actions</span>
+							</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{terms.map((term) => (
+							<TableRow key={term.id}>
+								<TableCell className="text-[var(--text-muted)]">{term.sourceTerm}</TableCell>
+								<TableCell>{term.targetTerm}</TableCell>
+								<TableCell>
+									{term.caseSensitive ? (
+										<Badge variant="neutral">Exact</Badge>
+									) : (
+										<Badge variant="neutral">Any</Badge>
+									)}
+								</TableCell>
+								<TableCell className="text-right">
+									<Button onClick={() => handleDelete(term.id)} disabled={isPending}>
+										Delete
+									</Button>
+								</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,135 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptyState } from '@/components/ui/Table'
+import { Button } from '@/components/ui/Modal'
+import { fieldClassName } from '@/components/ui/field-styles'
+import { saveImageOverride, removeImageOverride } from '@/actions/images'
+import { MAX_URL_LENGTH } from '@/lib/validation'
+import { getLanguageName } from '@pantolingo/lang'
+import type { ImageOverride } from '@pantolingo/db'
+
+interface ImageOverrideTableProps {
+	overrides: ImageOverride[]
+	targetLang: string
+	websiteId: number
+}
+
+export function ImageOverrideTable({ overrides, targetLang, websiteId }: ImageOverrideTableProps) {
+	const router = useRouter()
+	const [isPending, startTransition] = useTransition()
+	const [error, setError] = useState<string | null>(null)
+	const [originalUrl, setOriginalUrl] = useState('')
+	const [localizedUrl, setLocalizedUrl] = useState('')
+
+	const handleAdd = () => {
+		setError(null)
+
+		startTransition(async () => {
+			const result = await saveImageOverride(websiteId, targetLang, originalUrl, localizedUrl)
+
+			if (result.success) {
+				setOriginalUrl('')
+				setLocalizedUrl('')
+				router.refresh()
+			} else {
+				setError(result.error || 'Failed to save image')
+			}
+		})
+	}
+
+	const handleDelete = (overrideId: number) => {
+		setError(null)
+
+		startTransition(async () => {
+			const result = await removeImageOverride(websiteId, overrideId)
+
+			if (result.success) {
+				router.refresh()
+			} else {
+				setError(result.error || 'Failed to delete image')
+			}
+		})
+	}
+
+	return (
+		<div className="space-y-6">
+			<p className="text-sm text-[var(--text-muted)]">
+				Images here are replaced with their {getLanguageName(targetLang)} version wherever they appear (src, srcset,
+				lazy-loading attributes, inline styles, and social previews). Adding an existing image updates it.
+			</p>
+
+			{error && (
+				<div className="p-3 rounded-lg bg-[var(--error)]/10 text-[var(--error)] text-sm">
+					{error}
+				</div>
+			)}
+
+			{/* Add override */}
+			<div className="flex flex-wrap items-end gap-3">
+				<div className="flex-1 min-w-[220px]">
+					<label className="block mb-1 text-xs text-[var(--text-muted)]">Original image URL</label>
+					<input
+						value={originalUrl}
+						onChange={(e) => setOriginalUrl(e.target.value)}
+						placeholder="e.g., /images/hero.png"
+						maxLength={MAX_URL_LENGTH}
+						disabled={isPending}
+						className={fieldClassName}
+					/>
+				</div>
+				<div className="flex-1 min-w-[220px]">
+					<label className="block mb-1 text-xs text-[var(--text-muted)]">
+						{getLanguageName(targetLang)} image URL
+					</label>
+					<input
+						value={localizedUrl}
+						onChange={(e) => setLocalizedUrl(e.target.value)}
+						placeholder="e.g., /images/hero-localized.png"
+						maxLength={MAX_URL_LENGTH}
+						disabled={isPending}
+						className={fieldClassName}
+					/>
+				</div>
+				<Button
+					variant="primary"
+					onClick={handleAdd}
+					disabled={!originalUrl.trim() || !localizedUrl.trim()}
+					loading={isPending}
+				>
+					Add Image
+				</Button>
+			</div>
+
+			{overrides.length === 0 ? (
+				<EmptyState message="No localized images" />
+			) : (
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead className="w-[45%]">Original</TableHead>
+							<TableHead className="w-[45%]">Localized</TableHead>
+							<TableHead className="w-[10%]">
+								<span className="sr-only">Actions</span>
+							</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{overrides.map((override) => (
+							<TableRow key={override.id}>
+								<TableCell className="text-[var(--text-muted)] break-all">{override.originalUrl}</TableCell>
+								<TableCell className="break-all">{override.localizedUrl}</TableCell>
+								<TableCell className="text-right">
+									<Button onClick={() => handleDelete(override.id)} disabled={isPending}>
+										Delete
+									</Button>
+								</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			)}
+		</div>
+	)
+}
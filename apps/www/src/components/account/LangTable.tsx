@@ -27,6 +27,8 @@ export function LangTable({ langs, publicCode }: LangTableProps) {
 					<TableHead className="text-right">Segments</TableHead>
 					<TableHead className="text-right">Paths</TableHead>
 					<TableHead className="text-right">Unreviewed</TableHead>
+					<TableHead className="text-right">Needs Review</TableHead>
+					<TableHead className="text-right">Rejected</TableHead>
 				</TableRow>
 			</TableHeader>
 			<TableBody>
@@ -52,6 +54,20 @@ export function LangTable({ langs, publicCode }: LangTableProps) {
 								<Badge variant="success">0</Badge>
 							)}
 						</TableCell>
+						<TableCell className="text-right tabular-nums">
+							{lang.needsReviewSegmentCount > 0 ? (
+								<Badge variant="warning">{formatNumber(lang.needsReviewSegmentCount)}</Badge>
+							) : (
+								<span className="text-[var(--text-subtle)]">0</span>
+							)}
+						</TableCell>
+						<TableCell className="text-right tabular-nums">
+							{lang.rejectedSegmentCount > 0 ? (
+								<Badge variant="error">{formatNumber(lang.rejectedSegmentCount)}</Badge>
+							) : (
+								<span className="text-[var(--text-subtle)]">0</span>
+							)}
+						</TableCell>
 					</TableRow>
 				))}
 			</TableBody>
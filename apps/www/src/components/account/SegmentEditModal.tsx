@@ -3,7 +3,6 @@
 import { useState, useTransition, useEffect, useRef } from 'react'
 import { useRouter } from 'next/navigation'
 import { Modal, ModalFooter, Button } from '@/components/ui/Modal'
-import { Badge } from '@/components/ui/Badge'
 import { PlaceholderText } from '@/components/ui/PlaceholderText'
 import {
 	PlaceholderEditor,
@@ -12,8 +11,14 @@ import {
 import { PlaceholderIssuesBar } from '@/components/ui/PlaceholderIssuesBar'
 import { SplitButton } from '@/components/ui/SplitButton'
 import { validatePlaceholders, type ValidationResult } from '@/components/ui/placeholder-utils'
+import { fieldClassName } from '@/components/ui/field-styles'
 import { getLanguageName } from '@pantolingo/lang'
 import { saveSegmentTranslation } from '@/actions/translations'
+import { saveSegmentReview, retranslateSegment, loadSegmentComments, postSegmentComment } from '@/actions/review'
+import { MAX_COMMENT_LENGTH } from '@/lib/validation'
+import { formatDate } from '@/lib/utils'
+import { SegmentStatusBadge } from './SegmentStatusBadge'
+import type { SegmentComment, SegmentStatus, WebsiteAccount } from '@pantolingo/db'
 
 interface SegmentEditModalProps {
 	isOpen: boolean
@@ -22,7 +27,9 @@ interface SegmentEditModalProps {
 	websiteSegmentId: number
 	originalText: string
 	translatedText: string | null
-	isReviewed: boolean
+	status: SegmentStatus | null // null when not translated
+	assigneeAccountId: number | null
+	accounts: WebsiteAccount[] // reviewer assignment options
 	targetLang: string
 	onUpdate?: () => void
 }
@@ -34,7 +41,9 @@ export function SegmentEditModal({
 	websiteSegmentId,
 	originalText,
 	translatedText,
-	isReviewed,
+	status,
+	assigneeAccountId,
+	accounts,
 	targetLang,
 	onUpdate,
 }: SegmentEditModalProps) {
@@ -43,16 +52,36 @@ export function SegmentEditModal({
 	const [value, setValue] = useState(translatedText || '')
 	const [error, setError] = useState<string | null>(null)
 	const [validationResult, setValidationResult] = useState<ValidationResult | null>(null)
+	const [assignee, setAssignee] = useState(assigneeAccountId)
+	const [comments, setComments] = useState<SegmentComment[]>([])
+	const [commentText, setCommentText] = useState('')
 	const editorRef = useRef<PlaceholderEditorRef>(null)
 
+	const isReviewed = status === 'approved'
+
 	// Reset state when modal opens with new content
 	useEffect(() => {
 		if (isOpen) {
 			setValue(translatedText || '')
 			setError(null)
 			setValidationResult(null)
+			setAssignee(assigneeAccountId)
+			setCommentText('')
 		}
-	}, [isOpen, translatedText])
+	}, [isOpen, translatedText, assigneeAccountId])
+
+	// Load the comment thread when the modal opens
+	useEffect(() => {
+		if (!isOpen || !status) return
+
+		let cancelled = false
+		loadSegmentComments(websiteId, websiteSegmentId, targetLang).then((result) => {
+			if (!cancelled) setComments(result.comments ?? [])
+		})
+		return () => {
+			cancelled = true
+		}
+	}, [isOpen, status, websiteId, websiteSegmentId, targetLang])
 
 	// Validate on every change
 	useEffect(() => {
@@ -64,9 +93,9 @@ export function SegmentEditModal({
 		}
 	}, [value, originalText])
 
-	// reviewed = true  → mark reviewed
-	// reviewed = false → mark NOT reviewed
-	// reviewed = null  → don't change review status
+	// reviewed = true  → approve
+	// reviewed = false → back to needs review
+	// reviewed = null  → don't change review status (edited unapproved text goes to needs review)
 	const handleSave = async (reviewed: boolean | null) => {
 		setError(null)
 
@@ -95,6 +124,61 @@ export function SegmentEditModal({
 		})
 	}
 
+	const handleReview = (changes: { status?: SegmentStatus; assigneeAccountId?: number | null }) => {
+		setError(null)
+
+		startTransition(async () => {
+			const result = await saveSegmentReview(websiteId, websiteSegmentId, targetLang, changes)
+
+			if (result.success) {
+				router.refresh()
+				onUpdate?.()
+				// Status changes hand the segment on - close; reassigning stays open
+				if (changes.status) onClose()
+			} else {
+				setError(result.error || 'Failed to update review')
+			}
+		})
+	}
+
+	const handleRetranslate = () => {
+		setError(null)
+
+		startTransition(async () => {
+			const result = await retranslateSegment(websiteId, websiteSegmentId, targetLang)
+
+			if (result.success) {
+				router.refresh()
+				onUpdate?.()
+				onClose()
+			} else {
+				setError(result.error || 'Failed to request retranslation')
+			}
+		})
+	}
+
+	const handleAssign = (value: string) => {
+		const accountId = value ? parseInt(value, 10) : null
+		setAssignee(accountId)
+		handleReview({ assigneeAccountId: accountId })
+	}
+
+	const handlePostComment = () => {
+		setError(null)
+
+		startTransition(async () => {
+			const result = await postSegmentComment(websiteId, websiteSegmentId, targetLang, commentText)
+
+			if (result.success) {
+				setCommentText('')
+				const loaded = await loadSegmentComments(websiteId, websiteSegmentId, targetLang)
+				setComments(loaded.comments ?? [])
+			} else {
+				setError(result.error || 'Failed to post comment')
+			}
+		})
+	}
+
 	const handleInsertPlaceholder = (token: string) => {
 		editorRef.current?.insertPlaceholder(token)
 		editorRef.current?.focus()
@@ -118,11 +202,7 @@ export function SegmentEditModal({
 			isOpen={isOpen}
 			onClose={onClose}
 			title="Edit Segment"
-			badge={
-				<Badge variant={isReviewed ? 'success' : 'warning'}>
-					{isReviewed ? 'Reviewed' : 'Pending Review'}
-				</Badge>
-			}
+			badge={status && <SegmentStatusBadge status={status} />}
 		>
 			<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
 				{/* Original text */}
@@ -166,6 +246,61 @@ export function SegmentEditModal({
 				</div>
 			</div>
 
+			{/* Review: assignee and comment thread (translated segments only) */}
+			{status && (
+				<div className="mt-6 space-y-3">
+					<div className="flex items-center gap-3">
+						<label htmlFor="segment-assignee" className="text-sm font-medium text-[var(--text-muted)]">
+							Assignee
+						</label>
+						<select
+							id="segment-assignee"
+							value={assignee ?? ''}
+							onChange={(e) => handleAssign(e.target.value)}
+							disabled={isPending}
+							className={`${fieldClassName} max-w-xs`}
+						>
+							<option value="">Unassigned</option>
+							{accounts.map((account) => (
+								<option key={account.id} value={account.id}>
+									{account.name || account.email}
+								</option>
+							))}
+						</select>
+					</div>
+
+					<div>
+						<span className="text-sm font-medium text-[var(--text-muted)]">Comments</span>
+						{comments.length > 0 && (
+							<ul className="mt-2 space-y-2">
+								{comments.map((comment) => (
+									<li key={comment.id} className="rounded-lg bg-[var(--page-bg)] p-3 text-sm">
+										<div className="mb-1 text-xs text-[var(--text-subtle)]">
+											{comment.accountName || 'Unknown'} · {formatDate(comment.createdAt)}
+										</div>
+										<p className="whitespace-pre-wrap">{comment.body}</p>
+									</li>
+								))}
+							</ul>
+						)}
+						<div className="mt-2 flex items-start gap-2">
+							<textarea
+								value={commentText}
+								onChange={(e) => setCommentText(e.target.value)}
+								placeholder="Add a comment..."
+								maxLength={MAX_COMMENT_LENGTH}
+								rows={2}
+								disabled={isPending}
+								className={fieldClassName}
+							/>
+							<Button onClick={handlePostComment} disabled={isPending || !commentText.trim()}>
+								Comment
+							</Button>
+						</div>
+					</div>
+				</div>
+			)}
+
 			{/* Server error */}
 			{error && (
 				<div className="mt-4 p-3 rounded-lg bg-[var(--error)]/10 text-[var(--error)] text-sm">
@@ -174,9 +309,26 @@ export function SegmentEditModal({
 			)}
 
 			<ModalFooter className="justify-between">
-				<Button variant="secondary" onClick={handleReset} disabled={isPending}>
-					Reset
-				</Button>
+				<div className="flex gap-2">
+					<Button variant="secondary" onClick={handleReset} disabled={isPending}>
+						Reset
+					</Button>
+					{status === 'machine' && (
+						<Button variant="secondary" onClick={() => handleReview({ status: 'needs_review' })} disabled={isPending}>
+							Request review
+						</Button>
+					)}
+					{status && status !== 'rejected' && (
+						<Button variant="secondary" onClick={() => handleReview({ status: 'rejected' })} disabled={isPending}>
+							Reject
+						</Button>
+					)}
+					{status === 'rejected' && (
+						<Button variant="secondary" onClick={handleRetranslate} disabled={isPending}>
+							Retranslate
+						</Button>
+					)}
+				</div>
 
 				{isReviewed ? (
 					<SplitButton
@@ -184,7 +336,7 @@ export function SegmentEditModal({
 						dropdownVariant="success"
 						primaryLabel="Save"
 						primaryOnClick={() => handleSave(null)}
-						secondaryLabel="Unreview + Save"
+						secondaryLabel="Unapprove + Save"
 						secondaryOnClick={() => handleSave(false)}
 						loading={isPending}
 						disabled={!canSave}
@@ -193,7 +345,7 @@ export function SegmentEditModal({
 					<SplitButton
 						variant="success"
 						dropdownVariant="primary"
-						primaryLabel="Reviewed + Save"
+						primaryLabel="Approve + Save"
 						primaryOnClick={() => handleSave(true)}
 						secondaryLabel="Save"
 						secondaryOnClick={() => handleSave(null)}
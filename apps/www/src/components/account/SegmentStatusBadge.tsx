@@ -0,0 +1,14 @@
+import { Badge } from '@/components/ui/Badge'
+import type { SegmentStatus } from '@pantolingo/db'
+
+const STATUS_BADGES: Record<SegmentStatus, { label: string; variant: 'success' | 'warning' | 'error' | 'neutral' }> = {
+	machine: { label: 'Machine', variant: 'neutral' },
+	needs_review: { label: 'Needs Review', variant: 'warning' },
+	approved: { label: 'Approved', variant: 'success' },
+	rejected: { label: 'Rejected', variant: 'error' },
+}
+
+export function SegmentStatusBadge({ status }: { status: SegmentStatus }) {
+	const { label, variant } = STATUS_BADGES[status]
+	return <Badge variant={variant}>{label}</Badge>
+}
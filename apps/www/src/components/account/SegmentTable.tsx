@@ -5,16 +5,18 @@ import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptySta
 import { Badge } from '@/components/ui/Badge'
 import { PlaceholderText } from '@/components/ui/PlaceholderText'
 import { SegmentEditModal } from './SegmentEditModal'
-import type { SegmentWithTranslation } from '@pantolingo/db'
+import { SegmentStatusBadge } from './SegmentStatusBadge'
+import type { SegmentWithTranslation, WebsiteAccount } from '@pantolingo/db'
 
 interface SegmentTableProps {
 	segments: SegmentWithTranslation[]
 	targetLang: string
 	websiteId: number
+	accounts: WebsiteAccount[] // reviewer assignment options
 	onUpdate?: () => void
 }
 
-export function SegmentTable({ segments, targetLang, websiteId, onUpdate }: SegmentTableProps) {
+export function SegmentTable({ segments, targetLang, websiteId, accounts, onUpdate }: SegmentTableProps) {
 	const [editingSegment, setEditingSegment] = useState<SegmentWithTranslation | null>(null)
 
 	if (segments.length === 0) {
@@ -26,9 +28,10 @@ export function SegmentTable({ segments, targetLang, websiteId, onUpdate }: Segm
 			<Table>
 				<TableHeader>
 					<TableRow>
-						<TableHead className="w-[45%]">Original Text</TableHead>
-						<TableHead className="w-[45%]">Translation</TableHead>
-						<TableHead className="w-[10%]">Status</TableHead>
+						<TableHead className="w-[38%]">Original Text</TableHead>
+						<TableHead className="w-[38%]">Translation</TableHead>
+						<TableHead className="w-[12%]">Status</TableHead>
+						<TableHead className="w-[12%]">Assignee</TableHead>
 					</TableRow>
 				</TableHeader>
 				<TableBody>
@@ -59,16 +62,26 @@ export function SegmentTable({ segments, targetLang, websiteId, onUpdate }: Segm
 								)}
 							</TableCell>
 							<TableCell>
-								{segment.translatedText ? (
-									segment.reviewedAt ? (
-										<Badge variant="success">Reviewed</Badge>
-									) : (
-										<Badge variant="warning">Pending</Badge>
-									)
+								{segment.staleAt ? (
+									<Badge variant="neutral">Removed</Badge>
+								) : segment.status ? (
+									<SegmentStatusBadge status={segment.status} />
 								) : (
 									<Badge variant="neutral">-</Badge>
 								)}
 							</TableCell>
+							<TableCell>
+								{segment.assigneeName ? (
+									<span
+										className="block max-w-[160px] overflow-hidden text-ellipsis whitespace-nowrap text-sm"
+										title={segment.assigneeName}
+									>
+										{segment.assigneeName}
+									</span>
+								) : (
+									<span className="text-sm text-[var(--text-subtle)]">-</span>
+								)}
+							</TableCell>
 						</TableRow>
 					))}
 				</TableBody>
@@ -82,7 +95,9 @@ export function SegmentTable({ segments, targetLang, websiteId, onUpdate }: Segm
 					websiteSegmentId={editingSegment.websiteSegmentId}
 					originalText={editingSegment.text}
 					translatedText={editingSegment.translatedText}
-					isReviewed={!!editingSegment.reviewedAt}
+					status={editingSegment.status}
+					assigneeAccountId={editingSegment.assigneeAccountId}
+					accounts={accounts}
 					targetLang={targetLang}
 					onUpdate={onUpdate}
 				/>
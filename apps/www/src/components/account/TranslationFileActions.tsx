@@ -0,0 +1,109 @@
+'use client'
+
+import { useRef, useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/Modal'
+import { Switch } from '@/components/ui/Switch'
+import { importTranslations, type ImportTranslationsResult } from '@/actions/translations'
+import { formatNumber } from '@/lib/utils'
+
+interface TranslationFileActionsProps {
+	websiteId: number
+	targetLang: string
+	exportUrl: string // export route; ?format= is appended
+}
+
+// CAT tool formats can be re-imported; PO and JSON are export-only
+const EXPORT_FORMATS = [
+	{ value: 'xliff', label: 'XLIFF' },
+	{ value: 'csv', label: 'CSV' },
+	{ value: 'po', label: 'PO' },
+	{ value: 'json', label: 'JSON' },
+	{ value: 'json-nested', label: 'JSON by page' },
+]
+
+// Show at most this many rejected items (the rest are summarized)
+const MAX_INVALID_SHOWN = 10
+
+const linkClassName =
+	'px-4 py-2 text-sm font-medium rounded-md transition-colors bg-[var(--border)] text-[var(--text-heading)] hover:bg-[var(--border-hover)]'
+
+export function TranslationFileActions({ websiteId, targetLang, exportUrl }: TranslationFileActionsProps) {
+	const router = useRouter()
+	const fileInputRef = useRef<HTMLInputElement>(null)
+	const [isPending, startTransition] = useTransition()
+	const [result, setResult] = useState<ImportTranslationsResult | null>(null)
+	const [markReviewed, setMarkReviewed] = useState(false)
+
+	const handleFile = (file: File) => {
+		setResult(null)
+
+		startTransition(async () => {
+			const importResult = await importTranslations(websiteId, targetLang, file.name, await file.text(), markReviewed)
+			setResult(importResult)
+			if (importResult.success && importResult.updated) {
+				router.refresh()
+			}
+		})
+	}
+
+	const invalid = result?.invalid ?? []
+
+	return (
+		<div className="space-y-3">
+			<div className="flex flex-wrap items-center gap-2">
+				<span className="text-sm text-[var(--text-muted)]">Export</span>
+				{EXPORT_FORMATS.map((format) => (
+					<a key={format.value} href={`${exportUrl}?format=${format.value}`} className={linkClassName}>
+						{format.label}
+					</a>
+				))}
+				<Button onClick={() => fileInputRef.current?.click()} loading={isPending}>
+					Import
+				</Button>
+				<input
+					ref={fileInputRef}
+					type="file"
+					accept=".xlf,.xliff,.csv"
+					className="hidden"
+					onChange={(e) => {
+						const file = e.target.files?.[0]
+						e.target.value = '' // Allow re-importing the same file
+						if (file) handleFile(file)
+					}}
+				/>
+				<Switch
+					checked={markReviewed}
+					onChange={setMarkReviewed}
+					label="Mark items reviewed in the file as reviewed"
+					disabled={isPending}
+				/>
+			</div>
+
+			{result && !result.success && (
+				<div className="p-3 rounded-lg bg-[var(--error)]/10 text-[var(--error)] text-sm">
+					{result.error || 'Import failed'}
+				</div>
+			)}
+
+			{result?.success && (
+				<div className="p-3 rounded-lg bg-[var(--success-bg)] text-[var(--success-text)] text-sm">
+					Imported: {formatNumber(result.updated ?? 0)} updated, {formatNumber(result.unchanged ?? 0)}{' '}
+					unchanged, {formatNumber(result.skipped ?? 0)} not found
+					{invalid.length > 0 && `, ${formatNumber(invalid.length)} rejected`}
+				</div>
+			)}
+
+			{invalid.length > 0 && (
+				<ul className="p-3 rounded-lg bg-[var(--error)]/10 text-[var(--error)] text-sm list-disc list-inside">
+					{invalid.slice(0, MAX_INVALID_SHOWN).map((message) => (
+						<li key={message}>{message}</li>
+					))}
+					{invalid.length > MAX_INVALID_SHOWN && (
+						<li>and {formatNumber(invalid.length - MAX_INVALID_SHOWN)} more</li>
+					)}
+				</ul>
+			)}
+		</div>
+	)
+}
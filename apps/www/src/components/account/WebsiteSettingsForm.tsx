@@ -5,16 +5,47 @@ import { useRouter } from 'next/navigation'
 import { TagInput } from '@/components/ui/TagInput'
 import { Switch } from '@/components/ui/Switch'
 import { Button } from '@/components/ui/Modal'
+import { fieldClassName } from '@/components/ui/field-styles'
 import { saveWebsiteSettings } from '@/actions/website'
+import { getApiRuleError, getJsonPathError, getPageCacheVaryError, getTranslateAttrError } from '@/lib/validation'
+import { getLanguageName } from '@pantolingo/lang'
+import type { LangRobots, LangTone, RobotsPolicy, TranslationFormality, TranslationStyle } from '@pantolingo/db'
 
 interface WebsiteSettingsFormProps {
 	websiteId: number
 	initialSkipWords: string[]
 	initialSkipPath: string[]
 	initialSkipSelectors: string[]
+	initialTranslateAttrs: string[]
+	initialTranslateJson: string[]
+	initialTranslateApi: string[]
 	initialTranslatePath: boolean
+	initialPageCache: boolean
+	initialPageCacheVary: string[]
+	initialStaleIfError: boolean
+	initialOriginTimeout: number | null
+	initialLangTones: LangTone[]
+	initialLangRobots: LangRobots[]
 }
 
+const STYLE_OPTIONS: { value: TranslationStyle; label: string }[] = [
+	{ value: 'literal', label: 'Literal' },
+	{ value: 'balanced', label: 'Balanced' },
+	{ value: 'natural', label: 'Natural' },
+]
+
+const FORMALITY_OPTIONS: { value: TranslationFormality; label: string }[] = [
+	{ value: 'default', label: 'Match style' },
+	{ value: 'formal', label: 'Formal (usted, Sie, vous)' },
+	{ value: 'informal', label: 'Informal (tú, du, tu)' },
+]
+
+const ROBOTS_OPTIONS: { value: RobotsPolicy; label: string }[] = [
+	{ value: 'origin', label: 'Follow origin' },
+	{ value: 'index', label: 'Always index' },
+	{ value: 'noindex', label: 'Noindex' },
+]
+
 function parseSkipPath(skipPath: string[]): { contains: string[]; regex: string[] } {
 	const contains: string[] = []
 	const regex: string[] = []
@@ -99,12 +130,31 @@ function validateSelector(selector: string): string | null {
 	return null
 }
 
+function validateTranslateAttr(entry: string): string | null {
+	const error = getTranslateAttrError(entry)
+	if (error) {
+		return error
+	}
+
+	const at = entry.lastIndexOf('@')
+	return at > 0 ? validateSelector(entry.slice(0, at).trim()) : null
+}
+
 export function WebsiteSettingsForm({
 	websiteId,
 	initialSkipWords,
 	initialSkipPath,
 	initialSkipSelectors,
+	initialTranslateAttrs,
+	initialTranslateJson,
+	initialTranslateApi,
 	initialTranslatePath,
+	initialPageCache,
+	initialPageCacheVary,
+	initialStaleIfError,
+	initialOriginTimeout,
+	initialLangTones,
+	initialLangRobots,
 }: WebsiteSettingsFormProps) {
 	const router = useRouter()
 	const [isPending, startTransition] = useTransition()
@@ -117,7 +167,24 @@ export function WebsiteSettingsForm({
 	const [skipPathContains, setSkipPathContains] = useState(initialContains)
 	const [skipPathRegex, setSkipPathRegex] = useState(initialRegex)
 	const [skipSelectors, setSkipSelectors] = useState(initialSkipSelectors)
+	const [translateAttrs, setTranslateAttrs] = useState(initialTranslateAttrs)
+	const [translateJson, setTranslateJson] = useState(initialTranslateJson)
+	const [translateApi, setTranslateApi] = useState(initialTranslateApi)
 	const [translatePath, setTranslatePath] = useState(initialTranslatePath)
+	const [pageCache, setPageCache] = useState(initialPageCache)
+	const [pageCacheVary, setPageCacheVary] = useState(initialPageCacheVary)
+	const [staleIfError, setStaleIfError] = useState(initialStaleIfError)
+	const [originTimeout, setOriginTimeout] = useState(initialOriginTimeout?.toString() ?? '')
+	const [langTones, setLangTones] = useState(initialLangTones)
+	const [langRobots, setLangRobots] = useState(initialLangRobots)
+
+	const updateLangTone = (targetLang: string, patch: Partial<LangTone>) => {
+		setLangTones((prev) => prev.map((t) => (t.targetLang === targetLang ? { ...t, ...patch } : t)))
+	}
+
+	const updateLangRobots = (targetLang: string, robots: RobotsPolicy) => {
+		setLangRobots((prev) => prev.map((r) => (r.targetLang === targetLang ? { ...r, robots } : r)))
+	}
 
 	const handleSave = () => {
 		setError(null)
@@ -128,7 +195,16 @@ export function WebsiteSettingsForm({
 				skipWords,
 				skipPath: combineSkipPath(skipPathContains, skipPathRegex),
 				skipSelectors,
+				translateAttrs,
+				translateJson,
+				translateApi,
 				translatePath,
+				pageCache,
+				pageCacheVary,
+				staleIfError,
+				originTimeout: originTimeout.trim() ? Number(originTimeout) : null,
+				langTones,
+				langRobots,
 			})
 
 			if (result.success) {
@@ -221,6 +297,63 @@ export function WebsiteSettingsForm({
 				/>
 			</div>
 
+			{/* Translated Attributes */}
+			<div>
+				<label className="block mb-2 text-sm font-medium text-[var(--text-heading)]">
+					Translated Attributes
+				</label>
+				<p className="mb-2 text-xs text-[var(--text-muted)]">
+					Attributes to translate in addition to title, placeholder, aria-label, and alt. Use an attribute name
+					(e.g., data-tooltip) or limit it to matching elements with selector@attribute (e.g.,
+					input[type=&quot;submit&quot;]@value). value and content always need a selector
+				</p>
+				<TagInput
+					value={translateAttrs}
+					onChange={setTranslateAttrs}
+					placeholder="Add attributes..."
+					disabled={isPending}
+					validate={validateTranslateAttr}
+				/>
+			</div>
+
+			{/* Embedded JSON Paths */}
+			<div>
+				<label className="block mb-2 text-sm font-medium text-[var(--text-heading)]">
+					Embedded JSON Paths
+				</label>
+				<p className="mb-2 text-xs text-[var(--text-muted)]">
+					Text values to translate in page state scripts, so frameworks hydrate with translated content. Start with
+					the script id or window variable (* for any), then keys; * matches one key and ** any depth (e.g.,
+					__NEXT_DATA__.props.pageProps.**.title)
+				</p>
+				<TagInput
+					value={translateJson}
+					onChange={setTranslateJson}
+					placeholder="Add JSON paths..."
+					disabled={isPending}
+					validate={getJsonPathError}
+				/>
+			</div>
+
+			{/* API Translation Rules */}
+			<div>
+				<label className="block mb-2 text-sm font-medium text-[var(--text-heading)]">
+					API Translation Rules
+				</label>
+				<p className="mb-2 text-xs text-[var(--text-muted)]">
+					Text values to translate in JSON responses loaded by your pages. Enter a request path (* matches any
+					characters) and a JSON path separated by a space; * matches one key and ** any depth (e.g.,
+					/api/products* items.*.name)
+				</p>
+				<TagInput
+					value={translateApi}
+					onChange={setTranslateApi}
+					placeholder="Add API rules..."
+					disabled={isPending}
+					validate={getApiRuleError}
+				/>
+			</div>
+
 			{/* Translate Path */}
 			<div className="flex items-start justify-between gap-4">
 				<div>
@@ -238,6 +371,187 @@ export function WebsiteSettingsForm({
 				/>
 			</div>
 
+			{/* Page Cache */}
+			<div className="flex items-start justify-between gap-4">
+				<div>
+					<label className="block mb-1 text-sm font-medium text-[var(--text-heading)]">
+						Cache Translated Pages
+					</label>
+					<p className="text-xs text-[var(--text-muted)]">
+						Serve repeat requests from a cache of translated pages, following your site&apos;s Cache-Control and
+						ETag headers. Editing a translation clears the pages that show it
+					</p>
+				</div>
+				<Switch
+					checked={pageCache}
+					onChange={setPageCache}
+					disabled={isPending}
+				/>
+			</div>
+
+			{/* Page Cache Vary */}
+			{pageCache && (
+				<div>
+					<label className="block mb-2 text-sm font-medium text-[var(--text-heading)]">
+						Cache Vary
+					</label>
+					<p className="mb-2 text-xs text-[var(--text-muted)]">
+						Cookies or headers that change page content, cached separately (e.g., cookie:currency,
+						header:x-device)
+					</p>
+					<TagInput
+						value={pageCacheVary}
+						onChange={setPageCacheVary}
+						placeholder="Add cookie:name or header:name..."
+						disabled={isPending}
+						validate={getPageCacheVaryError}
+					/>
+				</div>
+			)}
+
+			{/* Stale If Error */}
+			<div className="flex items-start justify-between gap-4">
+				<div>
+					<label className="block mb-1 text-sm font-medium text-[var(--text-heading)]">
+						Serve Stale Pages on Origin Errors
+					</label>
+					<p className="text-xs text-[var(--text-muted)]">
+						When your site is down, slow, or returns a server error, show the last translated version of the
+						page instead of an error
+					</p>
+				</div>
+				<Switch
+					checked={staleIfError}
+					onChange={setStaleIfError}
+					disabled={isPending}
+				/>
+			</div>
+
+			{/* Origin Timeout */}
+			<div>
+				<label className="block mb-2 text-sm font-medium text-[var(--text-heading)]">
+					Origin Timeout
+				</label>
+				<p className="mb-2 text-xs text-[var(--text-muted)]">
+					Milliseconds to wait for your site before a page load fails (1000-30000). Form submissions are never
+					timed out; when empty, page loads wait indefinitely unless stale pages are enabled (then 5000)
+				</p>
+				<input
+					type="number"
+					value={originTimeout}
+					onChange={(e) => setOriginTimeout(e.target.value)}
+					placeholder="5000"
+					min={1000}
+					max={30000}
+					step={500}
+					disabled={isPending}
+					className={fieldClassName}
+				/>
+			</div>
+
+			{/* Language Tone */}
+			{langTones.length > 0 && (
+				<div>
+					<label className="block mb-2 text-sm font-medium text-[var(--text-heading)]">
+						Language Tone
+					</label>
+					<p className="mb-4 text-xs text-[var(--text-muted)]">
+						Style, formality, and brand voice used when translating each language
+					</p>
+					<div className="space-y-4">
+						{langTones.map((tone) => (
+							<div key={tone.targetLang} className="p-4 rounded-lg border border-[var(--border)] space-y-3">
+								<div className="text-sm font-medium text-[var(--text-heading)]">
+									{getLanguageName(tone.targetLang)}
+								</div>
+								<div className="grid grid-cols-2 gap-3">
+									<div>
+										<label className="block mb-1 text-xs text-[var(--text-muted)]">Style</label>
+										<select
+											value={tone.style}
+											onChange={(e) =>
+												updateLangTone(tone.targetLang, { style: e.target.value as TranslationStyle })
+											}
+											disabled={isPending}
+											className={fieldClassName}
+										>
+											{STYLE_OPTIONS.map((option) => (
+												<option key={option.value} value={option.value}>
+													{option.label}
+												</option>
+											))}
+										</select>
+									</div>
+									<div>
+										<label className="block mb-1 text-xs text-[var(--text-muted)]">Formality</label>
+										<select
+											value={tone.formality}
+											onChange={(e) =>
+												updateLangTone(tone.targetLang, {
+													formality: e.target.value as TranslationFormality,
+												})
+											}
+											disabled={isPending}
+											className={fieldClassName}
+										>
+											{FORMALITY_OPTIONS.map((option) => (
+												<option key={option.value} value={option.value}>
+													{option.label}
+												</option>
+											))}
+										</select>
+									</div>
+								</div>
+								<div>
+									<label className="block mb-1 text-xs text-[var(--text-muted)]">Brand Voice</label>
+									<textarea
+										value={tone.brandVoice ?? ''}
+										onChange={(e) => updateLangTone(tone.targetLang, { brandVoice: e.target.value })}
+										placeholder="e.g., Friendly and concise, avoid exclamation marks"
+										maxLength={500}
+										rows={2}
+										disabled={isPending}
+										className={fieldClassName}
+									/>
+								</div>
+							</div>
+						))}
+					</div>
+				</div>
+			)}
+
+			{/* Search Indexing */}
+			{langRobots.length > 0 && (
+				<div>
+					<label className="block mb-2 text-sm font-medium text-[var(--text-heading)]">
+						Search Indexing
+					</label>
+					<p className="mb-4 text-xs text-[var(--text-muted)]">
+						Robots directives for each language host. Follow origin keeps the origin&apos;s noindex; Always index
+						removes it; Noindex hides the language from search engines.
+					</p>
+					<div className="space-y-3">
+						{langRobots.map((entry) => (
+							<div key={entry.targetLang} className="grid grid-cols-2 gap-3 items-center">
+								<div className="text-sm text-[var(--text-heading)]">{getLanguageName(entry.targetLang)}</div>
+								<select
+									value={entry.robots}
+									onChange={(e) => updateLangRobots(entry.targetLang, e.target.value as RobotsPolicy)}
+									disabled={isPending}
+									className={fieldClassName}
+								>
+									{ROBOTS_OPTIONS.map((option) => (
+										<option key={option.value} value={option.value}>
+											{option.label}
+										</option>
+									))}
+								</select>
+							</div>
+						))}
+					</div>
+				</div>
+			)}
+
 			{/* Save Button */}
 			<div className="pt-4 border-t border-[var(--border)]">
 				<Button
@@ -0,0 +1,4 @@
+// Shared class names for dashboard form fields (inputs, selects, textareas)
+
+export const fieldClassName =
+	'w-full px-3 py-2 text-sm rounded-md border border-[var(--border)] bg-[var(--input-bg)] text-[var(--text-body)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)] focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed'
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest'
+import {
+	toXliffInline,
+	fromXliffInline,
+	buildXliff,
+	parseXliff,
+	buildCsv,
+	parseCsv,
+	getTranslationFileFormat,
+	buildPo,
+	buildJson,
+	buildNestedJson,
+	toPoLocale,
+} from './translation-files.js'
+import type { TranslationExportItem } from '@pantolingo/db'
+
+const items: TranslationExportItem[] = [
+	{ type: 'segment', id: 12, source: 'Price [N1] & tax', target: 'Precio [N1] e impuestos', reviewed: true },
+	{
+		type: 'segment',
+		id: 13,
+		source: 'Click [HA1]here, "now"[/HA1]',
+		target: 'Haz clic [HA1]aquí, "ya"[/HA1]',
+		reviewed: false,
+	},
+	{ type: 'path', id: 4, source: '/about-us', target: '/sobre-nosotros', reviewed: false },
+]
+
+describe('XLIFF inline codes', () => {
+	it('converts standalone placeholders to <ph> and nested pairs to <pc>', () => {
+		expect(toXliffInline('Buy [HB1][N1] items[/HB1] <now>')).toBe(
+			'Buy <pc id="HB1" dispStart="[HB1]" dispEnd="[/HB1]"><ph id="N1" disp="[N1]"/> items</pc> &lt;now&gt;'
+		)
+	})
+
+	it('falls back to <sc>/<ec> when paired tags interleave', () => {
+		expect(toXliffInline('[HB1]a[HA2]b[/HB1]c[/HA2]')).toBe(
+			'<sc id="HB1" disp="[HB1]"/>a<sc id="HA2" disp="[HA2]"/>b<ec startRef="HB1" disp="[/HB1]"/>c<ec startRef="HA2" disp="[/HA2]"/>'
+		)
+	})
+
+	it('round-trips placeholder text', () => {
+		for (const text of ['Buy [HB1][N1] items[/HB1] & save', '[HB1]a[HA2]b[/HB1]c[/HA2]', 'Plain "text"']) {
+			expect(fromXliffInline(toXliffInline(text))).toBe(text)
+		}
+	})
+
+	it('drops markup added by CAT tools but keeps its text', () => {
+		expect(fromXliffInline('<mrk id="m1" translate="yes">Hola</mrk> <pc id="HB1">mundo</pc>')).toBe(
+			'Hola [HB1]mundo[/HB1]'
+		)
+	})
+})
+
+describe('XLIFF documents', () => {
+	it('round-trips items through buildXliff and parseXliff', () => {
+		const xliff = buildXliff(items, 'en-us', 'es-mx')
+		expect(xliff).toContain('version="2.0" srcLang="en-us" trgLang="es-mx"')
+
+		const parsed = parseXliff(xliff)
+		expect(parsed.error).toBeUndefined()
+		expect(parsed.targetLang).toBe('es-mx')
+		expect(parsed.entries).toEqual(
+			items.map(({ type, id, target, reviewed }) => ({ type, id, target, reviewed }))
+		)
+	})
+
+	it('joins units split into several segments and skips empty targets', () => {
+		const xliff = `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="en" trgLang="fr">
+			<file id="segments">
+				<unit id="segment-1">
+					<segment state="final"><source>One.</source><target>Un.</target></segment>
+					<segment state="reviewed"><source> Two.</source><target> Deux.</target></segment>
+				</unit>
+				<unit id="segment-2"><segment><source>Three</source><target/></segment></unit>
+			</file>
+		</xliff>`
+
+		expect(parseXliff(xliff).entries).toEqual([{ type: 'segment', id: 1, target: 'Un. Deux.', reviewed: true }])
+	})
+
+	it('rejects files that are not XLIFF 2.0', () => {
+		expect(parseXliff('<xliff version="1.2"></xliff>').error).toBe('Not an XLIFF 2.0 file')
+	})
+})
+
+describe('CSV', () => {
+	it('round-trips items with quotes, commas, and newlines', () => {
+		const withNewline = [...items, { ...items[0], id: 14, target: 'Línea uno\nLínea dos' }]
+		const parsed = parseCsv(buildCsv(withNewline))
+
+		expect(parsed.entries).toEqual(
+			withNewline.map(({ type, id, target, reviewed }) => ({ type, id, target, reviewed }))
+		)
+	})
+
+	it('accepts columns in any order and skips rows without a target', () => {
+		const csv = 'id,target,type\n5,Hola,segment\n6,,segment\n7,Adiós,unknown\n'
+		expect(parseCsv(csv).entries).toEqual([{ type: 'segment', id: 5, target: 'Hola', reviewed: false }])
+	})
+
+	it('requires type, id, and target columns', () => {
+		expect(parseCsv('id,text\n1,Hola').error).toBe('CSV must have type, id, and target columns')
+	})
+})
+
+describe('getTranslationFileFormat', () => {
+	it('detects format from the file extension', () => {
+		expect(getTranslationFileFormat('site-es.XLF')).toBe('xliff')
+		expect(getTranslationFileFormat('site-es.xliff')).toBe('xliff')
+		expect(getTranslationFileFormat('site-es.csv')).toBe('csv')
+		expect(getTranslationFileFormat('site-es.txt')).toBeNull()
+	})
+})
+
+describe('Gettext PO', () => {
+	const segmentPaths = new Map([[12, ['/cart', '/checkout']]])
+
+	it('writes a header and one entry per segment with page references', () => {
+		const po = buildPo(items, segmentPaths, 'es-mx', 'example.com')
+
+		expect(po).toContain('"Language: es_MX\\n"')
+		expect(po).toContain('#: /cart\n#: /checkout\nmsgid "Price [N1] & tax"\nmsgstr "Precio [N1] e impuestos"')
+		expect(po).toContain('msgid "Click [HA1]here, \\"now\\"[/HA1]"')
+		expect(po).not.toContain('/about-us') // paths are not exported
+	})
+
+	it('splits multi-line text after each newline', () => {
+		const po = buildPo([{ ...items[0], source: 'One\nTwo', target: 'Uno\nDos' }], new Map(), 'es', 'example.com')
+		expect(po).toContain('msgid ""\n"One\\n"\n"Two"\nmsgstr ""\n"Uno\\n"\n"Dos"')
+	})
+
+	it('converts language codes to gettext locales', () => {
+		expect(toPoLocale('es-mx')).toBe('es_MX')
+		expect(toPoLocale('zh-hant-tw')).toBe('zh_Hant_TW')
+		expect(toPoLocale('fr')).toBe('fr')
+	})
+})
+
+describe('JSON', () => {
+	it('writes a flat source -> translation map of segments', () => {
+		expect(JSON.parse(buildJson(items))).toEqual({
+			'Price [N1] & tax': 'Precio [N1] e impuestos',
+			'Click [HA1]here, "now"[/HA1]': 'Haz clic [HA1]aquí, "ya"[/HA1]',
+		})
+	})
+
+	it('groups segments by page, with unlinked segments under ""', () => {
+		const nested = JSON.parse(buildNestedJson(items, new Map([[12, ['/cart', '/checkout']]])))
+
+		expect(Object.keys(nested)).toEqual(['', '/cart', '/checkout'])
+		expect(nested['/cart']).toEqual({ 'Price [N1] & tax': 'Precio [N1] e impuestos' })
+		expect(nested['']).toEqual({ 'Click [HA1]here, "now"[/HA1]': 'Haz clic [HA1]aquí, "ya"[/HA1]' })
+	})
+})
@@ -0,0 +1,444 @@
+/**
+ * Translation file formats for round-trips through CAT tools
+ *
+ * XLIFF 2.0: placeholders become inline codes so CAT tools protect them
+ * - Standalone [N1] -> <ph id="N1" disp="[N1]"/>
+ * - Paired [HB1]...[/HB1] -> <pc id="HB1" dispStart="[HB1]" dispEnd="[/HB1]">...</pc>
+ *   (<sc>/<ec> when the text's paired tags don't nest cleanly)
+ *
+ * CSV: placeholders stay as literal tokens; columns are type,id,source,target,reviewed
+ *
+ * Gettext PO and JSON (export only): segment translations for reuse in native apps,
+ * keyed by source text with placeholder tokens left as-is
+ *
+ * Imports only ever mark items reviewed (never unmark), so a round-trip through a
+ * tool that drops review state leaves existing reviews intact
+ */
+
+import { PLACEHOLDER_REGEX, isPairedKind } from '../components/ui/placeholder-shared'
+import type { TranslationExportItem } from '@pantolingo/db'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type TranslationFileFormat = 'xliff' | 'csv'
+
+/** Import formats plus export-only formats ('json' is flat; 'json-nested' groups by page path) */
+export type TranslationExportFormat = TranslationFileFormat | 'po' | 'json' | 'json-nested'
+
+export interface TranslationFileEntry {
+	type: 'segment' | 'path'
+	id: number
+	target: string
+	reviewed: boolean // true = mark reviewed, false = leave review state unchanged
+}
+
+export interface ParsedTranslationFile {
+	entries: TranslationFileEntry[]
+	targetLang?: string // XLIFF trgLang (CSV has none)
+	error?: string
+}
+
+/**
+ * Detect file format from a file name
+ */
+export function getTranslationFileFormat(fileName: string): TranslationFileFormat | null {
+	const lower = fileName.toLowerCase()
+	if (lower.endsWith('.xlf') || lower.endsWith('.xliff')) return 'xliff'
+	if (lower.endsWith('.csv')) return 'csv'
+	return null
+}
+
+/**
+ * Parse an uploaded translation file by format
+ */
+export function parseTranslationFile(format: TranslationFileFormat, content: string): ParsedTranslationFile {
+	return format === 'xliff' ? parseXliff(content) : parseCsv(content)
+}
+
+// =============================================================================
+// XLIFF 2.0
+// =============================================================================
+
+function escapeXml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function unescapeXml(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (match, entity: string) => {
+		const lower = entity.toLowerCase()
+		if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16))
+		if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10))
+		const named: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }
+		return named[lower] ?? match
+	})
+}
+
+function getAttribute(attributes: string, name: string): string | null {
+	const match = attributes.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`))
+	return match ? unescapeXml(match[1]) : null
+}
+
+/**
+ * Check that paired placeholders open and close in LIFO order
+ */
+function isWellNested(text: string): boolean {
+	const stack: string[] = []
+	for (const match of text.matchAll(new RegExp(PLACEHOLDER_REGEX.source, 'g'))) {
+		const kindPart = match[1]
+		const isClose = kindPart.startsWith('/')
+		const kind = isClose ? kindPart.slice(1) : kindPart
+		if (!isPairedKind(kind)) continue
+
+		const id = `${kind}${match[2]}`
+		if (!isClose) {
+			stack.push(id)
+		} else if (stack.pop() !== id) {
+			return false
+		}
+	}
+	return stack.length === 0
+}
+
+/**
+ * Convert placeholder text to XLIFF inline content
+ */
+export function toXliffInline(text: string): string {
+	const nested = isWellNested(text)
+	const regex = new RegExp(PLACEHOLDER_REGEX.source, 'g')
+	let result = ''
+	let lastIndex = 0
+	let match: RegExpExecArray | null
+
+	while ((match = regex.exec(text)) !== null) {
+		result += escapeXml(text.slice(lastIndex, match.index))
+		lastIndex = regex.lastIndex
+
+		const kindPart = match[1]
+		const isClose = kindPart.startsWith('/')
+		const kind = isClose ? kindPart.slice(1) : kindPart
+		const id = `${kind}${match[2]}`
+
+		if (!isPairedKind(kind)) {
+			result += isClose ? escapeXml(match[0]) : `<ph id="${id}" disp="${escapeXml(match[0])}"/>`
+		} else if (nested) {
+			result += isClose ? '</pc>' : `<pc id="${id}" dispStart="[${id}]" dispEnd="[/${id}]">`
+		} else {
+			result += isClose ? `<ec startRef="${id}" disp="[/${id}]"/>` : `<sc id="${id}" disp="[${id}]"/>`
+		}
+	}
+
+	return result + escapeXml(text.slice(lastIndex))
+}
+
+/**
+ * Convert XLIFF inline content back to placeholder text
+ * Inline codes become tokens; other markup a CAT tool adds (e.g. <mrk>) is dropped, keeping its text
+ */
+export function fromXliffInline(xml: string): string {
+	const tagRegex = /<(\/?)([A-Za-z][\w:.-]*)([^>]*?)(\/?)>/g
+	const openElements: (string | null)[] = [] // pc id, or null for other elements
+	let result = ''
+	let lastIndex = 0
+	let match: RegExpExecArray | null
+
+	while ((match = tagRegex.exec(xml)) !== null) {
+		result += unescapeXml(xml.slice(lastIndex, match.index))
+		lastIndex = tagRegex.lastIndex
+
+		const [, closing, name, attributes, selfClosing] = match
+		const localName = name.includes(':') ? name.split(':').pop()! : name
+
+		if (closing) {
+			const pcId = openElements.pop()
+			if (pcId) result += `[/${pcId}]`
+			continue
+		}
+
+		if (localName === 'ph' || localName === 'sc') {
+			const id = getAttribute(attributes, 'id')
+			if (id) result += `[${id}]`
+		} else if (localName === 'ec') {
+			const id = getAttribute(attributes, 'startRef') ?? getAttribute(attributes, 'id')
+			if (id) result += `[/${id}]`
+		} else if (localName === 'pc') {
+			const id = getAttribute(attributes, 'id')
+			if (id) result += `[${id}]`
+			if (!selfClosing) openElements.push(id)
+			else if (id) result += `[/${id}]`
+		} else if (!selfClosing) {
+			openElements.push(null)
+		}
+	}
+
+	return result + unescapeXml(xml.slice(lastIndex))
+}
+
+function unitId(item: Pick<TranslationExportItem, 'type' | 'id'>): string {
+	return `${item.type}-${item.id}`
+}
+
+/**
+ * Build an XLIFF 2.0 document (one <file> per item type)
+ */
+export function buildXliff(items: TranslationExportItem[], sourceLang: string, targetLang: string): string {
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		`<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${escapeXml(sourceLang)}" trgLang="${escapeXml(targetLang)}">`,
+	]
+
+	for (const type of ['segment', 'path'] as const) {
+		const ofType = items.filter((item) => item.type === type)
+		if (ofType.length === 0) continue
+
+		lines.push(`\t<file id="${type}s">`)
+		for (const item of ofType) {
+			lines.push(
+				`\t\t<unit id="${unitId(item)}">`,
+				`\t\t\t<segment state="${item.reviewed ? 'reviewed' : 'translated'}">`,
+				`\t\t\t\t<source>${toXliffInline(item.source)}</source>`,
+				`\t\t\t\t<target>${toXliffInline(item.target)}</target>`,
+				'\t\t\t</segment>',
+				'\t\t</unit>'
+			)
+		}
+		lines.push('\t</file>')
+	}
+
+	lines.push('</xliff>', '')
+	return lines.join('\n')
+}
+
+/**
+ * Parse an XLIFF 2.0 document into entries
+ * Units with several <segment> elements (split by a CAT tool) are joined back together
+ */
+export function parseXliff(content: string): ParsedTranslationFile {
+	const root = content.match(/<xliff\b([^>]*)>/)
+	if (!root || !getAttribute(root[1], 'version')?.startsWith('2.')) {
+		return { entries: [], error: 'Not an XLIFF 2.0 file' }
+	}
+
+	const entries: TranslationFileEntry[] = []
+	const unitRegex = /<unit\b([^>]*)>([\s\S]*?)<\/unit>/g
+	let unit: RegExpExecArray | null
+
+	while ((unit = unitRegex.exec(content)) !== null) {
+		const idMatch = getAttribute(unit[1], 'id')?.match(/^(segment|path)-(\d+)$/)
+		if (!idMatch) continue
+
+		const body = unit[2]
+		const targets = [...body.matchAll(/<target\b[^>]*>([\s\S]*?)<\/target>/g)].map((m) => fromXliffInline(m[1]))
+		const target = targets.join('')
+		if (!target.trim()) continue
+
+		const states = [...body.matchAll(/<segment\b([^>]*)>/g)].map((m) => getAttribute(m[1], 'state'))
+		const reviewed = states.length > 0 && states.every((state) => state === 'reviewed' || state === 'final')
+
+		entries.push({ type: idMatch[1] as 'segment' | 'path', id: parseInt(idMatch[2], 10), target, reviewed })
+	}
+
+	return { entries, targetLang: getAttribute(root[1], 'trgLang') ?? undefined }
+}
+
+// =============================================================================
+// CSV (RFC 4180)
+// =============================================================================
+
+const CSV_COLUMNS = ['type', 'id', 'source', 'target', 'reviewed'] as const
+
+function escapeCsvField(value: string): string {
+	return /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Build a CSV file (UTF-8 BOM so spreadsheet apps detect the encoding)
+ */
+export function buildCsv(items: TranslationExportItem[]): string {
+	const rows = [CSV_COLUMNS.join(',')]
+	for (const item of items) {
+		rows.push(
+			[item.type, String(item.id), item.source, item.target, item.reviewed ? 'yes' : 'no']
+				.map(escapeCsvField)
+				.join(',')
+		)
+	}
+	return '\uFEFF' + rows.join('\r\n') + '\r\n'
+}
+
+/**
+ * Split CSV content into rows of fields (handles quoted commas, quotes, and newlines)
+ */
+function readCsvRows(content: string): string[][] {
+	const rows: string[][] = []
+	let row: string[] = []
+	let field = ''
+	let inQuotes = false
+
+	for (let i = 0; i < content.length; i++) {
+		const char = content[i]
+
+		if (inQuotes) {
+			if (char === '"' && content[i + 1] === '"') {
+				field += '"'
+				i++
+			} else if (char === '"') {
+				inQuotes = false
+			} else {
+				field += char
+			}
+		} else if (char === '"') {
+			inQuotes = true
+		} else if (char === ',') {
+			row.push(field)
+			field = ''
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && content[i + 1] === '\n') i++
+			row.push(field)
+			rows.push(row)
+			row = []
+			field = ''
+		} else {
+			field += char
+		}
+	}
+
+	if (field || row.length > 0) {
+		row.push(field)
+		rows.push(row)
+	}
+	return rows
+}
+
+/**
+ * Parse a CSV file into entries (header row required; column order is free)
+ */
+export function parseCsv(content: string): ParsedTranslationFile {
+	const rows = readCsvRows(content.replace(/^\uFEFF/, ''))
+	const header = rows.shift()?.map((name) => name.trim().toLowerCase()) ?? []
+
+	const typeCol = header.indexOf('type')
+	const idCol = header.indexOf('id')
+	const targetCol = header.indexOf('target')
+	const reviewedCol = header.indexOf('reviewed')
+	if (typeCol === -1 || idCol === -1 || targetCol === -1) {
+		return { entries: [], error: 'CSV must have type, id, and target columns' }
+	}
+
+	const entries: TranslationFileEntry[] = []
+	for (const row of rows) {
+		const type = row[typeCol]?.trim()
+		const id = parseInt(row[idCol] ?? '', 10)
+		const target = row[targetCol] ?? ''
+		if ((type !== 'segment' && type !== 'path') || !id || !target.trim()) continue
+
+		const reviewed = reviewedCol !== -1 && ['yes', 'true', '1'].includes((row[reviewedCol] ?? '').trim().toLowerCase())
+		entries.push({ type, id, target, reviewed })
+	}
+
+	return { entries }
+}
+
+// =============================================================================
+// Gettext PO (export only)
+// =============================================================================
+
+/**
+ * Convert a BCP 47 code to a gettext locale (es-mx -> es_MX, zh-hant-tw -> zh_Hant_TW)
+ */
+export function toPoLocale(lang: string): string {
+	const [language, ...subtags] = lang.split('-')
+	const formatted = subtags.map((tag) =>
+		tag.length === 4 ? tag[0].toUpperCase() + tag.slice(1).toLowerCase() : tag.toUpperCase()
+	)
+	return [language.toLowerCase(), ...formatted].join('_')
+}
+
+function escapePo(text: string): string {
+	return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\t/g, '\\t').replace(/\r/g, '\\r').replace(/\n/g, '\\n')
+}
+
+/**
+ * Format a msgid/msgstr value (multi-line text is split after each newline, as msgcat does)
+ */
+function poString(keyword: string, text: string): string {
+	const lines = text.split(/(?<=\n)/)
+	if (lines.length === 1) return `${keyword} "${escapePo(text)}"`
+	return [`${keyword} ""`, ...lines.map((line) => `"${escapePo(line)}"`)].join('\n')
+}
+
+/**
+ * Build a gettext .po file of segment translations
+ * Pages a segment appears on become #: references
+ *
+ * @param items - Export items (paths are skipped)
+ * @param segmentPaths - Map of website segment ID -> paths (from getSegmentPaths)
+ * @param targetLang - Target language code
+ * @param hostname - Website hostname (for the header comment)
+ */
+export function buildPo(
+	items: TranslationExportItem[],
+	segmentPaths: Map<number, string[]>,
+	targetLang: string,
+	hostname: string
+): string {
+	const blocks = [
+		[
+			`# ${hostname} translations (${targetLang})`,
+			'msgid ""',
+			'msgstr ""',
+			'"MIME-Version: 1.0\\n"',
+			'"Content-Type: text/plain; charset=UTF-8\\n"',
+			'"Content-Transfer-Encoding: 8bit\\n"',
+			`"Language: ${toPoLocale(targetLang)}\\n"`,
+		].join('\n'),
+	]
+
+	for (const item of items) {
+		if (item.type !== 'segment') continue
+
+		const references = (segmentPaths.get(item.id) ?? []).map((path) => `#: ${path}`)
+		blocks.push([...references, poString('msgid', item.source), poString('msgstr', item.target)].join('\n'))
+	}
+
+	return blocks.join('\n\n') + '\n'
+}
+
+// =============================================================================
+// JSON (export only)
+// =============================================================================
+
+/**
+ * Build a flat JSON key file: { "source text": "translation" }
+ */
+export function buildJson(items: TranslationExportItem[]): string {
+	const translations: Record<string, string> = {}
+	for (const item of items) {
+		if (item.type === 'segment') translations[item.source] = item.target
+	}
+	return JSON.stringify(translations, null, 2) + '\n'
+}
+
+/**
+ * Build a JSON key file grouped by page: { "/path": { "source text": "translation" } }
+ * Segments on several pages repeat under each; segments not linked to a page go under ""
+ *
+ * @param items - Export items (paths are skipped)
+ * @param segmentPaths - Map of website segment ID -> paths (from getSegmentPaths)
+ */
+export function buildNestedJson(items: TranslationExportItem[], segmentPaths: Map<number, string[]>): string {
+	const pages: Record<string, Record<string, string>> = {}
+	for (const item of items) {
+		if (item.type !== 'segment') continue
+
+		const paths = segmentPaths.get(item.id) ?? ['']
+		for (const path of paths) {
+			pages[path] ??= {}
+			pages[path][item.source] = item.target
+		}
+	}
+
+	const sorted = Object.fromEntries(Object.keys(pages).sort().map((path) => [path, pages[path]]))
+	return JSON.stringify(sorted, null, 2) + '\n'
+}
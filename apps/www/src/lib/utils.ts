@@ -16,6 +16,14 @@ export function formatNumber(num: number): string {
 	return num.toLocaleString()
 }
 
+/**
+ * Format a date as a fixed UTC timestamp (e.g., "2025-01-31 14:05 UTC")
+ * Server and client render the same text, so it's safe in hydrated components
+ */
+export function formatDate(date: Date): string {
+	return `${new Date(date).toISOString().slice(0, 16).replace('T', ' ')} UTC`
+}
+
 /**
  * Truncate text with ellipsis
  */
@@ -3,6 +3,12 @@
  * Used for both client-side (UX) and server-side (security) validation
  */
 
+// Segment comment length limit (characters)
+export const MAX_COMMENT_LENGTH = 2000
+
+// Image override URL length limit (characters)
+export const MAX_URL_LENGTH = 2000
+
 /**
  * Email validation using simple regex
  * Checks basic format: something@something.something
@@ -41,3 +47,115 @@ export function getSafeCallbackUrl(url: string | null, fallback = '/account'): s
 	}
 	return fallback
 }
+
+// Attributes that hold URLs, code, or markup identity - translating them would break the page
+const RESERVED_TRANSLATE_ATTRS = new Set([
+	'href',
+	'src',
+	'srcset',
+	'action',
+	'formaction',
+	'style',
+	'class',
+	'id',
+	'name',
+	'type',
+	'rel',
+	'lang',
+])
+
+// Unscoped, these would translate form values and every <meta> tag
+const SELECTOR_REQUIRED_ATTRS = new Set(['value', 'content'])
+
+/**
+ * Validate a translatable attribute entry: an attribute name, or selector@attribute
+ * Returns an error message, or null if valid (the selector itself is checked separately)
+ */
+export function getTranslateAttrError(entry: string): string | null {
+	if (entry.length > 200) {
+		return 'Attribute too long (max 200 characters)'
+	}
+
+	const at = entry.lastIndexOf('@')
+	const attr = entry.slice(at + 1).trim().toLowerCase()
+
+	if (at === 0 || (at > 0 && !entry.slice(0, at).trim())) {
+		return 'Selector missing before @'
+	}
+	if (!/^[a-z_][\w.:-]*$/.test(attr)) {
+		return 'Invalid attribute name'
+	}
+	if (RESERVED_TRANSLATE_ATTRS.has(attr) || attr.startsWith('on') || attr.startsWith('data-pantolingo')) {
+		return 'This attribute cannot be translated'
+	}
+	if (SELECTOR_REQUIRED_ATTRS.has(attr) && at < 0) {
+		return `${attr} needs a selector (e.g., ${attr === 'value' ? 'input[type=submit]@value' : 'meta[name=author]@content'})`
+	}
+
+	return null
+}
+
+/**
+ * Validate an embedded JSON path: <root>.<key>... (root is a script id, window variable, or *)
+ * Returns an error message, or null if valid
+ */
+export function getJsonPathError(path: string): string | null {
+	if (path.length > 200) {
+		return 'Path too long (max 200 characters)'
+	}
+
+	const [root, ...keys] = path.split('.')
+	if (!root || keys.length === 0) {
+		return 'Path needs a script name and at least one key (e.g., __NEXT_DATA__.props.title)'
+	}
+	if (root !== '*' && !/^[A-Za-z_$][\w$-]*$/.test(root)) {
+		return 'Invalid script name'
+	}
+	if (keys.some((key) => !key || /\s/.test(key))) {
+		return 'Invalid key in path'
+	}
+	if (keys.every((key) => key === '*' || key === '**')) {
+		return 'Path must name at least one key'
+	}
+
+	return null
+}
+
+/**
+ * Validate a JSON API rule: "<path pattern> <json path>" (e.g., /api/products* items.*.name)
+ * Returns an error message, or null if valid
+ */
+export function getApiRuleError(rule: string): string | null {
+	if (rule.length > 300) {
+		return 'Rule too long (max 300 characters)'
+	}
+
+	const parts = rule.trim().split(/\s+/)
+	if (parts.length !== 2) {
+		return 'Rule needs a path and a JSON path separated by a space (e.g., /api/products* items.*.name)'
+	}
+	if (!parts[0].startsWith('/')) {
+		return 'Path must start with /'
+	}
+	if (parts[1].split('.').some((key) => !key)) {
+		return 'Invalid key in JSON path'
+	}
+
+	return null
+}
+
+/**
+ * Validate a page cache vary entry: cookie:<name> or header:<name>
+ * Returns an error message, or null if valid
+ */
+export function getPageCacheVaryError(entry: string): string | null {
+	const match = entry.match(/^(cookie|header):(.+)$/i)
+	if (!match) {
+		return 'Use cookie:<name> or header:<name> (e.g., cookie:currency)'
+	}
+	if (!/^[!#$%&'*+.^_`|~\w-]+$/.test(match[2].trim())) {
+		return 'Invalid cookie or header name'
+	}
+
+	return null
+}
@@ -0,0 +1,7 @@
+-- Per-website translation provider selection
+-- translation_provider: openrouter | anthropic | openai | deepl | mock
+-- translation_model / translation_endpoint: NULL = provider default
+ALTER TABLE website
+	ADD COLUMN IF NOT EXISTS translation_provider TEXT NOT NULL DEFAULT 'openrouter',
+	ADD COLUMN IF NOT EXISTS translation_model TEXT,
+	ADD COLUMN IF NOT EXISTS translation_endpoint TEXT;
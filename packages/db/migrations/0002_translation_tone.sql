@@ -0,0 +1,8 @@
+-- Per-language tone settings injected into the segment prompt
+-- style: literal | balanced | natural
+-- formality: default | formal | informal (default = follow style)
+-- brand_voice: free-text tone notes (NULL = none)
+ALTER TABLE translation
+	ADD COLUMN IF NOT EXISTS style TEXT NOT NULL DEFAULT 'balanced',
+	ADD COLUMN IF NOT EXISTS formality TEXT NOT NULL DEFAULT 'default',
+	ADD COLUMN IF NOT EXISTS brand_voice TEXT;
@@ -0,0 +1,14 @@
+-- Glossary: required translation for a source term, per website and target language
+CREATE TABLE IF NOT EXISTS glossary_term (
+	id SERIAL PRIMARY KEY,
+	website_id INTEGER NOT NULL REFERENCES website(id) ON DELETE CASCADE,
+	lang TEXT NOT NULL,
+	source_term TEXT NOT NULL,
+	target_term TEXT NOT NULL,
+	case_sensitive BOOLEAN NOT NULL DEFAULT FALSE,
+	created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+	updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+	UNIQUE (website_id, lang, source_term)
+);
+
+CREATE INDEX IF NOT EXISTS glossary_term_website_lang_idx ON glossary_term (website_id, lang);
@@ -0,0 +1,5 @@
+-- Fuzzy translation memory: trigram index over source text
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS website_segment_text_trgm_idx
+	ON website_segment USING gin (text gin_trgm_ops);
@@ -0,0 +1,7 @@
+-- Source-content change detection: when a segment was last found on a page,
+-- and when it was removed from the last page that used it (NULL = still on the site)
+ALTER TABLE website_segment
+	ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ,
+	ADD COLUMN IF NOT EXISTS stale_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS website_segment_stale_idx ON website_segment (website_id) WHERE stale_at IS NOT NULL;
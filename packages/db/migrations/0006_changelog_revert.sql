@@ -0,0 +1,6 @@
+-- Changelog viewer: ordered history per website, and reverts linked to the entry they undo
+ALTER TABLE changelog
+	ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+	ADD COLUMN IF NOT EXISTS reverts_id INTEGER REFERENCES changelog(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS changelog_website_created_idx ON changelog (website_id, created_at DESC);
@@ -0,0 +1,23 @@
+-- Review workflow: machine -> needs_review -> approved | rejected (sent back to the translator)
+-- reviewed_at stays set exactly while a translation is approved
+ALTER TABLE translation_segment
+	ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'machine'
+		CHECK (status IN ('machine', 'needs_review', 'approved', 'rejected')),
+	ADD COLUMN IF NOT EXISTS assignee_account_id INTEGER REFERENCES account(id) ON DELETE SET NULL;
+
+-- Existing reviews carry over as approved
+UPDATE translation_segment SET status = 'approved' WHERE reviewed_at IS NOT NULL AND status = 'machine';
+
+CREATE INDEX IF NOT EXISTS translation_segment_assignee_idx
+	ON translation_segment (assignee_account_id) WHERE assignee_account_id IS NOT NULL;
+
+-- Comment threads per segment translation
+CREATE TABLE IF NOT EXISTS segment_comment (
+	id SERIAL PRIMARY KEY,
+	translation_segment_id INTEGER NOT NULL REFERENCES translation_segment(id) ON DELETE CASCADE,
+	account_id INTEGER REFERENCES account(id) ON DELETE SET NULL,
+	body TEXT NOT NULL,
+	created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS segment_comment_translation_idx ON segment_comment (translation_segment_id, created_at);
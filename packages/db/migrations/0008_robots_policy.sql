@@ -0,0 +1,4 @@
+-- Per-language search engine indexing policy for the translated host
+-- robots: origin (keep the origin's robots directives) | index (drop noindex) | noindex (always noindex)
+ALTER TABLE translation
+	ADD COLUMN IF NOT EXISTS robots TEXT NOT NULL DEFAULT 'origin';
@@ -0,0 +1,15 @@
+-- Image overrides: localized replacement for an origin image, per website and target language
+-- original_url: absolute URL or root-relative path of the origin image
+-- localized_url: URL served instead on the language host (absolute or root-relative)
+CREATE TABLE IF NOT EXISTS image_override (
+	id SERIAL PRIMARY KEY,
+	website_id INTEGER NOT NULL REFERENCES website(id) ON DELETE CASCADE,
+	lang TEXT NOT NULL,
+	original_url TEXT NOT NULL,
+	localized_url TEXT NOT NULL,
+	created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+	updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+	UNIQUE (website_id, lang, original_url)
+);
+
+CREATE INDEX IF NOT EXISTS image_override_website_lang_idx ON image_override (website_id, lang);
@@ -0,0 +1,4 @@
+-- Per-website translatable attributes, added to the built-in list (title, placeholder, aria-label, alt)
+-- Each entry is an attribute name (e.g. data-tooltip) or selector@attribute (e.g. input[type="submit"]@value)
+ALTER TABLE website
+	ADD COLUMN IF NOT EXISTS translate_attrs TEXT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,4 @@
+-- Per-website JSON paths into embedded JSON state (__NEXT_DATA__, <script type="application/json">, window.X = {...})
+-- Each entry is <root>.<key>... where root is the script id or window variable (* = any), e.g. __NEXT_DATA__.props.pageProps.**.title
+ALTER TABLE website
+	ADD COLUMN IF NOT EXISTS translate_json TEXT[] NOT NULL DEFAULT '{}';
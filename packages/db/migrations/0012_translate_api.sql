@@ -0,0 +1,5 @@
+-- Per-website JSON API translation rules (XHR/fetch responses translated by the proxy)
+-- Each entry is "<path pattern> <json path>": * in the path matches any characters, the JSON path is <key>.<key>...
+-- with * for one key and ** for any depth, e.g. "/api/products* items.*.name"
+ALTER TABLE website
+	ADD COLUMN IF NOT EXISTS translate_api TEXT[] NOT NULL DEFAULT '{}';
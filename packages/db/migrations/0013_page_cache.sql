@@ -0,0 +1,13 @@
+-- Rendered-page cache: the translate server can keep translated HTML in memory per website (opt-in)
+-- page_cache_vary adds request cookies/headers to the cache key: cookie:<name> or header:<name> (e.g. cookie:currency)
+ALTER TABLE website
+	ADD COLUMN IF NOT EXISTS page_cache BOOLEAN NOT NULL DEFAULT FALSE,
+	ADD COLUMN IF NOT EXISTS page_cache_vary TEXT[] NOT NULL DEFAULT '{}';
+
+-- Purge times checked before a cached page is served
+-- website_path: a segment on the page was edited (pages found via website_path_segment)
+-- translation: every page of the language (path translations appear in links on any page)
+ALTER TABLE website_path
+	ADD COLUMN IF NOT EXISTS page_cache_purged_at TIMESTAMPTZ;
+ALTER TABLE translation
+	ADD COLUMN IF NOT EXISTS page_cache_purged_at TIMESTAMPTZ;
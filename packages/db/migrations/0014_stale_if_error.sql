@@ -0,0 +1,6 @@
+-- Stale-if-error: the translate server keeps the last good render of each page in memory and serves it
+-- (with a Warning header) when the origin fails, times out, or answers 5xx (opt-in)
+-- origin_timeout: GET/HEAD page fetch timeout in milliseconds (NULL = none, or TIMEOUT_FETCHER with stale_if_error)
+ALTER TABLE website
+	ADD COLUMN IF NOT EXISTS stale_if_error BOOLEAN NOT NULL DEFAULT FALSE,
+	ADD COLUMN IF NOT EXISTS origin_timeout INTEGER;
@@ -0,0 +1,5 @@
+-- Retranslation of rejected segments: retranslate_requested_at is set while a new machine translation
+-- is pending. The translate server treats the segment as untranslated and replaces the text, which
+-- clears the request and resets the review status to machine
+ALTER TABLE translation_segment
+	ADD COLUMN IF NOT EXISTS retranslate_requested_at TIMESTAMPTZ;
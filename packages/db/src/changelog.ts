@@ -0,0 +1,345 @@
+/**
+ * Changelog queries
+ * History of translation and settings edits per website, with revert
+ *
+ * Entries are written by the dashboard, review, glossary, and image override queries;
+ * a revert applies an entry's old values and logs its own entry
+ */
+
+import { pool } from './pool.js'
+import { parseTone, parseRobotsPolicy } from './translation.js'
+import type { ChangelogChange, ChangelogItem, ChangelogType, PaginatedResult } from './dashboard.js'
+
+export interface ChangelogEntry {
+	id: number
+	type: ChangelogType
+	change: ChangelogChange
+	accountName: string | null
+	accountEmail: string | null
+	subject: string | null // segment text or original path (null for settings)
+	lang: string | null // target language (segments and paths)
+	createdAt: Date
+	revertsId: number | null // entry this one reverted
+	reverted: boolean // a revert of this entry is in effect
+	revertible: boolean // every changed table can be reverted (glossary and image override edits can't)
+}
+
+/**
+ * Get changelog entries for a website, newest first
+ * @param websiteId - Website ID
+ * @param type - Optional type filter
+ * @param page - Page number (1-indexed)
+ * @param limit - Items per page
+ */
+export async function getChangelog(
+	websiteId: number,
+	type: ChangelogType | undefined,
+	page: number,
+	limit: number
+): Promise<PaginatedResult<ChangelogEntry>> {
+	const offset = (page - 1) * limit
+	const params: (number | string)[] = [websiteId]
+	let whereClause = 'WHERE c.website_id = $1'
+	if (type) {
+		whereClause += ' AND c.type = $2'
+		params.push(type)
+	}
+
+	const countResult = await pool.query<{ count: string }>(
+		`SELECT COUNT(*) as count FROM changelog c ${whereClause}`,
+		params
+	)
+	const total = parseInt(countResult.rows[0].count, 10)
+
+	// Segment and path entries hold a single item keyed by the translation row id;
+	// glossary and image override entries name their term or image in the key
+	const itemsResult = await pool.query<{
+		id: number
+		type: ChangelogType
+		change: ChangelogChange
+		account_name: string | null
+		account_email: string | null
+		subject: string | null
+		lang: string | null
+		created_at: Date
+		reverts_id: number | null
+	}>(
+		`
+		SELECT
+			c.id,
+			c.type,
+			c.change,
+			a.name as account_name,
+			a.email as account_email,
+			COALESCE(ws.text, wp.path, c.change->0->'pk'->>'source_term', c.change->0->'pk'->>'original_url') as subject,
+			COALESCE(ts.lang, tp.lang) as lang,
+			c.created_at,
+			c.reverts_id
+		FROM changelog c
+		LEFT JOIN account a ON a.id = c.account_id
+		LEFT JOIN translation_segment ts ON c.type = 'segment' AND ts.id = (c.change->0->'pk'->>'id')::int
+		LEFT JOIN website_segment ws ON ws.id = ts.website_segment_id
+		LEFT JOIN translation_path tp ON c.type = 'path' AND tp.id = (c.change->0->'pk'->>'id')::int
+		LEFT JOIN website_path wp ON wp.id = tp.website_path_id
+		${whereClause}
+		ORDER BY c.created_at DESC, c.id DESC
+		LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+	`,
+		[...params, limit, offset]
+	)
+
+	const reverted = await getRevertedIds(websiteId)
+
+	return {
+		items: itemsResult.rows.map((row) => ({
+			id: row.id,
+			type: row.type,
+			change: row.change,
+			accountName: row.account_name,
+			accountEmail: row.account_email,
+			subject: row.subject,
+			lang: row.lang,
+			createdAt: row.created_at,
+			revertsId: row.reverts_id,
+			reverted: reverted.has(row.id),
+			revertible: row.change.every((item) => Object.hasOwn(REVERTIBLE_TABLES, item.table)),
+		})),
+		total,
+		page,
+		limit,
+		totalPages: Math.ceil(total / limit),
+	}
+}
+
+/**
+ * Get the website's changelog entries that are currently reverted
+ * An entry is reverted while one of its reverts is in effect; reverting the revert puts it back
+ * @param websiteId - Website ID
+ * @returns Reverted entry IDs
+ */
+async function getRevertedIds(websiteId: number): Promise<Set<number>> {
+	const result = await pool.query<{ id: number; reverts_id: number }>(
+		`SELECT id, reverts_id FROM changelog WHERE website_id = $1 AND reverts_id IS NOT NULL`,
+		[websiteId]
+	)
+
+	// Key: entry ID -> IDs of the entries that reverted it
+	const revertsOf = new Map<number, number[]>()
+	for (const row of result.rows) {
+		const list = revertsOf.get(row.reverts_id) ?? []
+		list.push(row.id)
+		revertsOf.set(row.reverts_id, list)
+	}
+
+	// Key: entry ID -> reverted (memo)
+	const isReverted = new Map<number, boolean>()
+	const visit = (id: number): boolean => {
+		let value = isReverted.get(id)
+		if (value === undefined) {
+			value = (revertsOf.get(id) ?? []).some((revertId) => !visit(revertId))
+			isReverted.set(id, value)
+		}
+		return value
+	}
+
+	return new Set([...revertsOf.keys()].filter(visit))
+}
+
+/**
+ * Tables a changelog entry can be reverted on
+ * - current: current values (named like changelog columns) for pk $1 within website $2, row-locked
+ * - columns: assignment per changelog column; {v} is the value parameter
+ * - normalize: maps current values to how they were logged
+ * - after: statement run after the update (pk $1) to keep derived columns consistent
+ * - purge: statement run after the update (pk $1) to purge cached renders of affected pages (see page-cache.ts)
+ * Only these tables and columns are ever written, whatever the changelog JSON contains
+ */
+const REVERTIBLE_TABLES: Record<
+	string,
+	{
+		current: string
+		columns: Record<string, string>
+		touch?: string
+		normalize?: (row: Record<string, unknown>) => Record<string, unknown>
+		after?: string
+		purge?: string
+	}
+> = {
+	translation_segment: {
+		current: `SELECT ts.translated_text, ts.reviewed_at IS NOT NULL as reviewed,
+				ts.status, ts.assignee_account_id, ts.retranslate_requested_at IS NOT NULL as retranslate
+			FROM translation_segment ts
+			JOIN website_segment ws ON ws.id = ts.website_segment_id
+			WHERE ts.id = $1 AND ws.website_id = $2
+			FOR UPDATE OF ts`,
+		columns: {
+			translated_text: 'translated_text = {v}::text',
+			reviewed: 'reviewed_at = CASE WHEN {v}::boolean THEN NOW() ELSE NULL END',
+			status: 'status = {v}::text',
+			assignee_account_id: 'assignee_account_id = {v}::int',
+			retranslate: 'retranslate_requested_at = CASE WHEN {v}::boolean THEN NOW() ELSE NULL END',
+		},
+		touch: 'updated_at = NOW()',
+		// Entries logged before the review workflow only carry reviewed - status follows it
+		after: `UPDATE translation_segment
+			SET status = CASE WHEN reviewed_at IS NOT NULL THEN 'approved' WHEN status = 'approved' THEN 'needs_review' ELSE status END
+			WHERE id = $1`,
+		purge: `UPDATE website_path wp
+			SET page_cache_purged_at = NOW()
+			FROM website_path_segment wps
+			JOIN translation_segment ts ON ts.website_segment_id = wps.website_segment_id
+			WHERE wps.website_path_id = wp.id AND ts.id = $1`,
+	},
+	translation_path: {
+		current: `SELECT tp.translated_path, tp.reviewed_at IS NOT NULL as reviewed
+			FROM translation_path tp
+			JOIN website_path wp ON wp.id = tp.website_path_id
+			WHERE tp.id = $1 AND wp.website_id = $2
+			FOR UPDATE OF tp`,
+		columns: {
+			translated_path: 'translated_path = {v}::text',
+			reviewed: 'reviewed_at = CASE WHEN {v}::boolean THEN NOW() ELSE NULL END',
+		},
+		touch: 'updated_at = NOW()',
+		purge: `UPDATE translation t
+			SET page_cache_purged_at = NOW()
+			FROM translation_path tp
+			JOIN website_path wp ON wp.id = tp.website_path_id
+			WHERE tp.id = $1 AND t.website_id = wp.website_id`,
+	},
+	website: {
+		current: `SELECT COALESCE(skip_words, '{}') as skip_words, COALESCE(skip_path, '{}') as skip_path,
+				COALESCE(skip_selectors, '{}') as skip_selectors, COALESCE(translate_attrs, '{}') as translate_attrs,
+				COALESCE(translate_json, '{}') as translate_json, COALESCE(translate_api, '{}') as translate_api,
+				COALESCE(translate_path, false) as translate_path, COALESCE(page_cache, false) as page_cache,
+				COALESCE(page_cache_vary, '{}') as page_cache_vary, COALESCE(stale_if_error, false) as stale_if_error,
+				origin_timeout
+			FROM website
+			WHERE id = $1 AND id = $2
+			FOR UPDATE`,
+		columns: {
+			skip_words: 'skip_words = {v}::text[]',
+			skip_path: 'skip_path = {v}::text[]',
+			skip_selectors: 'skip_selectors = {v}::text[]',
+			translate_attrs: 'translate_attrs = {v}::text[]',
+			translate_json: 'translate_json = {v}::text[]',
+			translate_api: 'translate_api = {v}::text[]',
+			translate_path: 'translate_path = {v}::boolean',
+			page_cache: 'page_cache = {v}::boolean',
+			page_cache_vary: 'page_cache_vary = {v}::text[]',
+			stale_if_error: 'stale_if_error = {v}::boolean',
+			origin_timeout: 'origin_timeout = {v}::int',
+		},
+		touch: 'updated_at = NOW()',
+		purge: `UPDATE translation SET page_cache_purged_at = NOW() WHERE website_id = $1`,
+	},
+	translation: {
+		current: `SELECT style, formality, brand_voice, robots
+			FROM translation
+			WHERE id = $1 AND website_id = $2
+			FOR UPDATE`,
+		columns: {
+			style: 'style = {v}::text',
+			formality: 'formality = {v}::text',
+			brand_voice: 'brand_voice = {v}::text',
+			robots: 'robots = {v}::text',
+		},
+		normalize: (row) => {
+			const tone = parseTone(row.style as string | null, row.formality as string | null, row.brand_voice as string | null)
+			return {
+				style: tone.style,
+				formality: tone.formality,
+				brand_voice: tone.brandVoice,
+				robots: parseRobotsPolicy(row.robots as string | null),
+			}
+		},
+		purge: `UPDATE translation SET page_cache_purged_at = NOW() WHERE id = $1`,
+	},
+}
+
+/**
+ * Revert a changelog entry: restore its old values and log the revert as a new entry
+ * Refuses when a value has changed again since (revert the newer entry first)
+ * Note: Authorization should be checked separately with canAccessWebsite()
+ * @param websiteId - Website ID (entry and rows must belong to it)
+ * @param changelogId - Changelog entry to revert
+ * @param accountId - Account ID for activity tracking
+ * @returns Success status
+ */
+export async function revertChangelogEntry(
+	websiteId: number,
+	changelogId: number,
+	accountId: number
+): Promise<{ success: boolean; error?: string }> {
+	const client = await pool.connect()
+	try {
+		await client.query('BEGIN')
+
+		const entryResult = await client.query<{ type: ChangelogType; change: ChangelogChange }>(
+			`SELECT type, change FROM changelog WHERE id = $1 AND website_id = $2 FOR UPDATE`,
+			[changelogId, websiteId]
+		)
+		const entry = entryResult.rows[0]
+		if (!entry) {
+			await client.query('ROLLBACK')
+			return { success: false, error: 'Change not found' }
+		}
+
+		const revert: ChangelogChange = []
+		for (const item of entry.change) {
+			const table = Object.hasOwn(REVERTIBLE_TABLES, item.table) ? REVERTIBLE_TABLES[item.table] : null
+			const columns = Object.keys(item.columns)
+			if (!table || typeof item.pk.id !== 'number' || columns.some((column) => !Object.hasOwn(table.columns, column))) {
+				await client.query('ROLLBACK')
+				return { success: false, error: 'This change cannot be reverted' }
+			}
+
+			const currentResult = await client.query<Record<string, unknown>>(table.current, [item.pk.id, websiteId])
+			if (!currentResult.rows[0]) {
+				await client.query('ROLLBACK')
+				return { success: false, error: 'The changed item no longer exists' }
+			}
+			const current = table.normalize ? table.normalize(currentResult.rows[0]) : currentResult.rows[0]
+
+			// Values must still be what this entry set them to
+			if (columns.some((column) => JSON.stringify(current[column]) !== JSON.stringify(item.columns[column].new))) {
+				await client.query('ROLLBACK')
+				return { success: false, error: 'Changed again since - revert the newer change first' }
+			}
+
+			const assignments = columns.map((column, i) => table.columns[column].replace('{v}', `$${i + 2}`))
+			if (table.touch) assignments.push(table.touch)
+			await client.query(`UPDATE ${item.table} SET ${assignments.join(', ')} WHERE id = $1`, [
+				item.pk.id,
+				...columns.map((column) => item.columns[column].old),
+			])
+			if (table.after) {
+				await client.query(table.after, [item.pk.id])
+			}
+			if (table.purge) {
+				await client.query(table.purge, [item.pk.id])
+			}
+
+			const revertItem: ChangelogItem = { table: item.table, pk: item.pk, columns: {} }
+			for (const column of columns) {
+				revertItem.columns[column] = { old: current[column], new: item.columns[column].old }
+			}
+			revert.push(revertItem)
+		}
+
+		await client.query(
+			`INSERT INTO changelog (website_id, account_id, type, change, reverts_id)
+			 VALUES ($1, $2, $3, $4, $5)`,
+			[websiteId, accountId, entry.type, JSON.stringify(revert), changelogId]
+		)
+
+		await client.query('COMMIT')
+		return { success: true }
+	} catch (error) {
+		await client.query('ROLLBACK')
+		console.error('Failed to revert change:', error)
+		return { success: false, error: 'Failed to revert change' }
+	} finally {
+		client.release()
+	}
+}
@@ -3,7 +3,11 @@
  * Provides aggregated stats and CRUD operations for websites, languages, segments, and paths
  */
 
+import type { PoolClient } from 'pg'
 import { pool } from './pool.js'
+import { parseTone, parseRobotsPolicy } from './translation.js'
+import { purgeSegmentPages, purgeWebsitePages } from './page-cache.js'
+import type { RobotsPolicy, TranslationTone } from './types.js'
 
 // =============================================================================
 // Types
@@ -25,16 +29,32 @@ export interface LangWithStats {
 	translatedPathCount: number
 	unreviewedSegmentCount: number
 	unreviewedPathCount: number
+	needsReviewSegmentCount: number // waiting on an approver
+	rejectedSegmentCount: number // waiting on a translator
 }
 
+/** Review workflow state of a segment translation (approved = reviewed) */
+export type SegmentStatus = 'machine' | 'needs_review' | 'approved' | 'rejected'
+
 export interface SegmentWithTranslation {
 	id: number
 	websiteSegmentId: number
 	text: string
 	translatedText: string | null
 	reviewedAt: Date | null
+	status: SegmentStatus | null // null when not translated
+	assigneeAccountId: number | null
+	assigneeName: string | null
+	lastSeenAt: Date | null
+	staleAt: Date | null // set when the segment was removed from every page that used it
 }
 
+/**
+ * Segment list filter: 'unreviewed' is every status but approved,
+ * a status shows only that status, 'removed' shows only segments no longer on the site
+ */
+export type SegmentFilter = 'unreviewed' | SegmentStatus | 'all' | 'removed'
+
 export interface PathWithTranslation {
 	id: number
 	websitePathId: number
@@ -62,7 +82,23 @@ export interface WebsiteWithSettings extends Website {
 	skipWords: string[]
 	skipPath: string[]
 	skipSelectors: string[]
+	translateAttrs: string[]
+	translateJson: string[]
+	translateApi: string[]
 	translatePath: boolean
+	pageCache: boolean
+	pageCacheVary: string[]
+	staleIfError: boolean
+	originTimeout: number | null
+}
+
+export interface LangTone extends TranslationTone {
+	targetLang: string
+}
+
+export interface LangRobots {
+	targetLang: string
+	robots: RobotsPolicy
 }
 
 export interface PathOption {
@@ -70,6 +106,14 @@ export interface PathOption {
 	path: string
 }
 
+export interface TranslationExportItem {
+	type: 'segment' | 'path'
+	id: number // websiteSegmentId or websitePathId
+	source: string
+	target: string
+	reviewed: boolean
+}
+
 // Changelog types for tracking translation edits
 export type ChangelogType = 'segment' | 'path' | 'setting'
 
@@ -159,9 +203,18 @@ export async function getWebsiteByPublicCode(publicCode: string): Promise<Websit
 		skip_words: string[] | null
 		skip_path: string[] | null
 		skip_selectors: string[] | null
+		translate_attrs: string[] | null
+		translate_json: string[] | null
+		translate_api: string[] | null
 		translate_path: boolean | null
+		page_cache: boolean | null
+		page_cache_vary: string[] | null
+		stale_if_error: boolean | null
+		origin_timeout: number | null
 	}>(
-		`SELECT id, public_code, hostname, source_lang, skip_words, skip_path, skip_selectors, translate_path FROM website WHERE public_code = $1`,
+		`SELECT id, public_code, hostname, source_lang, skip_words, skip_path, skip_selectors, translate_attrs, translate_json,
+		        translate_api, translate_path, page_cache, page_cache_vary, stale_if_error, origin_timeout
+		 FROM website WHERE public_code = $1`,
 		[publicCode]
 	)
 
@@ -176,7 +229,14 @@ export async function getWebsiteByPublicCode(publicCode: string): Promise<Websit
 		skipWords: row.skip_words || [],
 		skipPath: row.skip_path || [],
 		skipSelectors: row.skip_selectors || [],
+		translateAttrs: row.translate_attrs || [],
+		translateJson: row.translate_json || [],
+		translateApi: row.translate_api || [],
 		translatePath: row.translate_path ?? true,
+		pageCache: row.page_cache ?? false,
+		pageCacheVary: row.page_cache_vary || [],
+		staleIfError: row.stale_if_error ?? false,
+		originTimeout: row.origin_timeout,
 	}
 }
 
@@ -209,12 +269,16 @@ export async function getLangsForWebsite(websiteId: number): Promise<LangWithSta
 		translated_path_count: string
 		unreviewed_segment_count: string
 		unreviewed_path_count: string
+		needs_review_segment_count: string
+		rejected_segment_count: string
 	}>(
 		`
 		WITH segment_stats AS (
 			SELECT ts.lang,
 				COUNT(*) as total,
-				COUNT(*) FILTER (WHERE ts.reviewed_at IS NULL) as unreviewed
+				COUNT(*) FILTER (WHERE ts.status <> 'approved' AND ws.stale_at IS NULL) as unreviewed,
+				COUNT(*) FILTER (WHERE ts.status = 'needs_review' AND ws.stale_at IS NULL) as needs_review,
+				COUNT(*) FILTER (WHERE ts.status = 'rejected' AND ws.stale_at IS NULL) as rejected
 			FROM translation_segment ts
 			JOIN website_segment ws ON ws.id = ts.website_segment_id
 			WHERE ws.website_id = $1
@@ -234,7 +298,9 @@ export async function getLangsForWebsite(websiteId: number): Promise<LangWithSta
 			COALESCE(ss.total, 0) as translated_segment_count,
 			COALESCE(ps.total, 0) as translated_path_count,
 			COALESCE(ss.unreviewed, 0) as unreviewed_segment_count,
-			COALESCE(ps.unreviewed, 0) as unreviewed_path_count
+			COALESCE(ps.unreviewed, 0) as unreviewed_path_count,
+			COALESCE(ss.needs_review, 0) as needs_review_segment_count,
+			COALESCE(ss.rejected, 0) as rejected_segment_count
 		FROM translation t
 		LEFT JOIN segment_stats ss ON ss.lang = t.target_lang
 		LEFT JOIN path_stats ps ON ps.lang = t.target_lang
@@ -250,6 +316,8 @@ export async function getLangsForWebsite(websiteId: number): Promise<LangWithSta
 		translatedPathCount: parseInt(row.translated_path_count, 10),
 		unreviewedSegmentCount: parseInt(row.unreviewed_segment_count, 10),
 		unreviewedPathCount: parseInt(row.unreviewed_path_count, 10),
+		needsReviewSegmentCount: parseInt(row.needs_review_segment_count, 10),
+		rejectedSegmentCount: parseInt(row.rejected_segment_count, 10),
 	}))
 }
 
@@ -264,6 +332,47 @@ export async function isValidLangForWebsite(websiteId: number, lang: string): Pr
 	return result.rows[0]?.exists ?? false
 }
 
+/**
+ * Get tone settings (style, formality, brand voice) for each language of a website
+ */
+export async function getLangTones(websiteId: number): Promise<LangTone[]> {
+	const result = await pool.query<{
+		target_lang: string
+		style: string | null
+		formality: string | null
+		brand_voice: string | null
+	}>(
+		`SELECT target_lang, style, formality, brand_voice
+		 FROM translation
+		 WHERE website_id = $1
+		 ORDER BY target_lang`,
+		[websiteId]
+	)
+
+	return result.rows.map((row) => ({
+		targetLang: row.target_lang,
+		...parseTone(row.style, row.formality, row.brand_voice),
+	}))
+}
+
+/**
+ * Get the search indexing policy for each language of a website
+ */
+export async function getLangRobots(websiteId: number): Promise<LangRobots[]> {
+	const result = await pool.query<{ target_lang: string; robots: string | null }>(
+		`SELECT target_lang, robots
+		 FROM translation
+		 WHERE website_id = $1
+		 ORDER BY target_lang`,
+		[websiteId]
+	)
+
+	return result.rows.map((row) => ({
+		targetLang: row.target_lang,
+		robots: parseRobotsPolicy(row.robots),
+	}))
+}
+
 /**
  * Get all paths for a website (for path filter dropdown)
  * Only returns paths that have at least one segment linked
@@ -283,18 +392,20 @@ export async function getPathsForWebsite(websiteId: number): Promise<PathOption[
  * Get segments for a website/language with pagination and filtering
  * @param websiteId - Website ID
  * @param lang - Target language code
- * @param filter - 'unreviewed' (translated but not reviewed) or 'all'
+ * @param filter - 'unreviewed' (translated, not approved, still on the site), a review status, 'all', or 'removed' (no longer on the site)
  * @param page - Page number (1-indexed)
  * @param limit - Items per page
  * @param pathId - Optional path filter: undefined = all, 'none' = orphans, number = specific path
+ * @param assigneeAccountId - Optional: only segments assigned to this account
  */
 export async function getSegmentsForLang(
 	websiteId: number,
 	lang: string,
-	filter: 'unreviewed' | 'all',
+	filter: SegmentFilter,
 	page: number,
 	limit: number,
-	pathId?: number | 'none'
+	pathId?: number | 'none',
+	assigneeAccountId?: number
 ): Promise<PaginatedResult<SegmentWithTranslation>> {
 	const offset = (page - 1) * limit
 
@@ -316,7 +427,18 @@ export async function getSegmentsForLang(
 
 	// Review filter
 	if (filter === 'unreviewed') {
-		whereClause += ' AND ts.id IS NOT NULL AND ts.reviewed_at IS NULL'
+		whereClause += ` AND ts.status <> 'approved' AND ws.stale_at IS NULL`
+	} else if (filter === 'removed') {
+		whereClause += ' AND ws.stale_at IS NOT NULL'
+	} else if (filter !== 'all') {
+		whereClause += ` AND ts.status = $${params.length + 1} AND ws.stale_at IS NULL`
+		params.push(filter)
+	}
+
+	// Assignee filter
+	if (assigneeAccountId !== undefined) {
+		whereClause += ` AND ts.assignee_account_id = $${params.length + 1}`
+		params.push(assigneeAccountId)
 	}
 
 	// Get total count
@@ -338,6 +460,11 @@ export async function getSegmentsForLang(
 		text: string
 		translated_text: string | null
 		reviewed_at: Date | null
+		status: SegmentStatus | null
+		assignee_account_id: number | null
+		assignee_name: string | null
+		last_seen_at: Date | null
+		stale_at: Date | null
 	}>(
 		`
 		SELECT
@@ -345,9 +472,15 @@ export async function getSegmentsForLang(
 			ws.id as website_segment_id,
 			ws.text,
 			ts.translated_text,
-			ts.reviewed_at
+			ts.reviewed_at,
+			ts.status,
+			ts.assignee_account_id,
+			COALESCE(a.name, a.email) as assignee_name,
+			ws.last_seen_at,
+			ws.stale_at
 		${fromClause}
 		LEFT JOIN translation_segment ts ON ts.website_segment_id = ws.id AND ts.lang = $2
+		LEFT JOIN account a ON a.id = ts.assignee_account_id
 		${whereClause}
 		ORDER BY ws.id
 		LIMIT $${params.length + 1} OFFSET $${params.length + 2}
@@ -362,6 +495,11 @@ export async function getSegmentsForLang(
 			text: row.text,
 			translatedText: row.translated_text,
 			reviewedAt: row.reviewed_at,
+			status: row.status,
+			assigneeAccountId: row.assignee_account_id,
+			assigneeName: row.assignee_name,
+			lastSeenAt: row.last_seen_at,
+			staleAt: row.stale_at,
 		})),
 		total,
 		page,
@@ -370,6 +508,44 @@ export async function getSegmentsForLang(
 	}
 }
 
+/**
+ * Get all translated segments and paths for a website/language (for file export and import)
+ * Matches the dashboard lists: segments still on the site, paths with linked segments
+ * @param websiteId - Website ID
+ * @param lang - Target language code
+ */
+export async function getTranslationsForExport(websiteId: number, lang: string): Promise<TranslationExportItem[]> {
+	const result = await pool.query<{
+		type: 'segment' | 'path'
+		id: number
+		source: string
+		target: string
+		reviewed_at: Date | null
+	}>(
+		`
+		SELECT 'segment' as type, ws.id, ws.text as source, ts.translated_text as target, ts.reviewed_at
+		FROM website_segment ws
+		JOIN translation_segment ts ON ts.website_segment_id = ws.id AND ts.lang = $2
+		WHERE ws.website_id = $1 AND ws.stale_at IS NULL
+		UNION ALL
+		SELECT 'path' as type, wp.id, wp.path as source, tp.translated_path as target, tp.reviewed_at
+		FROM website_path wp
+		JOIN translation_path tp ON tp.website_path_id = wp.id AND tp.lang = $2
+		WHERE wp.website_id = $1 AND EXISTS (SELECT 1 FROM website_path_segment wps WHERE wps.website_path_id = wp.id)
+		ORDER BY type DESC, id
+	`,
+		[websiteId, lang]
+	)
+
+	return result.rows.map((row) => ({
+		type: row.type,
+		id: row.id,
+		source: row.source,
+		target: row.target,
+		reviewed: row.reviewed_at !== null,
+	}))
+}
+
 /**
  * Get paths for a website/language with pagination and filtering
  * @param websiteId - Website ID
@@ -470,84 +646,125 @@ export async function updateSegmentTranslation(
 	const client = await pool.connect()
 	try {
 		await client.query('BEGIN')
-
-		// Get current translation state
-		const selectResult = await client.query<{
-			id: number
-			translated_text: string | null
-			reviewed_at: Date | null
-		}>(
-			`SELECT ts.id, ts.translated_text, ts.reviewed_at
-			 FROM translation_segment ts
-			 JOIN website_segment ws ON ws.id = ts.website_segment_id
-			 WHERE ts.website_segment_id = $1
-			   AND ts.lang = $2
-			   AND ws.website_id = $3`,
-			[websiteSegmentId, lang, websiteId]
+		const result = await writeSegmentTranslation(
+			client,
+			websiteId,
+			websiteSegmentId,
+			lang,
+			translatedText,
+			reviewed,
+			accountId
 		)
+		await client.query(result.success ? 'COMMIT' : 'ROLLBACK')
+		return result
+	} catch (error) {
+		await client.query('ROLLBACK')
+		console.error('Failed to update segment translation:', error)
+		return { success: false, error: 'Failed to update translation' }
+	} finally {
+		client.release()
+	}
+}
 
-		const row = selectResult.rows[0]
-		if (!row) {
-			await client.query('ROLLBACK')
-			return { success: false, error: 'Segment not found' }
-		}
+/**
+ * Update a segment translation and log the change
+ * Runs in the caller's transaction (see updateSegmentTranslation and importTranslationUpdates)
+ */
+async function writeSegmentTranslation(
+	client: PoolClient,
+	websiteId: number,
+	websiteSegmentId: number,
+	lang: string,
+	translatedText: string,
+	reviewed: boolean | null | undefined,
+	accountId: number
+): Promise<{ success: boolean; error?: string }> {
+	// Get current translation state
+	const selectResult = await client.query<{
+		id: number
+		translated_text: string | null
+		reviewed_at: Date | null
+		status: SegmentStatus
+	}>(
+		`SELECT ts.id, ts.translated_text, ts.reviewed_at, ts.status
+		 FROM translation_segment ts
+		 JOIN website_segment ws ON ws.id = ts.website_segment_id
+		 WHERE ts.website_segment_id = $1
+		   AND ts.lang = $2
+		   AND ws.website_id = $3`,
+		[websiteSegmentId, lang, websiteId]
+	)
 
-		const translationSegmentId = row.id
-		const previousText = row.translated_text ?? ''
-		const wasReviewed = row.reviewed_at !== null
+	const row = selectResult.rows[0]
+	if (!row) {
+		return { success: false, error: 'Segment not found' }
+	}
 
-		const textChanged = previousText !== translatedText
-		const reviewedChanged = reviewed !== null && reviewed !== undefined && reviewed !== wasReviewed
+	const translationSegmentId = row.id
+	const previousText = row.translated_text // null until first translated (a revert restores null)
+	const wasReviewed = row.reviewed_at !== null
 
-		// Update the translation
-		await client.query(
-			`UPDATE translation_segment ts
-			 SET translated_text = $4,
-			     updated_at = NOW(),
-			     reviewed_at = CASE
-			       WHEN $5::boolean IS NULL THEN reviewed_at
-			       WHEN $5 = true THEN NOW()
-			       ELSE NULL
-			     END
-			 FROM website_segment ws
-			 WHERE ts.website_segment_id = $2
-			   AND ts.lang = $3
-			   AND ws.id = ts.website_segment_id
-			   AND ws.website_id = $1`,
-			[websiteId, websiteSegmentId, lang, translatedText, reviewed]
-		)
+	const textChanged = previousText !== translatedText
+	const reviewedChanged = reviewed !== null && reviewed !== undefined && reviewed !== wasReviewed
 
-		// Insert changelog record if text or reviewed changed
-		if ((textChanged || reviewedChanged) && translationSegmentId) {
-			const change: ChangelogChange = [
-				{
-					table: 'translation_segment',
-					pk: { id: translationSegmentId },
-					columns: {},
-				},
-			]
-			if (textChanged) {
-				change[0].columns.translated_text = { old: previousText, new: translatedText }
-			}
-			if (reviewedChanged) {
-				change[0].columns.reviewed = { old: wasReviewed, new: reviewed as boolean }
-			}
-			await client.query(
-				`INSERT INTO changelog (website_id, account_id, type, change)
-				 VALUES ($1, $2, $3, $4)`,
-				[websiteId, accountId, 'segment', JSON.stringify(change)]
-			)
+	// Review workflow: reviewed maps to approved; a human edit of an unapproved translation awaits review
+	const previousStatus = row.status
+	let status = previousStatus
+	if (reviewed === true) status = 'approved'
+	else if (reviewed === false) status = 'needs_review'
+	else if (textChanged && previousStatus !== 'approved') status = 'needs_review'
+	const statusChanged = status !== previousStatus
+
+	// Update the translation (reviewed_at is set exactly when approved)
+	await client.query(
+		`UPDATE translation_segment ts
+		 SET translated_text = $4,
+		     updated_at = NOW(),
+		     status = $6,
+		     reviewed_at = CASE
+		       WHEN $6 <> 'approved' THEN NULL
+		       WHEN $5::boolean = true THEN NOW()
+		       ELSE COALESCE(reviewed_at, NOW())
+		     END
+		 FROM website_segment ws
+		 WHERE ts.website_segment_id = $2
+		   AND ts.lang = $3
+		   AND ws.id = ts.website_segment_id
+		   AND ws.website_id = $1`,
+		[websiteId, websiteSegmentId, lang, translatedText, reviewed, status]
+	)
+
+	// Insert changelog record if text, reviewed, or status changed
+	if ((textChanged || reviewedChanged || statusChanged) && translationSegmentId) {
+		const change: ChangelogChange = [
+			{
+				table: 'translation_segment',
+				pk: { id: translationSegmentId },
+				columns: {},
+			},
+		]
+		if (textChanged) {
+			change[0].columns.translated_text = { old: previousText, new: translatedText }
+		}
+		if (reviewedChanged) {
+			change[0].columns.reviewed = { old: wasReviewed, new: reviewed as boolean }
+		}
+		if (statusChanged) {
+			change[0].columns.status = { old: previousStatus, new: status }
 		}
+		await client.query(
+			`INSERT INTO changelog (website_id, account_id, type, change)
+			 VALUES ($1, $2, $3, $4)`,
+			[websiteId, accountId, 'segment', JSON.stringify(change)]
+		)
+	}
 
-		await client.query('COMMIT')
-		return { success: true }
-	} catch (error) {
-		await client.query('ROLLBACK')
-		console.error('Failed to update segment translation:', error)
-		return { success: false, error: 'Failed to update translation' }
-	} finally {
-		client.release()
+	// Cached renders of pages showing the segment are outdated
+	if (textChanged) {
+		await purgeSegmentPages(client, websiteSegmentId)
 	}
+
+	return { success: true }
 }
 
 /**
@@ -572,81 +789,151 @@ export async function updatePathTranslation(
 	const client = await pool.connect()
 	try {
 		await client.query('BEGIN')
+		const result = await writePathTranslation(client, websiteId, websitePathId, lang, translatedPath, reviewed, accountId)
+		await client.query(result.success ? 'COMMIT' : 'ROLLBACK')
+		return result
+	} catch (error) {
+		await client.query('ROLLBACK')
+		console.error('Failed to update path translation:', error)
+		return { success: false, error: 'Failed to update translation' }
+	} finally {
+		client.release()
+	}
+}
 
-		// Get current translation state
-		const selectResult = await client.query<{
-			id: number
-			translated_path: string | null
-			reviewed_at: Date | null
-		}>(
-			`SELECT tp.id, tp.translated_path, tp.reviewed_at
-			 FROM translation_path tp
-			 JOIN website_path wp ON wp.id = tp.website_path_id
-			 WHERE tp.website_path_id = $1
-			   AND tp.lang = $2
-			   AND wp.website_id = $3`,
-			[websitePathId, lang, websiteId]
-		)
+/**
+ * Update a path translation and log the change
+ * Runs in the caller's transaction (see updatePathTranslation and importTranslationUpdates)
+ */
+async function writePathTranslation(
+	client: PoolClient,
+	websiteId: number,
+	websitePathId: number,
+	lang: string,
+	translatedPath: string,
+	reviewed: boolean | null | undefined,
+	accountId: number
+): Promise<{ success: boolean; error?: string }> {
+	// Get current translation state
+	const selectResult = await client.query<{
+		id: number
+		translated_path: string | null
+		reviewed_at: Date | null
+	}>(
+		`SELECT tp.id, tp.translated_path, tp.reviewed_at
+		 FROM translation_path tp
+		 JOIN website_path wp ON wp.id = tp.website_path_id
+		 WHERE tp.website_path_id = $1
+		   AND tp.lang = $2
+		   AND wp.website_id = $3`,
+		[websitePathId, lang, websiteId]
+	)
 
-		const row = selectResult.rows[0]
-		if (!row) {
-			await client.query('ROLLBACK')
-			return { success: false, error: 'Path not found' }
-		}
+	const row = selectResult.rows[0]
+	if (!row) {
+		return { success: false, error: 'Path not found' }
+	}
 
-		const translationPathId = row.id
-		const previousPath = row.translated_path ?? ''
-		const wasReviewed = row.reviewed_at !== null
+	const translationPathId = row.id
+	const previousPath = row.translated_path // null until first translated (a revert restores null)
+	const wasReviewed = row.reviewed_at !== null
 
-		const textChanged = previousPath !== translatedPath
-		const reviewedChanged = reviewed !== null && reviewed !== undefined && reviewed !== wasReviewed
+	const textChanged = previousPath !== translatedPath
+	const reviewedChanged = reviewed !== null && reviewed !== undefined && reviewed !== wasReviewed
 
-		// Update the translation
+	// Update the translation
+	await client.query(
+		`UPDATE translation_path tp
+		 SET translated_path = $4,
+		     updated_at = NOW(),
+		     reviewed_at = CASE
+		       WHEN $5::boolean IS NULL THEN reviewed_at
+		       WHEN $5 = true THEN NOW()
+		       ELSE NULL
+		     END
+		 FROM website_path wp
+		 WHERE tp.website_path_id = $2
+		   AND tp.lang = $3
+		   AND wp.id = tp.website_path_id
+		   AND wp.website_id = $1`,
+		[websiteId, websitePathId, lang, translatedPath, reviewed]
+	)
+
+	// Insert changelog record if text or reviewed changed
+	if ((textChanged || reviewedChanged) && translationPathId) {
+		const change: ChangelogChange = [
+			{
+				table: 'translation_path',
+				pk: { id: translationPathId },
+				columns: {},
+			},
+		]
+		if (textChanged) {
+			change[0].columns.translated_path = { old: previousPath, new: translatedPath }
+		}
+		if (reviewedChanged) {
+			change[0].columns.reviewed = { old: wasReviewed, new: reviewed as boolean }
+		}
 		await client.query(
-			`UPDATE translation_path tp
-			 SET translated_path = $4,
-			     updated_at = NOW(),
-			     reviewed_at = CASE
-			       WHEN $5::boolean IS NULL THEN reviewed_at
-			       WHEN $5 = true THEN NOW()
-			       ELSE NULL
-			     END
-			 FROM website_path wp
-			 WHERE tp.website_path_id = $2
-			   AND tp.lang = $3
-			   AND wp.id = tp.website_path_id
-			   AND wp.website_id = $1`,
-			[websiteId, websitePathId, lang, translatedPath, reviewed]
+			`INSERT INTO changelog (website_id, account_id, type, change)
+			 VALUES ($1, $2, $3, $4)`,
+			[websiteId, accountId, 'path', JSON.stringify(change)]
 		)
+	}
 
-		// Insert changelog record if text or reviewed changed
-		if ((textChanged || reviewedChanged) && translationPathId) {
-			const change: ChangelogChange = [
-				{
-					table: 'translation_path',
-					pk: { id: translationPathId },
-					columns: {},
-				},
-			]
-			if (textChanged) {
-				change[0].columns.translated_path = { old: previousPath, new: translatedPath }
-			}
-			if (reviewedChanged) {
-				change[0].columns.reviewed = { old: wasReviewed, new: reviewed as boolean }
-			}
-			await client.query(
-				`INSERT INTO changelog (website_id, account_id, type, change)
-				 VALUES ($1, $2, $3, $4)`,
-				[websiteId, accountId, 'path', JSON.stringify(change)]
+	// Links to the path can be on any page, and every language lists it in hreflang alternates
+	if (textChanged) {
+		await purgeWebsitePages(client, websiteId)
+	}
+
+	return { success: true }
+}
+
+/**
+ * Translation from an imported file (see importTranslationUpdates)
+ */
+export interface TranslationImportItem {
+	type: 'segment' | 'path'
+	id: number // website_segment.id or website_path.id
+	target: string
+	reviewed: boolean | null // true = mark reviewed, null = no change
+}
+
+/**
+ * Apply imported translations in one transaction
+ * Each item is saved like an edit (changelog entry, cache purge); a database failure rolls back the whole import
+ * Note: Authorization should be checked separately with canAccessWebsite()
+ * @param websiteId - Website ID (for website-segment/path binding validation)
+ * @param lang - Target language code
+ * @param items - Translations to apply
+ * @param accountId - Account ID for activity tracking
+ * @returns Success status, with a result per item (an item fails alone if it no longer exists)
+ */
+export async function importTranslationUpdates(
+	websiteId: number,
+	lang: string,
+	items: TranslationImportItem[],
+	accountId: number
+): Promise<{ success: boolean; error?: string; results?: { success: boolean; error?: string }[] }> {
+	const client = await pool.connect()
+	try {
+		await client.query('BEGIN')
+
+		const results: { success: boolean; error?: string }[] = []
+		for (const item of items) {
+			results.push(
+				item.type === 'segment'
+					? await writeSegmentTranslation(client, websiteId, item.id, lang, item.target, item.reviewed, accountId)
+					: await writePathTranslation(client, websiteId, item.id, lang, item.target, item.reviewed, accountId)
 			)
 		}
 
 		await client.query('COMMIT')
-		return { success: true }
+		return { success: true, results }
 	} catch (error) {
 		await client.query('ROLLBACK')
-		console.error('Failed to update path translation:', error)
-		return { success: false, error: 'Failed to update translation' }
+		console.error('Failed to import translations:', error)
+		return { success: false, error: 'Failed to import translations' }
 	} finally {
 		client.release()
 	}
@@ -656,7 +943,10 @@ export async function updatePathTranslation(
  * Update website settings
  * Note: Authorization should be checked separately with canAccessWebsite()
  * @param websiteId - Website ID
- * @param settings - Settings to update (skipWords, skipPath, translatePath)
+ * @param settings - Settings to update (skipWords, skipPath, skipSelectors, translateAttrs, translateJson,
+ *   translateApi, translatePath, pageCache, pageCacheVary, staleIfError, originTimeout, per-language tones and robots)
+ * Changes purge the website's cached pages
+ * @param accountId - Account ID for activity tracking
  * @returns Success status
  */
 export async function updateWebsiteSettings(
@@ -665,23 +955,190 @@ export async function updateWebsiteSettings(
 		skipWords: string[]
 		skipPath: string[]
 		skipSelectors: string[]
+		translateAttrs: string[]
+		translateJson: string[]
+		translateApi: string[]
 		translatePath: boolean
-	}
+		pageCache: boolean
+		pageCacheVary: string[]
+		staleIfError: boolean
+		originTimeout: number | null
+		langTones: LangTone[]
+		langRobots: LangRobots[]
+	},
+	accountId: number
 ): Promise<{ success: boolean; error?: string }> {
+	const client = await pool.connect()
 	try {
-		await pool.query(
+		await client.query('BEGIN')
+
+		// Get current settings for the changelog
+		const websiteResult = await client.query<{
+			skip_words: string[] | null
+			skip_path: string[] | null
+			skip_selectors: string[] | null
+			translate_attrs: string[] | null
+			translate_json: string[] | null
+			translate_api: string[] | null
+			translate_path: boolean | null
+			page_cache: boolean | null
+			page_cache_vary: string[] | null
+			stale_if_error: boolean | null
+			origin_timeout: number | null
+		}>(
+			`SELECT skip_words, skip_path, skip_selectors, translate_attrs, translate_json, translate_api, translate_path,
+			        page_cache, page_cache_vary, stale_if_error, origin_timeout
+			 FROM website
+			 WHERE id = $1
+			 FOR UPDATE`,
+			[websiteId]
+		)
+		const toneResult = await client.query<{
+			id: number
+			target_lang: string
+			style: string | null
+			formality: string | null
+			brand_voice: string | null
+			robots: string | null
+		}>(
+			`SELECT id, target_lang, style, formality, brand_voice, robots
+			 FROM translation
+			 WHERE website_id = $1
+			 FOR UPDATE`,
+			[websiteId]
+		)
+
+		await client.query(
 			`UPDATE website
 			 SET skip_words = $2,
 			     skip_path = $3,
 			     skip_selectors = $4,
-			     translate_path = $5,
+			     translate_attrs = $5,
+			     translate_json = $6,
+			     translate_api = $7,
+			     translate_path = $8,
+			     page_cache = $9,
+			     page_cache_vary = $10,
+			     stale_if_error = $11,
+			     origin_timeout = $12,
 			     updated_at = NOW()
 			 WHERE id = $1`,
-			[websiteId, settings.skipWords, settings.skipPath, settings.skipSelectors, settings.translatePath]
+			[
+				websiteId,
+				settings.skipWords,
+				settings.skipPath,
+				settings.skipSelectors,
+				settings.translateAttrs,
+				settings.translateJson,
+				settings.translateApi,
+				settings.translatePath,
+				settings.pageCache,
+				settings.pageCacheVary,
+				settings.staleIfError,
+				settings.originTimeout,
+			]
 		)
+
+		// Per-language tone - only rows belonging to this website are updated
+		if (settings.langTones.length > 0) {
+			await client.query(
+				`UPDATE translation t
+				 SET style = v.style,
+				     formality = v.formality,
+				     brand_voice = v.brand_voice
+				 FROM unnest($2::text[], $3::text[], $4::text[], $5::text[])
+				   AS v(target_lang, style, formality, brand_voice)
+				 WHERE t.website_id = $1 AND t.target_lang = v.target_lang`,
+				[
+					websiteId,
+					settings.langTones.map((t) => t.targetLang),
+					settings.langTones.map((t) => t.style),
+					settings.langTones.map((t) => t.formality),
+					settings.langTones.map((t) => t.brandVoice),
+				]
+			)
+		}
+
+		// Per-language robots policy
+		if (settings.langRobots.length > 0) {
+			await client.query(
+				`UPDATE translation t
+				 SET robots = v.robots
+				 FROM unnest($2::text[], $3::text[]) AS v(target_lang, robots)
+				 WHERE t.website_id = $1 AND t.target_lang = v.target_lang`,
+				[websiteId, settings.langRobots.map((r) => r.targetLang), settings.langRobots.map((r) => r.robots)]
+			)
+		}
+
+		// Insert changelog record for changed columns
+		const change: ChangelogChange = []
+		const current = websiteResult.rows[0]
+		if (current) {
+			const websiteColumns = diffColumns({
+				skip_words: [current.skip_words ?? [], settings.skipWords],
+				skip_path: [current.skip_path ?? [], settings.skipPath],
+				skip_selectors: [current.skip_selectors ?? [], settings.skipSelectors],
+				translate_attrs: [current.translate_attrs ?? [], settings.translateAttrs],
+				translate_json: [current.translate_json ?? [], settings.translateJson],
+				translate_api: [current.translate_api ?? [], settings.translateApi],
+				translate_path: [current.translate_path ?? false, settings.translatePath],
+				page_cache: [current.page_cache ?? false, settings.pageCache],
+				page_cache_vary: [current.page_cache_vary ?? [], settings.pageCacheVary],
+				stale_if_error: [current.stale_if_error ?? false, settings.staleIfError],
+				origin_timeout: [current.origin_timeout, settings.originTimeout],
+			})
+			if (websiteColumns) {
+				change.push({ table: 'website', pk: { id: websiteId }, columns: websiteColumns })
+			}
+		}
+		for (const row of toneResult.rows) {
+			const tone = settings.langTones.find((t) => t.targetLang === row.target_lang)
+			const robots = settings.langRobots.find((r) => r.targetLang === row.target_lang)
+
+			// Compare parsed values so unset columns (defaults) don't show as changes
+			const previous = parseTone(row.style, row.formality, row.brand_voice)
+			const langColumns = diffColumns({
+				...(tone && {
+					style: [previous.style, tone.style],
+					formality: [previous.formality, tone.formality],
+					brand_voice: [previous.brandVoice, tone.brandVoice],
+				}),
+				...(robots && { robots: [parseRobotsPolicy(row.robots), robots.robots] }),
+			})
+			if (langColumns) {
+				change.push({ table: 'translation', pk: { id: row.id, target_lang: row.target_lang }, columns: langColumns })
+			}
+		}
+		if (change.length > 0) {
+			await client.query(
+				`INSERT INTO changelog (website_id, account_id, type, change)
+				 VALUES ($1, $2, $3, $4)`,
+				[websiteId, accountId, 'setting', JSON.stringify(change)]
+			)
+			await purgeWebsitePages(client, websiteId)
+		}
+
+		await client.query('COMMIT')
 		return { success: true }
 	} catch (error) {
+		await client.query('ROLLBACK')
 		console.error('Failed to update website settings:', error)
 		return { success: false, error: 'Failed to update settings' }
+	} finally {
+		client.release()
+	}
+}
+
+/**
+ * Build changelog columns from [old, new] pairs, keeping only changed values
+ * @returns Changed columns, or null if nothing changed
+ */
+function diffColumns(values: Record<string, [unknown, unknown]>): ChangelogItem['columns'] | null {
+	const columns: ChangelogItem['columns'] = {}
+	for (const [column, [oldValue, newValue]] of Object.entries(values)) {
+		if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+			columns[column] = { old: oldValue, new: newValue }
+		}
 	}
+	return Object.keys(columns).length > 0 ? columns : null
 }
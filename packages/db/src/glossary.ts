@@ -0,0 +1,175 @@
+/**
+ * Glossary queries
+ * Source term → required translation per website and target language
+ */
+
+import { pool } from './pool.js'
+import { purgeLangPages } from './page-cache.js'
+import type { ChangelogChange } from './dashboard.js'
+
+export interface GlossaryTerm {
+	id: number
+	sourceTerm: string // e.g., "Watchlist"
+	targetTerm: string // e.g., "Lista de seguimiento"
+	caseSensitive: boolean // match source term case exactly
+}
+
+/**
+ * Get all glossary terms for a website + language
+ * Ordered longest source term first so overlapping terms prefer the most specific match
+ * @param websiteId - Website ID
+ * @param lang - Target language code
+ */
+export async function getGlossaryTerms(websiteId: number, lang: string): Promise<GlossaryTerm[]> {
+	const result = await pool.query<{
+		id: number
+		source_term: string
+		target_term: string
+		case_sensitive: boolean
+	}>(
+		`SELECT id, source_term, target_term, case_sensitive
+		 FROM glossary_term
+		 WHERE website_id = $1 AND lang = $2
+		 ORDER BY char_length(source_term) DESC, source_term`,
+		[websiteId, lang]
+	)
+
+	return result.rows.map((row) => ({
+		id: row.id,
+		sourceTerm: row.source_term,
+		targetTerm: row.target_term,
+		caseSensitive: row.case_sensitive,
+	}))
+}
+
+/**
+ * Add or update a glossary term (keyed by website + language + source term)
+ * Logs a changelog entry and purges the language's cached pages
+ * Note: Authorization should be checked separately with canAccessWebsite()
+ * @param websiteId - Website ID
+ * @param lang - Target language code
+ * @param sourceTerm - Term in the source language
+ * @param targetTerm - Required translation
+ * @param caseSensitive - Match source term case exactly
+ * @param accountId - Account ID for activity tracking
+ * @returns Success status
+ */
+export async function upsertGlossaryTerm(
+	websiteId: number,
+	lang: string,
+	sourceTerm: string,
+	targetTerm: string,
+	caseSensitive: boolean,
+	accountId: number
+): Promise<{ success: boolean; error?: string }> {
+	const client = await pool.connect()
+	try {
+		await client.query('BEGIN')
+
+		const selectResult = await client.query<{ target_term: string; case_sensitive: boolean }>(
+			`SELECT target_term, case_sensitive
+			 FROM glossary_term
+			 WHERE website_id = $1 AND lang = $2 AND source_term = $3
+			 FOR UPDATE`,
+			[websiteId, lang, sourceTerm]
+		)
+		const previous = selectResult.rows[0]
+		if (previous && previous.target_term === targetTerm && previous.case_sensitive === caseSensitive) {
+			await client.query('ROLLBACK')
+			return { success: true }
+		}
+
+		const result = await client.query<{ id: number }>(
+			`INSERT INTO glossary_term (website_id, lang, source_term, target_term, case_sensitive)
+			 VALUES ($1, $2, $3, $4, $5)
+			 ON CONFLICT (website_id, lang, source_term)
+			 DO UPDATE SET target_term = EXCLUDED.target_term,
+			               case_sensitive = EXCLUDED.case_sensitive,
+			               updated_at = NOW()
+			 RETURNING id`,
+			[websiteId, lang, sourceTerm, targetTerm, caseSensitive]
+		)
+
+		const change: ChangelogChange = [
+			{ table: 'glossary_term', pk: { id: result.rows[0].id, target_lang: lang, source_term: sourceTerm }, columns: {} },
+		]
+		if (previous?.target_term !== targetTerm) {
+			change[0].columns.target_term = { old: previous?.target_term ?? null, new: targetTerm }
+		}
+		if (previous?.case_sensitive !== caseSensitive) {
+			change[0].columns.case_sensitive = { old: previous?.case_sensitive ?? null, new: caseSensitive }
+		}
+		await client.query(
+			`INSERT INTO changelog (website_id, account_id, type, change)
+			 VALUES ($1, $2, $3, $4)`,
+			[websiteId, accountId, 'setting', JSON.stringify(change)]
+		)
+
+		await purgeLangPages(client, websiteId, lang)
+		await client.query('COMMIT')
+		return { success: true }
+	} catch (error) {
+		await client.query('ROLLBACK')
+		console.error('Failed to save glossary term:', error)
+		return { success: false, error: 'Failed to save glossary term' }
+	} finally {
+		client.release()
+	}
+}
+
+/**
+ * Delete a glossary term
+ * Logs a changelog entry and purges the language's cached pages
+ * Note: Authorization should be checked separately with canAccessWebsite()
+ * @param websiteId - Website ID (term must belong to this website)
+ * @param termId - Glossary term ID
+ * @param accountId - Account ID for activity tracking
+ * @returns Success status
+ */
+export async function deleteGlossaryTerm(
+	websiteId: number,
+	termId: number,
+	accountId: number
+): Promise<{ success: boolean; error?: string }> {
+	const client = await pool.connect()
+	try {
+		await client.query('BEGIN')
+		const result = await client.query<{
+			lang: string
+			source_term: string
+			target_term: string
+			case_sensitive: boolean
+		}>(
+			`DELETE FROM glossary_term WHERE id = $1 AND website_id = $2
+			 RETURNING lang, source_term, target_term, case_sensitive`,
+			[termId, websiteId]
+		)
+		const row = result.rows[0]
+		if (row) {
+			const change: ChangelogChange = [
+				{
+					table: 'glossary_term',
+					pk: { id: termId, target_lang: row.lang, source_term: row.source_term },
+					columns: {
+						target_term: { old: row.target_term, new: null },
+						case_sensitive: { old: row.case_sensitive, new: null },
+					},
+				},
+			]
+			await client.query(
+				`INSERT INTO changelog (website_id, account_id, type, change)
+				 VALUES ($1, $2, $3, $4)`,
+				[websiteId, accountId, 'setting', JSON.stringify(change)]
+			)
+			await purgeLangPages(client, websiteId, row.lang)
+		}
+		await client.query('COMMIT')
+		return { success: true }
+	} catch (error) {
+		await client.query('ROLLBACK')
+		console.error('Failed to delete glossary term:', error)
+		return { success: false, error: 'Failed to delete glossary term' }
+	} finally {
+		client.release()
+	}
+}
@@ -0,0 +1,162 @@
+/**
+ * Image override queries
+ * Origin image URL → localized image URL per website and target language
+ */
+
+import { pool } from './pool.js'
+import { purgeLangPages } from './page-cache.js'
+import type { ChangelogChange } from './dashboard.js'
+
+export interface ImageOverride {
+	id: number
+	originalUrl: string // e.g., "/img/hero.png" or "https://www.example.com/img/hero.png"
+	localizedUrl: string // e.g., "/img/hero-es.png" or "https://cdn.example.com/es/hero.png"
+}
+
+/**
+ * Get all image overrides for a website + language
+ * @param websiteId - Website ID
+ * @param lang - Target language code
+ */
+export async function getImageOverrides(websiteId: number, lang: string): Promise<ImageOverride[]> {
+	const result = await pool.query<{
+		id: number
+		original_url: string
+		localized_url: string
+	}>(
+		`SELECT id, original_url, localized_url
+		 FROM image_override
+		 WHERE website_id = $1 AND lang = $2
+		 ORDER BY original_url`,
+		[websiteId, lang]
+	)
+
+	return result.rows.map((row) => ({
+		id: row.id,
+		originalUrl: row.original_url,
+		localizedUrl: row.localized_url,
+	}))
+}
+
+/**
+ * Add or update an image override (keyed by website + language + original URL)
+ * Logs a changelog entry and purges the language's cached pages
+ * Note: Authorization should be checked separately with canAccessWebsite()
+ * @param websiteId - Website ID
+ * @param lang - Target language code
+ * @param originalUrl - Origin image URL or root-relative path
+ * @param localizedUrl - Replacement image URL or root-relative path
+ * @param accountId - Account ID for activity tracking
+ * @returns Success status
+ */
+export async function upsertImageOverride(
+	websiteId: number,
+	lang: string,
+	originalUrl: string,
+	localizedUrl: string,
+	accountId: number
+): Promise<{ success: boolean; error?: string }> {
+	const client = await pool.connect()
+	try {
+		await client.query('BEGIN')
+
+		const selectResult = await client.query<{ localized_url: string }>(
+			`SELECT localized_url
+			 FROM image_override
+			 WHERE website_id = $1 AND lang = $2 AND original_url = $3
+			 FOR UPDATE`,
+			[websiteId, lang, originalUrl]
+		)
+		const previousUrl = selectResult.rows[0]?.localized_url ?? null
+		if (previousUrl === localizedUrl) {
+			await client.query('ROLLBACK')
+			return { success: true }
+		}
+
+		const result = await client.query<{ id: number }>(
+			`INSERT INTO image_override (website_id, lang, original_url, localized_url)
+			 VALUES ($1, $2, $3, $4)
+			 ON CONFLICT (website_id, lang, original_url)
+			 DO UPDATE SET localized_url = EXCLUDED.localized_url,
+			               updated_at = NOW()
+			 RETURNING id`,
+			[websiteId, lang, originalUrl, localizedUrl]
+		)
+
+		const change: ChangelogChange = [
+			{
+				table: 'image_override',
+				pk: { id: result.rows[0].id, target_lang: lang, original_url: originalUrl },
+				columns: { localized_url: { old: previousUrl, new: localizedUrl } },
+			},
+		]
+		await client.query(
+			`INSERT INTO changelog (website_id, account_id, type, change)
+			 VALUES ($1, $2, $3, $4)`,
+			[websiteId, accountId, 'setting', JSON.stringify(change)]
+		)
+
+		await purgeLangPages(client, websiteId, lang)
+		await client.query('COMMIT')
+		return { success: true }
+	} catch (error) {
+		await client.query('ROLLBACK')
+		console.error('Failed to save image override:', error)
+		return { success: false, error: 'Failed to save image override' }
+	} finally {
+		client.release()
+	}
+}
+
+/**
+ * Delete an image override
+ * Logs a changelog entry and purges the language's cached pages
+ * Note: Authorization should be checked separately with canAccessWebsite()
+ * @param websiteId - Website ID (override must belong to this website)
+ * @param overrideId - Image override ID
+ * @param accountId - Account ID for activity tracking
+ * @returns Success status (fails if the override no longer exists)
+ */
+export async function deleteImageOverride(
+	websiteId: number,
+	overrideId: number,
+	accountId: number
+): Promise<{ success: boolean; error?: string }> {
+	const client = await pool.connect()
+	try {
+		await client.query('BEGIN')
+		const result = await client.query<{ lang: string; original_url: string; localized_url: string }>(
+			`DELETE FROM image_override WHERE id = $1 AND website_id = $2
+			 RETURNING lang, original_url, localized_url`,
+			[overrideId, websiteId]
+		)
+		const row = result.rows[0]
+		if (!row) {
+			await client.query('ROLLBACK')
+			return { success: false, error: 'Image not found' }
+		}
+
+		const change: ChangelogChange = [
+			{
+				table: 'image_override',
+				pk: { id: overrideId, target_lang: row.lang, original_url: row.original_url },
+				columns: { localized_url: { old: row.localized_url, new: null } },
+			},
+		]
+		await client.query(
+			`INSERT INTO changelog (website_id, account_id, type, change)
+			 VALUES ($1, $2, $3, $4)`,
+			[websiteId, accountId, 'setting', JSON.stringify(change)]
+		)
+
+		await purgeLangPages(client, websiteId, row.lang)
+		await client.query('COMMIT')
+		return { success: true }
+	} catch (error) {
+		await client.query('ROLLBACK')
+		console.error('Failed to delete image override:', error)
+		return { success: false, error: 'Failed to delete image override' }
+	} finally {
+		client.release()
+	}
+}
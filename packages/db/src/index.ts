@@ -13,17 +13,26 @@ export {
 	batchGetTranslationsByHash,
 	type TranslationItem,
 } from './segments.js'
-export { linkPathSegments } from './junctions.js'
+export { linkPathSegments, reconcilePathSegments, getSegmentPaths } from './junctions.js'
+export { batchGetFuzzyMatches, type FuzzyMatch } from './memory.js'
+export { getGlossaryTerms, upsertGlossaryTerm, deleteGlossaryTerm, type GlossaryTerm } from './glossary.js'
+export { getImageOverrides, upsertImageOverride, deleteImageOverride, type ImageOverride } from './images.js'
 export {
 	getWebsitePathId,
 	lookupPathname,
 	batchLookupPathnames,
 	batchUpsertPathnames,
+	getLangAlternates,
+	clearLangAlternatesCache,
+	batchGetLangAlternates,
+	getSitemapPaths,
 	type PathnameResult,
 	type PathnameMapping,
 	type PathIds,
+	type LangAlternate,
 } from './paths.js'
 export { recordPageView, updateSegmentLastUsed, updatePathLastUsed } from './views.js'
+export { getPageCachePurgedAt } from './page-cache.js'
 export {
 	canAccessWebsite,
 	canAccessWebsiteByPublicCode,
@@ -31,23 +40,56 @@ export {
 	getWebsiteByPublicCode,
 	getLangsForWebsite,
 	isValidLangForWebsite,
+	getLangTones,
+	getLangRobots,
 	getPathsForWebsite,
 	getSegmentsForLang,
 	getPathsForLang,
+	getTranslationsForExport,
 	updateSegmentTranslation,
 	updatePathTranslation,
+	importTranslationUpdates,
 	updateWebsiteSettings,
 	type WebsiteWithStats,
 	type LangWithStats,
 	type SegmentWithTranslation,
+	type SegmentFilter,
+	type SegmentStatus,
 	type PathWithTranslation,
 	type PaginatedResult,
 	type Website,
 	type WebsiteWithSettings,
 	type PathOption,
+	type TranslationExportItem,
+	type TranslationImportItem,
+	type LangTone,
+	type LangRobots,
 	type ChangelogType,
 	type ChangelogItem,
 	type ChangelogChange,
 } from './dashboard.js'
+export {
+	isSegmentStatus,
+	getWebsiteAccounts,
+	getSegmentReviewCounts,
+	updateSegmentReview,
+	requestSegmentRetranslation,
+	getSegmentComments,
+	addSegmentComment,
+	type WebsiteAccount,
+	type SegmentComment,
+	type SegmentReviewCounts,
+} from './review.js'
+export { getChangelog, revertChangelogEntry, type ChangelogEntry } from './changelog.js'
 export { recordLlmUsage } from './usage.js'
-export type { LlmFeature, TokenUsage, LlmUsageRecord } from './types.js'
+export type {
+	LlmFeature,
+	TokenUsage,
+	LlmUsageRecord,
+	TranslationProviderName,
+	TranslationProviderSettings,
+	TranslationStyle,
+	TranslationFormality,
+	TranslationTone,
+	RobotsPolicy,
+} from './types.js'
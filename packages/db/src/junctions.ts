@@ -1,6 +1,7 @@
 /**
  * Junction table operations
  * Links paths to segments for tracking which translations appear on which pages
+ * Reconciliation unlinks segments removed from a page and marks them stale
  *
  * Tables:
  * - website_path_segment: links website_path to website_segment (language-independent)
@@ -38,3 +39,92 @@ export async function linkPathSegments(
 	}
 }
 
+
+/**
+ * Reconcile a website path's linked segments against the segments currently on the page
+ * - Links current segments and refreshes their last_seen_at (clearing stale_at)
+ * - Unlinks segments no longer on the page
+ * - Marks unlinked segments stale when no other path still uses them
+ *
+ * @param websitePathId - Website path ID
+ * @param websiteSegmentIds - Website segment IDs currently on the page (the complete set)
+ * @returns Number of segments unlinked from the path
+ *
+ * SQL: 4 queries in a transaction
+ */
+export async function reconcilePathSegments(
+	websitePathId: number,
+	websiteSegmentIds: number[]
+): Promise<number> {
+	// An empty set means extraction found nothing (error page, blocked fetch) - never unlink everything
+	if (websiteSegmentIds.length === 0) {
+		return 0
+	}
+
+	const client = await pool.connect()
+	try {
+		await client.query('BEGIN')
+
+		await client.query(
+			`INSERT INTO website_path_segment (website_path_id, website_segment_id)
+			SELECT $1, unnest($2::int[])
+			ON CONFLICT (website_path_id, website_segment_id) DO NOTHING`,
+			[websitePathId, websiteSegmentIds]
+		)
+
+		await client.query(
+			`UPDATE website_segment
+			SET last_seen_at = NOW(), stale_at = NULL
+			WHERE id = ANY($1::int[])`,
+			[websiteSegmentIds]
+		)
+
+		const removed = await client.query<{ website_segment_id: number }>(
+			`DELETE FROM website_path_segment
+			WHERE website_path_id = $1
+			  AND NOT (website_segment_id = ANY($2::int[]))
+			RETURNING website_segment_id`,
+			[websitePathId, websiteSegmentIds]
+		)
+		const removedIds = removed.rows.map((row) => row.website_segment_id)
+
+		if (removedIds.length > 0) {
+			await client.query(
+				`UPDATE website_segment ws
+				SET stale_at = NOW()
+				WHERE ws.id = ANY($1::int[])
+				  AND ws.stale_at IS NULL
+				  AND NOT EXISTS (SELECT 1 FROM website_path_segment wps WHERE wps.website_segment_id = ws.id)`,
+				[removedIds]
+			)
+		}
+
+		await client.query('COMMIT')
+		return removedIds.length
+	} catch (error) {
+		await client.query('ROLLBACK')
+		console.error('Failed to reconcile path segments:', error)
+		return 0 // Non-blocking - don't throw
+	} finally {
+		client.release()
+	}
+}
+
+/**
+ * Get the paths each segment of a website appears on (for gettext references and per-page exports)
+ *
+ * @param websiteId - Website ID
+ * @returns Map of website segment ID -> sorted paths
+ */
+export async function getSegmentPaths(websiteId: number): Promise<Map<number, string[]>> {
+	const result = await pool.query<{ website_segment_id: number; paths: string[] }>(
+		`SELECT wps.website_segment_id, array_agg(wp.path ORDER BY wp.path) AS paths
+		FROM website_path_segment wps
+		JOIN website_path wp ON wp.id = wps.website_path_id
+		WHERE wp.website_id = $1
+		GROUP BY wps.website_segment_id`,
+		[websiteId]
+	)
+
+	return new Map(result.rows.map((row) => [row.website_segment_id, row.paths]))
+}
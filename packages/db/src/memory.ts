@@ -0,0 +1,81 @@
+/**
+ * Translation memory queries
+ * Fuzzy (trigram) lookup of reviewed translations for near-duplicate segments
+ */
+
+import { pool } from './pool.js'
+
+/**
+ * A reviewed translation of text similar to the query text
+ */
+export interface FuzzyMatch {
+	source: string // website_segment.text
+	translation: string // translation_segment.translated_text
+	similarity: number // pg_trgm similarity, 0-1
+}
+
+/** Minimum trigram similarity for a match to be useful as a reference */
+const MIN_SIMILARITY = 0.5
+
+/** Maximum matches returned per text */
+const MAX_MATCHES = 3
+
+/**
+ * Batch fuzzy lookup of reviewed translations
+ * Uses the pg_trgm % operator (GIN index) to find candidates, then ranks by similarity.
+ * Exact matches are excluded - those are served by batchGetTranslations().
+ *
+ * @param websiteId - Website ID
+ * @param lang - Target language code
+ * @param texts - Normalized source texts (cache misses)
+ * @returns Map of text -> closest reviewed translations (texts without matches are omitted)
+ *
+ * SQL: 1 query with a LATERAL subquery per text
+ */
+export async function batchGetFuzzyMatches(
+	websiteId: number,
+	lang: string,
+	texts: string[]
+): Promise<Map<string, FuzzyMatch[]>> {
+	if (texts.length === 0) {
+		return new Map()
+	}
+
+	try {
+		const result = await pool.query<{
+			query: string
+			text: string
+			translated_text: string
+			similarity: number
+		}>(
+			`SELECT q.text AS query, m.text, m.translated_text, m.similarity
+			FROM unnest($3::text[]) AS q(text)
+			CROSS JOIN LATERAL (
+				SELECT ws.text, ts.translated_text, similarity(ws.text, q.text) AS similarity
+				FROM website_segment ws
+				JOIN translation_segment ts ON ts.website_segment_id = ws.id
+				WHERE ws.website_id = $1
+				  AND ts.lang = $2
+				  AND ts.reviewed_at IS NOT NULL
+				  AND ws.text % q.text
+				  AND ws.text <> q.text
+				ORDER BY similarity DESC
+				LIMIT $4
+			) m
+			WHERE m.similarity >= $5`,
+			[websiteId, lang, texts, MAX_MATCHES, MIN_SIMILARITY]
+		)
+
+		const matches = new Map<string, FuzzyMatch[]>()
+		for (const row of result.rows) {
+			const list = matches.get(row.query) ?? []
+			list.push({ source: row.text, translation: row.translated_text, similarity: Number(row.similarity) })
+			matches.set(row.query, list)
+		}
+
+		return matches
+	} catch (error) {
+		console.error('DB fuzzy translation lookup failed:', error)
+		return new Map() // Fail open - translate without references
+	}
+}
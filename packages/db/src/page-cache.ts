@@ -0,0 +1,85 @@
+/**
+ * Rendered-page cache invalidation
+ * The translate server keeps rendered pages in memory; dashboard edits record purge times
+ * that it checks before serving a cached page
+ *
+ * Columns:
+ * - website_path.page_cache_purged_at: a segment on the page was edited (all languages of the page)
+ * - translation.page_cache_purged_at: every page of the language (path edits change links and hreflang
+ *   alternates on any page, settings, glossary terms, and image overrides change how every page renders)
+ * Settings, glossary terms, and image overrides reach the translate server through its cached translation
+ * config, so renders count as made when their config was loaded (TranslationConfig.loadedAt)
+ * Purge times are also the translation state version in translated ETags (see http/etag.ts in the translate app)
+ */
+
+import type { PoolClient } from 'pg'
+import { pool } from './pool.js'
+
+/**
+ * Get when a page's cached renders were last purged
+ * @param translationId - Translation ID (website + language)
+ * @param path - Normalized original path
+ * @returns Latest purge time of the page or its language, or null if never purged
+ *
+ * SQL: 1 query (translation LEFT JOIN website_path)
+ */
+export async function getPageCachePurgedAt(translationId: number, path: string): Promise<Date | null> {
+	try {
+		const result = await pool.query<{ purged_at: Date | null }>(
+			`SELECT GREATEST(t.page_cache_purged_at, wp.page_cache_purged_at) AS purged_at
+			FROM translation t
+			LEFT JOIN website_path wp ON wp.website_id = t.website_id AND wp.path = $2
+			WHERE t.id = $1`,
+			[translationId, path]
+		)
+		return result.rows[0]?.purged_at ?? null
+	} catch (error) {
+		console.error('DB page cache purge lookup failed:', error)
+		return new Date() // Fail closed - re-render rather than serve a page that may be outdated
+	}
+}
+
+/**
+ * Purge cached renders of every page showing a segment
+ * @param client - Client in the caller's transaction
+ * @param websiteSegmentId - Edited website segment
+ */
+export async function purgeSegmentPages(client: PoolClient, websiteSegmentId: number): Promise<void> {
+	await client.query(
+		`UPDATE website_path wp
+		SET page_cache_purged_at = NOW()
+		FROM website_path_segment wps
+		WHERE wps.website_path_id = wp.id
+		  AND wps.website_segment_id = $1`,
+		[websiteSegmentId]
+	)
+}
+
+/**
+ * Purge cached renders of every page of one language (glossary and image override edits)
+ * @param client - Client in the caller's transaction
+ * @param websiteId - Website ID
+ * @param lang - Target language code
+ */
+export async function purgeLangPages(client: PoolClient, websiteId: number, lang: string): Promise<void> {
+	await client.query(
+		`UPDATE translation
+		SET page_cache_purged_at = NOW()
+		WHERE website_id = $1 AND target_lang = $2`,
+		[websiteId, lang]
+	)
+}
+
+/**
+ * Purge cached renders of every page of a website, in all languages
+ * @param client - Client in the caller's transaction
+ * @param websiteId - Website ID
+ */
+export async function purgeWebsitePages(client: PoolClient, websiteId: number): Promise<void> {
+	await client.query(
+		`UPDATE translation
+		SET page_cache_purged_at = NOW()
+		WHERE website_id = $1`,
+		[websiteId]
+	)
+}
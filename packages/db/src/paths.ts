@@ -150,6 +150,142 @@ export async function batchLookupPathnames(
 	}
 }
 
+/**
+ * Language variant of a page (one per enabled translation)
+ */
+export interface LangAlternate {
+	lang: string // translation.target_lang
+	hostname: string // translation.hostname
+	translatedPath: string | null // normalized translated path, null if not translated yet
+}
+
+// In-memory cache for the hot path (every HTML page), same lifetime as the translation config
+// Key: website ID + normalized path (Map order = oldest first)
+const langAlternatesCache = new Map<string, { alternates: LangAlternate[]; expiresAt: number }>()
+const LANG_ALTERNATES_CACHE_TTL = 60_000 // 60 seconds
+const LANG_ALTERNATES_CACHE_MAX_ENTRIES = 10_000
+
+/**
+ * Get every enabled language variant of a path, for hreflang clusters
+ * Cached for up to LANG_ALTERNATES_CACHE_TTL (new languages and path translations show up after that)
+ *
+ * @param websiteId - Website ID
+ * @param path - Normalized original path
+ * @returns Variants ordered by language (empty on failure)
+ */
+export async function getLangAlternates(websiteId: number, path: string): Promise<LangAlternate[]> {
+	const key = `${websiteId}\n${path}`
+	const now = Date.now()
+	const cached = langAlternatesCache.get(key)
+	if (cached && cached.expiresAt > now) {
+		return cached.alternates
+	}
+
+	const alternates = (await batchGetLangAlternates(websiteId, [path])).get(path)
+	if (!alternates) {
+		return [] // Failed (or no enabled languages) - not cached
+	}
+
+	langAlternatesCache.delete(key)
+	langAlternatesCache.set(key, { alternates, expiresAt: now + LANG_ALTERNATES_CACHE_TTL })
+	for (const oldestKey of langAlternatesCache.keys()) {
+		if (langAlternatesCache.size <= LANG_ALTERNATES_CACHE_MAX_ENTRIES) break
+		langAlternatesCache.delete(oldestKey)
+	}
+
+	return alternates
+}
+
+/**
+ * Clear the language alternates cache
+ * Useful for testing or after config changes
+ */
+export function clearLangAlternatesCache(): void {
+	langAlternatesCache.clear()
+}
+
+/**
+ * Batch version of getLangAlternates (e.g. for every URL in a sitemap)
+ *
+ * @param websiteId - Website ID
+ * @param paths - Normalized original paths
+ * @returns Map<path, variants ordered by language> (empty on failure)
+ *
+ * SQL: 1 query - translation x paths LEFT JOIN website_path -> translation_path
+ */
+export async function batchGetLangAlternates(
+	websiteId: number,
+	paths: string[]
+): Promise<Map<string, LangAlternate[]>> {
+	if (paths.length === 0) {
+		return new Map()
+	}
+
+	try {
+		const result = await pool.query<{
+			path: string
+			target_lang: string
+			hostname: string
+			translated_path: string | null
+		}>(
+			`SELECT p.path, t.target_lang, t.hostname, tp.translated_path
+			FROM translation t
+			CROSS JOIN (SELECT DISTINCT unnest($2::text[]) AS path) p
+			LEFT JOIN website_path wp ON wp.website_id = t.website_id AND wp.path = p.path
+			LEFT JOIN translation_path tp ON tp.website_path_id = wp.id AND tp.lang = t.target_lang
+			WHERE t.website_id = $1
+			  AND t.enabled = TRUE
+			ORDER BY p.path, t.target_lang`,
+			[websiteId, paths]
+		)
+
+		const alternates = new Map<string, LangAlternate[]>()
+		for (const row of result.rows) {
+			let list = alternates.get(row.path)
+			if (!list) {
+				list = []
+				alternates.set(row.path, list)
+			}
+			list.push({ lang: row.target_lang, hostname: row.hostname, translatedPath: row.translated_path })
+		}
+
+		return alternates
+	} catch (error) {
+		console.error('DB lang alternates lookup failed:', error)
+		return new Map() // Fail open
+	}
+}
+
+/**
+ * Get known page paths for a generated sitemap
+ * Only paths rendered as pages (with linked segments) and without pattern
+ * placeholders (normalized numbers/emails/UUIDs can't be turned back into URLs)
+ *
+ * @param websiteId - Website ID
+ * @param limit - Maximum paths (sitemaps hold at most 50,000 URLs)
+ * @returns Original paths, sorted
+ *
+ * SQL: 1 query on website_path with EXISTS on website_path_segment
+ */
+export async function getSitemapPaths(websiteId: number, limit: number = 50000): Promise<string[]> {
+	try {
+		const result = await pool.query<{ path: string }>(
+			`SELECT wp.path
+			FROM website_path wp
+			WHERE wp.website_id = $1
+			  AND strpos(wp.path, '[') = 0
+			  AND EXISTS (SELECT 1 FROM website_path_segment wps WHERE wps.website_path_id = wp.id)
+			ORDER BY wp.path
+			LIMIT $2`,
+			[websiteId, limit]
+		)
+		return result.rows.map((row) => row.path)
+	} catch (error) {
+		console.error('DB sitemap paths lookup failed:', error)
+		return [] // Fail open
+	}
+}
+
 /**
  * Batch insert/update pathname mappings
  * Two-step upsert: website_path first, then translated_path
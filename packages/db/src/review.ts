@@ -0,0 +1,343 @@
+/**
+ * Review workflow queries
+ * Segment status transitions, reviewer assignment, and comment threads
+ *
+ * Status: machine -> needs_review -> approved | rejected (back to the translator, or retranslated)
+ * reviewed_at is kept set exactly while a translation is approved
+ */
+
+import { pool } from './pool.js'
+import { purgeSegmentPages } from './page-cache.js'
+import type { ChangelogChange, SegmentStatus } from './dashboard.js'
+
+export interface WebsiteAccount {
+	id: number
+	name: string | null
+	email: string
+}
+
+export interface SegmentComment {
+	id: number
+	accountName: string | null // name or email; null if the account was deleted
+	body: string
+	createdAt: Date
+}
+
+export interface SegmentReviewCounts {
+	machine: number
+	needsReview: number
+	approved: number
+	rejected: number
+	assignedToAccount: number // unapproved segments assigned to the given account
+}
+
+const SEGMENT_STATUSES: SegmentStatus[] = ['machine', 'needs_review', 'approved', 'rejected']
+
+/**
+ * Check a review status value (e.g. from a form or query string)
+ */
+export function isSegmentStatus(value: string): value is SegmentStatus {
+	return SEGMENT_STATUSES.includes(value as SegmentStatus)
+}
+
+/**
+ * Get accounts with access to a website (reviewer assignment options)
+ * @param websiteId - Website ID
+ */
+export async function getWebsiteAccounts(websiteId: number): Promise<WebsiteAccount[]> {
+	const result = await pool.query<{ id: number; name: string | null; email: string }>(
+		`SELECT a.id, a.name, a.email
+		 FROM account a
+		 JOIN account_website aw ON aw.account_id = a.id
+		 WHERE aw.website_id = $1
+		 ORDER BY COALESCE(a.name, a.email)`,
+		[websiteId]
+	)
+	return result.rows
+}
+
+/**
+ * Get segment counts per review status for a website/language (segments still on the site)
+ * @param websiteId - Website ID
+ * @param lang - Target language code
+ * @param accountId - Account for the assigned-to count
+ */
+export async function getSegmentReviewCounts(
+	websiteId: number,
+	lang: string,
+	accountId: number
+): Promise<SegmentReviewCounts> {
+	const result = await pool.query<{
+		machine: string
+		needs_review: string
+		approved: string
+		rejected: string
+		assigned: string
+	}>(
+		`SELECT
+			COUNT(*) FILTER (WHERE ts.status = 'machine') as machine,
+			COUNT(*) FILTER (WHERE ts.status = 'needs_review') as needs_review,
+			COUNT(*) FILTER (WHERE ts.status = 'approved') as approved,
+			COUNT(*) FILTER (WHERE ts.status = 'rejected') as rejected,
+			COUNT(*) FILTER (WHERE ts.assignee_account_id = $3 AND ts.status <> 'approved') as assigned
+		 FROM translation_segment ts
+		 JOIN website_segment ws ON ws.id = ts.website_segment_id
+		 WHERE ws.website_id = $1 AND ts.lang = $2 AND ws.stale_at IS NULL`,
+		[websiteId, lang, accountId]
+	)
+
+	const row = result.rows[0]
+	return {
+		machine: parseInt(row.machine, 10),
+		needsReview: parseInt(row.needs_review, 10),
+		approved: parseInt(row.approved, 10),
+		rejected: parseInt(row.rejected, 10),
+		assignedToAccount: parseInt(row.assigned, 10),
+	}
+}
+
+/**
+ * Change a segment translation's review status and/or assignee
+ * Note: Authorization should be checked separately with canAccessWebsite()
+ * @param websiteId - Website ID (for website-segment binding validation)
+ * @param websiteSegmentId - Website segment ID
+ * @param lang - Target language code
+ * @param changes - status to move to; assigneeAccountId to assign (null = unassign); omitted = no change
+ * @param accountId - Account ID for activity tracking
+ * @returns Success status
+ */
+export async function updateSegmentReview(
+	websiteId: number,
+	websiteSegmentId: number,
+	lang: string,
+	changes: { status?: SegmentStatus; assigneeAccountId?: number | null },
+	accountId: number
+): Promise<{ success: boolean; error?: string }> {
+	const client = await pool.connect()
+	try {
+		await client.query('BEGIN')
+
+		const selectResult = await client.query<{
+			id: number
+			status: SegmentStatus
+			assignee_account_id: number | null
+		}>(
+			`SELECT ts.id, ts.status, ts.assignee_account_id
+			 FROM translation_segment ts
+			 JOIN website_segment ws ON ws.id = ts.website_segment_id
+			 WHERE ts.website_segment_id = $1
+			   AND ts.lang = $2
+			   AND ws.website_id = $3
+			 FOR UPDATE OF ts`,
+			[websiteSegmentId, lang, websiteId]
+		)
+
+		const row = selectResult.rows[0]
+		if (!row) {
+			await client.query('ROLLBACK')
+			return { success: false, error: 'Segment not found' }
+		}
+
+		// Assignees must have access to the website
+		if (changes.assigneeAccountId) {
+			const access = await client.query(
+				`SELECT 1 FROM account_website WHERE website_id = $1 AND account_id = $2 LIMIT 1`,
+				[websiteId, changes.assigneeAccountId]
+			)
+			if ((access.rowCount ?? 0) === 0) {
+				await client.query('ROLLBACK')
+				return { success: false, error: 'Assignee has no access to this website' }
+			}
+		}
+
+		const status = changes.status ?? row.status
+		const assignee = changes.assigneeAccountId !== undefined ? changes.assigneeAccountId : row.assignee_account_id
+		const statusChanged = status !== row.status
+		const assigneeChanged = assignee !== row.assignee_account_id
+
+		if (!statusChanged && !assigneeChanged) {
+			await client.query('ROLLBACK')
+			return { success: true }
+		}
+
+		await client.query(
+			`UPDATE translation_segment
+			 SET status = $2,
+			     assignee_account_id = $3,
+			     reviewed_at = CASE WHEN $2 = 'approved' THEN COALESCE(reviewed_at, NOW()) ELSE NULL END,
+			     updated_at = NOW()
+			 WHERE id = $1`,
+			[row.id, status, assignee]
+		)
+
+		const change: ChangelogChange = [{ table: 'translation_segment', pk: { id: row.id }, columns: {} }]
+		if (statusChanged) {
+			change[0].columns.status = { old: row.status, new: status }
+			if ((row.status === 'approved') !== (status === 'approved')) {
+				change[0].columns.reviewed = { old: row.status === 'approved', new: status === 'approved' }
+			}
+		}
+		if (assigneeChanged) {
+			change[0].columns.assignee_account_id = { old: row.assignee_account_id, new: assignee }
+		}
+		await client.query(
+			`INSERT INTO changelog (website_id, account_id, type, change)
+			 VALUES ($1, $2, $3, $4)`,
+			[websiteId, accountId, 'segment', JSON.stringify(change)]
+		)
+
+		await client.query('COMMIT')
+		return { success: true }
+	} catch (error) {
+		await client.query('ROLLBACK')
+		console.error('Failed to update segment review:', error)
+		return { success: false, error: 'Failed to update review' }
+	} finally {
+		client.release()
+	}
+}
+
+/**
+ * Request a new machine translation for a rejected segment translation
+ * The translate server treats the segment as untranslated on its next page load and replaces the text,
+ * which resets the status to machine (see batchUpsertTranslations); pages showing it are purged
+ * Note: Authorization should be checked separately with canAccessWebsite()
+ * @param websiteId - Website ID (for website-segment binding validation)
+ * @param websiteSegmentId - Website segment ID
+ * @param lang - Target language code
+ * @param accountId - Account ID for activity tracking
+ * @returns Success status
+ */
+export async function requestSegmentRetranslation(
+	websiteId: number,
+	websiteSegmentId: number,
+	lang: string,
+	accountId: number
+): Promise<{ success: boolean; error?: string }> {
+	const client = await pool.connect()
+	try {
+		await client.query('BEGIN')
+
+		const selectResult = await client.query<{
+			id: number
+			status: SegmentStatus
+			retranslate_requested: boolean
+		}>(
+			`SELECT ts.id, ts.status, ts.retranslate_requested_at IS NOT NULL as retranslate_requested
+			 FROM translation_segment ts
+			 JOIN website_segment ws ON ws.id = ts.website_segment_id
+			 WHERE ts.website_segment_id = $1
+			   AND ts.lang = $2
+			   AND ws.website_id = $3
+			 FOR UPDATE OF ts`,
+			[websiteSegmentId, lang, websiteId]
+		)
+
+		const row = selectResult.rows[0]
+		if (!row) {
+			await client.query('ROLLBACK')
+			return { success: false, error: 'Segment not found' }
+		}
+		if (row.status !== 'rejected') {
+			await client.query('ROLLBACK')
+			return { success: false, error: 'Only rejected translations can be retranslated' }
+		}
+		if (row.retranslate_requested) {
+			await client.query('ROLLBACK')
+			return { success: true }
+		}
+
+		await client.query(`UPDATE translation_segment SET retranslate_requested_at = NOW() WHERE id = $1`, [row.id])
+
+		const change: ChangelogChange = [
+			{ table: 'translation_segment', pk: { id: row.id }, columns: { retranslate: { old: false, new: true } } },
+		]
+		await client.query(
+			`INSERT INTO changelog (website_id, account_id, type, change)
+			 VALUES ($1, $2, $3, $4)`,
+			[websiteId, accountId, 'segment', JSON.stringify(change)]
+		)
+
+		await purgeSegmentPages(client, websiteSegmentId)
+
+		await client.query('COMMIT')
+		return { success: true }
+	} catch (error) {
+		await client.query('ROLLBACK')
+		console.error('Failed to request segment retranslation:', error)
+		return { success: false, error: 'Failed to request retranslation' }
+	} finally {
+		client.release()
+	}
+}
+
+/**
+ * Get the comment thread for a segment translation, oldest first
+ * @param websiteId - Website ID (for website-segment binding validation)
+ * @param websiteSegmentId - Website segment ID
+ * @param lang - Target language code
+ */
+export async function getSegmentComments(
+	websiteId: number,
+	websiteSegmentId: number,
+	lang: string
+): Promise<SegmentComment[]> {
+	const result = await pool.query<{
+		id: number
+		account_name: string | null
+		body: string
+		created_at: Date
+	}>(
+		`SELECT sc.id, COALESCE(a.name, a.email) as account_name, sc.body, sc.created_at
+		 FROM segment_comment sc
+		 JOIN translation_segment ts ON ts.id = sc.translation_segment_id
+		 JOIN website_segment ws ON ws.id = ts.website_segment_id
+		 LEFT JOIN account a ON a.id = sc.account_id
+		 WHERE ts.website_segment_id = $1 AND ts.lang = $2 AND ws.website_id = $3
+		 ORDER BY sc.created_at, sc.id`,
+		[websiteSegmentId, lang, websiteId]
+	)
+
+	return result.rows.map((row) => ({
+		id: row.id,
+		accountName: row.account_name,
+		body: row.body,
+		createdAt: row.created_at,
+	}))
+}
+
+/**
+ * Add a comment to a segment translation's thread
+ * Note: Authorization should be checked separately with canAccessWebsite()
+ * @param websiteId - Website ID (for website-segment binding validation)
+ * @param websiteSegmentId - Website segment ID
+ * @param lang - Target language code
+ * @param body - Comment text
+ * @param accountId - Commenting account
+ * @returns Success status
+ */
+export async function addSegmentComment(
+	websiteId: number,
+	websiteSegmentId: number,
+	lang: string,
+	body: string,
+	accountId: number
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const result = await pool.query(
+			`INSERT INTO segment_comment (translation_segment_id, account_id, body)
+			 SELECT ts.id, $4, $5
+			 FROM translation_segment ts
+			 JOIN website_segment ws ON ws.id = ts.website_segment_id
+			 WHERE ts.website_segment_id = $1 AND ts.lang = $2 AND ws.website_id = $3`,
+			[websiteSegmentId, lang, websiteId, accountId, body]
+		)
+		if ((result.rowCount ?? 0) === 0) {
+			return { success: false, error: 'Segment not found' }
+		}
+		return { success: true }
+	} catch (error) {
+		console.error('Failed to add segment comment:', error)
+		return { success: false, error: 'Failed to add comment' }
+	}
+}
@@ -25,7 +25,7 @@ export interface TranslationItem {
  * @param websiteId - Website ID from getTranslationConfig()
  * @param lang - Target language code
  * @param texts - Array of normalized text strings to look up
- * @returns Map of original text -> translated text (only cache hits)
+ * @returns Map of original text -> translated text (only cache hits; segments awaiting retranslation are misses)
  *
  * SQL: 1 query joining website_segment -> translation_segment
  */
@@ -51,7 +51,8 @@ export async function batchGetTranslations(
 			JOIN translation_segment ts ON ts.website_segment_id = ws.id
 			WHERE ws.website_id = $1
 			  AND ts.lang = $2
-			  AND ws.text_hash = ANY($3::text[])`,
+			  AND ws.text_hash = ANY($3::text[])
+			  AND ts.retranslate_requested_at IS NULL`,
 			[websiteId, lang, hashes]
 		)
 
@@ -71,6 +72,8 @@ export async function batchGetTranslations(
 /**
  * Batch insert/update translations
  * Two-step upsert: website_segment first, then translated_segment
+ * Existing translations are kept, except those awaiting retranslation: their text is replaced and
+ * their review status goes back to machine (created_at restarts so deferred polling picks them up)
  *
  * @param websiteId - Website ID
  * @param lang - Target language code
@@ -121,7 +124,14 @@ export async function batchUpsertTranslations(
 			SELECT ws.id, $2, t.translated
 			FROM unnest($3::text[], $4::text[]) AS t(hash, translated)
 			JOIN website_segment ws ON ws.website_id = $1 AND ws.text_hash = t.hash
-			ON CONFLICT (website_segment_id, lang) DO NOTHING
+			ON CONFLICT (website_segment_id, lang) DO UPDATE
+			SET translated_text = EXCLUDED.translated_text,
+			    status = 'machine',
+			    reviewed_at = NULL,
+			    retranslate_requested_at = NULL,
+			    created_at = NOW(),
+			    updated_at = NOW()
+			WHERE translation_segment.retranslate_requested_at IS NOT NULL
 			RETURNING id, (SELECT text_hash FROM website_segment WHERE id = website_segment_id) AS text_hash`,
 			[websiteId, lang, hashes, translated]
 		)
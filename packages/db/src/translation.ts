@@ -4,6 +4,16 @@
  */
 
 import { pool } from './pool.js'
+import { getGlossaryTerms, type GlossaryTerm } from './glossary.js'
+import { getImageOverrides, type ImageOverride } from './images.js'
+import type {
+	RobotsPolicy,
+	TranslationFormality,
+	TranslationProviderName,
+	TranslationProviderSettings,
+	TranslationStyle,
+	TranslationTone,
+} from './types.js'
 
 /**
  * Translation configuration from database
@@ -18,8 +28,21 @@ export interface TranslationConfig {
 	skipWords: string[]
 	skipPath: (string | RegExp)[]
 	skipSelectors: string[] // CSS selectors for elements to skip during translation
+	translateAttrs: string[] // website.translate_attrs - extra attributes to translate (attr or selector@attr)
+	translateJson: string[] // website.translate_json - JSON paths into embedded JSON state (root.key.key)
+	translateApi: string[] // website.translate_api - JSON API rules ("<path pattern> <json path>")
 	translatePath: boolean
+	pageCache: boolean // website.page_cache - keep rendered pages in memory (see http/page-cache.ts)
+	pageCacheVary: string[] // website.page_cache_vary - extra cache key inputs (cookie:<name> or header:<name>)
+	staleIfError: boolean // website.stale_if_error - serve the last good render on origin errors (see http/stale-pages.ts)
+	originTimeout: number | null // website.origin_timeout - GET/HEAD page fetch timeout in ms (null = none, or TIMEOUT_FETCHER with staleIfError)
 	cacheDisabledUntil: Date | null // website.cache_disabled_until - dev override for caching
+	provider: TranslationProviderSettings // website.translation_provider/model/endpoint
+	tone: TranslationTone // translation.style/formality/brand_voice
+	glossary: GlossaryTerm[] // glossary_term rows for website + target language
+	robots: RobotsPolicy // translation.robots - search indexing override for the language host
+	imageOverrides: ImageOverride[] // image_override rows for website + target language
+	loadedAt: Date // when the config was read (served from cache for up to TRANSLATION_CACHE_TTL)
 }
 
 // In-memory cache for hot path (translation config rarely changes)
@@ -51,6 +74,56 @@ function parseSkipPath(dbArray: string[] | null): (string | RegExp)[] {
 		.filter((p): p is string | RegExp => p !== null)
 }
 
+const PROVIDER_NAMES = new Set<TranslationProviderName>(['openrouter', 'anthropic', 'openai', 'deepl', 'mock'])
+const DEFAULT_PROVIDER: TranslationProviderName = 'openrouter'
+
+/**
+ * Parse translation provider columns from database format
+ * Unknown provider names fall back to the default provider
+ */
+function parseProvider(name: string | null, model: string | null, endpoint: string | null): TranslationProviderSettings {
+	let providerName = DEFAULT_PROVIDER
+	if (name && PROVIDER_NAMES.has(name as TranslationProviderName)) {
+		providerName = name as TranslationProviderName
+	} else if (name) {
+		console.warn(`Unknown translation provider "${name}", using ${DEFAULT_PROVIDER}`)
+	}
+
+	return {
+		name: providerName,
+		model: model || null,
+		endpoint: endpoint || null,
+	}
+}
+
+const STYLES = new Set<TranslationStyle>(['literal', 'balanced', 'natural'])
+const FORMALITIES = new Set<TranslationFormality>(['default', 'formal', 'informal'])
+
+/**
+ * Parse tone columns from database format
+ * Unknown values fall back to defaults (balanced, default formality)
+ */
+export function parseTone(style: string | null, formality: string | null, brandVoice: string | null): TranslationTone {
+	return {
+		style: style && STYLES.has(style as TranslationStyle) ? (style as TranslationStyle) : 'balanced',
+		formality:
+			formality && FORMALITIES.has(formality as TranslationFormality)
+				? (formality as TranslationFormality)
+				: 'default',
+		brandVoice: brandVoice?.trim() || null,
+	}
+}
+
+const ROBOTS_POLICIES = new Set<RobotsPolicy>(['origin', 'index', 'noindex'])
+
+/**
+ * Parse robots policy column from database format
+ * Unknown values fall back to 'origin' (keep the origin's directives)
+ */
+export function parseRobotsPolicy(robots: string | null): RobotsPolicy {
+	return robots && ROBOTS_POLICIES.has(robots as RobotsPolicy) ? (robots as RobotsPolicy) : 'origin'
+}
+
 /**
  * Get translation configuration by hostname
  * Uses in-memory cache to avoid DB hit on every request
@@ -76,8 +149,22 @@ export async function getTranslationConfig(hostname: string): Promise<Translatio
 			skip_words: string[] | null
 			skip_path: string[] | null
 			skip_selectors: string[] | null
+			translate_attrs: string[] | null
+			translate_json: string[] | null
+			translate_api: string[] | null
 			translate_path: boolean | null
+			page_cache: boolean | null
+			page_cache_vary: string[] | null
+			stale_if_error: boolean | null
+			origin_timeout: number | null
 			cache_disabled_until: Date | null
+			translation_provider: string | null
+			translation_model: string | null
+			translation_endpoint: string | null
+			style: string | null
+			formality: string | null
+			brand_voice: string | null
+			robots: string | null
 			website_hostname: string
 			source_lang: string
 		}>(
@@ -88,8 +175,22 @@ export async function getTranslationConfig(hostname: string): Promise<Translatio
 				w.skip_words,
 				w.skip_path,
 				w.skip_selectors,
+				w.translate_attrs,
+				w.translate_json,
+				w.translate_api,
 				w.translate_path,
+				w.page_cache,
+				w.page_cache_vary,
+				w.stale_if_error,
+				w.origin_timeout,
 				w.cache_disabled_until,
+				w.translation_provider,
+				w.translation_model,
+				w.translation_endpoint,
+				t.style,
+				t.formality,
+				t.brand_voice,
+				t.robots,
 				w.hostname AS website_hostname,
 				w.source_lang
 			FROM translation t
@@ -105,6 +206,10 @@ export async function getTranslationConfig(hostname: string): Promise<Translatio
 		}
 
 		const row = result.rows[0]
+		const [glossary, imageOverrides] = await Promise.all([
+			getGlossaryTerms(row.website_id, row.target_lang),
+			getImageOverrides(row.website_id, row.target_lang),
+		])
 		const config: TranslationConfig = {
 			translationId: row.translation_id,
 			websiteId: row.website_id,
@@ -114,8 +219,21 @@ export async function getTranslationConfig(hostname: string): Promise<Translatio
 			skipWords: row.skip_words || [],
 			skipPath: parseSkipPath(row.skip_path),
 			skipSelectors: row.skip_selectors || [],
+			translateAttrs: row.translate_attrs || [],
+			translateJson: row.translate_json || [],
+			translateApi: row.translate_api || [],
 			translatePath: row.translate_path ?? true,
+			pageCache: row.page_cache ?? false,
+			pageCacheVary: row.page_cache_vary || [],
+			staleIfError: row.stale_if_error ?? false,
+			originTimeout: row.origin_timeout,
 			cacheDisabledUntil: row.cache_disabled_until,
+			provider: parseProvider(row.translation_provider, row.translation_model, row.translation_endpoint),
+			tone: parseTone(row.style, row.formality, row.brand_voice),
+			glossary,
+			robots: parseRobotsPolicy(row.robots),
+			imageOverrides,
+			loadedAt: new Date(now),
 		}
 
 		// Cache the result
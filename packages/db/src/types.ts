@@ -23,3 +23,40 @@ export interface LlmUsageRecord {
 	cost: number
 	apiCalls: number
 }
+
+// Translation provider types
+
+/** Translation provider - add new values when providers are built */
+export type TranslationProviderName = 'openrouter' | 'anthropic' | 'openai' | 'deepl' | 'mock'
+
+/** Per-website translation provider selection */
+export interface TranslationProviderSettings {
+	name: TranslationProviderName
+	model: string | null // null = provider default model
+	endpoint: string | null // null = provider default endpoint (override for self-hosted or local stand-in servers)
+}
+
+// Translation tone types
+
+/** Translation style - how closely to follow source wording */
+export type TranslationStyle = 'literal' | 'balanced' | 'natural'
+
+/** Formality of address (tú/usted, du/Sie) - 'default' follows the style */
+export type TranslationFormality = 'default' | 'formal' | 'informal'
+
+/** Per-language tone settings (translation.style/formality/brand_voice) */
+export interface TranslationTone {
+	style: TranslationStyle
+	formality: TranslationFormality
+	brandVoice: string | null // free-text notes, e.g. "Friendly, concise, no exclamation marks"
+}
+
+// Search indexing types
+
+/**
+ * Per-language robots policy for the translated host (translation.robots)
+ * - origin: keep the origin's robots meta / X-Robots-Tag directives
+ * - index: drop noindex so the language host is indexed even if the origin isn't
+ * - noindex: always noindex (e.g. while a language is still being reviewed)
+ */
+export type RobotsPolicy = 'origin' | 'index' | 'noindex'